@@ -4,14 +4,22 @@ import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import LoginPage from "@/pages/auth/login";
 import RegisterPage from "@/pages/auth/register";
+import ForgotPasswordPage from "@/pages/auth/forgot-password";
+import ResetPasswordPage from "@/pages/auth/reset-password";
+import ChangePasswordPage from "@/pages/auth/change-password";
+import SsoCallbackPage from "@/pages/auth/sso-callback";
 import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import AdminPortal from "@/pages/admin";
+import SeatScanPage from "@/pages/seat";
+import QrSheetPage from "@/pages/qr-sheet";
 import NotFound from "@/pages/not-found";
 import type { Role } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
+import { getLoginRedirect } from "@/lib/auth-utils";
 
 function LoadingScreen() {
   return (
@@ -45,7 +53,9 @@ function ProtectedRoute({ children, role }: { children: React.ReactNode; role?:
   }
 
   if (!user) {
-    return <Redirect to="/login" />;
+    // Remember deep links (e.g. scanned seat QR codes) so login can return to them
+    const next = `${location}${window.location.search}`;
+    return <Redirect to={location === "/" ? "/login" : `/login?next=${encodeURIComponent(next)}`} />;
   }
 
   if (role && roleLoading) {
@@ -69,14 +79,30 @@ function AuthenticatedApp() {
 
   const role = userRole?.role || "employee";
 
+  useLiveUpdates(!!user);
+
   return (
     <Switch>
+      <Route path="/login/sso">
+        <SsoCallbackPage />
+      </Route>
       <Route path="/login">
-        {user ? <Redirect to="/" /> : <LoginPage />}
+        {user ? <Redirect to={getLoginRedirect()} /> : <LoginPage />}
       </Route>
       <Route path="/register">
         {user ? <Redirect to="/" /> : <RegisterPage />}
       </Route>
+      <Route path="/forgot-password">
+        {user ? <Redirect to="/" /> : <ForgotPasswordPage />}
+      </Route>
+      <Route path="/reset-password">
+        {user ? <Redirect to="/" /> : <ResetPasswordPage />}
+      </Route>
+      <Route path="/change-password">
+        <ProtectedRoute>
+          <ChangePasswordPage userRole={role} />
+        </ProtectedRoute>
+      </Route>
       <Route path="/">
         {user ? <Dashboard userRole={role} /> : <Landing />}
       </Route>
@@ -90,6 +116,18 @@ function AuthenticatedApp() {
           <AdminPortal />
         </ProtectedRoute>
       </Route>
+      <Route path="/admin/qr-sheet">
+        <ProtectedRoute role="admin">
+          <QrSheetPage />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/seat/:id">
+        {(params) => (
+          <ProtectedRoute>
+            <SeatScanPage seatId={decodeURIComponent(params.id)} userRole={role} />
+          </ProtectedRoute>
+        )}
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
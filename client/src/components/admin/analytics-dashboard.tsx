@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { format, parseISO, startOfToday, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { SeatHeatmap } from "@/components/admin/seat-heatmap";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BarChart3 } from "lucide-react";
+import type {
+  AnalyticsPeriod,
+  AnalyticsSummary,
+  ClusterUtilisation,
+  LeadTimeBucket,
+  MonitorDemand,
+  OccupancyPoint,
+  SeatUtilisation,
+  WeekdayDemand,
+} from "@shared/schema";
+
+const RANGES = [
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last 12 months" },
+];
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+// Monday first, as the office week runs
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const occupancyConfig = {
+  occupancy: { label: "Occupancy", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const bookingsConfig = {
+  bookings: { label: "Bookings", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+function formatPercent(value: number | null): string {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+// Recharts plots percentages; null occupancy (nothing bookable) is drawn as no bar
+function toPercent(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 1000) / 10;
+}
+
+function formatPeriod(period: string, groupBy: AnalyticsPeriod): string {
+  const date = parseISO(period);
+  if (groupBy === "month") return format(date, "MMM yyyy");
+  return format(date, "MMM d");
+}
+
+function StatTile({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="p-4 rounded-lg bg-muted/50 text-center">
+      <p className="text-2xl font-bold">{value}</p>
+      <p className="text-sm text-muted-foreground">{label}</p>
+      {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+function ChartCard({ title, description, children }: { title: string; description?: string; children: React.ReactNode }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+// Occupancy, demand and booking behaviour over a recent period, for one floor or the whole office
+export function AnalyticsDashboard({ floorId }: { floorId?: string }) {
+  const [range, setRange] = useState("90");
+  const [groupBy, setGroupBy] = useState<AnalyticsPeriod>("week");
+  const [scope, setScope] = useState<"floor" | "all">("floor");
+
+  const today = startOfToday();
+  const query = {
+    from: format(subDays(today, Number(range) - 1), "yyyy-MM-dd"),
+    to: format(today, "yyyy-MM-dd"),
+    floorId: scope === "floor" ? floorId : undefined,
+  };
+  const enabled = scope === "all" || !!floorId;
+  const options = { enabled, placeholderData: keepPreviousData };
+
+  const { data: summary, isLoading: summaryLoading } = useQuery<AnalyticsSummary>({
+    queryKey: ["/api/analytics/summary", query],
+    ...options,
+  });
+  const { data: trend = [] } = useQuery<OccupancyPoint[]>({
+    queryKey: ["/api/analytics/occupancy", { ...query, groupBy }],
+    ...options,
+  });
+  const { data: weekdays = [] } = useQuery<WeekdayDemand[]>({
+    queryKey: ["/api/analytics/weekdays", query],
+    ...options,
+  });
+  const { data: clusters = [] } = useQuery<ClusterUtilisation[]>({
+    queryKey: ["/api/analytics/clusters", query],
+    ...options,
+  });
+  const { data: seats = [] } = useQuery<SeatUtilisation[]>({
+    queryKey: ["/api/analytics/seats", query],
+    ...options,
+  });
+  const { data: monitors = [] } = useQuery<MonitorDemand[]>({
+    queryKey: ["/api/analytics/monitors", query],
+    ...options,
+  });
+  const { data: leadTimes = [] } = useQuery<LeadTimeBucket[]>({
+    queryKey: ["/api/analytics/lead-time", query],
+    ...options,
+  });
+
+  const trendData = trend.map(point => ({
+    label: formatPeriod(point.period, groupBy),
+    occupancy: toPercent(point.occupancy),
+  }));
+  // Days the office is never open, such as excluded weekends, are left off
+  const weekdayData = WEEKDAY_ORDER
+    .map(day => weekdays.find(w => w.weekday === day))
+    .filter((w): w is WeekdayDemand => !!w && w.capacity > 0)
+    .map(w => ({ label: WEEKDAY_NAMES[w.weekday], occupancy: toPercent(w.occupancy) }));
+  const clusterData = clusters
+    .filter(c => c.capacity > 0)
+    .map(c => ({ label: c.label, occupancy: toPercent(c.occupancy) }));
+  const monitorData = monitors.map(m => ({
+    label: `${m.hasMonitor ? "With" : "Without"} monitor (${m.seats})`,
+    occupancy: toPercent(m.occupancy),
+  }));
+  const leadTimeData = leadTimes.map(b => ({ label: b.label, bookings: b.bookings }));
+  const leastUsedSeats = seats
+    .filter(s => s.bookable)
+    .sort((a, b) => (a.occupancy ?? 0) - (b.occupancy ?? 0) || a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+  const percentAxis = <YAxis domain={[0, 100]} tickFormatter={(v) => `${v}%`} width={40} />;
+  const percentTooltip = (
+    <ChartTooltip content={<ChartTooltipContent formatter={(value) => `${value}%`} />} />
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-col gap-4 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Utilisation
+            </CardTitle>
+            <CardDescription>
+              Occupancy is booked half-days out of the half-days bookable on open days, using the current seats.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={scope} onValueChange={(value) => setScope(value as "floor" | "all")}>
+              <SelectTrigger className="w-[140px]" data-testid="select-analytics-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="floor">This floor</SelectItem>
+                <SelectItem value="all">All floors</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={range} onValueChange={setRange}>
+              <SelectTrigger className="w-[160px]" data-testid="select-analytics-range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map(r => (
+                  <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={groupBy} onValueChange={(value) => setGroupBy(value as AnalyticsPeriod)}>
+              <SelectTrigger className="w-[120px]" data-testid="select-analytics-group">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">By day</SelectItem>
+                <SelectItem value="week">By week</SelectItem>
+                <SelectItem value="month">By month</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {summaryLoading || !summary ? (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              {[1, 2, 3, 4, 5, 6].map(i => (
+                <Skeleton key={i} className="h-20 rounded-lg" />
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              <StatTile label="Occupancy" value={formatPercent(summary.occupancy)} hint={`${summary.bookableSeats} bookable seats`} />
+              <StatTile label="Bookings" value={String(summary.booked)} />
+              <StatTile label="Cancellation Rate" value={formatPercent(summary.cancellationRate)} hint={`${summary.cancelled} cancelled`} />
+              <StatTile label="No-show Rate" value={formatPercent(summary.noShowRate)} hint={`${summary.noShows} released`} />
+              <StatTile
+                label="Average Lead Time"
+                value={summary.averageLeadDays === null ? "–" : `${summary.averageLeadDays.toFixed(1)} days`}
+              />
+              <StatTile label="Never-used Seats" value={String(summary.neverUsedSeats)} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ChartCard title="Occupancy over time">
+        <ChartContainer config={occupancyConfig} className="h-[260px] w-full aspect-auto">
+          <BarChart data={trendData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+            {percentAxis}
+            {percentTooltip}
+            <Bar dataKey="occupancy" fill="var(--color-occupancy)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <ChartCard title="Peak weekdays" description="Average occupancy per weekday">
+          <ChartContainer config={occupancyConfig} className="h-[240px] w-full aspect-auto">
+            <BarChart data={weekdayData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              {percentAxis}
+              {percentTooltip}
+              <Bar dataKey="occupancy" fill="var(--color-occupancy)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Monitor demand" description="Occupancy of desks with and without a monitor">
+          <ChartContainer config={occupancyConfig} className="h-[240px] w-full aspect-auto">
+            <BarChart data={monitorData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              {percentAxis}
+              {percentTooltip}
+              <Bar dataKey="occupancy" fill="var(--color-occupancy)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Occupancy by cluster">
+          <ChartContainer
+            config={occupancyConfig}
+            className="w-full aspect-auto"
+            style={{ height: Math.max(240, clusterData.length * 28) }}
+          >
+            <BarChart data={clusterData} layout="vertical">
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" domain={[0, 100]} tickFormatter={(v) => `${v}%`} />
+              <YAxis type="category" dataKey="label" width={100} tickLine={false} axisLine={false} />
+              {percentTooltip}
+              <Bar dataKey="occupancy" fill="var(--color-occupancy)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Booking lead time" description="How far ahead desks are booked">
+          <ChartContainer config={bookingsConfig} className="h-[240px] w-full aspect-auto">
+            <BarChart data={leadTimeData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="bookings" fill="var(--color-bookings)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+      </div>
+
+      <ChartCard title="Least used seats" description="Bookable seats, emptiest first">
+        <ScrollArea className="h-[320px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Seat</TableHead>
+                <TableHead>Monitor</TableHead>
+                <TableHead className="text-right">Bookings</TableHead>
+                <TableHead className="text-right">Occupancy</TableHead>
+                <TableHead className="text-right">Last Booked</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leastUsedSeats.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No bookable seats
+                  </TableCell>
+                </TableRow>
+              ) : (
+                leastUsedSeats.map(seat => (
+                  <TableRow key={seat.seatId} data-testid={`analytics-seat-${seat.seatId}`}>
+                    <TableCell>
+                      <Badge variant="outline">{seat.name}</Badge>
+                    </TableCell>
+                    <TableCell>{seat.hasMonitor ? "Yes" : "No"}</TableCell>
+                    <TableCell className="text-right">{seat.booked}</TableCell>
+                    <TableCell className="text-right">
+                      {seat.booked === 0 ? <Badge variant="destructive">Never used</Badge> : formatPercent(seat.occupancy)}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {seat.lastBookedDate ? format(parseISO(seat.lastBookedDate), "MMM d, yyyy") : "–"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </ChartCard>
+
+      {floorId && <SeatHeatmap floorId={floorId} from={query.from} to={query.to} />}
+    </div>
+  );
+}
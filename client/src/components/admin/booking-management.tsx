@@ -1,71 +1,139 @@
-import { useState } from "react";
-import { format, parseISO } from "date-fns";
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { addDays, format, parseISO, startOfToday } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { CalendarIcon, Search, X, Sun, Moon, Download } from "lucide-react";
-import type { Booking, Seat } from "@shared/schema";
+import { CalendarIcon, ChevronLeft, ChevronRight, Search, X, Sun, Moon, Download, UserX } from "lucide-react";
+import { MAX_BOOKING_PAGE_SIZE, type Booking, type BookingFilter, type BookingPage, type NoShowStats, type Seat } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
 
+const PAGE_SIZE = 50;
+
+type BookingQuery = Partial<Omit<BookingFilter, "includeCancelled">> & { includeCancelled?: boolean };
+
+// Just the number of bookings matching a filter
+function useBookingCount(filter: BookingQuery) {
+  const { data } = useQuery<BookingPage>({
+    queryKey: ["/api/bookings", { ...filter, limit: 0 }],
+    placeholderData: keepPreviousData,
+  });
+  return data?.total ?? 0;
+}
+
+async function fetchBookingPage(filter: BookingQuery, offset: number): Promise<BookingPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...filter, limit: MAX_BOOKING_PAGE_SIZE, offset })) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const res = await apiRequest("GET", `/api/bookings?${params}`);
+  return res.json();
+}
+
 interface BookingManagementProps {
-  bookings: Booking[];
   seats: Seat[];
+  noShowStats?: NoShowStats[];
   onCancelBooking: (bookingId: string) => void;
   isCancelling?: boolean;
   isLoading?: boolean;
 }
 
 export function BookingManagement({
-  bookings,
   seats,
+  noShowStats = [],
   onCancelBooking,
   isCancelling = false,
   isLoading = false,
 }: BookingManagementProps) {
+  const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
-  const [filterDate, setFilterDate] = useState<Date | undefined>(undefined);
+  const [search, setSearch] = useState("");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(() => ({
+    from: startOfToday(),
+    to: addDays(startOfToday(), 30),
+  }));
+  const [includeCancelled, setIncludeCancelled] = useState(false);
   const [calendarOpen, setCalendarOpen] = useState(false);
+  const [page, setPage] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
 
-  const seatMap = new Map(seats.map(s => [s.id, s]));
+  // Search once typing pauses instead of on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const from = dateRange?.from ? format(dateRange.from, "yyyy-MM-dd") : undefined;
+  const to = dateRange?.to ? format(dateRange.to, "yyyy-MM-dd") : from;
+  const filter: BookingQuery = { from, to, search: search || undefined, includeCancelled: includeCancelled || undefined };
+
+  useEffect(() => setPage(0), [from, to, search, includeCancelled]);
 
-  // Filter bookings
-  const filteredBookings = bookings
-    .filter(b => !b.cancelledAt)
-    .filter(b => {
-      const matchesSearch =
-        b.userName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        b.userEmail?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        seatMap.get(b.seatId)?.name.toLowerCase().includes(searchQuery.toLowerCase());
-      
-      const matchesDate = !filterDate || b.date === format(filterDate, "yyyy-MM-dd");
-      
-      return matchesSearch && matchesDate;
-    })
-    .sort((a, b) => b.date.localeCompare(a.date));
+  const { data: bookingPage, isLoading: bookingsLoading } = useQuery<BookingPage>({
+    queryKey: ["/api/bookings", { ...filter, limit: PAGE_SIZE, offset: page * PAGE_SIZE }],
+    placeholderData: keepPreviousData,
+  });
+  const bookings = bookingPage?.bookings ?? [];
+  const total = bookingPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
+  const todayDate = format(new Date(), "yyyy-MM-dd");
   const stats = {
-    total: bookings.filter(b => !b.cancelledAt).length,
-    today: bookings.filter(b => !b.cancelledAt && b.date === format(new Date(), "yyyy-MM-dd")).length,
-    amSlots: bookings.filter(b => !b.cancelledAt && b.slot === "AM").length,
-    pmSlots: bookings.filter(b => !b.cancelledAt && b.slot === "PM").length,
+    total: useBookingCount({ from, to }),
+    today: useBookingCount({ from: todayDate, to: todayDate }),
+    amSlots: useBookingCount({ from, to, slot: "AM" }),
+    pmSlots: useBookingCount({ from, to, slot: "PM" }),
   };
 
-  const handleExport = () => {
-    const csvData = filteredBookings.map(b => ({
+  const seatMap = new Map(seats.map(s => [s.id, s]));
+
+  const noShowRanking = noShowStats
+    .filter(s => s.noShows > 0)
+    .sort((a, b) => b.noShowRate - a.noShowRate || b.noShows - a.noShows);
+
+  // Exports every booking matching the filters, not just the page on screen
+  const handleExport = async () => {
+    setIsExporting(true);
+    const matching: Booking[] = [];
+    try {
+      let result: BookingPage;
+      do {
+        result = await fetchBookingPage(filter, matching.length);
+        matching.push(...result.bookings);
+      } while (result.bookings.length > 0 && matching.length < result.total);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setIsExporting(false);
+    }
+
+    const csvData = matching.map(b => ({
       Date: b.date,
       Slot: b.slot,
       Seat: seatMap.get(b.seatId)?.name || b.seatId,
       User: b.userName || b.userEmail || "Unknown",
       Email: b.userEmail || "",
       BookedAt: b.createdAt ? format(new Date(b.createdAt), "yyyy-MM-dd HH:mm") : "",
+      CheckedInAt: b.checkedInAt ? format(new Date(b.checkedInAt), "yyyy-MM-dd HH:mm") : "",
+      CancelledAt: b.cancelledAt ? format(new Date(b.cancelledAt), "yyyy-MM-dd HH:mm") : "",
     }));
 
-    const headers = ["Date", "Slot", "Seat", "User", "Email", "BookedAt"];
+    const headers = ["Date", "Slot", "Seat", "User", "Email", "BookedAt", "CheckedInAt", "CancelledAt"];
     const csv = [
       headers.join(","),
       ...csvData.map(row => headers.map(h => `"${row[h as keyof typeof row] || ""}"`).join(",")),
@@ -75,7 +143,7 @@ export function BookingManagement({
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `bookings-${format(new Date(), "yyyy-MM-dd")}.csv`;
+    a.download = from ? `bookings-${from}-to-${to}.csv` : `bookings-${format(new Date(), "yyyy-MM-dd")}.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -107,9 +175,15 @@ export function BookingManagement({
     <Card>
       <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
         <CardTitle>All Bookings</CardTitle>
-        <Button variant="outline" size="sm" onClick={handleExport} data-testid="button-export">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={isExporting || total === 0}
+          data-testid="button-export"
+        >
           <Download className="h-4 w-4 mr-2" />
-          Export CSV
+          {isExporting ? "Exporting..." : "Export CSV"}
         </Button>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -117,7 +191,7 @@ export function BookingManagement({
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="p-4 rounded-lg bg-muted/50 text-center">
             <p className="text-2xl font-bold">{stats.total}</p>
-            <p className="text-sm text-muted-foreground">Total Bookings</p>
+            <p className="text-sm text-muted-foreground">In Range</p>
           </div>
           <div className="p-4 rounded-lg bg-primary/10 text-center">
             <p className="text-2xl font-bold text-primary">{stats.today}</p>
@@ -133,6 +207,49 @@ export function BookingManagement({
           </div>
         </div>
 
+        {/* No-show rate per user */}
+        {noShowRanking.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <UserX className="h-4 w-4" />
+              <span>No-shows by user</span>
+            </div>
+            <ScrollArea className="max-h-[200px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead className="text-right">Bookings</TableHead>
+                    <TableHead className="text-right">Checked In</TableHead>
+                    <TableHead className="text-right">No-shows</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {noShowRanking.map(stat => (
+                    <TableRow key={stat.userId} data-testid={`no-show-row-${stat.userId}`}>
+                      <TableCell>
+                        <p className="font-medium">{stat.userName || stat.userEmail || "Unknown"}</p>
+                        {stat.userName && stat.userEmail && (
+                          <p className="text-xs text-muted-foreground">{stat.userEmail}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{stat.totalBookings}</TableCell>
+                      <TableCell className="text-right">{stat.checkedIn}</TableCell>
+                      <TableCell className="text-right">{stat.noShows}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={stat.noShowRate >= 0.25 ? "destructive" : "outline"}>
+                          {Math.round(stat.noShowRate * 100)}%
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+
         {/* Filters */}
         <div className="flex flex-col sm:flex-row gap-3">
           <div className="relative flex-1">
@@ -147,33 +264,47 @@ export function BookingManagement({
           </div>
           <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
             <PopoverTrigger asChild>
-              <Button variant="outline" className="w-[200px] justify-start" data-testid="button-filter-date">
+              <Button variant="outline" className="w-[240px] justify-start" data-testid="button-filter-date">
                 <CalendarIcon className="mr-2 h-4 w-4" />
-                {filterDate ? format(filterDate, "MMM d, yyyy") : "Filter by date"}
+                {dateRange?.from
+                  ? dateRange.to
+                    ? `${format(dateRange.from, "MMM d")} – ${format(dateRange.to, "MMM d, yyyy")}`
+                    : format(dateRange.from, "MMM d, yyyy")
+                  : "All dates"}
               </Button>
             </PopoverTrigger>
             <PopoverContent className="w-auto p-0" align="end">
               <Calendar
-                mode="single"
-                selected={filterDate}
-                onSelect={(date) => {
-                  setFilterDate(date);
-                  setCalendarOpen(false);
-                }}
+                mode="range"
+                selected={dateRange}
+                onSelect={setDateRange}
+                defaultMonth={dateRange?.from}
+                numberOfMonths={2}
                 initialFocus
               />
             </PopoverContent>
           </Popover>
-          {filterDate && (
+          {dateRange && (
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => setFilterDate(undefined)}
+              onClick={() => setDateRange(undefined)}
               data-testid="button-clear-date-filter"
             >
               <X className="h-4 w-4" />
             </Button>
           )}
+          <div className="flex items-center gap-2">
+            <Switch
+              id="include-cancelled"
+              checked={includeCancelled}
+              onCheckedChange={setIncludeCancelled}
+              data-testid="switch-include-cancelled"
+            />
+            <Label htmlFor="include-cancelled" className="text-sm whitespace-nowrap">
+              Show cancelled
+            </Label>
+          </div>
         </div>
 
         {/* Bookings Table */}
@@ -190,14 +321,20 @@ export function BookingManagement({
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredBookings.length === 0 ? (
+              {bookingsLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6}>
+                    <Skeleton className="h-12 w-full" />
+                  </TableCell>
+                </TableRow>
+              ) : bookings.length === 0 ? (
                 <TableRow>
                   <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
                     No bookings found
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredBookings.map((booking) => {
+                bookings.map((booking) => {
                   const seat = seatMap.get(booking.seatId);
                   return (
                     <TableRow key={booking.id} data-testid={`booking-row-${booking.id}`}>
@@ -236,16 +373,20 @@ export function BookingManagement({
                           : "-"}
                       </TableCell>
                       <TableCell className="text-right">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="text-destructive hover:text-destructive"
-                          onClick={() => onCancelBooking(booking.id)}
-                          disabled={isCancelling}
-                          data-testid={`button-cancel-booking-${booking.id}`}
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
+                        {booking.cancelledAt ? (
+                          <Badge variant="secondary">Cancelled</Badge>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => onCancelBooking(booking.id)}
+                            disabled={isCancelling}
+                            data-testid={`button-cancel-booking-${booking.id}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   );
@@ -254,6 +395,37 @@ export function BookingManagement({
             </TableBody>
           </Table>
         </ScrollArea>
+
+        <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+          <span>
+            {total === 0
+              ? "No bookings"
+              : `${page * PAGE_SIZE + 1}–${Math.min((page + 1) * PAGE_SIZE, total)} of ${total}`}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setPage(p => p - 1)}
+              disabled={page === 0}
+              data-testid="button-previous-page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page + 1 >= pageCount}
+              data-testid="button-next-page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, Save } from "lucide-react";
+import type { BookingPolicies as BookingPoliciesSettings, UpdateBookingPolicies } from "@shared/schema";
+
+interface PolicyForm {
+  maxDaysInAdvance: string;
+  maxBookingsPerWeek: string;
+  maxSeatsPerSlot: string;
+  blockPastDates: boolean;
+  excludeWeekends: boolean;
+}
+
+function toForm(policies: BookingPoliciesSettings): PolicyForm {
+  return {
+    maxDaysInAdvance: policies.maxDaysInAdvance?.toString() ?? "",
+    maxBookingsPerWeek: policies.maxBookingsPerWeek?.toString() ?? "",
+    maxSeatsPerSlot: policies.maxSeatsPerSlot?.toString() ?? "",
+    blockPastDates: policies.blockPastDates,
+    excludeWeekends: policies.excludeWeekends,
+  };
+}
+
+// Empty inputs mean "no limit"
+function toLimit(value: string): number | null {
+  return value.trim() === "" ? null : parseInt(value, 10);
+}
+
+export function BookingPolicies() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PolicyForm | null>(null);
+
+  const { data: policies, isLoading } = useQuery<BookingPoliciesSettings>({
+    queryKey: ["/api/booking-policies"],
+  });
+
+  useEffect(() => {
+    if (policies) setForm(toForm(policies));
+  }, [policies]);
+
+  const updatePoliciesMutation = useMutation({
+    mutationFn: async (updates: UpdateBookingPolicies) => {
+      const res = await apiRequest("PATCH", "/api/booking-policies", updates);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Policies saved",
+        description: "New bookings will follow the updated rules.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-policies"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save policies",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !form) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Booking Policies</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {[1, 2, 3, 4].map(i => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const update = (changes: Partial<PolicyForm>) => setForm({ ...form, ...changes });
+
+  const handleSave = () => {
+    updatePoliciesMutation.mutate({
+      maxDaysInAdvance: toLimit(form.maxDaysInAdvance),
+      maxBookingsPerWeek: toLimit(form.maxBookingsPerWeek),
+      maxSeatsPerSlot: toLimit(form.maxSeatsPerSlot),
+      blockPastDates: form.blockPastDates,
+      excludeWeekends: form.excludeWeekends,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Booking Policies</CardTitle>
+            <CardDescription>
+              Rules applied to every new booking, bulk booking, recurring booking and waitlist entry
+            </CardDescription>
+          </div>
+          <Button onClick={handleSave} disabled={updatePoliciesMutation.isPending} data-testid="button-save-policies">
+            {updatePoliciesMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Limits */}
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="max-days-in-advance">Max days in advance</Label>
+            <Input
+              id="max-days-in-advance"
+              type="number"
+              min={0}
+              placeholder="No limit"
+              value={form.maxDaysInAdvance}
+              onChange={(e) => update({ maxDaysInAdvance: e.target.value })}
+              data-testid="input-max-days-in-advance"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-bookings-per-week">Max bookings per user per week</Label>
+            <Input
+              id="max-bookings-per-week"
+              type="number"
+              min={0}
+              placeholder="No limit"
+              value={form.maxBookingsPerWeek}
+              onChange={(e) => update({ maxBookingsPerWeek: e.target.value })}
+              data-testid="input-max-bookings-per-week"
+            />
+            <p className="text-xs text-muted-foreground">Each AM or PM slot counts as one booking.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-seats-per-slot">Max seats per user per slot</Label>
+            <Input
+              id="max-seats-per-slot"
+              type="number"
+              min={1}
+              placeholder="No limit"
+              value={form.maxSeatsPerSlot}
+              onChange={(e) => update({ maxSeatsPerSlot: e.target.value })}
+              data-testid="input-max-seats-per-slot"
+            />
+          </div>
+        </div>
+
+        {/* Date rules */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="block-past-dates">No bookings in the past</Label>
+              <p className="text-xs text-muted-foreground">Reject bookings for dates before today.</p>
+            </div>
+            <Switch
+              id="block-past-dates"
+              checked={form.blockPastDates}
+              onCheckedChange={(checked) => update({ blockPastDates: checked })}
+              data-testid="switch-block-past-dates"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="exclude-weekends">Exclude weekends</Label>
+              <p className="text-xs text-muted-foreground">Reject bookings on Saturdays and Sundays.</p>
+            </div>
+            <Switch
+              id="exclude-weekends"
+              checked={form.excludeWeekends}
+              onCheckedChange={(checked) => update({ excludeWeekends: checked })}
+              data-testid="switch-exclude-weekends"
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, Upload, Loader2 } from "lucide-react";
+import type { Closure, ClosureType, CreateClosure } from "@shared/schema";
+
+interface ClosureSummary {
+  cancelledBookings: number;
+  cancelledWaitlistEntries: number;
+}
+
+function formatRange(closure: Closure): string {
+  const start = format(parseISO(closure.startDate), "MMM d, yyyy");
+  if (closure.startDate === closure.endDate) return start;
+  return `${start} – ${format(parseISO(closure.endDate), "MMM d, yyyy")}`;
+}
+
+function describeCancellations(summary: ClosureSummary): string {
+  if (summary.cancelledBookings === 0 && summary.cancelledWaitlistEntries === 0) {
+    return "No existing bookings were affected.";
+  }
+  return `${summary.cancelledBookings} booking(s) and ${summary.cancelledWaitlistEntries} waitlist entr${
+    summary.cancelledWaitlistEntries === 1 ? "y" : "ies"
+  } cancelled. Affected users have been notified.`;
+}
+
+export function ClosureManagement() {
+  const { toast } = useToast();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const [addOpen, setAddOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<ClosureType>("shutdown");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [slot, setSlot] = useState<"all" | "AM" | "PM">("all");
+
+  const [importOpen, setImportOpen] = useState(false);
+  const [icsContent, setIcsContent] = useState("");
+  const [icsUrl, setIcsUrl] = useState("");
+
+  const { data: closures = [], isLoading } = useQuery<Closure[]>({
+    queryKey: ["/api/closures"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/closures"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+  };
+
+  const resetAddForm = () => {
+    setName("");
+    setType("shutdown");
+    setStartDate(today);
+    setEndDate(today);
+    setSlot("all");
+  };
+
+  const createClosureMutation = useMutation({
+    mutationFn: async (data: CreateClosure) => {
+      const res = await apiRequest("POST", "/api/closures", data);
+      return res.json() as Promise<ClosureSummary>;
+    },
+    onSuccess: (summary) => {
+      toast({ title: "Closure added", description: describeCancellations(summary) });
+      invalidate();
+      setAddOpen(false);
+      resetAddForm();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add closure", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (data: { ics?: string; url?: string }) => {
+      const res = await apiRequest("POST", "/api/closures/import", { ...data, type: "holiday" });
+      return res.json() as Promise<ClosureSummary & {
+        imported: number;
+        skipped: number;
+        pastEvents: number;
+        unsupportedRecurring: string[];
+      }>;
+    },
+    onSuccess: (summary) => {
+      const notes = [
+        summary.skipped > 0 ? `${summary.skipped} already existed.` : "",
+        summary.pastEvents > 0 ? `${summary.pastEvents} already over.` : "",
+        summary.unsupportedRecurring.length > 0
+          ? `Left out recurring events with unsupported rules: ${summary.unsupportedRecurring.join(", ")}.`
+          : "",
+      ].filter(Boolean);
+      toast({
+        title: `Imported ${summary.imported} holiday(s)`,
+        description: `${notes.map(note => `${note} `).join("")}${describeCancellations(summary)}`,
+      });
+      invalidate();
+      setImportOpen(false);
+      setIcsContent("");
+      setIcsUrl("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteClosureMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/closures/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Closure removed", description: "Cancelled bookings are not restored." });
+      queryClient.invalidateQueries({ queryKey: ["/api/closures"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove closure", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(setIcsContent);
+  };
+
+  const upcoming = closures.filter(c => c.endDate >= today);
+  const past = closures.filter(c => c.endDate < today);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Closures & Holidays</CardTitle>
+            <CardDescription>
+              Closed days can't be booked. Adding a closure cancels existing bookings in that period.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Dialog open={importOpen} onOpenChange={setImportOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" data-testid="button-import-closures">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import ICS
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Import holiday calendar</DialogTitle>
+                  <DialogDescription>
+                    Upload an .ics file or enter the URL of a public holiday calendar. Each event becomes an all-day holiday.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="ics-file">Calendar file</Label>
+                    <Input
+                      id="ics-file"
+                      type="file"
+                      accept=".ics,text/calendar"
+                      onChange={(e) => handleFile(e.target.files?.[0])}
+                      data-testid="input-ics-file"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ics-url">or calendar URL</Label>
+                    <Input
+                      id="ics-url"
+                      type="url"
+                      placeholder="https://example.com/holidays.ics"
+                      value={icsUrl}
+                      onChange={(e) => setIcsUrl(e.target.value)}
+                      disabled={!!icsContent}
+                      data-testid="input-ics-url"
+                    />
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setImportOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => importMutation.mutate(icsContent ? { ics: icsContent } : { url: icsUrl })}
+                    disabled={(!icsContent && !icsUrl) || importMutation.isPending}
+                    data-testid="button-confirm-import"
+                  >
+                    {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Import
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={addOpen} onOpenChange={setAddOpen}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-closure">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Closure
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add closure</DialogTitle>
+                  <DialogDescription>
+                    Bookings and waitlist entries in this period will be cancelled and their owners notified.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="closure-name">Name</Label>
+                    <Input
+                      id="closure-name"
+                      placeholder="e.g. Office move"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      data-testid="input-closure-name"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Type</Label>
+                      <Select value={type} onValueChange={(v) => setType(v as ClosureType)}>
+                        <SelectTrigger data-testid="select-closure-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="shutdown">Office shutdown</SelectItem>
+                          <SelectItem value="holiday">Public holiday</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Slot</Label>
+                      <Select value={slot} onValueChange={(v) => setSlot(v as "all" | "AM" | "PM")}>
+                        <SelectTrigger data-testid="select-closure-slot">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All day</SelectItem>
+                          <SelectItem value="AM">AM only</SelectItem>
+                          <SelectItem value="PM">PM only</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="closure-start">From</Label>
+                      <Input
+                        id="closure-start"
+                        type="date"
+                        min={today}
+                        value={startDate}
+                        onChange={(e) => {
+                          setStartDate(e.target.value);
+                          if (endDate < e.target.value) setEndDate(e.target.value);
+                        }}
+                        data-testid="input-closure-start"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="closure-end">To</Label>
+                      <Input
+                        id="closure-end"
+                        type="date"
+                        min={startDate}
+                        value={endDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        data-testid="input-closure-end"
+                      />
+                    </div>
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setAddOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() =>
+                      createClosureMutation.mutate({
+                        name,
+                        type,
+                        startDate,
+                        endDate,
+                        slot: slot === "all" ? null : slot,
+                      })
+                    }
+                    disabled={!name || !startDate || !endDate || createClosureMutation.isPending}
+                    data-testid="button-confirm-closure"
+                  >
+                    {createClosureMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Add Closure
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Slot</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {upcoming.length === 0 && past.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No closures configured
+                  </TableCell>
+                </TableRow>
+              ) : (
+                [...upcoming, ...past.reverse()].map(closure => (
+                  <TableRow
+                    key={closure.id}
+                    className={closure.endDate < today ? "opacity-60" : undefined}
+                    data-testid={`closure-row-${closure.id}`}
+                  >
+                    <TableCell className="font-medium">{closure.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={closure.type === "holiday" ? "secondary" : "outline"}>
+                        {closure.type === "holiday" ? "Holiday" : "Shutdown"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatRange(closure)}</TableCell>
+                    <TableCell>{closure.slot ?? "All day"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => deleteClosureMutation.mutate(closure.id)}
+                        disabled={deleteClosureMutation.isPending}
+                        data-testid={`button-delete-closure-${closure.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+import { useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ImageIcon, Save, Trash2, Upload } from "lucide-react";
+import { MAX_BACKGROUND_IMAGE_LENGTH, type FloorBackground, type SaveFloorBackground } from "@shared/schema";
+
+export type BackgroundPlacement = Pick<FloorBackground, "positionX" | "positionY" | "scale" | "opacity">;
+
+// SVGs without an intrinsic size report 0×0; give them a canvas-sized box that can be rescaled
+const FALLBACK_SIZE = { width: 1600, height: 1200 };
+
+function readImage(file: File): Promise<{ imageData: string; width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Could not read the file"));
+    reader.onload = () => {
+      const imageData = reader.result as string;
+      const image = new Image();
+      image.onerror = () => reject(new Error("The file is not a valid image"));
+      image.onload = () => {
+        const sized = image.naturalWidth > 0 && image.naturalHeight > 0;
+        resolve({
+          imageData,
+          width: sized ? image.naturalWidth : FALLBACK_SIZE.width,
+          height: sized ? image.naturalHeight : FALLBACK_SIZE.height,
+        });
+      };
+      image.src = imageData;
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
+interface FloorBackgroundPanelProps {
+  floorId: string;
+  background: FloorBackground | null;
+  // Unsaved placement the editor canvas previews; null once it matches the stored background
+  placement: BackgroundPlacement | null;
+  onPlacementChange: (placement: BackgroundPlacement | null) => void;
+}
+
+// Upload, place and remove the floor plan image drawn under the editor canvas and the booking floor plan
+export function FloorBackgroundPanel({ floorId, background, placement, onPlacementChange }: FloorBackgroundPanelProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const current = background ? { ...background, ...placement } : null;
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Partial<SaveFloorBackground>) => {
+      const res = await apiRequest("PUT", `/api/layout/${floorId}/background`, data);
+      return res.json() as Promise<FloorBackground>;
+    },
+    onSuccess: (saved, data) => {
+      queryClient.setQueryData(["/api/layout", floorId, "background"], saved);
+      toast({ title: data.imageData ? "Floor plan image uploaded" : "Floor plan image placed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save floor plan image", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/layout/${floorId}/background`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/layout", floorId, "background"], null);
+      toast({ title: "Floor plan image removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove floor plan image", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.type !== "image/png" && file.type !== "image/svg+xml") {
+      toast({ title: "Unsupported file", description: "Upload a PNG or SVG image.", variant: "destructive" });
+      return;
+    }
+    try {
+      const image = await readImage(file);
+      if (image.imageData.length > MAX_BACKGROUND_IMAGE_LENGTH) {
+        toast({ title: "Image too large", description: "Floor plan images must be under 4 MB.", variant: "destructive" });
+        return;
+      }
+      // A replacement image keeps the current placement so it lines up with the desks the same way
+      saveMutation.mutate({
+        ...image,
+        positionX: current?.positionX ?? 0,
+        positionY: current?.positionY ?? 0,
+        scale: current?.scale ?? 1,
+        opacity: current?.opacity ?? 0.6,
+      });
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updatePlacement = (updates: Partial<BackgroundPlacement>) => {
+    if (!current) return;
+    onPlacementChange({
+      positionX: current.positionX,
+      positionY: current.positionY,
+      scale: current.scale,
+      opacity: current.opacity,
+      ...updates,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ImageIcon className="h-5 w-5" />
+          Floor plan image
+        </CardTitle>
+        <CardDescription>
+          A PNG or SVG drawn under the desks for this floor. Changes apply straight away and aren't part of the draft.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/png,image/svg+xml"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+          data-testid="input-background-file"
+        />
+        {current ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <div className="space-y-2">
+                <Label>Scale</Label>
+                <Input
+                  type="number"
+                  min={0.05}
+                  max={10}
+                  step={0.05}
+                  value={current.scale}
+                  onChange={(e) => updatePlacement({ scale: Math.min(10, Math.max(0.05, parseFloat(e.target.value) || 1)) })}
+                  data-testid="input-background-scale"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Opacity</Label>
+                <Input
+                  type="number"
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  value={current.opacity}
+                  onChange={(e) => updatePlacement({ opacity: Math.min(1, Math.max(0.05, parseFloat(e.target.value) || 0.6)) })}
+                  data-testid="input-background-opacity"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>X Offset</Label>
+                <Input
+                  type="number"
+                  value={current.positionX}
+                  onChange={(e) => updatePlacement({ positionX: parseInt(e.target.value) || 0 })}
+                  data-testid="input-background-x"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Y Offset</Label>
+                <Input
+                  type="number"
+                  value={current.positionY}
+                  onChange={(e) => updatePlacement({ positionY: parseInt(e.target.value) || 0 })}
+                  data-testid="input-background-y"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button
+                onClick={() => placement && saveMutation.mutate(placement)}
+                disabled={!placement || saveMutation.isPending}
+                data-testid="button-save-background"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Placement
+              </Button>
+              {placement && (
+                <Button variant="outline" onClick={() => onPlacementChange(null)}>
+                  Reset
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={saveMutation.isPending}
+                data-testid="button-replace-background"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Replace Image
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => removeMutation.mutate()}
+                disabled={removeMutation.isPending}
+                data-testid="button-remove-background"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Remove
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saveMutation.isPending}
+            data-testid="button-upload-background"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? "Uploading..." : "Upload Image"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
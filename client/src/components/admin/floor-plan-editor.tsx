@@ -27,6 +27,7 @@ import { Plus, Trash2, Edit, GripVertical, Save, X } from "lucide-react";
 
 interface FloorPlanEditorProps {
   seats: Seat[];
+  floorId?: string;
   isLoading?: boolean;
 }
 
@@ -40,7 +41,7 @@ interface SeatFormData {
   clusterGroup: string;
 }
 
-export function FloorPlanEditor({ seats, isLoading }: FloorPlanEditorProps) {
+export function FloorPlanEditor({ seats, floorId, isLoading }: FloorPlanEditorProps) {
   const { toast } = useToast();
   const [selectedSeat, setSelectedSeat] = useState<Seat | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -58,12 +59,13 @@ export function FloorPlanEditor({ seats, isLoading }: FloorPlanEditorProps) {
 
   const createSeatMutation = useMutation({
     mutationFn: async (data: SeatFormData) => {
-      const res = await apiRequest("POST", "/api/seats", data);
+      const res = await apiRequest("POST", "/api/seats", { ...data, floorId });
       return res.json();
     },
     onSuccess: () => {
       toast({ title: "Seat created successfully" });
       queryClient.invalidateQueries({ queryKey: ["/api/seats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/layout"] });
       setIsAddDialogOpen(false);
       resetForm();
     },
@@ -80,6 +82,7 @@ export function FloorPlanEditor({ seats, isLoading }: FloorPlanEditorProps) {
     onSuccess: () => {
       toast({ title: "Seat updated successfully" });
       queryClient.invalidateQueries({ queryKey: ["/api/seats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/layout"] });
       setIsEditDialogOpen(false);
       setSelectedSeat(null);
     },
@@ -93,9 +96,16 @@ export function FloorPlanEditor({ seats, isLoading }: FloorPlanEditorProps) {
       const res = await apiRequest("DELETE", `/api/seats/${id}`);
       return res.json();
     },
-    onSuccess: () => {
-      toast({ title: "Seat deleted successfully" });
+    onSuccess: (result: { needsReassignment: number }) => {
+      toast({
+        title: "Seat removed",
+        description: result.needsReassignment > 0
+          ? `${result.needsReassignment} upcoming booking(s) need a new seat. See the reassignment queue in the Bookings tab.`
+          : undefined,
+      });
       queryClient.invalidateQueries({ queryKey: ["/api/seats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/layout"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/needs-reassignment"] });
       setIsDeleteDialogOpen(false);
       setSelectedSeat(null);
     },
@@ -276,7 +286,7 @@ export function FloorPlanEditor({ seats, isLoading }: FloorPlanEditorProps) {
           </DialogHeader>
           <p className="text-sm text-muted-foreground">
             Are you sure you want to delete seat <strong>{selectedSeat?.name}</strong>? 
-            This will also delete all associated bookings.
+            Past bookings are kept, and upcoming ones go to the reassignment queue in the Bookings tab.
           </p>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>Cancel</Button>
@@ -28,10 +28,12 @@ export function InviteManagement() {
       const res = await apiRequest("POST", "/api/invites", data);
       return res.json();
     },
-    onSuccess: (invite: Invite) => {
+    onSuccess: (invite: Invite & { emailSent?: boolean }) => {
       toast({ 
         title: "Invite created", 
-        description: "The invite code has been generated." 
+        description: invite.emailSent
+          ? `The invite code has been generated and emailed to ${invite.email}.`
+          : "The invite code has been generated."
       });
       queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
       setDialogOpen(false);
@@ -119,7 +121,7 @@ export function InviteManagement() {
                 <DialogTitle>Create Invite Code</DialogTitle>
                 <DialogDescription>
                   Generate a new invite code for employee registration.
-                  Optionally restrict it to a specific email.
+                  Optionally restrict it to a specific email, which is also sent the invite.
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 py-4">
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { History, RotateCcw, X } from "lucide-react";
+import type { LayoutDiff, LayoutRevisionSummary } from "@shared/schema";
+
+interface LayoutDiffResponse {
+  from: string;
+  to: string;
+  diff: LayoutDiff;
+}
+
+const STATUS_BADGES: Record<LayoutRevisionSummary["status"], "default" | "secondary" | "outline" | "destructive"> = {
+  published: "outline",
+  scheduled: "default",
+  draft: "secondary",
+  failed: "destructive",
+};
+
+function revisionDate(revision: LayoutRevisionSummary): string {
+  if (revision.status === "scheduled" && revision.effectiveDate) {
+    return `Goes live ${format(parseISO(revision.effectiveDate), "MMM d, yyyy")}`;
+  }
+  const date = revision.status === "published" ? revision.publishedAt : revision.updatedAt;
+  return date ? format(new Date(date), "MMM d, yyyy HH:mm") : "";
+}
+
+function DiffList({ title, items, className }: { title: string; items: string[]; className: string }) {
+  if (items.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{title}</p>
+      <div className="flex flex-wrap gap-1">
+        {items.map(item => (
+          <Badge key={item} variant="outline" className={className}>
+            {item}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function DiffView({ diff }: { diff: LayoutDiff }) {
+  const changedSeats = diff.seats.changed.map(change => `${change.name} (${change.fields.join(", ")})`);
+  const isEmpty =
+    diff.clusters.added.length + diff.clusters.removed.length + diff.clusters.changed.length +
+      diff.seats.added.length + diff.seats.removed.length + diff.seats.changed.length +
+      diff.shapes.added.length + diff.shapes.removed.length + diff.shapes.changed.length === 0;
+
+  if (isEmpty) {
+    return <p className="text-sm text-muted-foreground">No differences</p>;
+  }
+  return (
+    <div className="space-y-3">
+      <DiffList title="Seats added" items={diff.seats.added} className="border-green-400 text-green-700 dark:text-green-300" />
+      <DiffList title="Seats removed" items={diff.seats.removed} className="border-red-400 text-red-700 dark:text-red-300" />
+      <DiffList title="Seats changed" items={changedSeats} className="border-amber-400 text-amber-700 dark:text-amber-300" />
+      <DiffList title="Clusters added" items={diff.clusters.added} className="border-green-400 text-green-700 dark:text-green-300" />
+      <DiffList title="Clusters removed" items={diff.clusters.removed} className="border-red-400 text-red-700 dark:text-red-300" />
+      <DiffList title="Clusters changed" items={diff.clusters.changed} className="border-amber-400 text-amber-700 dark:text-amber-300" />
+      <DiffList title="Shapes added" items={diff.shapes.added} className="border-green-400 text-green-700 dark:text-green-300" />
+      <DiffList title="Shapes removed" items={diff.shapes.removed} className="border-red-400 text-red-700 dark:text-red-300" />
+      <DiffList title="Shapes changed" items={diff.shapes.changed} className="border-amber-400 text-amber-700 dark:text-amber-300" />
+    </div>
+  );
+}
+
+export function LayoutHistory({ floorId }: { floorId?: string }) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<LayoutRevisionSummary | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<LayoutRevisionSummary[]>({
+    queryKey: ["/api/layout", floorId, "revisions"],
+    enabled: !!floorId,
+  });
+
+  const { data: diff, isLoading: diffLoading } = useQuery<LayoutDiffResponse>({
+    queryKey: ["/api/layout/revisions", selectedId, "diff"],
+    enabled: !!selectedId,
+  });
+
+  // Revisions come newest first, so the first published one is what employees book against
+  const liveId = revisions.find(r => r.status === "published")?.id;
+  const selected = revisions.find(r => r.id === selectedId);
+
+  const invalidateLayout = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/layout"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/layout/revisions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/clusters"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/seats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings/needs-reassignment"] });
+  };
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const res = await apiRequest("POST", `/api/layout/revisions/${revisionId}/rollback`, {});
+      return res.json() as Promise<{ flaggedBookings: number }>;
+    },
+    onSuccess: ({ flaggedBookings }, revisionId) => {
+      const version = revisions.find(r => r.id === revisionId)?.version;
+      invalidateLayout();
+      setRollbackTarget(null);
+      toast({
+        title: `Rolled back to version ${version}`,
+        description: flaggedBookings > 0
+          ? `${flaggedBookings} upcoming booking${flaggedBookings === 1 ? " was" : "s were"} on removed seats and need reassigning.`
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rollback failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      await apiRequest("DELETE", `/api/layout/revisions/${revisionId}`);
+    },
+    onSuccess: (_, revisionId) => {
+      const status = revisions.find(r => r.id === revisionId)?.status;
+      if (revisionId === selectedId) setSelectedId(null);
+      invalidateLayout();
+      toast({ title: status === "failed" ? "Failed layout discarded" : "Scheduled layout cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5" />
+          Layout history
+        </CardTitle>
+        <CardDescription>
+          Every publish is kept. Rolling back publishes an earlier version again as a new revision.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid lg:grid-cols-[1fr_300px] gap-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has been drafted or published for this floor yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead>Seats</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {revisions.map(revision => (
+                <TableRow
+                  key={revision.id}
+                  className={`cursor-pointer ${revision.id === selectedId ? "bg-muted/50" : ""}`}
+                  onClick={() => setSelectedId(revision.id)}
+                  data-testid={`layout-revision-${revision.version}`}
+                >
+                  <TableCell className="font-medium">v{revision.version}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGES[revision.status]} className="capitalize">
+                      {revision.id === liveId ? "Live" : revision.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {revision.note || "—"}
+                    {revision.failureReason && (
+                      <p className="text-xs text-destructive">Not published: {revision.failureReason}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{revision.seatCount}</TableCell>
+                  <TableCell className="text-sm">{revisionDate(revision)}</TableCell>
+                  <TableCell className="text-right">
+                    {revision.status === "published" && revision.id !== liveId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setRollbackTarget(revision);
+                        }}
+                        data-testid={`button-rollback-${revision.version}`}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Roll back
+                      </Button>
+                    )}
+                    {(revision.status === "scheduled" || revision.status === "failed") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          cancelMutation.mutate(revision.id);
+                        }}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-scheduled-${revision.version}`}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        {revision.status === "failed" ? "Discard" : "Cancel"}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="rounded-md border p-3 space-y-3 h-fit">
+          {!selected ? (
+            <p className="text-sm text-muted-foreground">Select a version to see what it changes.</p>
+          ) : diffLoading || !diff ? (
+            <Skeleton className="h-24 w-full" />
+          ) : (
+            <>
+              <p className="text-sm font-medium">
+                {diff.from} → {diff.to}
+              </p>
+              <DiffView diff={diff.diff} />
+            </>
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={rollbackTarget !== null} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to version {rollbackTarget?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The floor goes back to this layout immediately. Seats it doesn't have are removed and their
+              upcoming bookings are flagged for reassignment; seats it brings back get their bookings back.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => rollbackTarget && rollbackMutation.mutate(rollbackTarget.id)}
+              disabled={rollbackMutation.isPending}
+              data-testid="button-confirm-rollback"
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Download, FileUp } from "lucide-react";
+import { DiffView } from "./layout-history";
+import type { LayoutImportResult } from "@shared/schema";
+
+// The server validates the document, so the client sends whatever the file contains
+type ImportPayload =
+  | { format: "json"; floorId: string; document: unknown }
+  | { format: "csv"; floorId: string; csv: string };
+
+interface PendingImport {
+  fileName: string;
+  payload: ImportPayload;
+  preview: LayoutImportResult;
+}
+
+// Back up a floor's layout as JSON, or load one (or a CSV of seats) after previewing what it changes
+export function LayoutTransfer({ floorId }: { floorId?: string }) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/layout/export?floorId=${encodeURIComponent(floorId ?? "")}`);
+      const disposition = res.headers.get("Content-Disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "layout.json";
+      return { document: await res.json(), filename };
+    },
+    onSuccess: ({ document: layoutDocument, filename }) => {
+      const blob = new Blob([JSON.stringify(layoutDocument, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ payload, dryRun }: { fileName: string; payload: ImportPayload; dryRun: boolean }) => {
+      const res = await apiRequest("POST", "/api/layout/import", { ...payload, dryRun });
+      return res.json() as Promise<LayoutImportResult>;
+    },
+    onSuccess: (result, { fileName, payload }) => {
+      if (result.dryRun) {
+        setPending({ fileName, payload, preview: result });
+        return;
+      }
+      setPending(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/layout"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/layout/revisions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clusters"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/seats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/needs-reassignment"] });
+      toast({
+        title: `Layout imported as version ${result.revision?.version}`,
+        description: result.flaggedBookings > 0
+          ? `${result.flaggedBookings} upcoming booking${result.flaggedBookings === 1 ? " was" : "s were"} on removed seats and need reassigning.`
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !floorId) return;
+    const text = await file.text();
+    let payload: ImportPayload;
+    if (file.name.toLowerCase().endsWith(".csv")) {
+      payload = { format: "csv", floorId, csv: text };
+    } else {
+      try {
+        payload = { format: "json", floorId, document: JSON.parse(text) };
+      } catch {
+        toast({ title: "Import failed", description: "The file is not valid JSON.", variant: "destructive" });
+        return;
+      }
+    }
+    importMutation.mutate({ fileName: file.name, payload, dryRun: true });
+  };
+
+  const preview = pending?.preview;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileUp className="h-5 w-5" />
+          Import & export
+        </CardTitle>
+        <CardDescription>
+          Export this floor as JSON to back it up or move it to another environment. Importing a JSON export replaces
+          the floor's layout; a CSV with the columns name, type, hasMonitor and cluster adds or updates seats.
+          You see what changes before anything is published.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+          data-testid="input-layout-import-file"
+        />
+        <div className="flex items-center gap-2 flex-wrap">
+          <Button
+            variant="outline"
+            onClick={() => exportMutation.mutate()}
+            disabled={!floorId || exportMutation.isPending}
+            data-testid="button-export-layout"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!floorId || importMutation.isPending}
+            data-testid="button-import-layout"
+          >
+            <FileUp className="h-4 w-4 mr-2" />
+            Import JSON or CSV
+          </Button>
+        </div>
+
+        {pending && preview && (
+          <div className="rounded-md border p-3 space-y-3">
+            <p className="text-sm font-medium">Importing {pending.fileName} would make these changes:</p>
+            <DiffView diff={preview.changes} />
+            {preview.flaggedBookings > 0 && (
+              <div className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-300">
+                <AlertTriangle className="h-4 w-4" />
+                {preview.flaggedBookings} upcoming booking{preview.flaggedBookings === 1 ? " is" : "s are"} on seats
+                the import removes and will need reassigning.
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => importMutation.mutate({ fileName: pending.fileName, payload: pending.payload, dryRun: false })}
+                disabled={importMutation.isPending}
+                data-testid="button-confirm-import"
+              >
+                Publish Import
+              </Button>
+              <Button variant="outline" onClick={() => setPending(null)} disabled={importMutation.isPending}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle } from "lucide-react";
+import type { FlaggedBooking, Seat } from "@shared/schema";
+
+// Upcoming bookings left on seats that a layout publish removed, each waiting for an admin to pick a new seat
+export function ReassignmentQueue() {
+  const { toast } = useToast();
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  const { data: flagged = [] } = useQuery<FlaggedBooking[]>({
+    queryKey: ["/api/bookings/needs-reassignment"],
+  });
+
+  const { data: seats = [] } = useQuery<Seat[]>({
+    queryKey: ["/api/seats"],
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: async ({ bookingId, seatId }: { bookingId: string; seatId: string }) => {
+      await apiRequest("POST", `/api/bookings/${bookingId}/reassign`, { seatId });
+    },
+    onSuccess: (_, { bookingId }) => {
+      setChoices(prev => {
+        const { [bookingId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/needs-reassignment"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      toast({ title: "Booking moved", description: "The employee has been notified." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to move booking",
+        description: error.message.startsWith("409") ? "That seat isn't free for this slot." : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (flagged.length === 0) return null;
+
+  const bookableSeats = seats.filter(s => !s.isBlocked && !s.isLongTermReserved);
+
+  return (
+    <Card className="border-amber-400">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          Bookings needing a new seat
+          <Badge variant="secondary">{flagged.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          These seats were removed from the floor plan by a layout publish. Pick a seat on the same floor for each booking.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employee</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Slot</TableHead>
+              <TableHead>Removed seat</TableHead>
+              <TableHead>New seat</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {flagged.map(booking => (
+              <TableRow key={booking.id} data-testid={`reassign-${booking.id}`}>
+                <TableCell>{booking.userName || booking.userEmail || booking.userId}</TableCell>
+                <TableCell>{format(parseISO(booking.date), "EEE, MMM d")}</TableCell>
+                <TableCell>{booking.slot}</TableCell>
+                <TableCell className="text-muted-foreground line-through">{booking.seatName}</TableCell>
+                <TableCell>
+                  <Select
+                    value={choices[booking.id] ?? ""}
+                    onValueChange={(seatId) => setChoices(prev => ({ ...prev, [booking.id]: seatId }))}
+                  >
+                    <SelectTrigger className="w-32" data-testid={`select-reassign-${booking.id}`}>
+                      <SelectValue placeholder="Seat" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {bookableSeats
+                        .filter(s => s.floorId === booking.floorId)
+                        .map(seat => (
+                          <SelectItem key={seat.id} value={seat.id}>
+                            {seat.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    size="sm"
+                    onClick={() => reassignMutation.mutate({ bookingId: booking.id, seatId: choices[booking.id] })}
+                    disabled={!choices[booking.id] || reassignMutation.isPending}
+                    data-testid={`button-reassign-${booking.id}`}
+                  >
+                    Move
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
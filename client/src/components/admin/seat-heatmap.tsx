@@ -0,0 +1,107 @@
+import { useMemo, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { FloorPlan } from "@/components/floor-plan/floor-plan";
+import type { SeatHeat } from "@/components/floor-plan/seat-cell";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { Cluster, FloorBackground, FloorLayout, Seat, SeatUtilisation } from "@shared/schema";
+
+type HeatmapMetric = "occupancy" | "noShowRate" | "cancellationRate";
+
+const METRICS: { value: HeatmapMetric; label: string }[] = [
+  { value: "occupancy", label: "Occupancy" },
+  { value: "noShowRate", label: "No-show rate" },
+  { value: "cancellationRate", label: "Cancellation rate" },
+];
+
+function formatPercent(value: number | null): string {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+function describe(seat: SeatUtilisation, metric: HeatmapMetric): string {
+  switch (metric) {
+    case "occupancy":
+      return seat.bookable
+        ? `Occupancy ${formatPercent(seat.occupancy)} (${seat.booked} of ${seat.capacity} half-days)`
+        : "Not bookable in this period";
+    case "noShowRate":
+      return `No-shows ${formatPercent(seat.noShowRate)} (${seat.noShows} of ${seat.booked + seat.noShows} bookings)`;
+    case "cancellationRate":
+      return `Cancelled ${formatPercent(seat.cancellationRate)} (${seat.cancelled} of ${
+        seat.booked + seat.cancelled + seat.noShows
+      } bookings)`;
+  }
+}
+
+interface SeatHeatmapProps {
+  floorId?: string;
+  from: string;
+  to: string;
+}
+
+// The floor plan with each seat coloured by how it was used over the period, to spot clusters
+// that could shrink or become meeting space
+export function SeatHeatmap({ floorId, from, to }: SeatHeatmapProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>("occupancy");
+
+  const { data: seats = [], isLoading: seatsLoading } = useQuery<Seat[]>({
+    queryKey: ["/api/seats"],
+  });
+  const { data: clusters = [] } = useQuery<Cluster[]>({
+    queryKey: ["/api/clusters"],
+  });
+  const { data: floorLayout } = useQuery<FloorLayout>({
+    queryKey: ["/api/layout", floorId],
+    enabled: !!floorId,
+  });
+  const { data: floorBackground } = useQuery<FloorBackground | null>({
+    queryKey: ["/api/layout", floorId, "background"],
+    enabled: !!floorId,
+  });
+  const { data: seatStats = [], isLoading: statsLoading } = useQuery<SeatUtilisation[]>({
+    queryKey: ["/api/analytics/seats", { from, to, floorId }],
+    enabled: !!floorId,
+    placeholderData: keepPreviousData,
+  });
+
+  const floorSeats = useMemo(() => seats.filter((s) => s.floorId === floorId), [seats, floorId]);
+  const floorClusters = useMemo(() => clusters.filter((c) => c.floorId === floorId), [clusters, floorId]);
+  const heatmap = useMemo(
+    () => new Map<string, SeatHeat>(seatStats.map(seat => [seat.seatId, { value: seat[metric], detail: describe(seat, metric) }])),
+    [seatStats, metric]
+  );
+
+  return (
+    <div className="space-y-3">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        value={metric}
+        onValueChange={(value) => value && setMetric(value as HeatmapMetric)}
+        className="justify-start"
+        data-testid="toggle-heatmap-metric"
+      >
+        {METRICS.map(m => (
+          <ToggleGroupItem key={m.value} value={m.value} data-testid={`toggle-heatmap-${m.value}`}>
+            {m.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <FloorPlan
+        seats={floorSeats}
+        clusters={floorClusters}
+        shapes={floorLayout?.shapes}
+        background={floorBackground}
+        title="Seat heatmap"
+        bookings={[]}
+        selectedDate={to}
+        selectedSlots={[]}
+        selectedSeats={[]}
+        onSelectSeat={() => {}}
+        viewMode="view"
+        isLoading={seatsLoading || statsLoading}
+        heatmap={heatmap}
+        heatmapLabel={METRICS.find(m => m.value === metric)?.label}
+      />
+    </div>
+  );
+}
@@ -23,7 +23,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Pencil, Lock, Unlock, Monitor, Clock, Search, Plus } from "lucide-react";
+import { Pencil, Lock, Unlock, Monitor, Clock, Search, Plus, QrCode } from "lucide-react";
 import type { Seat, SeatType } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -129,8 +129,14 @@ export function SeatManagement({
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
         <CardTitle>Seat Management</CardTitle>
+        <Button variant="outline" size="sm" asChild data-testid="button-print-qr-sheet">
+          <a href="/admin/qr-sheet" target="_blank" rel="noopener noreferrer">
+            <QrCode className="h-4 w-4 mr-2" />
+            Print QR sheet
+          </a>
+        </Button>
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Stats */}
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Pencil, Trash2, Building2 } from "lucide-react";
+import type { Floor, Seat, Site, SiteWithFloors } from "@shared/schema";
+
+// What the shared create/rename dialog is editing
+type EditTarget =
+  | { kind: "site"; site?: Site }
+  | { kind: "floor"; siteId: string; floor?: Floor };
+
+export function SiteManagement() {
+  const { toast } = useToast();
+  const [target, setTarget] = useState<EditTarget | null>(null);
+  const [name, setName] = useState("");
+  const [level, setLevel] = useState("0");
+
+  const { data: sites = [], isLoading } = useQuery<SiteWithFloors[]>({
+    queryKey: ["/api/sites"],
+  });
+
+  const { data: seats = [] } = useQuery<Seat[]>({
+    queryKey: ["/api/seats"],
+  });
+
+  const openDialog = (next: EditTarget) => {
+    setTarget(next);
+    if (next.kind === "site") {
+      setName(next.site?.name ?? "");
+    } else {
+      setName(next.floor?.name ?? "");
+      setLevel(String(next.floor?.level ?? 0));
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (edit: EditTarget) => {
+      if (edit.kind === "site") {
+        return edit.site
+          ? apiRequest("PATCH", `/api/sites/${edit.site.id}`, { name })
+          : apiRequest("POST", "/api/sites", { name });
+      }
+      const body = { name, level: parseInt(level, 10) || 0 };
+      return edit.floor
+        ? apiRequest("PATCH", `/api/sites/${edit.siteId}/floors/${edit.floor.id}`, body)
+        : apiRequest("POST", `/api/sites/${edit.siteId}/floors`, body);
+    },
+    onSuccess: (_, edit) => {
+      const isNew = edit.kind === "site" ? !edit.site : !edit.floor;
+      toast({ title: `${edit.kind === "site" ? "Site" : "Floor"} ${isNew ? "created" : "updated"}` });
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
+      setTarget(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (edit: { siteId: string; floorId?: string }) => {
+      await apiRequest(
+        "DELETE",
+        edit.floorId ? `/api/sites/${edit.siteId}/floors/${edit.floorId}` : `/api/sites/${edit.siteId}`
+      );
+    },
+    onSuccess: (_, edit) => {
+      toast({ title: edit.floorId ? "Floor deleted" : "Site deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clusters"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const seatCount = (floorId: string) => seats.filter(s => s.floorId === floorId).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Sites & floors</CardTitle>
+          <CardDescription>
+            Each floor has its own layout and seat names. Users pick a floor from the header.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog({ kind: "site" })} data-testid="button-add-site">
+          <Plus className="h-4 w-4 mr-1" />
+          Add site
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          sites.map(site => (
+            <div key={site.id} className="space-y-2" data-testid={`site-${site.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 font-medium">
+                  <Building2 className="h-4 w-4 text-muted-foreground" />
+                  {site.name}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => openDialog({ kind: "floor", siteId: site.id })}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add floor
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openDialog({ kind: "site", site })}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate({ siteId: site.id })}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {site.floors.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No floors yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Floor</TableHead>
+                      <TableHead>Level</TableHead>
+                      <TableHead>Seats</TableHead>
+                      <TableHead className="w-24" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {site.floors.map(floor => (
+                      <TableRow key={floor.id} data-testid={`floor-${floor.id}`}>
+                        <TableCell>{floor.name}</TableCell>
+                        <TableCell>{floor.level}</TableCell>
+                        <TableCell>{seatCount(floor.id)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openDialog({ kind: "floor", siteId: site.id, floor })}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteMutation.mutate({ siteId: site.id, floorId: floor.id })}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={target !== null} onOpenChange={(open) => !open && setTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {target?.kind === "site"
+                ? target.site ? "Rename site" : "Add site"
+                : target?.floor ? "Edit floor" : "Add floor"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="site-floor-name">Name</Label>
+              <Input
+                id="site-floor-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                data-testid="input-site-floor-name"
+              />
+            </div>
+            {target?.kind === "floor" && (
+              <div className="space-y-2">
+                <Label htmlFor="floor-level">Level</Label>
+                <Input
+                  id="floor-level"
+                  type="number"
+                  value={level}
+                  onChange={(e) => setLevel(e.target.value)}
+                  data-testid="input-floor-level"
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => target && saveMutation.mutate(target)}
+              disabled={!name.trim() || saveMutation.isPending}
+              data-testid="button-save-site-floor"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import type { SsoGroupRole, SsoSettingsView, UpdateSsoSettings } from "@shared/models/auth";
+
+interface SsoForm {
+  enabled: boolean;
+  allowedDomains: string;
+  jitProvisioning: boolean;
+  groupsClaim: string;
+  groupRoles: SsoGroupRole[];
+}
+
+function toForm(settings: SsoSettingsView): SsoForm {
+  return {
+    enabled: settings.enabled,
+    allowedDomains: settings.allowedDomains.join(", "),
+    jitProvisioning: settings.jitProvisioning,
+    groupsClaim: settings.groupsClaim,
+    groupRoles: settings.groupRoles,
+  };
+}
+
+export function SsoSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<SsoForm | null>(null);
+
+  const { data: settings, isLoading } = useQuery<SsoSettingsView>({
+    queryKey: ["/api/auth/oidc/settings"],
+  });
+
+  useEffect(() => {
+    if (settings) setForm(toForm(settings));
+  }, [settings]);
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (updates: UpdateSsoSettings) => {
+      const res = await apiRequest("PATCH", "/api/auth/oidc/settings", updates);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Single sign-on settings saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/oidc/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/oidc/config"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save single sign-on settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !form || !settings) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Single Sign-On</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {[1, 2, 3].map(i => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const update = (changes: Partial<SsoForm>) => setForm({ ...form, ...changes });
+
+  const updateGroupRole = (index: number, changes: Partial<SsoGroupRole>) => {
+    update({ groupRoles: form.groupRoles.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)) });
+  };
+
+  const handleSave = () => {
+    updateSettingsMutation.mutate({
+      enabled: form.enabled,
+      allowedDomains: form.allowedDomains.split(/[\s,]+/).filter(Boolean),
+      jitProvisioning: form.jitProvisioning,
+      groupsClaim: form.groupsClaim,
+      // Rows left without a group name are dropped rather than rejected
+      groupRoles: form.groupRoles.filter((mapping) => mapping.group.trim() !== ""),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Single Sign-On</CardTitle>
+            <CardDescription>
+              Let people sign in through your OpenID Connect identity provider. Accounts are matched by verified email.
+            </CardDescription>
+          </div>
+          <Button onClick={handleSave} disabled={updateSettingsMutation.isPending} data-testid="button-save-sso">
+            {updateSettingsMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!settings.configured && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              No identity provider is configured. Set OIDC_ISSUER and OIDC_CLIENT_ID on the server to use single sign-on.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="sso-enabled">Enable single sign-on</Label>
+            <p className="text-xs text-muted-foreground">
+              {settings.issuer ? `Provider: ${settings.issuer}. ` : ""}
+              Register {settings.redirectUri} as the redirect URI.
+            </p>
+          </div>
+          <Switch
+            id="sso-enabled"
+            checked={form.enabled}
+            disabled={!settings.configured}
+            onCheckedChange={(checked) => update({ enabled: checked })}
+            data-testid="switch-sso-enabled"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sso-allowed-domains">Allowed email domains</Label>
+          <Input
+            id="sso-allowed-domains"
+            placeholder="Any domain"
+            value={form.allowedDomains}
+            onChange={(e) => update({ allowedDomains: e.target.value })}
+            data-testid="input-sso-allowed-domains"
+          />
+          <p className="text-xs text-muted-foreground">Comma separated, e.g. example.com, example.co.uk.</p>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="sso-jit">Create accounts on first sign-in</Label>
+            <p className="text-xs text-muted-foreground">
+              Anyone from an allowed domain gets an account without an invite. When off, people need an existing account.
+            </p>
+          </div>
+          <Switch
+            id="sso-jit"
+            checked={form.jitProvisioning}
+            onCheckedChange={(checked) => update({ jitProvisioning: checked })}
+            data-testid="switch-sso-jit"
+          />
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sso-groups-claim">Groups claim</Label>
+            <Input
+              id="sso-groups-claim"
+              value={form.groupsClaim}
+              onChange={(e) => update({ groupsClaim: e.target.value })}
+              className="max-w-xs"
+              data-testid="input-sso-groups-claim"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Roles from groups</Label>
+            <p className="text-xs text-muted-foreground">
+              With mappings set, each single sign-on sets the user's role from their groups: the highest mapped
+              role, or employee when none match. This includes admins, so map your own group first.
+            </p>
+            {form.groupRoles.map((mapping, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  placeholder="Group name"
+                  value={mapping.group}
+                  onChange={(e) => updateGroupRole(index, { group: e.target.value })}
+                  data-testid={`input-sso-group-${index}`}
+                />
+                <Select
+                  value={mapping.role}
+                  onValueChange={(role: SsoGroupRole["role"]) => updateGroupRole(index, { role })}
+                >
+                  <SelectTrigger className="w-40" data-testid={`select-sso-group-role-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="employee">Employee</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => update({ groupRoles: form.groupRoles.filter((_, i) => i !== index) })}
+                  data-testid={`button-remove-sso-group-${index}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ groupRoles: [...form.groupRoles, { group: "", role: "employee" }] })}
+              data-testid="button-add-sso-group"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add mapping
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import {
   Table,
   TableBody,
@@ -29,8 +31,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Shield, ShieldOff, UserX, UserCheck, Trash2, AlertCircle } from "lucide-react";
+import { Shield, ShieldOff, UserX, UserCheck, Trash2, AlertCircle, LogOut } from "lucide-react";
 import { format } from "date-fns";
+import type { DeactivationSummary, UpdateUserStatus, UserStatusResult } from "@shared/schema";
 
 interface UserWithRole {
   id: string;
@@ -43,6 +46,18 @@ interface UserWithRole {
   isActive: boolean;
 }
 
+function describeDeactivation(summary?: DeactivationSummary): string {
+  const parts = [
+    summary?.cancelledBookings ? `${summary.cancelledBookings} booking(s) cancelled` : null,
+    summary?.endedSeries ? `${summary.endedSeries} recurring booking(s) ended` : null,
+    summary?.cancelledWaitlistEntries ? `${summary.cancelledWaitlistEntries} waitlist place(s) removed` : null,
+    summary?.releasedSeats.length ? `desk(s) ${summary.releasedSeats.join(", ")} released` : null,
+  ].filter(Boolean);
+  return parts.length > 0
+    ? `The user can no longer access the system. ${parts.join(", ")}.`
+    : "The user can no longer access the system.";
+}
+
 export function UserManagement() {
   const { toast } = useToast();
   const { user: currentUser } = useAuth();
@@ -51,6 +66,8 @@ export function UserManagement() {
   const [isDeactivateDialogOpen, setIsDeactivateDialogOpen] = useState(false);
   const [isRemoveDialogOpen, setIsRemoveDialogOpen] = useState(false);
   const [newRole, setNewRole] = useState<"employee" | "admin">("employee");
+  const [cancelBookings, setCancelBookings] = useState(true);
+  const [releaseSeats, setReleaseSeats] = useState(true);
 
   const { data: users = [], isLoading } = useQuery<UserWithRole[]>({
     queryKey: ["/api/users"],
@@ -73,18 +90,24 @@ export function UserManagement() {
   });
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ userId, isActive }: { userId: string; isActive: boolean }) => {
-      const res = await apiRequest("PATCH", `/api/users/${userId}/status`, { isActive });
-      return res.json();
+    mutationFn: async ({ userId, ...status }: UpdateUserStatus & { userId: string }) => {
+      const res = await apiRequest("PATCH", `/api/users/${userId}/status`, status);
+      return res.json() as Promise<UserStatusResult>;
     },
-    onSuccess: (_, variables) => {
+    onSuccess: (result, variables) => {
       toast({ 
         title: variables.isActive ? "User activated" : "User deactivated",
         description: variables.isActive 
           ? "The user can now access the system." 
-          : "The user can no longer access the system."
+          : describeDeactivation(result.deactivation)
       });
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      if (result.deactivation?.cancelledBookings) {
+        queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      }
+      if (result.deactivation?.releasedSeats.length) {
+        queryClient.invalidateQueries({ queryKey: ["/api/seats"] });
+      }
       setIsDeactivateDialogOpen(false);
       setSelectedUser(null);
     },
@@ -93,6 +116,22 @@ export function UserManagement() {
     },
   });
 
+  const revokeSessionsMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest("POST", `/api/users/${userId}/sessions/revoke`);
+      return res.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: ({ revoked }) => {
+      toast({
+        title: "User signed out",
+        description: revoked === 1 ? "1 session was ended." : `${revoked} sessions were ended.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to sign user out", description: error.message, variant: "destructive" });
+    },
+  });
+
   const removeUserMutation = useMutation({
     mutationFn: async (userId: string) => {
       const res = await apiRequest("DELETE", `/api/users/${userId}`);
@@ -117,6 +156,8 @@ export function UserManagement() {
 
   const openDeactivateDialog = (user: UserWithRole) => {
     setSelectedUser(user);
+    setCancelBookings(true);
+    setReleaseSeats(true);
     setIsDeactivateDialogOpen(true);
   };
 
@@ -132,7 +173,12 @@ export function UserManagement() {
 
   const handleStatusToggle = () => {
     if (!selectedUser) return;
-    updateStatusMutation.mutate({ userId: selectedUser.id, isActive: !selectedUser.isActive });
+    updateStatusMutation.mutate({
+      userId: selectedUser.id,
+      isActive: !selectedUser.isActive,
+      cancelBookings,
+      releaseSeats,
+    });
   };
 
   const handleRemove = () => {
@@ -271,6 +317,16 @@ export function UserManagement() {
                             <UserCheck className="h-4 w-4" />
                           )}
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => revokeSessionsMutation.mutate(user.id)}
+                          disabled={isCurrentUser(user) || revokeSessionsMutation.isPending}
+                          title="Sign out of all devices"
+                          data-testid={`button-revoke-sessions-${user.id}`}
+                        >
+                          <LogOut className="h-4 w-4" />
+                        </Button>
                         <Button
                           size="sm"
                           variant="ghost"
@@ -335,10 +391,36 @@ export function UserManagement() {
             <strong>{selectedUser && getUserDisplayName(selectedUser)}</strong>?
             {selectedUser?.isActive && (
               <span className="block mt-2">
-                This user will no longer be able to log in or make bookings.
+                This user will be signed out and will no longer be able to log in or make bookings.
               </span>
             )}
           </p>
+          {selectedUser?.isActive && (
+            <div className="space-y-3 pb-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="deactivate-cancel-bookings"
+                  checked={cancelBookings}
+                  onCheckedChange={(checked) => setCancelBookings(checked === true)}
+                  data-testid="checkbox-cancel-bookings"
+                />
+                <Label htmlFor="deactivate-cancel-bookings" className="font-normal">
+                  Cancel their upcoming bookings, recurring bookings and waitlist places
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="deactivate-release-seats"
+                  checked={releaseSeats}
+                  onCheckedChange={(checked) => setReleaseSeats(checked === true)}
+                  data-testid="checkbox-release-seats"
+                />
+                <Label htmlFor="deactivate-release-seats" className="font-normal">
+                  Release desks reserved long-term for them
+                </Label>
+              </div>
+            </div>
+          )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsDeactivateDialogOpen(false)}>Cancel</Button>
             <Button 
@@ -1,7 +1,17 @@
-import { useState, useRef, useCallback, useMemo, useEffect } from "react";
+import { useState, useRef, useMemo, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Seat, Cluster } from "@shared/schema";
+import { format } from "date-fns";
+import type {
+  Seat,
+  Cluster,
+  FloorBackground,
+  FloorLayout,
+  LayoutRevision,
+  LayoutShape,
+  LayoutShapeKind,
+  LayoutSnapshot,
+} from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -32,7 +42,27 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { useFloor } from "@/hooks/use-floor";
+import { useUndoableState } from "@/hooks/use-undoable-state";
+import {
+  FloorBackgroundImage,
+  LayoutCluster,
+  LayoutShapeView,
+  GRID_SIZE,
+  getClusterBounds,
+  getLayoutSize,
+  getShapeBounds,
+  groupSeatsByCluster,
+  type LayoutBounds,
+} from "@/components/floor-plan/floor-layout";
+import { FloorBackgroundPanel, type BackgroundPlacement } from "./floor-background-panel";
 import {
   Plus,
   RotateCw,
@@ -44,22 +74,44 @@ import {
   Square,
   Save,
   Undo2,
+  Redo2,
+  RotateCcw,
   AlertTriangle,
+  Upload,
+  X,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+  Shapes,
 } from "lucide-react";
 
-const GRID_SIZE = 20;
-const CELL_SIZE = 52;
-
+// Dragging moves every selected cluster and shape by the same grid-snapped offset
 interface DragState {
-  clusterId: string;
+  itemIds: string[];
+  origins: Record<string, { x: number; y: number }>;
+  pointerX: number;
+  pointerY: number;
+  dx: number;
+  dy: number;
+}
+
+// Rubber-band selection rectangle in canvas coordinates
+interface BandState {
   startX: number;
   startY: number;
-  offsetX: number;
-  offsetY: number;
   currentX: number;
   currentY: number;
+  additive: boolean;
 }
 
+type Alignment = "left" | "center" | "right" | "top" | "middle" | "bottom";
+type LayoutMoves = Map<string, { positionX: number; positionY: number }>;
+
 interface LocalCluster extends Cluster {
   isNew?: boolean;
   isDeleted?: boolean;
@@ -71,15 +123,88 @@ interface LocalSeat extends Seat {
   isDeleted?: boolean;
 }
 
+interface LocalShape extends LayoutShape {
+  isNew?: boolean;
+}
+
+// Everything undo/redo steps through
+interface EditorDoc {
+  clusters: LocalCluster[];
+  seats: LocalSeat[];
+  shapes: LocalShape[];
+}
+
+// Anything on the canvas that can be selected, dragged and aligned
+interface CanvasItem {
+  id: string;
+  positionX: number;
+  positionY: number;
+  bounds: LayoutBounds;
+}
+
+const NEW_SHAPES: Record<LayoutShapeKind, Pick<LayoutShape, "label" | "width" | "height">> = {
+  wall: { label: null, width: 200, height: 10 },
+  room: { label: "Room", width: 240, height: 160 },
+  label: { label: "Label", width: 120, height: 30 },
+};
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && !!target.closest("input, textarea, select, [contenteditable='true'], [role='dialog'], [role='menu']");
+}
+
+// Drafts only store what the editor edits; seat flags such as blocking come from the live seat
+function layoutFromSnapshot(snapshot: LayoutSnapshot, live: FloorLayout | undefined) {
+  const liveClusters = new Map((live?.clusters ?? []).map(c => [c.id, c]));
+  const liveSeats = new Map((live?.seats ?? []).map(s => [s.id, s]));
+  const floorId = live?.floorId ?? null;
+  return {
+    clusters: snapshot.clusters.map((cluster): Cluster => ({
+      createdAt: null,
+      updatedAt: null,
+      ...liveClusters.get(cluster.id),
+      ...cluster,
+      floorId,
+      label: cluster.label ?? null,
+    })),
+    seats: snapshot.seats.map((seat): Seat => ({
+      isBlocked: false,
+      isLongTermReserved: false,
+      longTermReservedBy: null,
+      longTermReservedFor: null,
+      longTermReservedUntil: null,
+      metadata: null,
+      archivedAt: null,
+      createdAt: null,
+      updatedAt: null,
+      ...liveSeats.get(seat.id),
+      ...seat,
+      floorId,
+      clusterGroup: seat.clusterGroup ?? null,
+    })),
+    shapes: (snapshot.shapes ?? []).map((shape): LayoutShape => ({
+      createdAt: null,
+      updatedAt: null,
+      ...shape,
+      floorId: floorId ?? "",
+      label: shape.label ?? null,
+    })),
+  };
+}
+
 export function VisualFloorEditor() {
   const { toast } = useToast();
+  const { floor, floorId } = useFloor();
   const canvasRef = useRef<HTMLDivElement>(null);
 
-  const [selectedCluster, setSelectedCluster] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [dragState, setDragState] = useState<DragState | null>(null);
+  const [bandState, setBandState] = useState<BandState | null>(null);
   const [showCreateCluster, setShowCreateCluster] = useState(false);
   const [showAddSeat, setShowAddSeat] = useState(false);
   const [showCapacityWarning, setShowCapacityWarning] = useState(false);
+  const [showPublish, setShowPublish] = useState(false);
+  const [publishDate, setPublishDate] = useState("");
+  const [publishNote, setPublishNote] = useState("");
 
   const [newCluster, setNewCluster] = useState({
     label: "",
@@ -93,43 +218,89 @@ export function VisualFloorEditor() {
     hasMonitor: true,
   });
 
-  // Local state for clusters and seats (changes are only saved on Save button)
-  const [localClusters, setLocalClusters] = useState<LocalCluster[]>([]);
-  const [localSeats, setLocalSeats] = useState<LocalSeat[]>([]);
+  // Local clusters and seats with undo history (changes are only saved on Save button)
+  const {
+    state: doc,
+    set: editDoc,
+    undo,
+    redo,
+    reset: resetDoc,
+    canUndo,
+    canRedo,
+  } = useUndoableState<EditorDoc>({ clusters: [], seats: [], shapes: [] });
+  const localClusters = doc.clusters;
+  const localSeats = doc.seats;
+  const shapes = doc.shapes;
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
-  const { data: serverClusters = [], isLoading: clustersLoading } = useQuery<Cluster[]>({
-    queryKey: ["/api/clusters"],
+  // Only the floor picked in the header is edited. Saves go to the floor's draft, which bookings
+  // never see; the live layout changes only when the draft is published.
+  const { data: layout, isLoading: layoutLoading } = useQuery<FloorLayout>({
+    queryKey: ["/api/layout", floorId],
+    enabled: !!floorId,
+  });
+
+  const { data: draft, isLoading: draftLoading } = useQuery<LayoutRevision | null>({
+    queryKey: ["/api/layout", floorId, "draft"],
+    enabled: !!floorId,
   });
 
-  const { data: serverSeats = [], isLoading: seatsLoading } = useQuery<Seat[]>({
-    queryKey: ["/api/seats"],
+  // The floor plan image isn't part of drafts; placement edits preview here until saved
+  const { data: background } = useQuery<FloorBackground | null>({
+    queryKey: ["/api/layout", floorId, "background"],
+    enabled: !!floorId,
   });
+  const [backgroundPlacement, setBackgroundPlacement] = useState<BackgroundPlacement | null>(null);
+  const canvasBackground = background ? { ...background, ...backgroundPlacement } : null;
+  useEffect(() => setBackgroundPlacement(null), [background]);
+
+  const source = useMemo(
+    () => (draft ? layoutFromSnapshot(draft.snapshot, layout) : layout),
+    [draft, layout]
+  );
+  const serverClusters = useMemo(() => source?.clusters ?? [], [source]);
+  const serverSeats = useMemo(() => source?.seats ?? [], [source]);
+  const serverShapes = useMemo(() => source?.shapes ?? [], [source]);
+  // Live revision the local edits started from; publishing checks it so newer live changes aren't overwritten
+  const baseRevision = useRef<number | null>(null);
+  const sourceRevision = draft ? draft.baseRevision : layout?.revision;
+  const draftIsStale = !!draft && !!layout && draft.baseRevision !== layout.revision;
+
+  // Switching floors drops edits to the previous one rather than saving them onto the new floor
+  const previousFloorId = useRef(floorId);
+  useEffect(() => {
+    if (previousFloorId.current === floorId) return;
+    previousFloorId.current = floorId;
+    setSelectedIds([]);
+    if (hasUnsavedChanges) {
+      toast({ title: "Unsaved layout changes discarded", description: "The editor now shows another floor." });
+      setHasUnsavedChanges(false);
+    }
+  }, [floorId, hasUnsavedChanges, toast]);
 
-  // Initialize local state from server data - only on fresh load
+  // Initialize local state from server data - only on fresh load. Loading starts a new undo history.
   useEffect(() => {
-    if (!hasUnsavedChanges && serverClusters.length >= 0 && serverSeats.length >= 0) {
+    if (!hasUnsavedChanges) {
+      baseRevision.current = sourceRevision ?? null;
       const newClusters = serverClusters.map(c => ({ ...c }));
       const newSeats = serverSeats.map(s => ({ ...s }));
-      
+      const newShapes = serverShapes.map(s => ({ ...s }));
+
       // Only update if data actually changed to prevent loops
-      setLocalClusters(prev => {
-        if (JSON.stringify(prev.map(({isNew, isDeleted, isModified, ...rest}) => rest)) === 
-            JSON.stringify(newClusters)) {
-          return prev;
-        }
-        return newClusters;
-      });
-      setLocalSeats(prev => {
-        if (JSON.stringify(prev.map(({isNew, isDeleted, ...rest}) => rest)) === 
-            JSON.stringify(newSeats)) {
-          return prev;
-        }
-        return newSeats;
+      resetDoc(prev => {
+        const sameClusters = JSON.stringify(prev.clusters.map(({ isNew, isDeleted, isModified, ...rest }) => rest)) ===
+          JSON.stringify(newClusters);
+        const sameSeats = JSON.stringify(prev.seats.map(({ isNew, isDeleted, ...rest }) => rest)) ===
+          JSON.stringify(newSeats);
+        const sameShapes = JSON.stringify(prev.shapes.map(({ isNew, ...rest }) => rest)) ===
+          JSON.stringify(newShapes);
+        return sameClusters && sameSeats && sameShapes
+          ? prev
+          : { clusters: newClusters, seats: newSeats, shapes: newShapes };
       });
     }
-  }, [serverClusters, serverSeats, hasUnsavedChanges]);
+  }, [sourceRevision, serverClusters, serverSeats, serverShapes, hasUnsavedChanges, resetDoc]);
 
   // Compute active clusters and seats (excluding deleted ones)
   const clusters = useMemo(() => 
@@ -142,16 +313,14 @@ export function VisualFloorEditor() {
     [localSeats]
   );
 
-  const seatsByCluster = useMemo(() => {
-    const map = new Map<string, LocalSeat[]>();
-    seats.forEach((seat) => {
-      const clusterId = seat.clusterGroup || "unassigned";
-      const existing = map.get(clusterId) || [];
-      existing.push(seat);
-      map.set(clusterId, existing);
-    });
-    return map;
-  }, [seats]);
+  const seatsByCluster = useMemo(() => groupSeatsByCluster(seats), [seats]);
+
+  // Leave room to drag past the furthest item or the edge of the floor plan image
+  const contentSize = getLayoutSize(clusters, shapes, canvasBackground);
+  const canvasSize = {
+    width: Math.max(1600, contentSize.width + GRID_SIZE * 10),
+    height: Math.max(1200, contentSize.height + GRID_SIZE * 10),
+  };
 
   const snapToGrid = (value: number) =>
     Math.round(value / GRID_SIZE) * GRID_SIZE;
@@ -184,103 +353,120 @@ export function VisualFloorEditor() {
     return clusterSeats.length < cluster.gridCols * cluster.gridRows;
   };
 
-  // Update local cluster
-  const updateLocalCluster = (id: string, updates: Partial<LocalCluster>) => {
-    setLocalClusters(prev => 
-      prev.map(c => c.id === id ? { ...c, ...updates, isModified: true } : c)
-    );
+  // Every edit goes through the undo history
+  const changeDoc = (update: (current: EditorDoc) => EditorDoc, coalesceKey?: string) => {
+    editDoc(update, coalesceKey);
     setHasUnsavedChanges(true);
   };
 
-  // Create local cluster
-  const createLocalCluster = (cluster: LocalCluster) => {
-    setLocalClusters(prev => [...prev, { ...cluster, isNew: true }]);
+  const handleUndo = () => {
+    if (!canUndo) return;
+    undo();
     setHasUnsavedChanges(true);
   };
 
-  // Delete local cluster
-  const deleteLocalCluster = (id: string) => {
-    setLocalClusters(prev => 
-      prev.map(c => c.id === id ? { ...c, isDeleted: true } : c)
-    );
-    // Also mark all seats in this cluster as deleted
-    setLocalSeats(prev =>
-      prev.map(s => s.clusterGroup === id ? { ...s, isDeleted: true } : s)
-    );
-    setSelectedCluster(null);
+  const handleRedo = () => {
+    if (!canRedo) return;
+    redo();
     setHasUnsavedChanges(true);
   };
 
+  // Update local cluster
+  const updateLocalCluster = (id: string, updates: Partial<LocalCluster>, coalesceKey?: string) => {
+    changeDoc(d => ({
+      ...d,
+      clusters: d.clusters.map(c => c.id === id ? { ...c, ...updates, isModified: true } : c),
+    }), coalesceKey);
+  };
+
+  const updateLocalShape = (id: string, updates: Partial<LocalShape>, coalesceKey?: string) => {
+    changeDoc(d => ({
+      ...d,
+      shapes: d.shapes.map(s => s.id === id ? { ...s, ...updates } : s),
+    }), coalesceKey);
+  };
+
+  // Move several clusters and shapes as one undo step
+  const moveLocalItems = (moves: LayoutMoves, coalesceKey?: string) => {
+    if (moves.size === 0) return;
+    changeDoc(d => ({
+      ...d,
+      clusters: d.clusters.map(c => {
+        const move = moves.get(c.id);
+        return move ? { ...c, ...move, isModified: true } : c;
+      }),
+      shapes: d.shapes.map(s => {
+        const move = moves.get(s.id);
+        return move ? { ...s, ...move } : s;
+      }),
+    }), coalesceKey);
+  };
+
+  // Create local cluster
+  const createLocalCluster = (cluster: LocalCluster) => {
+    changeDoc(d => ({ ...d, clusters: [...d.clusters, { ...cluster, isNew: true }] }));
+  };
+
+  const createLocalShape = (shape: LocalShape) => {
+    changeDoc(d => ({ ...d, shapes: [...d.shapes, { ...shape, isNew: true }] }));
+  };
+
+  // Delete local clusters together with their seats, and any selected shapes
+  const deleteLocalItems = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const deleted = new Set(ids);
+    changeDoc(d => ({
+      clusters: d.clusters.map(c => deleted.has(c.id) ? { ...c, isDeleted: true } : c),
+      seats: d.seats.map(s => s.clusterGroup && deleted.has(s.clusterGroup) ? { ...s, isDeleted: true } : s),
+      shapes: d.shapes.filter(s => !deleted.has(s.id)),
+    }));
+    setSelectedIds([]);
+  };
+
   // Create local seat
   const createLocalSeat = (seat: LocalSeat) => {
-    setLocalSeats(prev => [...prev, { ...seat, isNew: true }]);
-    setHasUnsavedChanges(true);
+    changeDoc(d => ({ ...d, seats: [...d.seats, { ...seat, isNew: true }] }));
   };
 
   // Delete local seat
   const deleteLocalSeat = (id: string) => {
-    setLocalSeats(prev =>
-      prev.map(s => s.id === id ? { ...s, isDeleted: true } : s)
-    );
-    setHasUnsavedChanges(true);
+    changeDoc(d => ({
+      ...d,
+      seats: d.seats.map(s => s.id === id ? { ...s, isDeleted: true } : s),
+    }));
   };
 
-  // Reset to server state
+  // Reset to the saved draft, or the live layout if there is none
   const handleReset = () => {
-    setLocalClusters(serverClusters.map(c => ({ ...c })));
-    setLocalSeats(serverSeats.map(s => ({ ...s })));
+    baseRevision.current = sourceRevision ?? null;
+    resetDoc(() => ({
+      clusters: serverClusters.map(c => ({ ...c })),
+      seats: serverSeats.map(s => ({ ...s })),
+      shapes: serverShapes.map(s => ({ ...s })),
+    }));
     setHasUnsavedChanges(false);
-    setSelectedCluster(null);
+    setSelectedIds([]);
     toast({ title: "Changes discarded" });
   };
 
-  // Save all changes to server
-  const handleSave = async () => {
+  // Save the whole floor as its draft. Passing the current live revision accepts that publishing
+  // the draft will replace whatever changed live since the draft was started.
+  const saveDraft = async (revision: number) => {
+    if (!floorId) return;
     setIsSaving(true);
     try {
-      // Process deleted clusters
-      const deletedClusters = localClusters.filter(c => c.isDeleted && !c.isNew);
-      for (const cluster of deletedClusters) {
-        await apiRequest("DELETE", `/api/clusters/${cluster.id}`);
-      }
-
-      // Process deleted seats
-      const deletedSeats = localSeats.filter(s => s.isDeleted && !s.isNew);
-      for (const seat of deletedSeats) {
-        await apiRequest("DELETE", `/api/seats/${seat.id}`);
-      }
-
-      // Process new clusters
-      const newClusters = localClusters.filter(c => c.isNew && !c.isDeleted);
-      for (const cluster of newClusters) {
-        await apiRequest("POST", "/api/clusters", {
+      const res = await apiRequest("PUT", `/api/layout/${floorId}/draft`, {
+        revision,
+        clusters: clusters.map(cluster => ({
           id: cluster.id,
-          label: cluster.label || undefined,
-          positionX: cluster.positionX,
-          positionY: cluster.positionY,
-          gridCols: cluster.gridCols,
-          gridRows: cluster.gridRows,
-          rotation: cluster.rotation,
-        });
-      }
-
-      // Process modified clusters
-      const modifiedClusters = localClusters.filter(c => c.isModified && !c.isNew && !c.isDeleted);
-      for (const cluster of modifiedClusters) {
-        await apiRequest("PATCH", `/api/clusters/${cluster.id}`, {
           label: cluster.label,
           positionX: cluster.positionX,
           positionY: cluster.positionY,
           gridCols: cluster.gridCols,
           gridRows: cluster.gridRows,
           rotation: cluster.rotation,
-        });
-      }
-
-      // Process new seats
-      const newSeats = localSeats.filter(s => s.isNew && !s.isDeleted);
-      for (const seat of newSeats) {
-        await apiRequest("POST", "/api/seats", {
+        })),
+        seats: seats.map(seat => ({
           id: seat.id,
           name: seat.name,
           type: seat.type,
@@ -288,95 +474,339 @@ export function VisualFloorEditor() {
           clusterGroup: seat.clusterGroup,
           positionX: seat.positionX,
           positionY: seat.positionY,
-        });
-      }
+        })),
+        shapes: shapes.map(shape => ({
+          id: shape.id,
+          kind: shape.kind,
+          label: shape.label,
+          positionX: shape.positionX,
+          positionY: shape.positionY,
+          width: shape.width,
+          height: shape.height,
+          rotation: shape.rotation,
+        })),
+      });
+      const saved: LayoutRevision = await res.json();
 
-      // Invalidate queries to refresh data
-      await queryClient.invalidateQueries({ queryKey: ["/api/clusters"] });
-      await queryClient.invalidateQueries({ queryKey: ["/api/seats"] });
+      baseRevision.current = saved.baseRevision;
+      queryClient.setQueryData(["/api/layout", floorId, "draft"], saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/layout", floorId, "revisions"] });
 
       setHasUnsavedChanges(false);
-      toast({ title: "Layout saved", description: "All changes have been saved." });
+      toast({ title: "Draft saved", description: "Employees keep seeing the live layout until you publish it." });
     } catch (error) {
-      toast({ 
-        title: "Save failed", 
-        description: error instanceof Error ? error.message : "Unknown error",
-        variant: "destructive" 
-      });
+      const message = error instanceof Error ? error.message : "Unknown error";
+      toast({ title: "Save failed", description: message, variant: "destructive" });
     } finally {
       setIsSaving(false);
     }
   };
 
-  const handleMouseDown = useCallback(
-    (e: React.MouseEvent, clusterId: string, cluster: LocalCluster) => {
-      e.preventDefault();
-      e.stopPropagation();
-      const rect = canvasRef.current?.getBoundingClientRect();
-      if (!rect) return;
-
-      const scrollLeft = canvasRef.current?.scrollLeft || 0;
-      const scrollTop = canvasRef.current?.scrollTop || 0;
-
-      setDragState({
-        clusterId,
-        startX: cluster.positionX,
-        startY: cluster.positionY,
-        offsetX: e.clientX - rect.left + scrollLeft - cluster.positionX,
-        offsetY: e.clientY - rect.top + scrollTop - cluster.positionY,
-        currentX: cluster.positionX,
-        currentY: cluster.positionY,
+  const handleSave = () => {
+    if (baseRevision.current === null) return;
+    saveDraft(baseRevision.current);
+  };
+
+  const invalidateLayout = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/layout"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/clusters"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/seats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings/needs-reassignment"] });
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/layout/${floorId}/draft/publish`, {
+        effectiveDate: publishDate || undefined,
+        note: publishNote.trim() || null,
       });
-      setSelectedCluster(clusterId);
+      return res.json() as Promise<{ revision: LayoutRevision; flaggedBookings: number }>;
     },
-    [],
-  );
+    onSuccess: ({ revision, flaggedBookings }) => {
+      invalidateLayout();
+      setShowPublish(false);
+      if (revision.status === "scheduled") {
+        toast({
+          title: "Layout scheduled",
+          description: `Version ${revision.version} goes live on ${revision.effectiveDate}.`,
+        });
+      } else {
+        toast({
+          title: "Layout published",
+          description: flaggedBookings > 0
+            ? `${flaggedBookings} upcoming booking${flaggedBookings === 1 ? " was" : "s were"} on removed seats and need reassigning.`
+            : "Employees now book against the new layout.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      if (error.message.startsWith("409")) {
+        invalidateLayout();
+        setShowPublish(false);
+        toast({
+          title: "Live layout changed",
+          description: "The floor changed after this draft was saved. Review the draft and rebase it before publishing.",
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: "Publish failed", description: error.message, variant: "destructive" });
+      }
+    },
+  });
 
-  const handleMouseMove = useCallback(
-    (e: React.MouseEvent) => {
-      if (!dragState || !canvasRef.current) return;
+  const discardDraftMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/layout/${floorId}/draft`);
+    },
+    onSuccess: () => {
+      setHasUnsavedChanges(false);
+      setSelectedIds([]);
+      queryClient.setQueryData(["/api/layout", floorId, "draft"], null);
+      queryClient.invalidateQueries({ queryKey: ["/api/layout", floorId, "revisions"] });
+      toast({ title: "Draft discarded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to discard draft", description: error.message, variant: "destructive" });
+    },
+  });
 
-      const rect = canvasRef.current.getBoundingClientRect();
-      const scrollLeft = canvasRef.current.scrollLeft || 0;
-      const scrollTop = canvasRef.current.scrollTop || 0;
+  const openPublish = () => {
+    setPublishDate(format(new Date(), "yyyy-MM-dd"));
+    setPublishNote(draft?.note ?? "");
+    setShowPublish(true);
+  };
 
-      const newX = Math.max(
-        0,
-        snapToGrid(e.clientX - rect.left + scrollLeft - dragState.offsetX),
-      );
-      const newY = Math.max(
-        0,
-        snapToGrid(e.clientY - rect.top + scrollTop - dragState.offsetY),
+  const toCanvasPoint = (e: React.MouseEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: e.clientX - rect.left + canvas.scrollLeft,
+      y: e.clientY - rect.top + canvas.scrollTop,
+    };
+  };
+
+  const canvasItems: CanvasItem[] = [
+    ...clusters.map(c => ({ id: c.id, positionX: c.positionX, positionY: c.positionY, bounds: getClusterBounds(c) })),
+    ...shapes.map(s => ({ id: s.id, positionX: s.positionX, positionY: s.positionY, bounds: getShapeBounds(s) })),
+  ];
+
+  // Shift-click toggles a cluster or shape in the selection; otherwise pressing one drags it along
+  // with the rest of the selection it belongs to
+  const handleMouseDown = (e: React.MouseEvent, itemId: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.shiftKey) {
+      setSelectedIds(prev =>
+        prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]
       );
+      return;
+    }
+    const point = toCanvasPoint(e);
+    if (!point) return;
+
+    const ids = selectedIds.includes(itemId) ? selectedIds : [itemId];
+    const origins: DragState["origins"] = {};
+    canvasItems
+      .filter(item => ids.includes(item.id))
+      .forEach(item => { origins[item.id] = { x: item.positionX, y: item.positionY }; });
+    setSelectedIds(ids);
+    setDragState({ itemIds: ids, origins, pointerX: point.x, pointerY: point.y, dx: 0, dy: 0 });
+  };
 
-      if (newX !== dragState.currentX || newY !== dragState.currentY) {
-        setDragState((prev) =>
-          prev ? { ...prev, currentX: newX, currentY: newY } : null,
-        );
-      }
-    },
-    [dragState],
-  );
+  // Pressing empty canvas starts a rubber-band selection
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const point = toCanvasPoint(e);
+    if (!point) return;
+    if (!e.shiftKey) setSelectedIds([]);
+    setBandState({ startX: point.x, startY: point.y, currentX: point.x, currentY: point.y, additive: e.shiftKey });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const point = toCanvasPoint(e);
+    if (!point) return;
+
+    if (bandState) {
+      setBandState({ ...bandState, currentX: point.x, currentY: point.y });
+      return;
+    }
+    if (!dragState) return;
+
+    // Keep the leftmost/topmost item of the selection on the canvas
+    const origins = Object.values(dragState.origins);
+    const minX = Math.min(...origins.map(o => o.x));
+    const minY = Math.min(...origins.map(o => o.y));
+    const dx = Math.max(-minX, snapToGrid(point.x - dragState.pointerX));
+    const dy = Math.max(-minY, snapToGrid(point.y - dragState.pointerY));
 
-  const handleMouseUp = useCallback(() => {
-    if (
-      dragState &&
-      (dragState.currentX !== dragState.startX ||
-        dragState.currentY !== dragState.startY)
-    ) {
-      updateLocalCluster(dragState.clusterId, {
-        positionX: dragState.currentX,
-        positionY: dragState.currentY,
+    if (dx !== dragState.dx || dy !== dragState.dy) {
+      setDragState({ ...dragState, dx, dy });
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (dragState && (dragState.dx !== 0 || dragState.dy !== 0)) {
+      const moves: LayoutMoves = new Map();
+      Object.entries(dragState.origins).forEach(([id, origin]) => {
+        moves.set(id, { positionX: origin.x + dragState.dx, positionY: origin.y + dragState.dy });
       });
+      moveLocalItems(moves);
     }
     setDragState(null);
-  }, [dragState]);
+
+    if (bandState) {
+      const left = Math.min(bandState.startX, bandState.currentX);
+      const right = Math.max(bandState.startX, bandState.currentX);
+      const top = Math.min(bandState.startY, bandState.currentY);
+      const bottom = Math.max(bandState.startY, bandState.currentY);
+      const inside = canvasItems
+        .filter(({ bounds }) =>
+          bounds.left < right && bounds.right > left && bounds.top < bottom && bounds.bottom > top
+        )
+        .map(item => item.id);
+      setSelectedIds(prev =>
+        bandState.additive ? Array.from(new Set([...prev, ...inside])) : inside
+      );
+      setBandState(null);
+    }
+  };
+
+  const selection = canvasItems.filter(item => selectedIds.includes(item.id));
+  const selectedCluster = selection.length === 1 && clusters.some(c => c.id === selection[0].id)
+    ? selection[0].id
+    : null;
+  const selectedShape = selection.length === 1 ? shapes.find(s => s.id === selection[0].id) : undefined;
+
+  const nudgeSelection = (dx: number, dy: number) => {
+    const moves: LayoutMoves = new Map();
+    selection.forEach(item => {
+      moves.set(item.id, {
+        positionX: Math.max(0, item.positionX + dx),
+        positionY: Math.max(0, item.positionY + dy),
+      });
+    });
+    moveLocalItems(moves, `nudge:${selectedIds.join(",")}`);
+  };
+
+  // Line up the selection's rotated outlines along one edge or centre line
+  const alignSelection = (alignment: Alignment) => {
+    const left = Math.min(...selection.map(item => item.bounds.left));
+    const right = Math.max(...selection.map(item => item.bounds.right));
+    const top = Math.min(...selection.map(item => item.bounds.top));
+    const bottom = Math.max(...selection.map(item => item.bounds.bottom));
+
+    const moves: LayoutMoves = new Map();
+    selection.forEach(item => {
+      const { bounds } = item;
+      const width = bounds.right - bounds.left;
+      const height = bounds.bottom - bounds.top;
+      let dx = 0;
+      let dy = 0;
+      if (alignment === "left") dx = left - bounds.left;
+      if (alignment === "center") dx = (left + right) / 2 - (bounds.left + width / 2);
+      if (alignment === "right") dx = right - bounds.right;
+      if (alignment === "top") dy = top - bounds.top;
+      if (alignment === "middle") dy = (top + bottom) / 2 - (bounds.top + height / 2);
+      if (alignment === "bottom") dy = bottom - bounds.bottom;
+      moves.set(item.id, {
+        positionX: Math.max(0, Math.round(item.positionX + dx)),
+        positionY: Math.max(0, Math.round(item.positionY + dy)),
+      });
+    });
+    moveLocalItems(moves);
+  };
+
+  // Space the selection's centres evenly between the outermost two
+  const distributeSelection = (axis: "horizontal" | "vertical") => {
+    const centre = ({ bounds }: CanvasItem) =>
+      axis === "horizontal" ? (bounds.left + bounds.right) / 2 : (bounds.top + bounds.bottom) / 2;
+    const sorted = [...selection].sort((a, b) => centre(a) - centre(b));
+    const first = centre(sorted[0]);
+    const step = (centre(sorted[sorted.length - 1]) - first) / (sorted.length - 1);
+
+    const moves: LayoutMoves = new Map();
+    sorted.forEach((item, i) => {
+      const shift = Math.round(first + i * step - centre(item));
+      moves.set(item.id, {
+        positionX: axis === "horizontal" ? item.positionX + shift : item.positionX,
+        positionY: axis === "vertical" ? item.positionY + shift : item.positionY,
+      });
+    });
+    moveLocalItems(moves);
+  };
+
+  // Editor shortcuts; ignored while typing in a field or a dialog is open
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || dragState || bandState) return;
+      const key = e.key.toLowerCase();
+      const mod = e.ctrlKey || e.metaKey;
+
+      if (mod && key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+        return;
+      }
+      if (mod && key === "y") {
+        e.preventDefault();
+        handleRedo();
+        return;
+      }
+      if (mod && key === "a") {
+        e.preventDefault();
+        setSelectedIds(canvasItems.map(item => item.id));
+        return;
+      }
+      if (key === "escape") {
+        setSelectedIds([]);
+        return;
+      }
+      if (selection.length === 0) return;
+
+      const step = e.shiftKey ? GRID_SIZE * 5 : GRID_SIZE;
+      const nudges: Record<string, [number, number]> = {
+        arrowleft: [-step, 0],
+        arrowright: [step, 0],
+        arrowup: [0, -step],
+        arrowdown: [0, step],
+      };
+      if (nudges[key]) {
+        e.preventDefault();
+        nudgeSelection(...nudges[key]);
+      } else if (key === "delete" || key === "backspace") {
+        e.preventDefault();
+        deleteLocalItems(selection.map(item => item.id));
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
 
   const handleRotate = (clusterId: string, currentRotation: number) => {
     const newRotation = (currentRotation + 90) % 360;
     updateLocalCluster(clusterId, { rotation: newRotation });
   };
 
+  // New shapes land in the visible part of the canvas
+  const handleAddShape = (kind: LayoutShapeKind) => {
+    const canvas = canvasRef.current;
+    const id = `shape-${Date.now()}`;
+    createLocalShape({
+      id,
+      floorId: floorId ?? "",
+      kind,
+      ...NEW_SHAPES[kind],
+      positionX: snapToGrid((canvas?.scrollLeft ?? 0) + 100),
+      positionY: snapToGrid((canvas?.scrollTop ?? 0) + 100),
+      rotation: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    setSelectedIds([id]);
+  };
+
   const handleCreateCluster = () => {
     if (!validateGridDimensions(newCluster.gridCols, newCluster.gridRows)) {
       toast({
@@ -390,6 +820,7 @@ export function VisualFloorEditor() {
     const id = `cluster-${Date.now()}`;
     createLocalCluster({
       id,
+      floorId: floorId ?? null,
       label: newCluster.label || null,
       positionX: 100,
       positionY: 100,
@@ -422,7 +853,9 @@ export function VisualFloorEditor() {
     }
 
     createLocalSeat({
-      id: `seat-${newSeat.name.toLowerCase()}`,
+      // Names repeat across floors, so the id needs more than the name to stay unique
+      id: `seat-${newSeat.name.toLowerCase()}-${Date.now()}`,
+      floorId: cluster.floorId,
       name: newSeat.name,
       type: newSeat.type,
       hasMonitor: newSeat.hasMonitor,
@@ -432,8 +865,10 @@ export function VisualFloorEditor() {
       isBlocked: false,
       isLongTermReserved: false,
       longTermReservedBy: null,
+      longTermReservedFor: null,
       longTermReservedUntil: null,
       metadata: null,
+      archivedAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -464,114 +899,142 @@ export function VisualFloorEditor() {
       return;
     }
 
-    updateLocalCluster(clusterId, { gridCols: cols, gridRows: rows });
+    updateLocalCluster(clusterId, { gridCols: cols, gridRows: rows }, `grid:${clusterId}`);
   };
 
   const renderCluster = (cluster: LocalCluster) => {
     const clusterSeats = seatsByCluster.get(cluster.id) || [];
-    const isSelected = selectedCluster === cluster.id;
-    const isDragging = dragState?.clusterId === cluster.id;
-
-    const posX = isDragging ? dragState.currentX : cluster.positionX;
-    const posY = isDragging ? dragState.currentY : cluster.positionY;
-
-    const width = cluster.gridCols * CELL_SIZE + 16;
-    const height = cluster.gridRows * CELL_SIZE + 16;
+    const isSelected = selectedIds.includes(cluster.id);
+    const origin = dragState?.origins[cluster.id];
+    const isDragging = !!origin;
 
     return (
-      <div
+      <LayoutCluster
         key={cluster.id}
-        className={`absolute cursor-move ${
+        cluster={cluster}
+        seats={clusterSeats}
+        position={origin && dragState ? { x: origin.x + dragState.dx, y: origin.y + dragState.dy } : undefined}
+        className={`cursor-move ${
           isSelected ? "ring-2 ring-primary ring-offset-2" : ""
         } ${isDragging ? "opacity-90 z-50 shadow-lg" : ""} ${
           cluster.isNew ? "ring-1 ring-green-500" : ""
         }`}
-        style={{
-          left: posX,
-          top: posY,
-          width,
-          minHeight: height,
-          transform: `rotate(${cluster.rotation}deg)`,
-          transformOrigin: "center center",
-        }}
-        onMouseDown={(e) => handleMouseDown(e, cluster.id, cluster)}
-        onClick={(e) => {
-          e.stopPropagation();
-          setSelectedCluster(cluster.id);
-        }}
+        onMouseDown={(e) => handleMouseDown(e, cluster.id)}
         data-testid={`cluster-${cluster.id}`}
-      >
-        <div className="bg-muted/50 rounded-lg border border-border p-2 h-full relative">
-          <div className="absolute -top-3 left-2 flex items-center gap-1">
-            {cluster.label && (
-              <Badge variant="secondary" className="text-xs">
-                {cluster.label}
-              </Badge>
-            )}
-            <Badge variant="outline" className="text-xs">
-              {cluster.gridCols}x{cluster.gridRows}
-            </Badge>
-            {cluster.isNew && (
-              <Badge variant="default" className="text-xs bg-green-600">
-                New
-              </Badge>
-            )}
-          </div>
-
-          <div className="absolute -top-3 right-2">
-            <GripVertical className="h-4 w-4 text-muted-foreground" />
-          </div>
-
+        renderCell={(seat) => (
           <div
-            className="grid gap-1 pt-2"
-            style={{
-              gridTemplateColumns: `repeat(${cluster.gridCols}, minmax(0, 1fr))`,
-            }}
+            className={`w-full h-full flex items-center justify-center rounded-md text-xs font-medium ${
+              seat
+                ? seat.isLongTermReserved
+                  ? "bg-orange-100 dark:bg-orange-900/40 text-orange-800 dark:text-orange-200 border border-orange-300"
+                  : seat.isBlocked
+                    ? "bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 border border-slate-400"
+                    : seat.isNew
+                      ? "bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 border border-green-400"
+                      : "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-800 dark:text-emerald-200 border border-emerald-400"
+                : "bg-muted/30 border border-dashed border-muted-foreground/30"
+            }`}
           >
-            {Array.from({ length: cluster.gridCols * cluster.gridRows }).map(
-              (_, idx) => {
-                const row = Math.floor(idx / cluster.gridCols);
-                const col = idx % cluster.gridCols;
-                const seat = clusterSeats.find(
-                  (s) => s.positionX === col && s.positionY === row,
-                );
-
-                return (
-                  <div
-                    key={idx}
-                    className={`flex items-center justify-center rounded-md text-xs font-medium ${
-                      seat
-                        ? seat.isLongTermReserved
-                          ? "bg-orange-100 dark:bg-orange-900/40 text-orange-800 dark:text-orange-200 border border-orange-300"
-                          : seat.isBlocked
-                            ? "bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 border border-slate-400"
-                            : seat.isNew
-                              ? "bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 border border-green-400"
-                              : "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-800 dark:text-emerald-200 border border-emerald-400"
-                        : "bg-muted/30 border border-dashed border-muted-foreground/30"
-                    }`}
-                    style={{
-                      width: CELL_SIZE - 4,
-                      height: CELL_SIZE - 4,
-                      transform: `rotate(${-cluster.rotation}deg)`,
-                    }}
-                  >
-                    {seat ? (
-                      <div className="flex items-center gap-1">
-                        <span>{seat.name}</span>
-                        {seat.hasMonitor && <Monitor className="h-3 w-3" />}
-                      </div>
-                    ) : (
-                      <Plus className="h-3 w-3 text-muted-foreground" />
-                    )}
-                  </div>
-                );
-              },
+            {seat ? (
+              <div className="flex items-center gap-1">
+                <span>{seat.name}</span>
+                {seat.hasMonitor && <Monitor className="h-3 w-3" />}
+              </div>
+            ) : (
+              <Plus className="h-3 w-3 text-muted-foreground" />
             )}
           </div>
+        )}
+      >
+        <div className="absolute -top-3 left-2 flex items-center gap-1">
+          {cluster.label && (
+            <Badge variant="secondary" className="text-xs">
+              {cluster.label}
+            </Badge>
+          )}
+          <Badge variant="outline" className="text-xs">
+            {cluster.gridCols}x{cluster.gridRows}
+          </Badge>
+          {cluster.isNew && (
+            <Badge variant="default" className="text-xs bg-green-600">
+              New
+            </Badge>
+          )}
+        </div>
+
+        <div className="absolute -top-3 right-2">
+          <GripVertical className="h-4 w-4 text-muted-foreground" />
         </div>
+      </LayoutCluster>
+    );
+  };
+
+  const renderShape = (shape: LocalShape) => {
+    const origin = dragState?.origins[shape.id];
+    return (
+      <LayoutShapeView
+        key={shape.id}
+        shape={shape}
+        position={origin && dragState ? { x: origin.x + dragState.dx, y: origin.y + dragState.dy } : undefined}
+        className={`cursor-move ${selectedIds.includes(shape.id) ? "ring-2 ring-primary ring-offset-2" : ""} ${
+          origin ? "opacity-90 z-50" : ""
+        } ${shape.isNew ? "outline outline-1 outline-green-500" : ""}`}
+        onMouseDown={(e) => handleMouseDown(e, shape.id)}
+        data-testid={`shape-${shape.id}`}
+      />
+    );
+  };
+
+  const renderShapeProperties = (shape: LocalShape) => {
+    const numberField = (
+      field: "width" | "height" | "rotation" | "positionX" | "positionY",
+      label: string,
+      props: { min?: number; max?: number; step?: number } = {}
+    ) => (
+      <div className="space-y-2">
+        <Label>{label}</Label>
+        <Input
+          type="number"
+          {...props}
+          value={shape[field]}
+          onChange={(e) => {
+            const value = parseInt(e.target.value) || 0;
+            updateLocalShape(shape.id, { [field]: props.min !== undefined ? Math.max(props.min, value) : value }, `${field}:${shape.id}`);
+          }}
+          data-testid={`input-shape-${field}`}
+        />
       </div>
     );
+
+    return (
+      <>
+        <div className="space-y-2">
+          <Label>Shape</Label>
+          <p className="text-sm text-muted-foreground capitalize">{shape.kind}</p>
+        </div>
+        {shape.kind !== "wall" && (
+          <div className="space-y-2">
+            <Label>Label</Label>
+            <Input
+              value={shape.label || ""}
+              onChange={(e) => updateLocalShape(shape.id, { label: e.target.value || null }, `label:${shape.id}`)}
+              maxLength={50}
+              placeholder={shape.kind === "room" ? "e.g., Meeting Room 2" : "e.g., Kitchen"}
+              data-testid="input-shape-label"
+            />
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          {numberField("width", "Width", { min: 1, max: 5000 })}
+          {numberField("height", "Height", { min: 1, max: 5000 })}
+        </div>
+        {numberField("rotation", "Rotation (deg)", { min: 0, max: 360, step: 15 })}
+        <div className="grid grid-cols-2 gap-2">
+          {numberField("positionX", "X Position", { min: 0 })}
+          {numberField("positionY", "Y Position", { min: 0 })}
+        </div>
+      </>
+    );
   };
 
   const selectedClusterData = clusters.find((c) => c.id === selectedCluster);
@@ -579,7 +1042,7 @@ export function VisualFloorEditor() {
     ? seatsByCluster.get(selectedCluster) || []
     : [];
 
-  if (clustersLoading || seatsLoading) {
+  if (layoutLoading || draftLoading) {
     return (
       <Card>
         <CardContent className="p-8">
@@ -604,6 +1067,29 @@ export function VisualFloorEditor() {
             <Grid3X3 className="h-4 w-4 mr-2" />
             Add Cluster
           </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" data-testid="button-add-shape">
+                <Shapes className="h-4 w-4 mr-2" />
+                Add Shape
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onClick={() => handleAddShape("wall")}>Wall</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleAddShape("room")}>Room</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleAddShape("label")}>Label</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {selectedShape && (
+            <Button
+              variant="destructive"
+              onClick={() => deleteLocalItems([selectedShape.id])}
+              data-testid="button-delete-shape"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
           {selectedCluster && (
             <>
               <Button
@@ -630,7 +1116,7 @@ export function VisualFloorEditor() {
               </Button>
               <Button
                 variant="destructive"
-                onClick={() => deleteLocalCluster(selectedCluster)}
+                onClick={() => deleteLocalItems([selectedCluster])}
                 data-testid="button-delete-cluster"
               >
                 <Trash2 className="h-4 w-4 mr-2" />
@@ -638,8 +1124,102 @@ export function VisualFloorEditor() {
               </Button>
             </>
           )}
+          {selection.length > 1 && (
+            <>
+              <Badge variant="secondary">{selection.length} selected</Badge>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" data-testid="button-align-clusters">
+                    <AlignStartVertical className="h-4 w-4 mr-2" />
+                    Align
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuItem onClick={() => alignSelection("left")}>
+                    <AlignStartVertical className="h-4 w-4 mr-2" />
+                    Left edges
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => alignSelection("center")}>
+                    <AlignCenterVertical className="h-4 w-4 mr-2" />
+                    Horizontal centres
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => alignSelection("right")}>
+                    <AlignEndVertical className="h-4 w-4 mr-2" />
+                    Right edges
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => alignSelection("top")}>
+                    <AlignStartHorizontal className="h-4 w-4 mr-2" />
+                    Top edges
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => alignSelection("middle")}>
+                    <AlignCenterHorizontal className="h-4 w-4 mr-2" />
+                    Vertical centres
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => alignSelection("bottom")}>
+                    <AlignEndHorizontal className="h-4 w-4 mr-2" />
+                    Bottom edges
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={selection.length < 3} data-testid="button-distribute-clusters">
+                    <AlignHorizontalDistributeCenter className="h-4 w-4 mr-2" />
+                    Distribute
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuItem onClick={() => distributeSelection("horizontal")}>
+                    <AlignHorizontalDistributeCenter className="h-4 w-4 mr-2" />
+                    Horizontally
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => distributeSelection("vertical")}>
+                    <AlignVerticalDistributeCenter className="h-4 w-4 mr-2" />
+                    Vertically
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="destructive"
+                onClick={() => deleteLocalItems(selection.map(item => item.id))}
+                data-testid="button-delete-selected-clusters"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete {selection.length}
+              </Button>
+            </>
+          )}
         </div>
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          {draft ? (
+            <Badge variant="secondary" data-testid="badge-layout-draft">
+              Draft v{draft.version}
+            </Badge>
+          ) : (
+            <Badge variant="outline" data-testid="badge-layout-live">
+              Live layout
+            </Badge>
+          )}
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleUndo}
+            disabled={!canUndo || isSaving}
+            title="Undo (Ctrl+Z)"
+            data-testid="button-undo-layout"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleRedo}
+            disabled={!canRedo || isSaving}
+            title="Redo (Ctrl+Shift+Z)"
+            data-testid="button-redo-layout"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
           {hasUnsavedChanges && (
             <>
               <Badge variant="outline" className="gap-1 text-amber-600 border-amber-400">
@@ -652,7 +1232,7 @@ export function VisualFloorEditor() {
                 disabled={isSaving}
                 data-testid="button-reset-layout"
               >
-                <Undo2 className="h-4 w-4 mr-2" />
+                <RotateCcw className="h-4 w-4 mr-2" />
                 Reset
               </Button>
             </>
@@ -663,15 +1243,57 @@ export function VisualFloorEditor() {
             data-testid="button-save-layout"
           >
             <Save className="h-4 w-4 mr-2" />
-            {isSaving ? "Saving..." : "Save Layout"}
+            {isSaving ? "Saving..." : "Save Draft"}
           </Button>
+          {draft && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => discardDraftMutation.mutate()}
+                disabled={isSaving || discardDraftMutation.isPending}
+                data-testid="button-discard-draft"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Discard Draft
+              </Button>
+              <Button
+                onClick={openPublish}
+                disabled={hasUnsavedChanges || draftIsStale || isSaving}
+                data-testid="button-publish-layout"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Publish
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
+      {draftIsStale && (
+        <div className="flex items-center justify-between gap-2 p-3 rounded-md bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 text-sm">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            The live layout changed after this draft was saved. Publishing the draft will replace those changes.
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => layout && saveDraft(layout.revision)}
+            disabled={hasUnsavedChanges || isSaving}
+            data-testid="button-rebase-draft"
+          >
+            Rebase draft
+          </Button>
+        </div>
+      )}
+
       <div className="flex items-center gap-2">
         <Badge variant="secondary" className="gap-1">
           <Move className="h-3 w-3" />
-          Drag clusters to reposition
+          Drag clusters and shapes to reposition; drag on empty space or shift-click to select several
+        </Badge>
+        <Badge variant="outline" className="text-xs">
+          Arrow keys nudge the selection (Shift for 5 cells)
         </Badge>
         <Badge variant="outline" className="text-xs">
           Grid max: One dimension must be ≤2 for accessibility
@@ -681,7 +1303,7 @@ export function VisualFloorEditor() {
       <div className="grid lg:grid-cols-[1fr_300px] gap-4">
         <Card className="h-fit">
           <CardHeader className="pb-2">
-            <CardTitle className="text-lg">Floor Plan Canvas</CardTitle>
+            <CardTitle className="text-lg">{floor ? `${floor.name} Canvas` : "Floor Plan Canvas"}</CardTitle>
           </CardHeader>
           <CardContent className="p-2">
             <div
@@ -692,22 +1314,35 @@ export function VisualFloorEditor() {
                 maxHeight: "500px",
                 minHeight: "500px",
               }}
+              onMouseDown={handleCanvasMouseDown}
               onMouseMove={handleMouseMove}
               onMouseUp={handleMouseUp}
               onMouseLeave={handleMouseUp}
-              onClick={() => setSelectedCluster(null)}
               data-testid="floor-plan-canvas"
             >
               <div
                 className="relative"
                 style={{
-                  width: 1600,
-                  height: 1200,
+                  width: canvasSize.width,
+                  height: canvasSize.height,
                   backgroundImage: `radial-gradient(circle, hsl(var(--border)) 1px, transparent 1px)`,
                   backgroundSize: `${GRID_SIZE}px ${GRID_SIZE}px`,
                 }}
               >
+                {canvasBackground && <FloorBackgroundImage background={canvasBackground} />}
+                {shapes.map(renderShape)}
                 {clusters.map(renderCluster)}
+                {bandState && (
+                  <div
+                    className="absolute border border-primary bg-primary/10 pointer-events-none"
+                    style={{
+                      left: Math.min(bandState.startX, bandState.currentX),
+                      top: Math.min(bandState.startY, bandState.currentY),
+                      width: Math.abs(bandState.currentX - bandState.startX),
+                      height: Math.abs(bandState.currentY - bandState.startY),
+                    }}
+                  />
+                )}
               </div>
             </div>
           </CardContent>
@@ -718,7 +1353,9 @@ export function VisualFloorEditor() {
             <CardTitle className="text-lg">Properties</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {selectedClusterData ? (
+            {selectedShape ? (
+              renderShapeProperties(selectedShape)
+            ) : selectedClusterData ? (
               <>
                 <div className="space-y-2">
                   <Label>Cluster ID</Label>
@@ -734,7 +1371,7 @@ export function VisualFloorEditor() {
                     onChange={(e) =>
                       updateLocalCluster(selectedClusterData.id, {
                         label: e.target.value || null,
-                      })
+                      }, `label:${selectedClusterData.id}`)
                     }
                     placeholder="Cluster label"
                     data-testid="input-cluster-label"
@@ -784,7 +1421,7 @@ export function VisualFloorEditor() {
                       onChange={(e) =>
                         updateLocalCluster(selectedClusterData.id, {
                           rotation: parseInt(e.target.value) || 0,
-                        })
+                        }, `rotation:${selectedClusterData.id}`)
                       }
                       data-testid="input-cluster-rotation"
                     />
@@ -801,7 +1438,7 @@ export function VisualFloorEditor() {
                       onChange={(e) =>
                         updateLocalCluster(selectedClusterData.id, {
                           positionX: parseInt(e.target.value) || 0,
-                        })
+                        }, `x:${selectedClusterData.id}`)
                       }
                       data-testid="input-cluster-x"
                     />
@@ -814,7 +1451,7 @@ export function VisualFloorEditor() {
                       onChange={(e) =>
                         updateLocalCluster(selectedClusterData.id, {
                           positionY: parseInt(e.target.value) || 0,
-                        })
+                        }, `y:${selectedClusterData.id}`)
                       }
                       data-testid="input-cluster-y"
                     />
@@ -868,13 +1505,24 @@ export function VisualFloorEditor() {
               </>
             ) : (
               <p className="text-muted-foreground text-sm">
-                Click on a cluster to select it and edit its properties.
+                {selection.length > 1
+                  ? `${selection.length} items selected. Drag, nudge, align or delete them together.`
+                  : "Click on a cluster or shape to select it and edit its properties."}
               </p>
             )}
           </CardContent>
         </Card>
       </div>
 
+      {floorId && (
+        <FloorBackgroundPanel
+          floorId={floorId}
+          background={background ?? null}
+          placement={backgroundPlacement}
+          onPlacementChange={setBackgroundPlacement}
+        />
+      )}
+
       <Dialog open={showCreateCluster} onOpenChange={setShowCreateCluster}>
         <DialogContent>
           <DialogHeader>
@@ -1014,6 +1662,52 @@ export function VisualFloorEditor() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={showPublish} onOpenChange={setShowPublish}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Publish Layout</DialogTitle>
+            <DialogDescription>
+              Publishing today replaces the live layout straight away. A later date schedules the draft to go live that morning.
+              Upcoming bookings on removed seats are flagged for reassignment.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Effective date</Label>
+              <Input
+                type="date"
+                value={publishDate}
+                min={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setPublishDate(e.target.value)}
+                data-testid="input-publish-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Note (optional)</Label>
+              <Input
+                value={publishNote}
+                onChange={(e) => setPublishNote(e.target.value)}
+                maxLength={200}
+                placeholder="e.g., Moved the design team to the east wing"
+                data-testid="input-publish-note"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPublish(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => publishMutation.mutate()}
+              disabled={publishMutation.isPending}
+              data-testid="button-confirm-publish"
+            >
+              {publishDate > format(new Date(), "yyyy-MM-dd") ? "Schedule" : "Publish Now"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={showCapacityWarning} onOpenChange={setShowCapacityWarning}>
         <AlertDialogContent>
           <AlertDialogHeader>
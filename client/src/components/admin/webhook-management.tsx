@@ -0,0 +1,484 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Trash2, Send, KeyRound, RefreshCw, History, RotateCcw, Loader2, X } from "lucide-react";
+import { WEBHOOK_EVENTS } from "@shared/schema";
+import type { CreateWebhook, UpdateWebhook, Webhook, WebhookDelivery, WebhookEvent } from "@shared/schema";
+
+const EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  "booking.created": "A desk is booked",
+  "booking.cancelled": "A booking is cancelled",
+  "seat.blocked": "A desk is blocked",
+  "seat.updated": "A desk's settings change",
+  "user.deactivated": "A user is deactivated",
+};
+
+const STATUS_VARIANTS: Record<WebhookDelivery["status"], "default" | "secondary" | "destructive"> = {
+  succeeded: "default",
+  pending: "secondary",
+  failed: "destructive",
+};
+
+function formatTime(value: Date | string | null) {
+  return value ? format(new Date(value), "MMM d, HH:mm:ss") : "-";
+}
+
+function WebhookDeliveries({ webhook, onClose }: { webhook: Webhook; onClose: () => void }) {
+  const { toast } = useToast();
+
+  const { data: deliveries = [], isLoading, isFetching, refetch } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/webhooks", webhook.id, "deliveries"],
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/webhooks/deliveries/${id}/redeliver`);
+      return res.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      toast({
+        title: delivery.status === "succeeded" ? "Delivered" : "Delivery failed",
+        description: delivery.error ?? undefined,
+        variant: delivery.status === "succeeded" ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks", webhook.id, "deliveries"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to redeliver", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle>Deliveries</CardTitle>
+            <CardDescription className="truncate">
+              The latest deliveries to {webhook.url}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => refetch()}
+              disabled={isFetching}
+              title="Refresh"
+              data-testid="button-refresh-deliveries"
+            >
+              <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onClose} title="Close" data-testid="button-close-deliveries">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Nothing has been sent to this webhook yet.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Delivered / next attempt</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                  <TableCell className="font-mono text-sm">{delivery.event}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                  </TableCell>
+                  <TableCell>{delivery.attempts}</TableCell>
+                  <TableCell className="max-w-xs">
+                    <div className="text-sm">{delivery.responseStatus ?? "-"}</div>
+                    {delivery.error && (
+                      <div className="text-xs text-muted-foreground truncate" title={delivery.error}>
+                        {delivery.error}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{formatTime(delivery.createdAt)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {formatTime(delivery.status === "pending" ? delivery.nextAttemptAt : delivery.deliveredAt)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {delivery.status !== "pending" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => redeliverMutation.mutate(delivery.id)}
+                        disabled={redeliverMutation.isPending}
+                        title="Redeliver"
+                        data-testid={`button-redeliver-${delivery.id}`}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function WebhookManagement() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Webhook | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery<Webhook[]>({
+    queryKey: ["/api/webhooks"],
+  });
+  const selected = webhooks.find((w) => w.id === selectedId);
+
+  const copySecret = (webhook: Webhook) => {
+    navigator.clipboard.writeText(webhook.secret);
+    toast({ title: "Secret copied", description: "Use it to verify the X-HotDesk-Signature header." });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateWebhook) => {
+      const res = await apiRequest("POST", "/api/webhooks", data);
+      return res.json() as Promise<Webhook>;
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setDialogOpen(false);
+      setUrl("");
+      setDescription("");
+      setEvents([...WEBHOOK_EVENTS]);
+      copySecret(webhook);
+    },
+    onError: onError("Failed to add webhook"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateWebhook }) => {
+      await apiRequest("PATCH", `/api/webhooks/${id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: onError("Failed to update webhook"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/webhooks/${id}/rotate-secret`);
+      return res.json() as Promise<Webhook>;
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      copySecret(webhook);
+    },
+    onError: onError("Failed to rotate secret"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/webhooks/${id}/test`);
+      return res.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      toast({
+        title: delivery.status === "succeeded" ? "Ping delivered" : "Ping failed",
+        description: delivery.error ?? `The endpoint answered with HTTP ${delivery.responseStatus}.`,
+        variant: delivery.status === "succeeded" ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks", delivery.webhookId, "deliveries"] });
+    },
+    onError: onError("Failed to send ping"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/webhooks/${id}`);
+    },
+    onSuccess: (_, id) => {
+      toast({ title: "Webhook deleted" });
+      if (id === selectedId) setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setDeleteTarget(null);
+    },
+    onError: onError("Failed to delete webhook"),
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((current) => (checked ? [...current, event] : current.filter((e) => e !== event)));
+  };
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      url: url.trim(),
+      description: description.trim() || undefined,
+      events,
+      isActive: true,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Webhooks</CardTitle>
+              <CardDescription>
+                Send signed JSON to other systems when bookings, desks or users change
+              </CardDescription>
+            </div>
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-webhook">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Webhook
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Webhook</DialogTitle>
+                  <DialogDescription>
+                    Each event is POSTed to the URL. A signing secret is generated and copied to your clipboard.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="webhook-url">Endpoint URL</Label>
+                    <Input
+                      id="webhook-url"
+                      type="url"
+                      placeholder="https://example.com/hotdesk"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      data-testid="input-webhook-url"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="webhook-description">Description (optional)</Label>
+                    <Input
+                      id="webhook-description"
+                      placeholder="Catering headcount"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      data-testid="input-webhook-description"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Events</Label>
+                    {WEBHOOK_EVENTS.map((event) => (
+                      <div key={event} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`webhook-event-${event}`}
+                          checked={events.includes(event)}
+                          onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                          data-testid={`checkbox-webhook-event-${event}`}
+                        />
+                        <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                          <span className="font-mono">{event}</span>
+                          <span className="text-muted-foreground"> — {EVENT_DESCRIPTIONS[event]}</span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleCreate}
+                    disabled={createMutation.isPending || !url.trim() || events.length === 0}
+                    data-testid="button-confirm-add-webhook"
+                  >
+                    {createMutation.isPending ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Adding...
+                      </>
+                    ) : (
+                      "Add Webhook"
+                    )}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : webhooks.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No webhooks yet. Add one to start sending events.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhooks.map((webhook) => (
+                  <TableRow key={webhook.id} data-testid={`row-webhook-${webhook.id}`}>
+                    <TableCell className="max-w-xs">
+                      <div className="font-mono text-sm truncate" title={webhook.url}>{webhook.url}</div>
+                      {webhook.description && (
+                        <div className="text-xs text-muted-foreground">{webhook.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {webhook.events.map((event) => (
+                          <Badge key={event} variant="outline" className="font-mono text-xs">
+                            {event}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={webhook.isActive}
+                        onCheckedChange={(isActive) => updateMutation.mutate({ id: webhook.id, updates: { isActive } })}
+                        disabled={updateMutation.isPending}
+                        data-testid={`switch-webhook-active-${webhook.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => testMutation.mutate(webhook.id)}
+                          disabled={testMutation.isPending}
+                          title="Send a test ping"
+                          data-testid={`button-test-webhook-${webhook.id}`}
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setSelectedId(webhook.id)}
+                          title="Show deliveries"
+                          data-testid={`button-webhook-deliveries-${webhook.id}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => copySecret(webhook)}
+                          title="Copy signing secret"
+                          data-testid={`button-copy-webhook-secret-${webhook.id}`}
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => rotateMutation.mutate(webhook.id)}
+                          disabled={rotateMutation.isPending}
+                          title="Rotate signing secret"
+                          data-testid={`button-rotate-webhook-secret-${webhook.id}`}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeleteTarget(webhook)}
+                          title="Delete webhook"
+                          data-testid={`button-delete-webhook-${webhook.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && <WebhookDeliveries webhook={selected} onClose={() => setSelectedId(null)} />}
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.url} stops receiving events straight away, and its delivery log is deleted too.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete-webhook"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
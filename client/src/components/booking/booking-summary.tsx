@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/componen
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Calendar, Clock, MapPin, X, Check } from "lucide-react";
+import { Calendar, Clock, MapPin, X, Check, Repeat } from "lucide-react";
 import type { Seat, TimeSlot } from "@shared/schema";
 
 interface BookingSummaryProps {
@@ -14,6 +14,7 @@ interface BookingSummaryProps {
   onRemoveSeat: (seatId: string) => void;
   onConfirmBooking: () => void;
   onClearAll: () => void;
+  onRepeatWeekly?: () => void;
   isBooking?: boolean;
 }
 
@@ -25,6 +26,7 @@ export function BookingSummary({
   onRemoveSeat,
   onConfirmBooking,
   onClearAll,
+  onRepeatWeekly,
   isBooking = false,
 }: BookingSummaryProps) {
   const dates = bulkDates.length > 0 ? bulkDates : [selectedDate];
@@ -137,7 +139,7 @@ export function BookingSummary({
           </p>
         </div>
       </CardContent>
-      <CardFooter className="pt-0">
+      <CardFooter className="pt-0 flex-col gap-2">
         <Button
           className="w-full gap-2"
           onClick={onConfirmBooking}
@@ -153,6 +155,18 @@ export function BookingSummary({
             </>
           )}
         </Button>
+        {onRepeatWeekly && (
+          <Button
+            variant="outline"
+            className="w-full gap-2"
+            onClick={onRepeatWeekly}
+            disabled={isBooking || selectedSlots.length === 0 || selectedSeats.length !== 1}
+            data-testid="button-repeat-weekly"
+          >
+            <Repeat className="h-4 w-4" />
+            Repeat Weekly
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
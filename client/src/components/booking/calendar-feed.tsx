@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarPlus, Copy, RefreshCw, Loader2 } from "lucide-react";
+import type { CalendarFeed } from "@shared/schema";
+
+// Subscription link for Outlook, Google Calendar and other apps that read iCalendar feeds
+export function CalendarFeedButton() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  // Fetched on first open, since fetching creates the user's feed token
+  const { data: feed, isLoading } = useQuery<CalendarFeed>({
+    queryKey: ["/api/calendar/my"],
+    enabled: open,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/calendar/my/regenerate");
+      return res.json() as Promise<CalendarFeed>;
+    },
+    onSuccess: (newFeed) => {
+      queryClient.setQueryData(["/api/calendar/my"], newFeed);
+      toast({
+        title: "Calendar link regenerated",
+        description: "The old link no longer works. Update any calendars subscribed to it.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to regenerate link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = () => {
+    if (!feed) return;
+    navigator.clipboard.writeText(feed.url);
+    toast({ title: "Link copied", description: "Calendar link copied to clipboard." });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1" data-testid="button-calendar-feed">
+          <CalendarPlus className="h-4 w-4" />
+          Add to calendar
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="calendar-feed-url">Calendar subscription link</Label>
+          <p className="text-xs text-muted-foreground">
+            Subscribe to this link in Outlook or Google Calendar to see your desk bookings there.
+            Keep it private: anyone with the link can see your bookings.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            id="calendar-feed-url"
+            readOnly
+            value={isLoading ? "Loading…" : feed?.url ?? ""}
+            onFocus={(e) => e.target.select()}
+            data-testid="input-calendar-feed-url"
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={copyLink}
+            disabled={!feed}
+            title="Copy link"
+            data-testid="button-copy-calendar-feed"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full gap-1"
+          onClick={() => regenerateMutation.mutate()}
+          disabled={regenerateMutation.isPending}
+          data-testid="button-regenerate-calendar-feed"
+        >
+          {regenerateMutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4" />
+          )}
+          Regenerate link
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -34,6 +34,8 @@ interface DateSlotPickerProps {
   endDate?: Date | null;
   onStartDateChange?: (date: Date | null) => void;
   onEndDateChange?: (date: Date | null) => void;
+  isDateDisabled?: (date: Date) => boolean;
+  closedSlots?: TimeSlot[];
 }
 
 export function DateSlotPicker({
@@ -49,6 +51,8 @@ export function DateSlotPicker({
   endDate,
   onStartDateChange,
   onEndDateChange,
+  isDateDisabled = () => false,
+  closedSlots = [],
 }: DateSlotPickerProps) {
   const [calendarOpen, setCalendarOpen] = useState(false);
   const [startCalendarOpen, setStartCalendarOpen] = useState(false);
@@ -64,9 +68,16 @@ export function DateSlotPicker({
   };
 
   const selectBothSlots = () => {
-    onSlotsChange(["AM", "PM"]);
+    onSlotsChange((["AM", "PM"] as TimeSlot[]).filter((slot) => !closedSlots.includes(slot)));
   };
 
+  // Partial-day closures only apply to a single selected date
+  useEffect(() => {
+    if (selectedSlots.some((slot) => closedSlots.includes(slot))) {
+      onSlotsChange(selectedSlots.filter((slot) => !closedSlots.includes(slot)));
+    }
+  }, [closedSlots.join(",")]);
+
   const handleBulkDateSelect = (date: Date | undefined) => {
     if (!date || !onBulkDatesChange) return;
 
@@ -154,7 +165,7 @@ export function DateSlotPicker({
                       }
                     }}
                     disabled={(date) =>
-                      isBefore(date, today) || isWeekend(date)
+                      isBefore(date, today) || isWeekend(date) || isDateDisabled(date)
                     }
                     initialFocus
                   />
@@ -192,6 +203,7 @@ export function DateSlotPicker({
                     disabled={(date) =>
                       isBefore(date, today) ||
                       isWeekend(date) ||
+                      isDateDisabled(date) ||
                       (startDate ? isBefore(date, startDate) : false)
                     }
                     initialFocus
@@ -208,7 +220,7 @@ export function DateSlotPicker({
                     const days = eachDayOfInterval({
                       start: startDate,
                       end: endDate,
-                    }).filter((d) => !isWeekend(d));
+                    }).filter((d) => !isWeekend(d) && !isDateDisabled(d));
                     return `${days.length} weekday${days.length === 1 ? "" : "s"} selected`;
                   })()}
                 </span>
@@ -244,7 +256,7 @@ export function DateSlotPicker({
                       }
                     }}
                     disabled={(date) =>
-                      isBefore(date, today) || isWeekend(date)
+                      isBefore(date, today) || isWeekend(date) || isDateDisabled(date)
                     }
                     initialFocus
                   />
@@ -268,6 +280,7 @@ export function DateSlotPicker({
                   "bg-amber-500 hover:bg-amber-600 border-amber-600",
               )}
               onClick={() => toggleSlot("AM")}
+              disabled={closedSlots.includes("AM")}
               data-testid="button-slot-am"
             >
               <Sun className="h-4 w-4" />
@@ -281,6 +294,7 @@ export function DateSlotPicker({
                   "bg-violet-500 hover:bg-violet-600 border-violet-600",
               )}
               onClick={() => toggleSlot("PM")}
+              disabled={closedSlots.includes("PM")}
               data-testid="button-slot-pm"
             >
               <Moon className="h-4 w-4" />
@@ -296,6 +310,11 @@ export function DateSlotPicker({
           >
             Select Full Day
           </Button>
+          {closedSlots.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              The office is closed for the {closedSlots.join(" & ")} slot on this day.
+            </p>
+          )}
         </div>
 
         {/* Selection Summary */}
@@ -3,14 +3,21 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Calendar, Clock, MapPin, X, Sun, Moon } from "lucide-react";
-import type { Booking, Seat } from "@shared/schema";
+import { Calendar, Clock, MapPin, X, Sun, Moon, Repeat, AlertTriangle, LogIn, CheckCircle2 } from "lucide-react";
+import type { Booking, BookingSeries, Seat } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
+import { WEEKDAY_LABELS } from "./recurring-booking-dialog";
+import { CalendarFeedButton } from "./calendar-feed";
 
 interface MyBookingsProps {
   bookings: Booking[];
   seats: Seat[];
   onCancelBooking: (bookingId: string) => void;
+  series?: BookingSeries[];
+  onSkipOccurrence?: (seriesId: string, date: string) => void;
+  onEndSeries?: (seriesId: string) => void;
+  onCheckIn?: (bookingId: string) => void;
+  isCheckingIn?: boolean;
   isCancelling?: boolean;
   isLoading?: boolean;
 }
@@ -19,10 +26,16 @@ export function MyBookings({
   bookings,
   seats,
   onCancelBooking,
+  series = [],
+  onSkipOccurrence,
+  onEndSeries,
+  onCheckIn,
+  isCheckingIn = false,
   isCancelling = false,
   isLoading = false,
 }: MyBookingsProps) {
   const seatMap = new Map(seats.map(s => [s.id, s]));
+  const todayStr = format(new Date(), "yyyy-MM-dd");
   
   // Filter out cancelled bookings and sort by date
   const activeBookings = bookings
@@ -38,6 +51,13 @@ export function MyBookings({
     return !isPast(bookingDate) || isToday(bookingDate);
   });
 
+  // Upcoming occurrences of a series are listed under the series instead of on their own
+  const activeSeries = series.filter(s => !s.endedAt && (!s.endDate || s.endDate >= todayStr));
+  const activeSeriesIds = new Set(activeSeries.map(s => s.id));
+  const standaloneUpcoming = upcomingBookings.filter(
+    b => !b.seriesId || !activeSeriesIds.has(b.seriesId)
+  );
+
   const pastBookings = activeBookings.filter(b => {
     const bookingDate = parseISO(b.date);
     return isPast(bookingDate) && !isToday(bookingDate);
@@ -93,6 +113,17 @@ export function MyBookings({
             {isToday(bookingDate) && (
               <Badge className="text-xs bg-primary">Today</Badge>
             )}
+            {booking.checkedInAt && (
+              <Badge variant="outline" className="text-xs gap-1 text-emerald-700 dark:text-emerald-300 border-emerald-400">
+                <CheckCircle2 className="h-3 w-3" />
+                Checked in
+              </Badge>
+            )}
+            {booking.needsReassignment && (
+              <Badge variant="outline" className="text-xs text-amber-700 dark:text-amber-300 border-amber-400">
+                Desk removed, awaiting a new one
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-3 text-sm text-muted-foreground">
             <span className="flex items-center gap-1">
@@ -106,13 +137,32 @@ export function MyBookings({
           </div>
         </div>
 
+        {canCancel && onCheckIn && isToday(bookingDate) && !booking.checkedInAt && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() => onCheckIn(booking.id)}
+            disabled={isCheckingIn}
+            data-testid={`button-check-in-${booking.id}`}
+          >
+            <LogIn className="h-4 w-4" />
+            Check in
+          </Button>
+        )}
+
         {canCancel && isUpcoming && (
           <Button
             variant="ghost"
             size="sm"
             className="text-destructive hover:text-destructive hover:bg-destructive/10"
-            onClick={() => onCancelBooking(booking.id)}
+            onClick={() =>
+              booking.seriesId && onSkipOccurrence
+                ? onSkipOccurrence(booking.seriesId, booking.date)
+                : onCancelBooking(booking.id)
+            }
             disabled={isCancelling}
+            title={booking.seriesId && onSkipOccurrence ? "Skip this occurrence" : "Cancel booking"}
             data-testid={`button-cancel-${booking.id}`}
           >
             <X className="h-4 w-4" />
@@ -122,13 +172,73 @@ export function MyBookings({
     );
   };
 
+  const renderSeriesGroup = (item: BookingSeries) => {
+    const seat = seatMap.get(item.seatId);
+    const occurrences = upcomingBookings.filter(b => b.seriesId === item.id);
+    const upcomingConflicts = item.conflicts.filter(c => c.date >= todayStr);
+
+    return (
+      <div
+        key={item.id}
+        className="space-y-2 rounded-lg border border-dashed p-2"
+        data-testid={`series-group-${item.id}`}
+      >
+        <div className="flex items-center gap-2 px-1">
+          <Repeat className="h-4 w-4 text-primary" />
+          <span className="font-medium">{seat?.name || item.seatId}</span>
+          <span className="text-sm text-muted-foreground flex-1 min-w-0 truncate">
+            Every {item.weekdays.map(d => WEEKDAY_LABELS[d]).join("/")}
+            {" • "}
+            {item.slots.join(" & ")}
+            {item.endDate ? ` until ${format(parseISO(item.endDate), "MMM d, yyyy")}` : ""}
+          </span>
+          {onEndSeries && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              onClick={() => onEndSeries(item.id)}
+              disabled={isCancelling}
+              data-testid={`button-end-series-${item.id}`}
+            >
+              End
+            </Button>
+          )}
+        </div>
+
+        {upcomingConflicts.length > 0 && (
+          <div className="rounded-md bg-destructive/10 p-2 text-xs text-destructive space-y-1">
+            <p className="flex items-center gap-1 font-medium">
+              <AlertTriangle className="h-3 w-3" />
+              {upcomingConflicts.length} occurrence(s) could not be booked
+            </p>
+            {upcomingConflicts.slice(0, 3).map(c => (
+              <p key={`${c.date}-${c.slot}`}>
+                {format(parseISO(c.date), "MMM d")} {c.slot}: {c.reason}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {occurrences.length > 0 ? (
+          <div className="space-y-2">
+            {occurrences.map(booking => renderBookingItem(booking, true))}
+          </div>
+        ) : (
+          <p className="px-1 text-sm text-muted-foreground">No upcoming occurrences booked yet</p>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Card>
-      <CardHeader className="pb-3">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
         <CardTitle className="text-base font-medium">My Bookings</CardTitle>
+        <CalendarFeedButton />
       </CardHeader>
       <CardContent>
-        {activeBookings.length === 0 ? (
+        {activeBookings.length === 0 && activeSeries.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-8 text-center">
             <Calendar className="h-12 w-12 text-muted-foreground/30 mb-3" />
             <p className="text-muted-foreground">No bookings yet</p>
@@ -139,11 +249,20 @@ export function MyBookings({
         ) : (
           <ScrollArea className="h-[400px] pr-4">
             <div className="space-y-4">
-              {upcomingBookings.length > 0 && (
+              {activeSeries.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-muted-foreground">Recurring</h4>
+                  <div className="space-y-2">
+                    {activeSeries.map(renderSeriesGroup)}
+                  </div>
+                </div>
+              )}
+
+              {standaloneUpcoming.length > 0 && (
                 <div className="space-y-2">
                   <h4 className="text-sm font-medium text-muted-foreground">Upcoming</h4>
                   <div className="space-y-2">
-                    {upcomingBookings.map(booking => renderBookingItem(booking, true))}
+                    {standaloneUpcoming.map(booking => renderBookingItem(booking, true))}
                   </div>
                 </div>
               )}
@@ -0,0 +1,111 @@
+import { format, parseISO, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, Hourglass, Check, X } from "lucide-react";
+import type { Seat, WaitlistEntry } from "@shared/schema";
+
+interface MyWaitlistProps {
+  entries: WaitlistEntry[];
+  seats: Seat[];
+  onClaim: (entryId: string) => void;
+  onLeave: (entryId: string) => void;
+  isPending?: boolean;
+}
+
+export function MyWaitlist({
+  entries,
+  seats,
+  onClaim,
+  onLeave,
+  isPending = false,
+}: MyWaitlistProps) {
+  const seatMap = new Map(seats.map(s => [s.id, s]));
+  const todayStr = format(new Date(), "yyyy-MM-dd");
+
+  const activeEntries = entries
+    .filter(e => (e.status === "waiting" || e.status === "offered") && e.date >= todayStr)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.slot.localeCompare(b.slot));
+
+  if (activeEntries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-medium">Waitlist</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {activeEntries.map(entry => {
+          const seatName = entry.seatId ? seatMap.get(entry.seatId)?.name ?? entry.seatId : "Any seat";
+          const offeredSeat = entry.offeredSeatId ? seatMap.get(entry.offeredSeatId) : undefined;
+          const isOffered = entry.status === "offered";
+
+          return (
+            <div
+              key={entry.id}
+              className="flex items-center gap-3 p-3 rounded-lg border"
+              data-testid={`waitlist-item-${entry.id}`}
+            >
+              <div className="flex items-center justify-center h-10 w-10 rounded-lg bg-muted text-muted-foreground">
+                <Hourglass className="h-5 w-5" />
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{seatName}</span>
+                  <Badge variant="outline" className="text-xs">{entry.slot}</Badge>
+                  {isOffered ? (
+                    <Badge className="text-xs bg-emerald-600">
+                      {offeredSeat?.name ?? "Seat"} offered
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary" className="text-xs">
+                      {entry.autoBook ? "Auto-book" : "Waiting"}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-3 w-3" />
+                    {format(parseISO(entry.date), "MMM d, yyyy")}
+                  </span>
+                  {isOffered && entry.offerExpiresAt && (
+                    <span>
+                      expires {formatDistanceToNow(new Date(entry.offerExpiresAt), { addSuffix: true })}
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              {isOffered && (
+                <Button
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => onClaim(entry.id)}
+                  disabled={isPending}
+                  data-testid={`button-claim-${entry.id}`}
+                >
+                  <Check className="h-4 w-4" />
+                  Claim
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                onClick={() => onLeave(entry.id)}
+                disabled={isPending}
+                title="Leave waitlist"
+                data-testid={`button-leave-waitlist-${entry.id}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { format, isBefore, isWeekend, startOfToday } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { CalendarIcon, Repeat } from "lucide-react";
+import type { Seat, TimeSlot } from "@shared/schema";
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WORKING_WEEKDAYS = [1, 2, 3, 4, 5];
+
+export interface RecurringBookingInput {
+  weekdays: number[];
+  startDate: string;
+  endDate: string | null;
+}
+
+interface RecurringBookingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  seat: Seat | null;
+  selectedSlots: TimeSlot[];
+  startDate: Date;
+  onSubmit: (data: RecurringBookingInput) => void;
+  isSubmitting?: boolean;
+}
+
+export function RecurringBookingDialog({
+  open,
+  onOpenChange,
+  seat,
+  selectedSlots,
+  startDate,
+  onSubmit,
+  isSubmitting = false,
+}: RecurringBookingDialogProps) {
+  const today = startOfToday();
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [endCalendarOpen, setEndCalendarOpen] = useState(false);
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort(),
+    );
+  };
+
+  const handleSubmit = () => {
+    onSubmit({
+      weekdays,
+      startDate: format(startDate, "yyyy-MM-dd"),
+      endDate: endDate ? format(endDate, "yyyy-MM-dd") : null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-4 w-4" />
+            Repeat Weekly
+          </DialogTitle>
+          <DialogDescription>
+            Book {seat?.name ?? "this seat"} ({selectedSlots.join(" & ")}) on the
+            same weekdays every week, starting {format(startDate, "MMM d, yyyy")}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-muted-foreground">
+              Every
+            </label>
+            <div className="flex gap-2">
+              {WORKING_WEEKDAYS.map((day) => (
+                <Button
+                  key={day}
+                  variant={weekdays.includes(day) ? "default" : "outline"}
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => toggleWeekday(day)}
+                  data-testid={`button-weekday-${day}`}
+                >
+                  {WEEKDAY_LABELS[day]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-muted-foreground">
+              Until
+            </label>
+            <div className="flex items-center gap-2">
+              <Popover open={endCalendarOpen} onOpenChange={setEndCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="flex-1 justify-start text-left font-normal"
+                    data-testid="button-series-end-date"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {endDate ? format(endDate, "EEEE, MMM d, yyyy") : "No end date"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={endDate || undefined}
+                    onSelect={(date) => {
+                      setEndDate(date ?? null);
+                      setEndCalendarOpen(false);
+                    }}
+                    disabled={(date) =>
+                      isBefore(date, today) ||
+                      isBefore(date, startDate) ||
+                      isWeekend(date)
+                    }
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {endDate && (
+                <Button variant="ghost" size="sm" onClick={() => setEndDate(null)}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {weekdays.length > 0 && (
+            <div className="rounded-lg bg-muted/50 p-3 text-sm">
+              <p className="font-medium">Summary:</p>
+              <div className="flex flex-wrap items-center gap-1 text-muted-foreground">
+                {weekdays.map((day) => (
+                  <Badge key={day} variant="outline">
+                    {WEEKDAY_LABELS[day]}
+                  </Badge>
+                ))}
+                <span>
+                  {" • "}
+                  {selectedSlots.join(" & ")}
+                  {endDate ? ` until ${format(endDate, "MMM d, yyyy")}` : ""}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !seat || weekdays.length === 0 || selectedSlots.length === 0}
+            data-testid="button-confirm-series"
+          >
+            {isSubmitting ? "Processing..." : "Create Series"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,199 @@
+import type { CSSProperties, HTMLAttributes, ReactNode } from "react";
+import { cn } from "@/lib/utils";
+import { LAYOUT_CELL_SIZE, type Cluster, type FloorBackground, type LayoutShape, type Seat } from "@shared/schema";
+
+// Shared geometry for the booking floor plan and the visual editor, so both draw a floor identically
+export const GRID_SIZE = 20;
+const CLUSTER_PADDING = 16;
+
+type ClusterShape = Pick<Cluster, "positionX" | "positionY" | "rotation" | "gridCols" | "gridRows">;
+type ShapeGeometry = Pick<LayoutShape, "positionX" | "positionY" | "width" | "height" | "rotation">;
+type BackgroundPlacement = Pick<FloorBackground, "positionX" | "positionY" | "width" | "height" | "scale">;
+
+export function getClusterSize(cluster: Pick<Cluster, "gridCols" | "gridRows">) {
+  return {
+    width: cluster.gridCols * LAYOUT_CELL_SIZE + CLUSTER_PADDING,
+    height: cluster.gridRows * LAYOUT_CELL_SIZE + CLUSTER_PADDING,
+  };
+}
+
+export type LayoutBounds = ReturnType<typeof getRotatedBounds>;
+
+function getRotatedBounds(x: number, y: number, width: number, height: number, rotation: number) {
+  const angle = (rotation * Math.PI) / 180;
+  const rotatedWidth = Math.abs(width * Math.cos(angle)) + Math.abs(height * Math.sin(angle));
+  const rotatedHeight = Math.abs(width * Math.sin(angle)) + Math.abs(height * Math.cos(angle));
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+  return {
+    left: centerX - rotatedWidth / 2,
+    top: centerY - rotatedHeight / 2,
+    right: centerX + rotatedWidth / 2,
+    bottom: centerY + rotatedHeight / 2,
+  };
+}
+
+// Axis-aligned box a cluster covers once rotated about its centre
+export function getClusterBounds(cluster: ClusterShape) {
+  const { width, height } = getClusterSize(cluster);
+  return getRotatedBounds(cluster.positionX, cluster.positionY, width, height, cluster.rotation);
+}
+
+export function getShapeBounds(shape: ShapeGeometry) {
+  return getRotatedBounds(shape.positionX, shape.positionY, shape.width, shape.height, shape.rotation);
+}
+
+// Canvas size needed to show every cluster, shape and the floor plan image
+export function getLayoutSize(
+  clusters: ClusterShape[],
+  shapes: ShapeGeometry[] = [],
+  background?: BackgroundPlacement | null
+) {
+  const bounds = [...clusters.map(getClusterBounds), ...shapes.map(getShapeBounds)];
+  if (background) {
+    bounds.push({
+      left: background.positionX,
+      top: background.positionY,
+      right: background.positionX + background.width * background.scale,
+      bottom: background.positionY + background.height * background.scale,
+    });
+  }
+  return bounds.reduce(
+    (size, b) => ({
+      width: Math.max(size.width, Math.ceil(b.right)),
+      height: Math.max(size.height, Math.ceil(b.bottom)),
+    }),
+    { width: 0, height: 0 }
+  );
+}
+
+export function groupSeatsByCluster<S extends Seat>(seats: S[]): Map<string, S[]> {
+  const map = new Map<string, S[]>();
+  seats.forEach(seat => {
+    const clusterId = seat.clusterGroup || "unassigned";
+    map.set(clusterId, [...(map.get(clusterId) || []), seat]);
+  });
+  return map;
+}
+
+interface LayoutClusterProps<S extends Seat> extends Omit<HTMLAttributes<HTMLDivElement>, "children"> {
+  cluster: ClusterShape & Pick<Cluster, "id">;
+  seats: S[];
+  renderCell: (seat: S | undefined, position: { col: number; row: number }) => ReactNode;
+  // Overrides the stored position, e.g. while the editor drags a cluster
+  position?: { x: number; y: number };
+  children?: ReactNode;
+}
+
+// One cluster drawn at its stored position and rotation; seats sit in the grid cell given by their
+// positionX/positionY and stay upright whatever the cluster's rotation
+export function LayoutCluster<S extends Seat>({
+  cluster,
+  seats,
+  renderCell,
+  position,
+  children,
+  className,
+  style,
+  ...props
+}: LayoutClusterProps<S>) {
+  const { width, height } = getClusterSize(cluster);
+  const clusterStyle: CSSProperties = {
+    left: position?.x ?? cluster.positionX,
+    top: position?.y ?? cluster.positionY,
+    width,
+    minHeight: height,
+    transform: `rotate(${cluster.rotation}deg)`,
+    transformOrigin: "center center",
+    ...style,
+  };
+
+  return (
+    <div className={cn("absolute", className)} style={clusterStyle} {...props}>
+      <div className="bg-muted/50 rounded-lg border border-border p-2 h-full relative">
+        {children}
+        <div
+          className="grid gap-1 pt-2"
+          style={{ gridTemplateColumns: `repeat(${cluster.gridCols}, minmax(0, 1fr))` }}
+        >
+          {Array.from({ length: cluster.gridCols * cluster.gridRows }).map((_, idx) => {
+            const row = Math.floor(idx / cluster.gridCols);
+            const col = idx % cluster.gridCols;
+            const seat = seats.find(s => s.positionX === col && s.positionY === row);
+            return (
+              <div
+                key={idx}
+                className="flex items-center justify-center"
+                style={{
+                  width: LAYOUT_CELL_SIZE - 4,
+                  height: LAYOUT_CELL_SIZE - 4,
+                  transform: `rotate(${-cluster.rotation}deg)`,
+                }}
+              >
+                {renderCell(seat, { col, row })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface LayoutShapeViewProps extends Omit<HTMLAttributes<HTMLDivElement>, "children"> {
+  shape: ShapeGeometry & Pick<LayoutShape, "kind" | "label">;
+  position?: { x: number; y: number };
+}
+
+// A wall, room outline or free-standing label; purely decorative, so employees can't interact with it
+export function LayoutShapeView({ shape, position, className, style, ...props }: LayoutShapeViewProps) {
+  const shapeStyle: CSSProperties = {
+    left: position?.x ?? shape.positionX,
+    top: position?.y ?? shape.positionY,
+    width: shape.width,
+    height: shape.height,
+    transform: `rotate(${shape.rotation}deg)`,
+    transformOrigin: "center center",
+    ...style,
+  };
+
+  return (
+    <div
+      className={cn(
+        "absolute flex items-center justify-center text-center",
+        shape.kind === "wall" && "bg-foreground/70 rounded-sm",
+        shape.kind === "room" && "border-2 border-foreground/40 rounded-md bg-background/40",
+        shape.kind === "label" && "text-sm font-medium text-muted-foreground",
+        className
+      )}
+      style={shapeStyle}
+      {...props}
+    >
+      {shape.kind !== "wall" && shape.label && <span className="px-1 leading-tight">{shape.label}</span>}
+    </div>
+  );
+}
+
+// The uploaded floor plan drawn at its placement, underneath everything else
+export function FloorBackgroundImage({
+  background,
+}: {
+  background: BackgroundPlacement & Pick<FloorBackground, "imageData" | "opacity">;
+}) {
+  return (
+    <img
+      src={background.imageData}
+      alt=""
+      draggable={false}
+      className="absolute pointer-events-none select-none max-w-none"
+      style={{
+        left: background.positionX,
+        top: background.positionY,
+        width: background.width * background.scale,
+        height: background.height * background.scale,
+        opacity: background.opacity,
+      }}
+      data-testid="floor-background"
+    />
+  );
+}
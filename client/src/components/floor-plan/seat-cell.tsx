@@ -1,7 +1,29 @@
 import { cn } from "@/lib/utils";
 import type { Seat, Booking, TimeSlot } from "@shared/schema";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { Monitor, User, Lock, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Monitor, User, Lock, Clock, ListPlus } from "lucide-react";
+
+// A seat's value in heatmap mode, from 0 to 1; null when there is nothing to measure
+export interface SeatHeat {
+  value: number | null;
+  detail: string;
+}
+
+// Lightest to darkest; a value falls into the step covering its fifth of the range
+export const HEAT_SCALE = [
+  "bg-rose-50 dark:bg-rose-950/40 border-rose-200 dark:border-rose-900 text-rose-900 dark:text-rose-100",
+  "bg-rose-100 dark:bg-rose-900/50 border-rose-300 dark:border-rose-800 text-rose-900 dark:text-rose-100",
+  "bg-rose-200 dark:bg-rose-800/60 border-rose-400 dark:border-rose-700 text-rose-900 dark:text-rose-100",
+  "bg-rose-400 dark:bg-rose-700 border-rose-500 dark:border-rose-600 text-white",
+  "bg-rose-600 dark:bg-rose-600 border-rose-700 dark:border-rose-500 text-white",
+];
+export const HEAT_EMPTY = "bg-slate-100 dark:bg-slate-800 border-dashed border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-400";
+
+export function getHeatColor(value: number | null): string {
+  if (value === null) return HEAT_EMPTY;
+  return HEAT_SCALE[Math.min(HEAT_SCALE.length - 1, Math.floor(value * HEAT_SCALE.length))];
+}
 
 interface SeatCellProps {
   seat: Seat;
@@ -12,6 +34,9 @@ interface SeatCellProps {
   onSelect: (seatId: string) => void;
   viewMode: "book" | "view";
   currentUserId?: string;
+  onJoinWaitlist?: (seatId: string, slots: TimeSlot[]) => void;
+  isWaitlisted?: boolean;
+  heat?: SeatHeat; // colours the seat by this value instead of its bookings on the selected date
 }
 
 type SeatStatus = "available" | "booked-am" | "booked-pm" | "fully-booked" | "blocked" | "long-term" | "selected";
@@ -25,6 +50,9 @@ export function SeatCell({
   onSelect,
   viewMode,
   currentUserId,
+  onJoinWaitlist,
+  isWaitlisted = false,
+  heat,
 }: SeatCellProps) {
   const dateBookings = bookings.filter(b => b.date === selectedDate && !b.cancelledAt);
   const amBooking = dateBookings.find(b => b.slot === "AM");
@@ -53,7 +81,21 @@ export function SeatCell({
     return selectedSlots.length > 0;
   };
 
+  // Slots worth queueing for: the requested slots someone else holds, or every taken slot
+  const getWaitlistSlots = (): TimeSlot[] => {
+    if (viewMode !== "book" || seat.isBlocked || seat.isLongTermReserved) return [];
+    const takenByOthers = (slot: TimeSlot) => {
+      const booking = slot === "AM" ? amBooking : pmBooking;
+      return !!booking && booking.userId !== currentUserId;
+    };
+    const candidates: TimeSlot[] = selectedSlots.length > 0 ? selectedSlots : ["AM", "PM"];
+    return candidates.filter(takenByOthers);
+  };
+
+  const waitlistSlots = onJoinWaitlist ? getWaitlistSlots() : [];
+
   const getStatusColor = () => {
+    if (heat) return getHeatColor(heat.value);
     switch (status) {
       case "selected":
         return "bg-primary text-primary-foreground border-primary";
@@ -79,6 +121,7 @@ export function SeatCell({
     if (seat.isLongTermReserved) {
       lines.push(`Long-term Reserved${seat.longTermReservedBy ? ` by ${seat.longTermReservedBy}` : ""}`);
     }
+    if (heat) return [...lines, heat.detail];
     if (amBooking) lines.push(`AM: ${amBooking.userName || amBooking.userEmail || "Booked"}`);
     if (pmBooking) lines.push(`PM: ${pmBooking.userName || pmBooking.userEmail || "Booked"}`);
     if (status === "available") lines.push("Available");
@@ -132,7 +175,7 @@ export function SeatCell({
           </div>
 
           {/* Booking indicator */}
-          {(amBooking || pmBooking) && !seat.isBlocked && !seat.isLongTermReserved && (
+          {!heat && (amBooking || pmBooking) && !seat.isBlocked && !seat.isLongTermReserved && (
             <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 flex gap-0.5">
               {amBooking && (
                 <span className="bg-amber-500 text-white text-[8px] px-1 rounded-sm font-bold">AM</span>
@@ -151,6 +194,22 @@ export function SeatCell({
               {line}
             </p>
           ))}
+          {waitlistSlots.length > 0 && (
+            isWaitlisted ? (
+              <p className="text-xs font-medium text-primary pt-1">On the waitlist</p>
+            ) : (
+              <Button
+                size="sm"
+                variant="secondary"
+                className="mt-1 h-7 w-full gap-1 text-xs"
+                onClick={() => onJoinWaitlist?.(seat.id, waitlistSlots)}
+                data-testid={`button-join-waitlist-${seat.name}`}
+              >
+                <ListPlus className="h-3 w-3" />
+                Join waitlist ({waitlistSlots.join(" & ")})
+              </Button>
+            )
+          )}
         </div>
       </TooltipContent>
     </Tooltip>
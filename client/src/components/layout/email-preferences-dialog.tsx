@@ -0,0 +1,85 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { UpdateUserPreferences, UserPreferences } from "@shared/schema";
+
+type EmailPreferenceKey = "emailConfirmations" | "emailBookingChanges" | "emailReminders";
+
+const EMAIL_PREFERENCES: { key: EmailPreferenceKey; label: string; description: string }[] = [
+  {
+    key: "emailConfirmations",
+    label: "Booking confirmations",
+    description: "When you book a desk",
+  },
+  {
+    key: "emailBookingChanges",
+    label: "Changes to your bookings",
+    description: "When an admin cancels your booking or blocks or reserves a desk you booked",
+  },
+  {
+    key: "emailReminders",
+    label: "Day-before reminders",
+    description: "The afternoon before each day you have a desk booked",
+  },
+];
+
+interface EmailPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EmailPreferencesDialog({ open, onOpenChange }: EmailPreferencesDialogProps) {
+  const { toast } = useToast();
+
+  const { data: preferences } = useQuery<UserPreferences>({
+    queryKey: ["/api/user/preferences"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: UpdateUserPreferences) => {
+      const res = await apiRequest("PATCH", "/api/user/preferences", updates);
+      return res.json() as Promise<UserPreferences>;
+    },
+    onSuccess: (prefs) => {
+      queryClient.setQueryData(["/api/user/preferences"], prefs);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update email notifications",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Email notifications</DialogTitle>
+          <DialogDescription>Choose which emails HotDesk sends you.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {EMAIL_PREFERENCES.map(({ key, label, description }) => (
+            <div key={key} className="flex items-start justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor={`pref-${key}`}>{label}</Label>
+                <p className="text-sm text-muted-foreground">{description}</p>
+              </div>
+              <Switch
+                id={`pref-${key}`}
+                checked={preferences?.[key] ?? true}
+                disabled={!preferences || updateMutation.isPending}
+                onCheckedChange={(checked) => updateMutation.mutate({ [key]: checked })}
+                data-testid={`switch-${key}`}
+              />
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { Fragment } from "react";
+import { useFloor } from "@/hooks/use-floor";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Check, ChevronDown, Layers, Star } from "lucide-react";
+
+export function FloorSwitcher() {
+  const { toast } = useToast();
+  const { sites, floors, site, floor, defaultFloorId, selectFloor, setDefaultFloor, isSettingDefault } = useFloor();
+
+  // Single-floor offices have nothing to switch between
+  if (!floor || floors.length < 2) return null;
+
+  const isDefault = floor.id === defaultFloorId;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 max-w-[220px]" data-testid="button-floor-switcher">
+          <Layers className="h-4 w-4 shrink-0" />
+          <span className="truncate">
+            <span className="hidden md:inline">{site?.name} · </span>
+            {floor.name}
+          </span>
+          <ChevronDown className="h-3 w-3 shrink-0 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-64" align="end">
+        {sites.filter(s => s.floors.length > 0).map((s, index) => (
+          <Fragment key={s.id}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel className="text-xs text-muted-foreground">{s.name}</DropdownMenuLabel>
+            {s.floors.map(f => (
+              <DropdownMenuItem
+                key={f.id}
+                className="gap-2"
+                onClick={() => selectFloor(f.id)}
+                data-testid={`floor-option-${f.id}`}
+              >
+                <Check className={f.id === floor.id ? "h-4 w-4" : "h-4 w-4 invisible"} />
+                <span className="flex-1">{f.name}</span>
+                {f.id === defaultFloorId && <Star className="h-3 w-3 text-muted-foreground" />}
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          className="gap-2"
+          disabled={isDefault || isSettingDefault}
+          onClick={() =>
+            setDefaultFloor(floor.id, {
+              onSuccess: () => toast({ title: `${floor.name} is now your default floor` }),
+              onError: (error: Error) =>
+                toast({ title: "Failed to set default floor", description: error.message, variant: "destructive" }),
+            })
+          }
+          data-testid="button-set-default-floor"
+        >
+          <Star className="h-4 w-4" />
+          {isDefault ? "This is your default floor" : "Make this my default floor"}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -10,7 +11,12 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
-import { Building2, LogOut, Settings, User, Shield, LayoutDashboard } from "lucide-react";
+import { NotificationsMenu } from "@/components/layout/notifications-menu";
+import { FloorSwitcher } from "@/components/layout/floor-switcher";
+import { EmailPreferencesDialog } from "@/components/layout/email-preferences-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Building2, LogOut, Settings, User, Shield, LayoutDashboard, Mail, MonitorSmartphone, KeyRound } from "lucide-react";
 import type { User as UserType } from "@shared/models/auth";
 import type { Role } from "@shared/schema";
 
@@ -21,7 +27,10 @@ interface HeaderProps {
 }
 
 export function Header({ user, userRole, onLogout }: HeaderProps) {
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
+  const [emailPreferencesOpen, setEmailPreferencesOpen] = useState(false);
+  const { logoutEverywhere } = useAuth();
+  const { toast } = useToast();
   const displayName = user?.firstName
     ? `${user.firstName}${user.lastName ? ` ${user.lastName}` : ""}`
     : user?.email || "User";
@@ -32,6 +41,12 @@ export function Header({ user, userRole, onLogout }: HeaderProps) {
 
   const isOnAdminPage = location.startsWith("/admin");
 
+  const handleLogoutEverywhere = () => {
+    logoutEverywhere().catch((error: Error) => {
+      toast({ title: "Failed to log out everywhere", description: error.message, variant: "destructive" });
+    });
+  };
+
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-14 items-center justify-between gap-4 px-4">
@@ -53,6 +68,7 @@ export function Header({ user, userRole, onLogout }: HeaderProps) {
         </div>
 
         <div className="flex items-center gap-3">
+          {user && <FloorSwitcher />}
           {userRole === "admin" && (
             <Link href={isOnAdminPage ? "/" : "/admin"}>
               <Button
@@ -75,6 +91,7 @@ export function Header({ user, userRole, onLogout }: HeaderProps) {
               </Button>
             </Link>
           )}
+          {user && <NotificationsMenu />}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" className="relative h-9 w-9 rounded-full" data-testid="button-user-menu">
@@ -102,6 +119,26 @@ export function Header({ user, userRole, onLogout }: HeaderProps) {
                 <User className="h-4 w-4" />
                 <span>Profile</span>
               </DropdownMenuItem>
+              {user && (
+                <DropdownMenuItem
+                  className="gap-2"
+                  onClick={() => setEmailPreferencesOpen(true)}
+                  data-testid="button-email-preferences"
+                >
+                  <Mail className="h-4 w-4" />
+                  <span>Email notifications</span>
+                </DropdownMenuItem>
+              )}
+              {user && (
+                <DropdownMenuItem
+                  className="gap-2"
+                  onClick={() => setLocation("/change-password")}
+                  data-testid="button-change-password"
+                >
+                  <KeyRound className="h-4 w-4" />
+                  <span>Change password</span>
+                </DropdownMenuItem>
+              )}
               {userRole === "admin" && (
                 <DropdownMenuItem className="gap-2">
                   <Settings className="h-4 w-4" />
@@ -117,8 +154,19 @@ export function Header({ user, userRole, onLogout }: HeaderProps) {
                 <LogOut className="h-4 w-4" />
                 <span>Log out</span>
               </DropdownMenuItem>
+              {user && (
+                <DropdownMenuItem
+                  className="gap-2 text-destructive focus:text-destructive"
+                  onClick={handleLogoutEverywhere}
+                  data-testid="button-logout-everywhere"
+                >
+                  <MonitorSmartphone className="h-4 w-4" />
+                  <span>Log out everywhere</span>
+                </DropdownMenuItem>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
+          {user && <EmailPreferencesDialog open={emailPreferencesOpen} onOpenChange={setEmailPreferencesOpen} />}
         </div>
       </div>
     </header>
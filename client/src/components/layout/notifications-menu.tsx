@@ -0,0 +1,79 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bell } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Notification } from "@shared/schema";
+
+export function NotificationsMenu() {
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications/my"],
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read", {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/my"] });
+    },
+  });
+
+  const unreadCount = notifications.filter(n => !n.readAt).length;
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        // Closing the menu marks everything shown in it as read
+        if (!open && unreadCount > 0) markReadMutation.mutate();
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start gap-1"
+                data-testid={`notification-${notification.id}`}
+              >
+                <span className={cn("text-sm", !notification.readAt && "font-medium")}>
+                  {notification.title}
+                </span>
+                <span className="text-xs text-muted-foreground">{notification.message}</span>
+                {notification.createdAt && (
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </span>
+                )}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,13 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { getToken, setToken, removeToken, getAuthHeaders } from "@/lib/auth";
-import type { User } from "@shared/models/auth";
+import { getToken, getRefreshToken, setTokens, removeToken, authFetch } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  AuthTokens,
+  ChangePasswordInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  User,
+} from "@shared/models/auth";
 
 async function fetchUser(): Promise<User | null> {
   const token = getToken();
@@ -8,9 +15,7 @@ async function fetchUser(): Promise<User | null> {
     return null;
   }
 
-  const response = await fetch("/api/auth/user", {
-    headers: getAuthHeaders(),
-  });
+  const response = await authFetch("/api/auth/user");
 
   if (response.status === 401) {
     removeToken();
@@ -37,8 +42,7 @@ interface RegisterData {
   inviteCode: string;
 }
 
-interface AuthResponse {
-  token: string;
+interface AuthResponse extends AuthTokens {
   user: User;
 }
 
@@ -55,7 +59,7 @@ async function login(data: LoginData): Promise<AuthResponse> {
   }
 
   const result = await response.json();
-  setToken(result.token);
+  setTokens(result);
   return result;
 }
 
@@ -72,11 +76,61 @@ async function register(data: RegisterData): Promise<AuthResponse> {
   }
 
   const result = await response.json();
-  setToken(result.token);
+  setTokens(result);
   return result;
 }
 
+// Single sign-on hands the tokens to /login/sso instead of answering a request
+async function completeSsoLogin(tokens: AuthTokens): Promise<void> {
+  setTokens(tokens);
+}
+
+// POST to an auth endpoint and fail with the server's own message
+async function postAuth(
+  url: string,
+  data: unknown,
+  fallbackMessage: string,
+  fetcher: (url: string, init: RequestInit) => Promise<Response> = fetch
+): Promise<void> {
+  const response = await fetcher(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || fallbackMessage);
+  }
+}
+
+function requestPasswordReset(data: ForgotPasswordInput): Promise<void> {
+  return postAuth("/api/auth/password/forgot", data, "Failed to send reset link");
+}
+
+function resetPassword(data: ResetPasswordInput): Promise<void> {
+  return postAuth("/api/auth/password/reset", data, "Failed to reset password");
+}
+
+function changePassword(data: ChangePasswordInput): Promise<void> {
+  return postAuth("/api/auth/password/change", data, "Failed to change password", authFetch);
+}
+
+// Signing out locally always works; telling the server only ends the session sooner
 async function logout(): Promise<void> {
+  const refreshToken = getRefreshToken();
+  removeToken();
+  if (refreshToken) {
+    await fetch("/api/auth/logout", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    }).catch(() => undefined);
+  }
+}
+
+async function logoutEverywhere(): Promise<void> {
+  await apiRequest("POST", "/api/auth/logout-all");
   removeToken();
 }
 
@@ -104,6 +158,13 @@ export function useAuth() {
     },
   });
 
+  const ssoLoginMutation = useMutation({
+    mutationFn: completeSsoLogin,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+
   const logoutMutation = useMutation({
     mutationFn: logout,
     onSuccess: () => {
@@ -112,6 +173,18 @@ export function useAuth() {
     },
   });
 
+  const requestPasswordResetMutation = useMutation({ mutationFn: requestPasswordReset });
+  const resetPasswordMutation = useMutation({ mutationFn: resetPassword });
+  const changePasswordMutation = useMutation({ mutationFn: changePassword });
+
+  const logoutEverywhereMutation = useMutation({
+    mutationFn: logoutEverywhere,
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/auth/user"], null);
+      queryClient.clear();
+    },
+  });
+
   return {
     user,
     isLoading,
@@ -122,8 +195,16 @@ export function useAuth() {
     register: registerMutation.mutateAsync,
     isRegistering: registerMutation.isPending,
     registerError: registerMutation.error?.message,
+    completeSsoLogin: ssoLoginMutation.mutateAsync,
     logout: logoutMutation.mutate,
     isLoggingOut: logoutMutation.isPending,
+    logoutEverywhere: logoutEverywhereMutation.mutateAsync,
+    requestPasswordReset: requestPasswordResetMutation.mutateAsync,
+    isRequestingPasswordReset: requestPasswordResetMutation.isPending,
+    resetPassword: resetPasswordMutation.mutateAsync,
+    isResettingPassword: resetPasswordMutation.isPending,
+    changePassword: changePasswordMutation.mutateAsync,
+    isChangingPassword: changePasswordMutation.isPending,
     refetch,
   };
 }
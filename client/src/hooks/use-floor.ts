@@ -0,0 +1,63 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Floor, SiteWithFloors, UserPreferences } from "@shared/schema";
+
+const FLOOR_KEY = "hotdesk_floor";
+const SELECTED_FLOOR_QUERY_KEY = ["selected-floor"];
+
+function readSelectedFloorId(): string | null {
+  return localStorage.getItem(FLOOR_KEY);
+}
+
+// The floor shown in the floor plan, shared by the header switcher and every page.
+// Falls back from the floor picked in this browser to the user's default floor, then the first floor.
+export function useFloor() {
+  const queryClient = useQueryClient();
+
+  const { data: sites = [], isLoading: sitesLoading } = useQuery<SiteWithFloors[]>({
+    queryKey: ["/api/sites"],
+  });
+
+  const { data: preferences, isLoading: preferencesLoading } = useQuery<UserPreferences>({
+    queryKey: ["/api/user/preferences"],
+  });
+
+  const { data: selectedFloorId = null } = useQuery<string | null>({
+    queryKey: SELECTED_FLOOR_QUERY_KEY,
+    queryFn: readSelectedFloorId,
+  });
+
+  const floors = sites.flatMap(site => site.floors);
+  const findFloor = (id: string | null | undefined) => (id ? floors.find(f => f.id === id) : undefined);
+  const floor: Floor | undefined =
+    findFloor(selectedFloorId) ?? findFloor(preferences?.defaultFloorId) ?? floors[0];
+  const site = floor ? sites.find(s => s.id === floor.siteId) : undefined;
+
+  const selectFloor = (floorId: string) => {
+    localStorage.setItem(FLOOR_KEY, floorId);
+    queryClient.setQueryData(SELECTED_FLOOR_QUERY_KEY, floorId);
+  };
+
+  const setDefaultFloorMutation = useMutation({
+    mutationFn: async (floorId: string | null) => {
+      const res = await apiRequest("PATCH", "/api/user/preferences", { defaultFloorId: floorId });
+      return res.json() as Promise<UserPreferences>;
+    },
+    onSuccess: (prefs) => {
+      queryClient.setQueryData(["/api/user/preferences"], prefs);
+    },
+  });
+
+  return {
+    sites,
+    floors,
+    site,
+    floor,
+    floorId: floor?.id,
+    defaultFloorId: preferences?.defaultFloorId ?? null,
+    isLoading: sitesLoading || preferencesLoading,
+    selectFloor,
+    setDefaultFloor: setDefaultFloorMutation.mutate,
+    isSettingDefault: setDefaultFloorMutation.isPending,
+  };
+}
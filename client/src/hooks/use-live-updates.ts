@@ -0,0 +1,100 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { authFetch } from "@/lib/auth";
+import type { RealtimeEvent, RealtimeTopic } from "@shared/schema";
+
+// Cached queries that hold data under each topic the server announces changes for
+const TOPIC_QUERIES: Record<RealtimeTopic, string[][]> = {
+  // Cancellations can also offer the freed slot to someone on the waitlist
+  bookings: [["/api/bookings"], ["/api/waitlist/my"], ["/api/notifications/my"]],
+  seats: [["/api/seats"]],
+  clusters: [["/api/clusters"]],
+  layout: [["/api/layout"], ["/api/layout/revisions"]],
+};
+
+const RETRY_DELAYS_MS = [1_000, 2_000, 5_000, 10_000, 30_000];
+
+function refetchTopics(topics: RealtimeTopic[]) {
+  for (const topic of topics) {
+    for (const queryKey of TOPIC_QUERIES[topic] ?? []) {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  }
+}
+
+// Call onEvent with the data of every event in a Server-Sent Events stream until it ends
+async function readEvents(body: ReadableStream<Uint8Array>, onEvent: (data: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const data = buffer
+        .slice(0, end)
+        .split("\n")
+        .filter(line => line.startsWith("data:"))
+        .map(line => line.slice(5).trimStart())
+        .join("\n");
+      buffer = buffer.slice(end + 2);
+      if (data) onEvent(data);
+    }
+  }
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+// Follow the server's change stream and refetch what other people's bookings and layout edits touched.
+// EventSource can't send the bearer token, so the stream is read through fetch.
+function followServerChanges(signal: AbortSignal) {
+  let attempt = 0;
+  let connectedBefore = false;
+
+  const run = async () => {
+    while (!signal.aborted) {
+      try {
+        const res = await authFetch("/api/events", { signal });
+        // The session ended and couldn't be refreshed; signing in again starts a new stream
+        if (res.status === 401) return;
+        if (res.ok && res.body) {
+          // Anything could have changed while the stream was down
+          if (connectedBefore) refetchTopics(Object.keys(TOPIC_QUERIES) as RealtimeTopic[]);
+          connectedBefore = true;
+          attempt = 0;
+          await readEvents(res.body, (data) => {
+            try {
+              refetchTopics((JSON.parse(data) as RealtimeEvent).topics);
+            } catch (error) {
+              console.error("Ignoring malformed change event:", error);
+            }
+          });
+        }
+      } catch {
+        if (signal.aborted) return;
+      }
+      await wait(RETRY_DELAYS_MS[Math.min(attempt++, RETRY_DELAYS_MS.length - 1)], signal);
+    }
+  };
+  run();
+}
+
+// Keep booking, seat, cluster and layout queries current while a user is signed in
+export function useLiveUpdates(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+    followServerChanges(controller.signal);
+    return () => controller.abort();
+  }, [enabled]);
+}
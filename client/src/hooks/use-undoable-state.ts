@@ -0,0 +1,80 @@
+import { useCallback, useState } from "react";
+
+const HISTORY_LIMIT = 200;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+}
+
+type Updater<T> = (current: T) => T;
+
+// State with an undo/redo stack. Consecutive changes that share a coalesce key (typing in one
+// field, repeated nudges of the same selection) collapse into a single undo step.
+export function useUndoableState<T>(initial: T) {
+  const [history, setHistory] = useState<History<T>>({
+    past: [],
+    present: initial,
+    future: [],
+    lastKey: null,
+  });
+
+  const set = useCallback((update: Updater<T>, coalesceKey?: string) => {
+    setHistory(h => {
+      const next = update(h.present);
+      if (next === h.present) return h;
+      const coalesce = coalesceKey !== undefined && coalesceKey === h.lastKey;
+      return {
+        past: coalesce ? h.past : [...h.past, h.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastKey: coalesceKey ?? null,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        lastKey: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        lastKey: null,
+      };
+    });
+  }, []);
+
+  // Replace the state and forget its history; returning the current value leaves both untouched
+  const reset = useCallback((update: Updater<T>) => {
+    setHistory(h => {
+      const next = update(h.present);
+      if (next === h.present) return h;
+      return { past: [], present: next, future: [], lastKey: null };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
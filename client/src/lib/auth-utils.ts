@@ -15,3 +15,12 @@ export function redirectToLogin(toast?: (options: { title: string; description:
     window.location.href = "/login";
   }, 500);
 }
+
+// Where to go after signing in: the ?next= deep link if it is a local path, else home
+export function getLoginRedirect(): string {
+  return toLocalPath(new URLSearchParams(window.location.search).get("next"));
+}
+
+export function toLocalPath(next: string | null): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
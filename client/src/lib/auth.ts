@@ -1,15 +1,25 @@
+import type { AuthTokens } from "@shared/models/auth";
+
 const TOKEN_KEY = "hotdesk_token";
+const REFRESH_TOKEN_KEY = "hotdesk_refresh_token";
+const REFRESH_LOCK = "hotdesk_token_refresh";
 
 export function getToken(): string | null {
   return localStorage.getItem(TOKEN_KEY);
 }
 
-export function setToken(token: string): void {
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+export function setTokens({ token, refreshToken }: AuthTokens): void {
   localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
 }
 
 export function removeToken(): void {
   localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
 }
 
 export function getAuthHeaders(): HeadersInit {
@@ -19,3 +29,52 @@ export function getAuthHeaders(): HeadersInit {
   }
   return {};
 }
+
+// Tabs share the tokens, so only one of them refreshes at a time. A refresh token is good for one
+// refresh only, and presenting a used one again signs the session out.
+function withRefreshLock<T>(refresh: () => Promise<T>): Promise<T> {
+  return navigator.locks ? navigator.locks.request(REFRESH_LOCK, refresh) : refresh();
+}
+
+let pendingRefresh: Promise<boolean> | null = null;
+
+// Swap the refresh token for new tokens; resolves to whether there is a usable access token afterwards
+export function refreshAccessToken(): Promise<boolean> {
+  if (!pendingRefresh) {
+    const staleRefreshToken = getRefreshToken();
+    pendingRefresh = withRefreshLock(async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) return false;
+      // Another tab refreshed while this one waited for the lock
+      if (refreshToken !== staleRefreshToken) return true;
+
+      const res = await fetch("/api/auth/refresh", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (res.status === 401) {
+        removeToken();
+        return false;
+      }
+      if (!res.ok) return false;
+      setTokens(await res.json());
+      return true;
+    })
+      .catch(() => false)
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
+// fetch with the access token, refreshing it and retrying once when the server says it has run out
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () =>
+    fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), ...getAuthHeaders() } });
+
+  const res = await send();
+  if (res.status !== 401 || !getRefreshToken()) return res;
+  return (await refreshAccessToken()) ? send() : res;
+}
@@ -1,5 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
-import { getToken, getAuthHeaders } from "./auth";
+import { authFetch } from "./auth";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -13,15 +13,12 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const headers: HeadersInit = {
-    ...getAuthHeaders(),
-  };
-  
+  const headers: Record<string, string> = {};
   if (data) {
-    (headers as Record<string, string>)["Content-Type"] = "application/json";
+    headers["Content-Type"] = "application/json";
   }
 
-  const res = await fetch(url, {
+  const res = await authFetch(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
@@ -31,15 +28,28 @@ export async function apiRequest(
   return res;
 }
 
+// A plain object at the end of a query key is sent as the query string, e.g. ["/api/bookings", { from, to }]
+function toQueryUrl(queryKey: readonly unknown[]): string {
+  const last = queryKey[queryKey.length - 1];
+  if (queryKey.length < 2 || !last || typeof last !== "object") {
+    return queryKey.join("/");
+  }
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(last)) {
+    if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+  }
+  const path = queryKey.slice(0, -1).join("/");
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
-      headers: getAuthHeaders(),
-    });
+    const res = await authFetch(toQueryUrl(queryKey));
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
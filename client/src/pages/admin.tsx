@@ -1,25 +1,37 @@
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import { format, startOfToday } from "date-fns";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { useFloor } from "@/hooks/use-floor";
 import { useToast } from "@/hooks/use-toast";
 import { Header } from "@/components/layout/header";
 import { FloorPlan } from "@/components/floor-plan/floor-plan";
 import { DateSlotPicker } from "@/components/booking/date-slot-picker";
 import { SeatManagement } from "@/components/admin/seat-management";
 import { BookingManagement } from "@/components/admin/booking-management";
+import { AnalyticsDashboard } from "@/components/admin/analytics-dashboard";
 import { FloorPlanEditor } from "@/components/admin/floor-plan-editor";
 import { VisualFloorEditor } from "@/components/admin/visual-floor-editor";
+import { LayoutHistory } from "@/components/admin/layout-history";
+import { LayoutTransfer } from "@/components/admin/layout-transfer";
+import { ReassignmentQueue } from "@/components/admin/reassignment-queue";
 import { UserManagement } from "@/components/admin/user-management";
 import { InviteManagement } from "@/components/admin/invite-management";
+import { SsoSettings } from "@/components/admin/sso-settings";
+import { BookingPolicies } from "@/components/admin/booking-policies";
+import { ClosureManagement } from "@/components/admin/closure-management";
+import { SiteManagement } from "@/components/admin/site-management";
+import { WebhookManagement } from "@/components/admin/webhook-management";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import type { Seat, Booking, TimeSlot } from "@shared/schema";
+import { MAX_BOOKING_PAGE_SIZE } from "@shared/schema";
+import type { Seat, Cluster, BookingPage, NoShowStats, TimeSlot, FloorLayout, FloorBackground } from "@shared/schema";
 import { isUnauthorizedError } from "@/lib/auth-utils";
 
 export default function AdminPortal() {
   const { user, logout } = useAuth();
   const { toast } = useToast();
+  const { floorId } = useFloor();
   const today = startOfToday();
 
   const [selectedDate, setSelectedDate] = useState<Date>(today);
@@ -30,11 +42,35 @@ export default function AdminPortal() {
     queryKey: ["/api/seats"],
   });
 
-  // Fetch all bookings
-  const { data: allBookings = [], isLoading: bookingsLoading } = useQuery<
-    Booking[]
-  >({
-    queryKey: ["/api/bookings"],
+  const { data: clusters = [] } = useQuery<Cluster[]>({
+    queryKey: ["/api/clusters"],
+  });
+
+  // Seat tools work on the floor picked in the header; booking lists span every floor
+  const floorSeats = useMemo(() => seats.filter((s) => s.floorId === floorId), [seats, floorId]);
+  const floorClusters = useMemo(() => clusters.filter((c) => c.floorId === floorId), [clusters, floorId]);
+
+  // Walls, rooms and labels drawn around the desks, and the floor plan image underneath
+  const { data: floorLayout } = useQuery<FloorLayout>({
+    queryKey: ["/api/layout", floorId],
+    enabled: !!floorId,
+  });
+  const { data: floorBackground } = useQuery<FloorBackground | null>({
+    queryKey: ["/api/layout", floorId, "background"],
+    enabled: !!floorId,
+  });
+
+  // The overview only shows the picked day on this floor; the bookings tab pages through its own range
+  const overviewDate = format(selectedDate, "yyyy-MM-dd");
+  const { data: overviewBookings, isLoading: bookingsLoading } = useQuery<BookingPage>({
+    queryKey: ["/api/bookings", { from: overviewDate, to: overviewDate, floorId, limit: MAX_BOOKING_PAGE_SIZE }],
+    enabled: !!floorId && activeTab === "overview",
+    placeholderData: keepPreviousData,
+  });
+
+  // Fetch no-show rate per user
+  const { data: noShowStats = [] } = useQuery<NoShowStats[]>({
+    queryKey: ["/api/bookings/no-show-stats"],
   });
 
   // Update seat mutation
@@ -54,6 +90,7 @@ export default function AdminPortal() {
         description: "Seat settings have been saved.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/seats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/layout"] });
     },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -229,11 +266,14 @@ export default function AdminPortal() {
           onValueChange={setActiveTab}
           className="space-y-6"
         >
-          <TabsList className="grid w-full max-w-4xl grid-cols-6">
+          <TabsList className="grid w-full max-w-6xl grid-cols-10">
             {/* <TabsTrigger value="overview" data-testid="tab-overview">Floor Plan</TabsTrigger> */}
             <TabsTrigger value="bookings" data-testid="tab-bookings">
               Bookings
             </TabsTrigger>
+            <TabsTrigger value="analytics" data-testid="tab-analytics">
+              Analytics
+            </TabsTrigger>
             <TabsTrigger value="config" data-testid="tab-config">
               Seats
             </TabsTrigger>
@@ -241,7 +281,7 @@ export default function AdminPortal() {
               Users
             </TabsTrigger>
             <TabsTrigger value="invites" data-testid="tab-invites">
-              Invites
+              Invites &amp; SSO
             </TabsTrigger>
             <TabsTrigger value="seat-props" data-testid="tab-seat-props">
               Properties
@@ -249,14 +289,26 @@ export default function AdminPortal() {
             <TabsTrigger value="editor" data-testid="tab-editor">
               Layout Editor
             </TabsTrigger>
+            <TabsTrigger value="policies" data-testid="tab-policies">
+              Policies
+            </TabsTrigger>
+            <TabsTrigger value="sites" data-testid="tab-sites">
+              Sites
+            </TabsTrigger>
+            <TabsTrigger value="webhooks" data-testid="tab-webhooks">
+              Webhooks
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
             <div className="grid lg:grid-cols-[1fr_320px] gap-6">
               <FloorPlan
-                seats={seats}
-                bookings={allBookings}
-                selectedDate={format(selectedDate, "yyyy-MM-dd")}
+                seats={floorSeats}
+                clusters={floorClusters}
+                shapes={floorLayout?.shapes}
+                background={floorBackground}
+                bookings={overviewBookings?.bookings ?? []}
+                selectedDate={overviewDate}
                 selectedSlots={["AM", "PM"]}
                 selectedSeats={[]}
                 onSelectSeat={() => {}}
@@ -272,17 +324,19 @@ export default function AdminPortal() {
             </div>
           </TabsContent>
 
-          <TabsContent value="editor">
+          <TabsContent value="editor" className="space-y-6">
             <VisualFloorEditor />
+            <LayoutHistory floorId={floorId} />
+            <LayoutTransfer floorId={floorId} />
           </TabsContent>
 
           <TabsContent value="config">
-            <FloorPlanEditor seats={seats} isLoading={seatsLoading} />
+            <FloorPlanEditor seats={floorSeats} floorId={floorId} isLoading={seatsLoading} />
           </TabsContent>
 
           <TabsContent value="seat-props">
             <SeatManagement
-              seats={seats}
+              seats={floorSeats}
               onUpdateSeat={handleUpdateSeat}
               onBlockSeat={handleBlockSeat}
               onSetLongTermReservation={handleSetLongTerm}
@@ -295,22 +349,41 @@ export default function AdminPortal() {
             />
           </TabsContent>
 
-          <TabsContent value="bookings">
+          <TabsContent value="bookings" className="space-y-6">
+            <ReassignmentQueue />
             <BookingManagement
-              bookings={allBookings}
               seats={seats}
+              noShowStats={noShowStats}
               onCancelBooking={(id) => cancelBookingMutation.mutate(id)}
               isCancelling={cancelBookingMutation.isPending}
-              isLoading={bookingsLoading || seatsLoading}
+              isLoading={seatsLoading}
             />
           </TabsContent>
 
+          <TabsContent value="analytics">
+            <AnalyticsDashboard floorId={floorId} />
+          </TabsContent>
+
           <TabsContent value="users">
             <UserManagement />
           </TabsContent>
 
-          <TabsContent value="invites">
+          <TabsContent value="invites" className="space-y-6">
             <InviteManagement />
+            <SsoSettings />
+          </TabsContent>
+
+          <TabsContent value="policies" className="space-y-6">
+            <BookingPolicies />
+            <ClosureManagement />
+          </TabsContent>
+
+          <TabsContent value="sites">
+            <SiteManagement />
+          </TabsContent>
+
+          <TabsContent value="webhooks">
+            <WebhookManagement />
           </TabsContent>
         </Tabs>
       </main>
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Header } from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, AlertCircle } from "lucide-react";
+import type { Role } from "@shared/schema";
+
+interface ChangePasswordPageProps {
+  userRole: Role;
+}
+
+export default function ChangePasswordPage({ userRole }: ChangePasswordPageProps) {
+  const [, setLocation] = useLocation();
+  const { user, logout, changePassword, isChangingPassword } = useAuth();
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    if (newPassword.length < 8) {
+      setError("Password must be at least 8 characters");
+      return;
+    }
+
+    try {
+      await changePassword({ currentPassword, newPassword });
+      toast({ title: "Password changed", description: "You've been signed out on your other devices." });
+      setLocation("/");
+    } catch (err: any) {
+      setError(err.message || "Failed to change password");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header user={user ?? null} userRole={userRole} onLogout={logout} />
+      <main className="container mx-auto px-4 py-6 flex justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Change password</CardTitle>
+            <CardDescription>You'll stay signed in here and be signed out on your other devices</CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="currentPassword">Current password</Label>
+                <Input
+                  id="currentPassword"
+                  type="password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  required
+                  data-testid="input-current-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New password</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                  data-testid="input-new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm new password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Repeat the new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  data-testid="input-confirm-password"
+                />
+              </div>
+            </CardContent>
+            <CardFooter className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => setLocation("/")}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isChangingPassword} data-testid="button-change-password">
+                {isChangingPassword ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Change password"
+                )}
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </main>
+    </div>
+  );
+}
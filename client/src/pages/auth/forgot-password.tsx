@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, Building2, AlertCircle, MailCheck } from "lucide-react";
+
+export default function ForgotPasswordPage() {
+  const [, setLocation] = useLocation();
+  const { requestPasswordReset, isRequestingPasswordReset } = useAuth();
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    try {
+      await requestPasswordReset({ email });
+      setSent(true);
+    } catch (err: any) {
+      setError(err.message || "Failed to send reset link");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <Building2 className="h-8 w-8 text-primary" />
+            <span className="text-2xl font-bold">HotDesk</span>
+          </div>
+          <CardTitle>Forgot your password?</CardTitle>
+          <CardDescription>We'll email you a link to choose a new one</CardDescription>
+        </CardHeader>
+        {sent ? (
+          <>
+            <CardContent>
+              <Alert>
+                <MailCheck className="h-4 w-4" />
+                <AlertDescription data-testid="text-reset-sent">
+                  If an account uses {email}, a reset link is on its way. Check your inbox and use the link soon: it expires and works only once.
+                </AlertDescription>
+              </Alert>
+            </CardContent>
+            <CardFooter>
+              <Button className="w-full" variant="outline" onClick={() => setLocation("/login")}>
+                Back to sign in
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@company.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  data-testid="input-email"
+                />
+              </div>
+            </CardContent>
+            <CardFooter className="flex flex-col gap-4">
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isRequestingPasswordReset}
+                data-testid="button-send-reset-link"
+              >
+                {isRequestingPasswordReset ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  "Send reset link"
+                )}
+              </Button>
+              <p className="text-sm text-muted-foreground text-center">
+                Remembered it?{" "}
+                <button
+                  type="button"
+                  className="text-primary hover:underline font-normal"
+                  onClick={() => setLocation("/login")}
+                  data-testid="link-login"
+                >
+                  Sign in
+                </button>
+              </p>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
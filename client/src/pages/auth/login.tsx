@@ -1,19 +1,30 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { getLoginRedirect } from "@/lib/auth-utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Building2, AlertCircle } from "lucide-react";
+import { Loader2, Building2, AlertCircle, KeyRound } from "lucide-react";
 
 export default function LoginPage() {
   const [, setLocation] = useLocation();
   const { login, isLoggingIn } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
+  // Single sign-on comes back here with ?sso_error= when it fails
+  const [error, setError] = useState(() => new URLSearchParams(window.location.search).get("sso_error") ?? "");
+
+  const { data: sso } = useQuery<{ enabled: boolean }>({
+    queryKey: ["/api/auth/oidc/config"],
+  });
+
+  const handleSsoLogin = () => {
+    window.location.assign(`/api/auth/oidc/login?next=${encodeURIComponent(getLoginRedirect())}`);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,7 +32,7 @@ export default function LoginPage() {
 
     try {
       await login({ email, password });
-      setLocation("/");
+      setLocation(getLoginRedirect());
     } catch (err: any) {
       setError(err.message || "Login failed");
     }
@@ -59,7 +70,17 @@ export default function LoginPage() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <button
+                  type="button"
+                  className="text-sm text-primary hover:underline font-normal"
+                  onClick={() => setLocation("/forgot-password")}
+                  data-testid="link-forgot-password"
+                >
+                  Forgot password?
+                </button>
+              </div>
               <Input
                 id="password"
                 type="password"
@@ -87,6 +108,18 @@ export default function LoginPage() {
                 "Sign in"
               )}
             </Button>
+            {sso?.enabled && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleSsoLogin}
+                data-testid="button-sso-login"
+              >
+                <KeyRound className="mr-2 h-4 w-4" />
+                Sign in with single sign-on
+              </Button>
+            )}
             <p className="text-sm text-muted-foreground text-center">
               Have an invite code?{" "}
               <button
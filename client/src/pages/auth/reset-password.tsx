@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, Building2, AlertCircle, CheckCircle2 } from "lucide-react";
+
+export default function ResetPasswordPage() {
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+  const { resetPassword, isResettingPassword } = useAuth();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    if (password.length < 8) {
+      setError("Password must be at least 8 characters");
+      return;
+    }
+
+    try {
+      await resetPassword({ token, password });
+      setDone(true);
+    } catch (err: any) {
+      setError(err.message || "Failed to reset password");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <Building2 className="h-8 w-8 text-primary" />
+            <span className="text-2xl font-bold">HotDesk</span>
+          </div>
+          <CardTitle>Choose a new password</CardTitle>
+          <CardDescription>You'll be signed out everywhere and can sign in with it straight away</CardDescription>
+        </CardHeader>
+        {done ? (
+          <>
+            <CardContent>
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertDescription data-testid="text-reset-done">
+                  Your password has been reset.
+                </AlertDescription>
+              </Alert>
+            </CardContent>
+            <CardFooter>
+              <Button className="w-full" onClick={() => setLocation("/login")} data-testid="button-go-to-login">
+                Sign in
+              </Button>
+            </CardFooter>
+          </>
+        ) : !token ? (
+          <>
+            <CardContent>
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  This page needs the link from your reset email. Ask for a new one if it has expired.
+                </AlertDescription>
+              </Alert>
+            </CardContent>
+            <CardFooter>
+              <Button className="w-full" variant="outline" onClick={() => setLocation("/forgot-password")}>
+                Send a new link
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="password">New password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  data-testid="input-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm new password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Repeat the new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  data-testid="input-confirm-password"
+                />
+              </div>
+            </CardContent>
+            <CardFooter className="flex flex-col gap-4">
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isResettingPassword}
+                data-testid="button-reset-password"
+              >
+                {isResettingPassword ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Reset password"
+                )}
+              </Button>
+              <p className="text-sm text-muted-foreground text-center">
+                Link expired?{" "}
+                <button
+                  type="button"
+                  className="text-primary hover:underline font-normal"
+                  onClick={() => setLocation("/forgot-password")}
+                  data-testid="link-forgot-password"
+                >
+                  Send a new one
+                </button>
+              </p>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
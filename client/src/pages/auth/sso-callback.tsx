@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { toLocalPath } from "@/lib/auth-utils";
+import { Loader2 } from "lucide-react";
+
+// Single sign-on ends here with the new tokens in the URL fragment
+export default function SsoCallbackPage() {
+  const [, setLocation] = useLocation();
+  const { completeSsoLogin } = useAuth();
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const token = params.get("token");
+    const refreshToken = params.get("refreshToken");
+    // Keep the tokens out of the history and anything copied from the address bar
+    window.history.replaceState(null, "", window.location.pathname);
+
+    if (!token || !refreshToken) {
+      setLocation("/login", { replace: true });
+      return;
+    }
+    completeSsoLogin({ token, refreshToken }).then(() => {
+      setLocation(toLocalPath(params.get("next")), { replace: true });
+    });
+  }, [completeSsoLogin, setLocation]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center gap-2 text-muted-foreground">
+      <Loader2 className="h-5 w-5 animate-spin" />
+      <span>Signing you in...</span>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState, useMemo } from "react";
-import { format, startOfToday, eachDayOfInterval, isWeekend } from "date-fns";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, startOfToday, eachDayOfInterval, isWeekend, differenceInCalendarDays } from "date-fns";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { useFloor } from "@/hooks/use-floor";
 import { useToast } from "@/hooks/use-toast";
 import { Header } from "@/components/layout/header";
 import { FloorPlan } from "@/components/floor-plan/floor-plan";
@@ -10,10 +11,30 @@ import { DateSlotPicker } from "@/components/booking/date-slot-picker";
 import { BookingSummary } from "@/components/booking/booking-summary";
 import { MyBookings } from "@/components/booking/my-bookings";
 import { DailyBookings } from "@/components/booking/daily-bookings";
+import { MyWaitlist } from "@/components/booking/my-waitlist";
+import {
+  RecurringBookingDialog,
+  type RecurringBookingInput,
+} from "@/components/booking/recurring-booking-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import type { Seat, Booking, TimeSlot, Role } from "@shared/schema";
+import type {
+  Seat,
+  Cluster,
+  Booking,
+  BookingPage,
+  BookingSeries,
+  SeriesConflict,
+  WaitlistEntry,
+  BookingPolicies,
+  Closure,
+  TimeSlot,
+  Role,
+  FloorLayout,
+  FloorBackground,
+} from "@shared/schema";
+import { MAX_BOOKING_PAGE_SIZE } from "@shared/schema";
 import { isUnauthorizedError } from "@/lib/auth-utils";
 
 interface DashboardProps {
@@ -23,6 +44,7 @@ interface DashboardProps {
 export default function Dashboard({ userRole }: DashboardProps) {
   const { user, logout } = useAuth();
   const { toast } = useToast();
+  const { site, floor, floorId, isLoading: floorLoading } = useFloor();
   const today = startOfToday();
 
   const [selectedDate, setSelectedDate] = useState<Date>(today);
@@ -33,17 +55,43 @@ export default function Dashboard({ userRole }: DashboardProps) {
   const [dateRangeMode, setDateRangeMode] = useState(true);
   const [startDate, setStartDate] = useState<Date | null>(null);
   const [endDate, setEndDate] = useState<Date | null>(null);
+  const [seriesDialogOpen, setSeriesDialogOpen] = useState(false);
 
   // Fetch seats
   const { data: seats = [], isLoading: seatsLoading } = useQuery<Seat[]>({
     queryKey: ["/api/seats"],
   });
 
-  // Fetch all bookings
-  const { data: allBookings = [], isLoading: bookingsLoading } = useQuery<
-    Booking[]
-  >({
-    queryKey: ["/api/bookings"],
+  const { data: clusters = [], isLoading: clustersLoading } = useQuery<Cluster[]>({
+    queryKey: ["/api/clusters"],
+  });
+
+  // The floor plan only shows the selected floor; bookings elsewhere still need every seat's name
+  const floorSeats = useMemo(() => seats.filter((s) => s.floorId === floorId), [seats, floorId]);
+  const floorClusters = useMemo(() => clusters.filter((c) => c.floorId === floorId), [clusters, floorId]);
+
+  // Walls, rooms and labels drawn around the desks, and the floor plan image underneath
+  const { data: floorLayout } = useQuery<FloorLayout>({
+    queryKey: ["/api/layout", floorId],
+    enabled: !!floorId,
+  });
+  const { data: floorBackground } = useQuery<FloorBackground | null>({
+    queryKey: ["/api/layout", floorId, "background"],
+    enabled: !!floorId,
+  });
+
+  // Only the day each view shows: the floor plan's date on this floor, and the day picked under "Who's in"
+  const floorPlanDate = format(startDate || selectedDate, "yyyy-MM-dd");
+  const dailyDate = format(selectedDate, "yyyy-MM-dd");
+  const { data: floorPlanBookings, isLoading: bookingsLoading } = useQuery<BookingPage>({
+    queryKey: ["/api/bookings", { from: floorPlanDate, to: floorPlanDate, floorId, limit: MAX_BOOKING_PAGE_SIZE }],
+    enabled: !!floorId,
+    placeholderData: keepPreviousData,
+  });
+  const { data: dailyBookings, isLoading: dailyBookingsLoading } = useQuery<BookingPage>({
+    queryKey: ["/api/bookings", { from: dailyDate, to: dailyDate, limit: MAX_BOOKING_PAGE_SIZE }],
+    enabled: activeTab === "whos-in",
+    placeholderData: keepPreviousData,
   });
 
   // Fetch user's bookings
@@ -53,6 +101,44 @@ export default function Dashboard({ userRole }: DashboardProps) {
     queryKey: ["/api/bookings/my"],
   });
 
+  // Fetch user's recurring booking series
+  const { data: mySeries = [], isLoading: mySeriesLoading } = useQuery<
+    BookingSeries[]
+  >({
+    queryKey: ["/api/series/my"],
+  });
+
+  // Fetch user's waitlist entries
+  const { data: myWaitlist = [] } = useQuery<WaitlistEntry[]>({
+    queryKey: ["/api/waitlist/my"],
+  });
+
+  // Fetch booking policies so the pickers can grey out dates the server would refuse
+  const { data: bookingPolicies } = useQuery<BookingPolicies>({
+    queryKey: ["/api/booking-policies"],
+  });
+
+  // Fetch office closures so closed days and slots are greyed out
+  const { data: closures = [] } = useQuery<Closure[]>({
+    queryKey: ["/api/closures"],
+  });
+
+  const getClosedSlots = (date: Date): TimeSlot[] => {
+    const day = format(date, "yyyy-MM-dd");
+    const active = closures.filter((c) => c.startDate <= day && c.endDate >= day);
+    if (active.some((c) => c.slot === null)) return ["AM", "PM"];
+    return Array.from(new Set(active.map((c) => c.slot as TimeSlot)));
+  };
+
+  const isDateOutsidePolicy = (date: Date) => {
+    if (getClosedSlots(date).length === 2) return true;
+    return (
+      !!bookingPolicies &&
+      bookingPolicies.maxDaysInAdvance !== null &&
+      differenceInCalendarDays(date, today) > bookingPolicies.maxDaysInAdvance
+    );
+  };
+
   // Create booking mutation
   const createBookingMutation = useMutation({
     mutationFn: async (data: {
@@ -60,12 +146,15 @@ export default function Dashboard({ userRole }: DashboardProps) {
       dates: string[];
       slots: TimeSlot[];
     }) => {
-      return apiRequest("POST", "/api/bookings/bulk", data);
+      const res = await apiRequest("POST", "/api/bookings/bulk", data);
+      return res.json() as Promise<{ created: number; conflicts?: string[] }>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
         title: "Booking confirmed",
-        description: "Your desk reservation has been created successfully.",
+        description: result.conflicts?.length
+          ? `${result.created} booking(s) created. Skipped: ${result.conflicts.join("; ")}`
+          : "Your desk reservation has been created successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
@@ -128,6 +217,154 @@ export default function Dashboard({ userRole }: DashboardProps) {
     },
   });
 
+  const handleMutationError = (title: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Session expired",
+        description: "Please sign in again.",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title,
+      description: error.message || "Something went wrong. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const invalidateSeriesQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/series/my"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
+  };
+
+  // Create recurring series mutation
+  const createSeriesMutation = useMutation({
+    mutationFn: async (data: RecurringBookingInput & { seatId: string; slots: TimeSlot[] }) => {
+      const res = await apiRequest("POST", "/api/series", data);
+      return res.json() as Promise<{ created: number; conflicts?: SeriesConflict[] }>;
+    },
+    onSuccess: (result) => {
+      const conflictCount = result.conflicts?.length ?? 0;
+      toast({
+        title: "Recurring booking created",
+        description: conflictCount > 0
+          ? `${result.created} booking(s) created, ${conflictCount} occurrence(s) could not be booked. See My Bookings for details.`
+          : `${result.created} booking(s) created for the coming weeks.`,
+        variant: conflictCount > 0 ? "destructive" : undefined,
+      });
+      invalidateSeriesQueries();
+      setSeriesDialogOpen(false);
+      setSelectedSeats([]);
+      setSelectedSlots([]);
+    },
+    onError: handleMutationError("Recurring booking failed"),
+  });
+
+  // Skip a single occurrence of a series
+  const skipOccurrenceMutation = useMutation({
+    mutationFn: async ({ seriesId, date }: { seriesId: string; date: string }) => {
+      return apiRequest("POST", `/api/series/${seriesId}/skip`, { date });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Occurrence skipped",
+        description: "The rest of your recurring booking is unchanged.",
+      });
+      invalidateSeriesQueries();
+    },
+    onError: handleMutationError("Failed to skip occurrence"),
+  });
+
+  // End a series from today
+  const endSeriesMutation = useMutation({
+    mutationFn: async (seriesId: string) => {
+      return apiRequest("POST", `/api/series/${seriesId}/end`, {});
+    },
+    onSuccess: () => {
+      toast({
+        title: "Recurring booking ended",
+        description: "Future occurrences have been cancelled.",
+      });
+      invalidateSeriesQueries();
+    },
+    onError: handleMutationError("Failed to end recurring booking"),
+  });
+
+  // Check in to today's booking
+  const checkInMutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      return apiRequest("POST", `/api/bookings/${bookingId}/check-in`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Checked in",
+        description: "Your desk is confirmed for today.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
+      handleMutationError("Check-in failed")(error);
+    },
+  });
+
+  // Join the waitlist for a seat, or any seat when seatId is null
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async (data: { seatId: string | null; date: string; slots: TimeSlot[] }) => {
+      return apiRequest("POST", "/api/waitlist", data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Added to waitlist",
+        description: "We'll book the desk for you if it frees up.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+    },
+    onError: handleMutationError("Failed to join waitlist"),
+  });
+
+  const claimWaitlistMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      return apiRequest("POST", `/api/waitlist/${entryId}/claim`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Seat claimed",
+        description: "The offered desk has been booked for you.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+      handleMutationError("Failed to claim seat")(error);
+    },
+  });
+
+  const leaveWaitlistMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      return apiRequest("DELETE", `/api/waitlist/${entryId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Removed from waitlist" });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist/my"] });
+    },
+    onError: handleMutationError("Failed to leave waitlist"),
+  });
+
+  const activeWaitlist = myWaitlist.filter(
+    (e) => (e.status === "waiting" || e.status === "offered") && e.date === floorPlanDate,
+  );
+  const waitlistedSeatIds = new Set(
+    activeWaitlist.filter((e) => e.seatId).map((e) => e.seatId as string),
+  );
+
   const handleSelectSeat = (seatId: string) => {
     setSelectedSeats((prev) =>
       prev.includes(seatId)
@@ -143,7 +380,7 @@ export default function Dashboard({ userRole }: DashboardProps) {
       // Generate all weekdays between start and end date
       const allDays = eachDayOfInterval({ start: startDate, end: endDate });
       dates = allDays
-        .filter((d) => !isWeekend(d))
+        .filter((d) => !isWeekend(d) && !isDateOutsidePolicy(d))
         .map((d) => format(d, "yyyy-MM-dd"));
     } else if (bulkDates.length > 0) {
       dates = bulkDates.map((d) => format(d, "yyyy-MM-dd"));
@@ -217,15 +454,24 @@ export default function Dashboard({ userRole }: DashboardProps) {
             <div className="grid lg:grid-cols-[1fr_320px] gap-6">
               <div className="space-y-6">
                 <FloorPlan
-                  seats={seats}
-                  bookings={allBookings}
-                  selectedDate={format(startDate || selectedDate, "yyyy-MM-dd")}
+                  seats={floorSeats}
+                  clusters={floorClusters}
+                  shapes={floorLayout?.shapes}
+                  background={floorBackground}
+                  title={site && floor ? `${site.name} · ${floor.name}` : undefined}
+                  bookings={floorPlanBookings?.bookings ?? []}
+                  selectedDate={floorPlanDate}
                   selectedSlots={selectedSlots}
                   selectedSeats={selectedSeats}
                   onSelectSeat={handleSelectSeat}
                   viewMode="book"
                   currentUserId={user?.id}
-                  isLoading={seatsLoading || bookingsLoading}
+                  isLoading={seatsLoading || clustersLoading || floorLoading || bookingsLoading}
+                  onJoinWaitlist={(seatId, slots) =>
+                    joinWaitlistMutation.mutate({ seatId, date: floorPlanDate, slots })
+                  }
+                  waitlistedSeatIds={waitlistedSeatIds}
+                  isWaitlistedForAnySeat={activeWaitlist.some((e) => !e.seatId)}
                 />
               </div>
 
@@ -243,6 +489,8 @@ export default function Dashboard({ userRole }: DashboardProps) {
                   endDate={endDate}
                   onStartDateChange={setStartDate}
                   onEndDateChange={setEndDate}
+                  isDateDisabled={isDateOutsidePolicy}
+                  closedSlots={dateRangeMode ? [] : getClosedSlots(selectedDate)}
                 />
                 <BookingSummary
                   selectedSeats={selectedSeatObjects}
@@ -253,7 +501,7 @@ export default function Dashboard({ userRole }: DashboardProps) {
                       ? eachDayOfInterval({
                           start: startDate,
                           end: endDate,
-                        }).filter((d) => !isWeekend(d))
+                        }).filter((d) => !isWeekend(d) && !isDateOutsidePolicy(d))
                       : []
                   }
                   onRemoveSeat={(seatId) =>
@@ -269,20 +517,54 @@ export default function Dashboard({ userRole }: DashboardProps) {
                     setStartDate(null);
                     setEndDate(null);
                   }}
+                  onRepeatWeekly={() => setSeriesDialogOpen(true)}
                   isBooking={createBookingMutation.isPending}
                 />
+                <RecurringBookingDialog
+                  open={seriesDialogOpen}
+                  onOpenChange={setSeriesDialogOpen}
+                  seat={selectedSeatObjects.length === 1 ? selectedSeatObjects[0] : null}
+                  selectedSlots={selectedSlots}
+                  startDate={startDate || selectedDate}
+                  onSubmit={(data) =>
+                    createSeriesMutation.mutate({
+                      ...data,
+                      seatId: selectedSeats[0],
+                      slots: selectedSlots,
+                    })
+                  }
+                  isSubmitting={createSeriesMutation.isPending}
+                />
               </div>
             </div>
           </TabsContent>
 
           <TabsContent value="my-bookings">
-            <div className="max-w-2xl">
+            <div className="max-w-2xl space-y-6">
+              <MyWaitlist
+                entries={myWaitlist}
+                seats={seats}
+                onClaim={(id) => claimWaitlistMutation.mutate(id)}
+                onLeave={(id) => leaveWaitlistMutation.mutate(id)}
+                isPending={claimWaitlistMutation.isPending || leaveWaitlistMutation.isPending}
+              />
               <MyBookings
                 bookings={myBookings}
                 seats={seats}
                 onCancelBooking={(id) => cancelBookingMutation.mutate(id)}
-                isCancelling={cancelBookingMutation.isPending}
-                isLoading={myBookingsLoading || seatsLoading}
+                series={mySeries}
+                onSkipOccurrence={(seriesId, date) =>
+                  skipOccurrenceMutation.mutate({ seriesId, date })
+                }
+                onEndSeries={(seriesId) => endSeriesMutation.mutate(seriesId)}
+                onCheckIn={(id) => checkInMutation.mutate(id)}
+                isCheckingIn={checkInMutation.isPending}
+                isCancelling={
+                  cancelBookingMutation.isPending ||
+                  skipOccurrenceMutation.isPending ||
+                  endSeriesMutation.isPending
+                }
+                isLoading={myBookingsLoading || seatsLoading || mySeriesLoading}
               />
             </div>
           </TabsContent>
@@ -296,10 +578,10 @@ export default function Dashboard({ userRole }: DashboardProps) {
                 onSlotsChange={() => {}}
               />
               <DailyBookings
-                bookings={allBookings}
+                bookings={dailyBookings?.bookings ?? []}
                 seats={seats}
                 selectedDate={selectedDate}
-                isLoading={bookingsLoading || seatsLoading}
+                isLoading={dailyBookingsLoading || seatsLoading}
               />
             </div>
           </TabsContent>
@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Printer } from "lucide-react";
+
+interface SeatQrCode {
+  seatId: string;
+  name: string;
+  floor: string | null;
+  clusterGroup: string | null;
+  url: string;
+  svg: string;
+}
+
+export default function QrSheetPage() {
+  const { data: codes = [], isLoading } = useQuery<SeatQrCode[]>({
+    queryKey: ["/api/seats/qr-codes"],
+  });
+
+  // One printed section per floor and cluster so codes can be cut out and stuck on the right desks
+  const groups = new Map<string, SeatQrCode[]>();
+  for (const code of codes) {
+    const group = [code.floor, code.clusterGroup || "Other"].filter(Boolean).join(" — ");
+    groups.set(group, [...(groups.get(group) || []), code]);
+  }
+
+  return (
+    <div className="min-h-screen bg-background print:bg-white">
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center justify-between gap-4 print:hidden">
+          <div>
+            <h1 className="text-2xl font-bold">Seat QR codes</h1>
+            <p className="text-sm text-muted-foreground">
+              Scanning a code checks the user in, or offers to book the seat for the current slot.
+            </p>
+          </div>
+          <Button onClick={() => window.print()} disabled={isLoading} data-testid="button-print">
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[1, 2, 3, 4, 5, 6, 7, 8].map(i => (
+              <Skeleton key={i} className="h-48 rounded-lg" />
+            ))}
+          </div>
+        ) : codes.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No seats to print</p>
+        ) : (
+          Array.from(groups.entries()).map(([group, groupCodes]) => (
+            <section key={group} className="space-y-3 break-inside-avoid">
+              <h2 className="text-lg font-semibold">{group}</h2>
+              <div className="grid grid-cols-2 md:grid-cols-4 print:grid-cols-4 gap-4">
+                {groupCodes.map(code => (
+                  <div
+                    key={code.seatId}
+                    className="flex flex-col items-center gap-2 rounded-lg border p-4 break-inside-avoid"
+                    data-testid={`qr-code-${code.name}`}
+                  >
+                    <div
+                      className="w-full max-w-[160px] aspect-square [&>svg]:w-full [&>svg]:h-full"
+                      dangerouslySetInnerHTML={{ __html: code.svg }}
+                    />
+                    <p className="text-lg font-bold">{code.name}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
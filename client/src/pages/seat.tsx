@@ -0,0 +1,170 @@
+import { useEffect } from "react";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { Header } from "@/components/layout/header";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, CheckCircle2, AlertCircle, Armchair } from "lucide-react";
+import type { Booking, Role, Seat, TimeSlot } from "@shared/schema";
+
+type ScanResult = { location: string | null } & (
+  | { action: "checked_in"; seat: Seat; date: string; slot: TimeSlot; bookings: Booking[] }
+  | { action: "available"; seat: Seat; date: string; slot: TimeSlot }
+  | { action: "unavailable"; seat: Seat; date: string; slot: TimeSlot; reason: string }
+);
+
+interface SeatScanPageProps {
+  seatId: string;
+  userRole: Role;
+}
+
+export default function SeatScanPage({ seatId, userRole }: SeatScanPageProps) {
+  const { user, logout } = useAuth();
+  const sig = new URLSearchParams(window.location.search).get("sig") || "";
+
+  const scanMutation = useMutation({
+    mutationFn: async (code: { seatId: string; sig: string }) => {
+      const res = await apiRequest("POST", "/api/seats/scan", code);
+      return res.json() as Promise<ScanResult>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
+    },
+  });
+
+  // Book the seat for the current slot and check in straight away, since the user is at the desk
+  const bookNowMutation = useMutation({
+    mutationFn: async ({ seatId, date, slot }: { seatId: string; date: string; slot: TimeSlot }) => {
+      const res = await apiRequest("POST", "/api/bookings", { seatId, date, slot });
+      const booking: Booking = await res.json();
+      await apiRequest("POST", `/api/bookings/${booking.id}/check-in`);
+      return booking;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings/my"] });
+    },
+  });
+
+  // Scan once per visit; mutate keeps its identity across renders
+  const { mutate: scan } = scanMutation;
+  useEffect(() => {
+    scan({ seatId, sig });
+  }, [scan, seatId, sig]);
+
+  const result = scanMutation.data;
+
+  const renderBody = () => {
+    if (scanMutation.isPending || (!result && !scanMutation.error)) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Checking seat...
+        </div>
+      );
+    }
+
+    if (scanMutation.error || !result) {
+      return (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {scanMutation.error?.message || "This seat code could not be read."}
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    const when = `${format(parseISO(result.date), "EEEE, MMM d")} ${result.slot}`;
+
+    if (result.action === "checked_in" || bookNowMutation.isSuccess) {
+      return (
+        <div className="flex flex-col items-center gap-3 py-6 text-center">
+          <CheckCircle2 className="h-12 w-12 text-emerald-500" />
+          <p className="text-lg font-medium">You're checked in at {result.seat.name}</p>
+          <p className="text-sm text-muted-foreground">
+            {bookNowMutation.isSuccess
+              ? `Booked and checked in for ${when}.`
+              : `Your booking for ${format(parseISO(result.date), "EEEE, MMM d")} is confirmed.`}
+          </p>
+        </div>
+      );
+    }
+
+    if (result.action === "available") {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {result.seat.name} is free for {when}. Book it now and you'll be checked in straight away.
+          </p>
+          {bookNowMutation.error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{bookNowMutation.error.message}</AlertDescription>
+            </Alert>
+          )}
+          <Button
+            className="w-full"
+            onClick={() =>
+              bookNowMutation.mutate({
+                seatId: result.seat.id,
+                date: result.date,
+                slot: result.slot,
+              })
+            }
+            disabled={bookNowMutation.isPending}
+            data-testid="button-book-now"
+          >
+            {bookNowMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Booking...
+              </>
+            ) : (
+              `Book ${result.seat.name} for ${result.slot}`
+            )}
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <Alert>
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          {result.seat.name} can't be booked for {when}: {result.reason}.
+        </AlertDescription>
+      </Alert>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header user={user ?? null} userRole={userRole} onLogout={logout} />
+
+      <main className="container mx-auto px-4 py-6 flex justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Armchair className="h-5 w-5" />
+              {result ? `Seat ${result.seat.name}` : "Seat"}
+            </CardTitle>
+            <CardDescription>{result?.location ?? "Scanned desk code"}</CardDescription>
+          </CardHeader>
+          <CardContent>{renderBody()}</CardContent>
+          <CardFooter>
+            <Link href="/">
+              <Button variant="ghost" className="w-full">
+                Go to floor plan
+              </Button>
+            </Link>
+          </CardFooter>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import crypto from "crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+
+// A stand-in OpenID Connect provider for trying single sign-on locally. Run it with
+//   tsx script/mock-oidc.ts
+// and start the app with OIDC_ISSUER=http://localhost:4010 OIDC_CLIENT_ID=hotdesk, then turn
+// single sign-on on in the admin portal. Each sign-in shows a form to pick the email, name and
+// groups to sign in as. Set MOCK_OIDC_EMAIL (and optionally MOCK_OIDC_GROUPS, comma separated) to
+// skip the form and approve straight away, e.g. when scripting with curl.
+// Supports the authorization code flow with PKCE (S256) only, which is all the app uses.
+const port = parseInt(process.env.PORT || "4010", 10);
+const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`;
+const clientId = process.env.OIDC_CLIENT_ID || "hotdesk";
+const clientSecret = process.env.OIDC_CLIENT_SECRET;
+const autoEmail = process.env.MOCK_OIDC_EMAIL;
+const autoGroups = process.env.MOCK_OIDC_GROUPS;
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 5 * 60;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const kid = crypto.randomBytes(8).toString("hex");
+
+interface Grant {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | undefined;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, Grant>();
+const accessTokens = new Map<string, Record<string, unknown>>();
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+function identity(email: string, fields: { givenName?: string; familyName?: string; groups?: string; verified: boolean }) {
+  return {
+    sub: crypto.createHash("sha256").update(email.toLowerCase()).digest("hex").slice(0, 24),
+    email,
+    email_verified: fields.verified,
+    given_name: fields.givenName || undefined,
+    family_name: fields.familyName || undefined,
+    groups: (fields.groups ?? "").split(",").map((group) => group.trim()).filter(Boolean),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function readBody(req: IncomingMessage): Promise<URLSearchParams> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(new URLSearchParams(Buffer.concat(chunks).toString("utf8"))));
+    req.on("error", reject);
+  });
+}
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" }).end(JSON.stringify(body));
+}
+
+function redirect(res: ServerResponse, url: URL) {
+  res.writeHead(302, { Location: url.href }).end();
+}
+
+// Check the request parameters and either approve straight away or show the sign-in form
+function authorize(res: ServerResponse, params: URLSearchParams) {
+  const redirectUri = params.get("redirect_uri");
+  if (params.get("client_id") !== clientId || !redirectUri) {
+    return json(res, 400, { error: "invalid_request", error_description: "Unknown client or missing redirect_uri" });
+  }
+  const back = new URL(redirectUri);
+  const state = params.get("state");
+  if (state) back.searchParams.set("state", state);
+  if (params.get("response_type") !== "code" || params.get("code_challenge_method") !== "S256" || !params.get("code_challenge")) {
+    back.searchParams.set("error", "invalid_request");
+    back.searchParams.set("error_description", "Only the code flow with S256 PKCE is supported");
+    return redirect(res, back);
+  }
+
+  if (autoEmail) {
+    return approve(res, params, identity(autoEmail, { groups: autoGroups, verified: true }));
+  }
+
+  const hidden = ["client_id", "redirect_uri", "state", "nonce", "code_challenge", "scope"]
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? "")}">`)
+    .join("");
+  res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" }).end(`<!doctype html>
+<title>Mock OIDC sign-in</title>
+<form method="post" action="/authorize" style="font-family:sans-serif;max-width:24rem;margin:3rem auto;display:grid;gap:.75rem">
+  <h1>Mock OIDC sign-in</h1>
+  ${hidden}
+  <label>Email <input name="email" type="email" value="jane@example.com" required></label>
+  <label>Given name <input name="given_name" value="Jane"></label>
+  <label>Family name <input name="family_name" value="Doe"></label>
+  <label>Groups (comma separated) <input name="groups" value=""></label>
+  <label><input name="email_verified" type="checkbox" checked> Email verified</label>
+  <button name="decision" value="approve">Sign in</button>
+  <button name="decision" value="deny">Deny</button>
+</form>`);
+}
+
+function approve(res: ServerResponse, params: URLSearchParams, claims: Record<string, unknown>) {
+  const back = new URL(params.get("redirect_uri")!);
+  const state = params.get("state");
+  if (state) back.searchParams.set("state", state);
+
+  const code = crypto.randomBytes(16).toString("base64url");
+  codes.set(code, {
+    redirectUri: params.get("redirect_uri")!,
+    codeChallenge: params.get("code_challenge")!,
+    nonce: params.get("nonce") || undefined,
+    claims,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+  back.searchParams.set("code", code);
+  console.log(`${new Date().toISOString()} approved ${claims.email} (groups: ${(claims.groups as string[]).join(", ") || "none"})`);
+  redirect(res, back);
+}
+
+async function decide(req: IncomingMessage, res: ServerResponse) {
+  const form = await readBody(req);
+  if (form.get("decision") === "deny") {
+    const back = new URL(form.get("redirect_uri")!);
+    back.searchParams.set("error", "access_denied");
+    const state = form.get("state");
+    if (state) back.searchParams.set("state", state);
+    return redirect(res, back);
+  }
+  approve(res, form, identity(form.get("email") ?? "", {
+    givenName: form.get("given_name") ?? undefined,
+    familyName: form.get("family_name") ?? undefined,
+    groups: form.get("groups") ?? undefined,
+    verified: form.get("email_verified") === "on",
+  }));
+}
+
+async function token(req: IncomingMessage, res: ServerResponse) {
+  const form = await readBody(req);
+  if (form.get("client_id") !== clientId || (clientSecret && form.get("client_secret") !== clientSecret)) {
+    return json(res, 401, { error: "invalid_client" });
+  }
+  const code = form.get("code") ?? "";
+  const grant = codes.get(code);
+  codes.delete(code);
+  if (form.get("grant_type") !== "authorization_code" || !grant || grant.expiresAt < Date.now()) {
+    return json(res, 400, { error: "invalid_grant", error_description: "Unknown or expired code" });
+  }
+  if (form.get("redirect_uri") !== grant.redirectUri) {
+    return json(res, 400, { error: "invalid_grant", error_description: "redirect_uri does not match" });
+  }
+  const challenge = crypto.createHash("sha256").update(form.get("code_verifier") ?? "").digest("base64url");
+  if (challenge !== grant.codeChallenge) {
+    return json(res, 400, { error: "invalid_grant", error_description: "PKCE verification failed" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(24).toString("base64url");
+  accessTokens.set(accessToken, grant.claims);
+  json(res, 200, {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: TOKEN_TTL_SECONDS,
+    id_token: signIdToken({
+      ...grant.claims,
+      iss: issuer,
+      aud: clientId,
+      iat: now,
+      exp: now + TOKEN_TTL_SECONDS,
+      nonce: grant.nonce,
+    }),
+  });
+}
+
+function userinfo(req: IncomingMessage, res: ServerResponse) {
+  const claims = accessTokens.get(req.headers.authorization?.replace(/^Bearer /, "") ?? "");
+  if (!claims) return json(res, 401, { error: "invalid_token" });
+  json(res, 200, claims);
+}
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? "/", issuer);
+  const route = `${req.method} ${url.pathname}`;
+  const handle = async () => {
+    switch (route) {
+      case "GET /.well-known/openid-configuration":
+        return json(res, 200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          userinfo_endpoint: `${issuer}/userinfo`,
+          jwks_uri: `${issuer}/jwks`,
+          response_types_supported: ["code"],
+          subject_types_supported: ["public"],
+          id_token_signing_alg_values_supported: ["RS256"],
+          code_challenge_methods_supported: ["S256"],
+          token_endpoint_auth_methods_supported: ["client_secret_post", "none"],
+          scopes_supported: ["openid", "email", "profile"],
+          claims_supported: ["sub", "email", "email_verified", "given_name", "family_name", "groups"],
+        });
+      case "GET /jwks":
+        return json(res, 200, { keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }] });
+      case "GET /authorize":
+        return authorize(res, url.searchParams);
+      case "POST /authorize":
+        return decide(req, res);
+      case "POST /token":
+        return token(req, res);
+      case "GET /userinfo":
+        return userinfo(req, res);
+      default:
+        return json(res, 404, { error: "not_found" });
+    }
+  };
+  handle().catch((error) => {
+    console.error(error);
+    json(res, 500, { error: "server_error" });
+  });
+}).listen(port, () => {
+  console.log(`Mock OIDC provider at ${issuer} (client id "${clientId}")`);
+});
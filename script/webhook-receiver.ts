@@ -0,0 +1,44 @@
+import crypto from "crypto";
+import { createServer } from "http";
+
+// A stand-in webhook endpoint for local testing. Point a webhook at http://localhost:<port>/ and run
+//   WEBHOOK_SECRET=whsec_... tsx script/webhook-receiver.ts
+// Each delivery is printed along with whether its signature checks out. Set WEBHOOK_FAIL=1 to
+// answer 500 and watch the retries in the admin delivery log.
+const port = parseInt(process.env.PORT || "4000", 10);
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.WEBHOOK_FAIL === "1";
+const MAX_AGE_SECONDS = 5 * 60;
+
+function verify(body: string, timestamp: string | undefined, signature: string | undefined): string {
+  if (!secret) return "not checked (WEBHOOK_SECRET unset)";
+  if (!timestamp || !signature) return "missing headers";
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_AGE_SECONDS) return "stale timestamp";
+  const expected = `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+  const valid = expected.length === signature.length
+    && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  return valid ? "valid" : "INVALID";
+}
+
+createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = verify(
+      body,
+      req.headers["x-hotdesk-timestamp"] as string | undefined,
+      req.headers["x-hotdesk-signature"] as string | undefined,
+    );
+    console.log(`${new Date().toISOString()} ${req.headers["x-hotdesk-event"]} ${req.headers["x-hotdesk-delivery"]}`);
+    console.log(`  signature: ${signature}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    res.writeHead(fail ? 500 : signature === "INVALID" ? 401 : 204).end();
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
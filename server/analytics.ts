@@ -0,0 +1,214 @@
+import { eachDayOfInterval, format, getDay, isWeekend, parseISO, startOfISOWeek, startOfMonth } from "date-fns";
+import { storage } from "./storage";
+import { findClosure } from "./policies";
+import type {
+  AnalyticsQuery,
+  AnalyticsPeriod,
+  AnalyticsSummary,
+  ClusterUtilisation,
+  LeadTimeBucket,
+  MonitorDemand,
+  OccupancyPoint,
+  Seat,
+  SeatUtilisation,
+  TimeSlot,
+  Utilisation,
+  WeekdayDemand,
+} from "@shared/schema";
+
+const SLOTS: TimeSlot[] = ["AM", "PM"];
+
+const LEAD_TIME_BUCKETS: Omit<LeadTimeBucket, "bookings">[] = [
+  { label: "Same day", minDays: 0, maxDays: 0 },
+  { label: "1–2 days", minDays: 1, maxDays: 2 },
+  { label: "3–7 days", minDays: 3, maxDays: 7 },
+  { label: "1–2 weeks", minDays: 8, maxDays: 14 },
+  { label: "2–4 weeks", minDays: 15, maxDays: 28 },
+  { label: "Over 4 weeks", minDays: 29, maxDays: null },
+];
+
+interface OpenDay {
+  date: string;
+  slots: number; // slots the office was open for booking that day
+}
+
+function rate(count: number, total: number): number | null {
+  return total > 0 ? count / total : null;
+}
+
+function utilisation(booked: number, capacity: number): Utilisation {
+  return { booked, capacity, occupancy: rate(booked, capacity) };
+}
+
+// Cancellations count against every booking made; no-shows only against bookings that were kept
+function cancellationRates(booked: number, cancelled: number, noShows: number) {
+  return {
+    cancellationRate: rate(cancelled, booked + cancelled + noShows),
+    noShowRate: rate(noShows, booked + noShows),
+  };
+}
+
+function isBookable(seat: Seat): boolean {
+  return !seat.isBlocked && !seat.isLongTermReserved;
+}
+
+function periodStart(date: string, period: AnalyticsPeriod): string {
+  if (period === "day") return date;
+  const day = parseISO(date);
+  return format(period === "week" ? startOfISOWeek(day) : startOfMonth(day), "yyyy-MM-dd");
+}
+
+// Days in the range with the number of slots that could be booked, skipping closures and,
+// if the policies exclude them, weekends
+async function getOpenDays(query: AnalyticsQuery): Promise<OpenDay[]> {
+  const [policies, closures] = await Promise.all([
+    storage.getBookingPolicies(),
+    storage.getClosures({ from: query.from, to: query.to }),
+  ]);
+  return eachDayOfInterval({ start: parseISO(query.from), end: parseISO(query.to) })
+    .filter(day => !(policies.excludeWeekends && isWeekend(day)))
+    .map(day => {
+      const date = format(day, "yyyy-MM-dd");
+      return { date, slots: SLOTS.filter(slot => !findClosure(closures, date, slot)).length };
+    });
+}
+
+// Capacity uses today's seats, so seats added or blocked during the range count for all of it
+async function getSeats(query: AnalyticsQuery): Promise<Seat[]> {
+  return query.floorId ? storage.getSeatsByFloor(query.floorId) : storage.getAllSeats();
+}
+
+async function getSeatSlotCapacity(query: AnalyticsQuery) {
+  const [openDays, seats] = await Promise.all([getOpenDays(query), getSeats(query)]);
+  const openSlots = openDays.reduce((sum, day) => sum + day.slots, 0);
+  return { openDays, openSlots, seats, bookableSeats: seats.filter(isBookable).length };
+}
+
+export async function getSeatUtilisation(query: AnalyticsQuery): Promise<SeatUtilisation[]> {
+  const [{ openSlots, seats }, counts] = await Promise.all([
+    getSeatSlotCapacity(query),
+    storage.getBookingCountsBySeat(query),
+  ]);
+  const countBySeat = new Map(counts.map(c => [c.seatId, c]));
+  return seats.map(seat => {
+    const bookable = isBookable(seat);
+    const { booked = 0, cancelled = 0, noShows = 0, lastBookedDate = null } = countBySeat.get(seat.id) ?? {};
+    return {
+      seatId: seat.id,
+      name: seat.name,
+      floorId: seat.floorId,
+      clusterId: seat.clusterGroup,
+      hasMonitor: seat.hasMonitor,
+      bookable,
+      lastBookedDate,
+      cancelled,
+      noShows,
+      ...cancellationRates(booked, cancelled, noShows),
+      ...utilisation(booked, bookable ? openSlots : 0),
+    };
+  });
+}
+
+export async function getAnalyticsSummary(query: AnalyticsQuery): Promise<AnalyticsSummary> {
+  const [totals, seats] = await Promise.all([storage.getBookingTotals(query), getSeatUtilisation(query)]);
+  const bookable = seats.filter(s => s.bookable);
+  const capacity = bookable.reduce((sum, s) => sum + s.capacity, 0);
+  return {
+    booked: totals.booked,
+    capacity,
+    // Bookings on seats since removed or taken out of use have no capacity to count against
+    occupancy: rate(bookable.reduce((sum, s) => sum + s.booked, 0), capacity),
+    bookableSeats: bookable.length,
+    cancelled: totals.cancelled,
+    noShows: totals.noShows,
+    ...cancellationRates(totals.booked, totals.cancelled, totals.noShows),
+    averageLeadDays: totals.averageLeadDays,
+    neverUsedSeats: bookable.filter(s => s.booked === 0).length,
+  };
+}
+
+// One point per day, week or month in the range, including ones without bookings
+export async function getOccupancyTrend(query: AnalyticsQuery): Promise<OccupancyPoint[]> {
+  const [{ openDays, bookableSeats }, counts] = await Promise.all([
+    getSeatSlotCapacity(query),
+    storage.getBookedCountsByPeriod(query, query.groupBy),
+  ]);
+  const booked = new Map(counts.map(c => [c.period, c.booked]));
+  const capacity = new Map<string, number>();
+  for (const day of eachDayOfInterval({ start: parseISO(query.from), end: parseISO(query.to) })) {
+    capacity.set(periodStart(format(day, "yyyy-MM-dd"), query.groupBy), 0);
+  }
+  for (const day of openDays) {
+    const period = periodStart(day.date, query.groupBy);
+    capacity.set(period, (capacity.get(period) ?? 0) + day.slots * bookableSeats);
+  }
+  return Array.from(capacity.entries()).map(([period, periodCapacity]) => ({
+    period,
+    ...utilisation(booked.get(period) ?? 0, periodCapacity),
+  }));
+}
+
+export async function getWeekdayDemand(query: AnalyticsQuery): Promise<WeekdayDemand[]> {
+  const [{ openDays, bookableSeats }, counts] = await Promise.all([
+    getSeatSlotCapacity(query),
+    storage.getBookedCountsByWeekday(query),
+  ]);
+  const booked = new Map(counts.map(c => [c.weekday, c.booked]));
+  const openSlots = new Array<number>(7).fill(0);
+  for (const day of openDays) {
+    openSlots[getDay(parseISO(day.date))] += day.slots;
+  }
+  return openSlots.map((slots, weekday) => ({
+    weekday,
+    ...utilisation(booked.get(weekday) ?? 0, slots * bookableSeats),
+  }));
+}
+
+export async function getClusterUtilisation(query: AnalyticsQuery): Promise<ClusterUtilisation[]> {
+  const [seats, clusters] = await Promise.all([
+    getSeatUtilisation(query),
+    query.floorId ? storage.getClustersByFloor(query.floorId) : storage.getAllClusters(),
+  ]);
+  const labels = new Map(clusters.map(c => [c.id, c.label || c.id]));
+  const byCluster = new Map<string | null, SeatUtilisation[]>();
+  for (const seat of seats) {
+    const clusterId = seat.clusterId && labels.has(seat.clusterId) ? seat.clusterId : null;
+    byCluster.set(clusterId, [...(byCluster.get(clusterId) || []), seat]);
+  }
+  return Array.from(byCluster.entries())
+    .map(([clusterId, clusterSeats]) => ({
+      clusterId,
+      label: clusterId ? labels.get(clusterId)! : "No cluster",
+      seats: clusterSeats.length,
+      ...utilisation(
+        clusterSeats.reduce((sum, s) => sum + s.booked, 0),
+        clusterSeats.reduce((sum, s) => sum + s.capacity, 0)
+      ),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+}
+
+export async function getMonitorDemand(query: AnalyticsQuery): Promise<MonitorDemand[]> {
+  const seats = await getSeatUtilisation(query);
+  return [true, false].map(hasMonitor => {
+    const group = seats.filter(s => s.hasMonitor === hasMonitor);
+    return {
+      hasMonitor,
+      seats: group.length,
+      ...utilisation(
+        group.reduce((sum, s) => sum + s.booked, 0),
+        group.reduce((sum, s) => sum + s.capacity, 0)
+      ),
+    };
+  });
+}
+
+export async function getLeadTimeDistribution(query: AnalyticsQuery): Promise<LeadTimeBucket[]> {
+  const counts = await storage.getBookedCountsByLeadTime(query);
+  return LEAD_TIME_BUCKETS.map(bucket => ({
+    ...bucket,
+    bookings: counts
+      .filter(c => c.leadDays >= bucket.minDays && (bucket.maxDays === null || c.leadDays <= bucket.maxDays))
+      .reduce((sum, c) => sum + c.bookings, 0),
+  }));
+}
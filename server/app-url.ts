@@ -0,0 +1,32 @@
+// The public address of the app, used in every link the server hands out: emails, seat QR codes,
+// calendar feeds and the single sign-on redirect. It never comes from the request, whose Host header
+// is whatever the caller sends. Production must set APP_URL; development falls back to this server.
+function resolveAppUrl(): string {
+  const configured = process.env.APP_URL
+    || (process.env.NODE_ENV === "production" ? "" : `http://localhost:${process.env.PORT || "5000"}`);
+  if (!configured) {
+    throw new Error("APP_URL must be set to the app's public address, e.g. https://desks.example.com");
+  }
+  const url = new URL(configured);
+  return `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+}
+
+let appUrl: string | undefined;
+
+// Throws when APP_URL is missing or invalid, which fails only the request or email that needs a link
+export function getAppUrl(): string {
+  appUrl ??= resolveAppUrl();
+  return appUrl;
+}
+
+// Called at startup so a missing APP_URL shows up in the logs before the first link is needed
+export function warnIfAppUrlMissing(): void {
+  try {
+    getAppUrl();
+  } catch (error) {
+    console.warn(
+      "Links in emails, seat QR codes, calendar feeds and single sign-on won't work:",
+      error instanceof Error ? error.message : error
+    );
+  }
+}
@@ -1,2 +1,3 @@
 export { isAuthenticated, optionalAuth, generateToken, verifyToken } from "./jwt";
+export { revokeUserSessions, startSessionSweeper } from "./sessions";
 export { registerAuthRoutes } from "./routes";
@@ -1,27 +1,83 @@
 import jwt from "jsonwebtoken";
 import type { Request, Response, NextFunction } from "express";
+import { and, eq } from "drizzle-orm";
+import { db } from "../db";
+import { userRoles } from "@shared/schema";
+import { sessions } from "@shared/models/auth";
 
 const JWT_SECRET = process.env.SESSION_SECRET || "hotdesk-jwt-secret-key";
-const JWT_EXPIRES_IN = "7d";
+// Access tokens are short-lived; clients swap their refresh token for a new one when this runs out
+const ACCESS_TOKEN_TTL_MINUTES = parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || "15", 10);
 
 export interface JWTPayload {
   userId: string;
   email: string;
+  // The sign-in session the token was issued for
+  sid: string;
 }
 
 export function generateToken(payload: JWTPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60 });
 }
 
+// Tokens issued before sessions existed carry no session id and are treated as expired
 export function verifyToken(token: string): JWTPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const payload = jwt.verify(token, JWT_SECRET) as Partial<JWTPayload>;
+    if (!payload.userId || !payload.sid) return null;
+    return payload as JWTPayload;
   } catch {
     return null;
   }
 }
 
-export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
+// Short-lived values the browser keeps for the server between requests, such as single sign-on
+// state. They carry an audience and no user id, so they never pass as access tokens.
+const STATE_AUDIENCE = "hotdesk-state";
+
+export function signState(payload: object, ttlSeconds: number): string {
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ttlSeconds, audience: STATE_AUDIENCE });
+}
+
+export function verifyState<T>(token: string | undefined): T | null {
+  if (!token) return null;
+  try {
+    return jwt.verify(token, JWT_SECRET, { audience: STATE_AUDIENCE }) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Users without a role row predate roles and count as active
+export async function isAccountActive(userId: string): Promise<boolean> {
+  const [role] = await db
+    .select({ isActive: userRoles.isActive })
+    .from(userRoles)
+    .where(eq(userRoles.userId, userId));
+  return role?.isActive ?? true;
+}
+
+type SessionProblem = { message: string; code: "SESSION_REVOKED" | "ACCOUNT_DEACTIVATED" };
+
+// Why a token's session can no longer be used, if it can't: it was logged out or revoked, or the user was deactivated
+async function checkSession(payload: JWTPayload): Promise<SessionProblem | null> {
+  const [session] = await db
+    .select({ revokedAt: sessions.revokedAt, expiresAt: sessions.expiresAt, isActive: userRoles.isActive })
+    .from(sessions)
+    .leftJoin(userRoles, eq(userRoles.userId, sessions.userId))
+    .where(and(eq(sessions.id, payload.sid), eq(sessions.userId, payload.userId)));
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    return { message: "Session has ended", code: "SESSION_REVOKED" };
+  }
+  if (session.isActive === false) {
+    return { message: "Account deactivated", code: "ACCOUNT_DEACTIVATED" };
+  }
+  return null;
+}
+
+// The session behind each token is checked on every request, so logging out, revoking
+// sessions or deactivating the user takes effect before the token expires
+export async function isAuthenticated(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
 
@@ -31,21 +87,35 @@ export function isAuthenticated(req: Request, res: Response, next: NextFunction)
 
   const payload = verifyToken(token);
   if (!payload) {
-    return res.status(401).json({ message: "Invalid or expired token" });
+    return res.status(401).json({ message: "Invalid or expired token", code: "TOKEN_EXPIRED" });
+  }
+
+  try {
+    const problem = await checkSession(payload);
+    if (problem) {
+      return res.status(401).json(problem);
+    }
+  } catch (error) {
+    console.error("Error checking session:", error);
+    return res.status(500).json({ message: "Authentication failed" });
   }
 
   (req as any).user = payload;
   next();
 }
 
-export function optionalAuth(req: Request, res: Response, next: NextFunction) {
+export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
 
   if (token) {
     const payload = verifyToken(token);
-    if (payload) {
-      (req as any).user = payload;
+    try {
+      if (payload && !(await checkSession(payload))) {
+        (req as any).user = payload;
+      }
+    } catch (error) {
+      console.error("Error checking session:", error);
     }
   }
 
@@ -0,0 +1,204 @@
+import * as client from "openid-client";
+import { eq, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  users,
+  ssoSettings,
+  type SsoSettings,
+  type SsoSettingsView,
+  type UpdateSsoSettings,
+  type User,
+} from "@shared/models/auth";
+import { userRoles, type Role } from "@shared/schema";
+import { isAccountActive } from "./jwt";
+import { getAppUrl } from "../app-url";
+
+// The provider connection comes from the environment; admins switch sign-in on and set its rules
+const ISSUER = process.env.OIDC_ISSUER;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID;
+const CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET;
+const SCOPES = process.env.OIDC_SCOPES || "openid email profile";
+// How long the browser has to come back from the provider
+export const LOGIN_STATE_TTL_SECONDS = 10 * 60;
+
+// Kept in a signed cookie between sending the browser to the provider and its return
+export interface OidcLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  next: string;
+}
+
+export type OidcLoginResult = { ok: true; user: User } | { ok: false; message: string };
+
+export function isOidcConfigured(): boolean {
+  return !!(ISSUER && CLIENT_ID);
+}
+
+export function getRedirectUri(): string {
+  return process.env.OIDC_REDIRECT_URI || `${getAppUrl()}/api/auth/oidc/callback`;
+}
+
+let discovered: Promise<client.Configuration> | null = null;
+
+// The provider's metadata is fetched once; a failed fetch is tried again on the next sign-in
+function getConfiguration(): Promise<client.Configuration> {
+  if (!discovered) {
+    const issuer = new URL(ISSUER!);
+    discovered = client
+      .discovery(
+        issuer,
+        CLIENT_ID!,
+        undefined,
+        CLIENT_SECRET ? client.ClientSecretPost(CLIENT_SECRET) : client.None(),
+        // Plain http is only for a provider on this machine, such as script/mock-oidc.ts
+        { execute: issuer.protocol === "http:" ? [client.allowInsecureRequests] : [] }
+      )
+      .catch((error) => {
+        discovered = null;
+        throw error;
+      });
+  }
+  return discovered;
+}
+
+export async function getSsoSettings(): Promise<SsoSettings> {
+  const [existing] = await db.select().from(ssoSettings).where(eq(ssoSettings.id, "default"));
+  if (existing) return existing;
+
+  // First read creates the settings row with the column defaults
+  await db.insert(ssoSettings).values({ id: "default" }).onConflictDoNothing();
+  const [created] = await db.select().from(ssoSettings).where(eq(ssoSettings.id, "default"));
+  return created;
+}
+
+export async function updateSsoSettings(updates: UpdateSsoSettings, updatedBy: string): Promise<SsoSettings> {
+  await getSsoSettings();
+  const [updated] = await db
+    .update(ssoSettings)
+    .set({ ...updates, updatedBy, updatedAt: new Date() })
+    .where(eq(ssoSettings.id, "default"))
+    .returning();
+  return updated;
+}
+
+export function describeSsoSettings(settings: SsoSettings): SsoSettingsView {
+  return { ...settings, configured: isOidcConfigured(), issuer: ISSUER ?? null, redirectUri: getRedirectUri() };
+}
+
+export async function isSsoAvailable(): Promise<boolean> {
+  return isOidcConfigured() && (await getSsoSettings()).enabled;
+}
+
+// Where to send the browser to sign in, and what to check when it comes back
+export async function beginOidcLogin(redirectUri: string, next: string): Promise<{ url: string; state: OidcLoginState }> {
+  const config = await getConfiguration();
+  const state: OidcLoginState = {
+    state: client.randomState(),
+    nonce: client.randomNonce(),
+    codeVerifier: client.randomPKCECodeVerifier(),
+    next,
+  };
+  const url = client.buildAuthorizationUrl(config, {
+    redirect_uri: redirectUri,
+    scope: SCOPES,
+    code_challenge: await client.calculatePKCECodeChallenge(state.codeVerifier),
+    code_challenge_method: "S256",
+    state: state.state,
+    nonce: state.nonce,
+  });
+  return { url: url.href, state };
+}
+
+// Swap the code the provider sent back for the user's identity, then find, link or create their account
+export async function completeOidcLogin(callbackUrl: URL, state: OidcLoginState): Promise<OidcLoginResult> {
+  const settings = await getSsoSettings();
+  if (!isOidcConfigured() || !settings.enabled) {
+    return { ok: false, message: "Single sign-on is turned off" };
+  }
+
+  const config = await getConfiguration();
+  let claims: Record<string, unknown>;
+  try {
+    const tokens = await client.authorizationCodeGrant(config, callbackUrl, {
+      pkceCodeVerifier: state.codeVerifier,
+      expectedState: state.state,
+      expectedNonce: state.nonce,
+      idTokenExpected: true,
+    });
+    const idClaims = tokens.claims()!;
+    // Providers differ in what goes in the ID token; userinfo fills in what it leaves out
+    const userInfo = config.serverMetadata().userinfo_endpoint
+      ? await client.fetchUserInfo(config, tokens.access_token, idClaims.sub)
+      : {};
+    claims = { ...userInfo, ...idClaims };
+  } catch (error) {
+    if (error instanceof client.AuthorizationResponseError) {
+      return { ok: false, message: "Your identity provider didn't sign you in" };
+    }
+    throw error;
+  }
+
+  const email = typeof claims.email === "string" ? claims.email.trim().toLowerCase() : "";
+  const emailVerified = claims.email_verified === true || claims.email_verified === "true";
+  if (!email || !emailVerified) {
+    return { ok: false, message: "Your identity provider didn't confirm your email address" };
+  }
+
+  const domain = email.slice(email.lastIndexOf("@") + 1);
+  if (settings.allowedDomains.length > 0 && !settings.allowedDomains.includes(domain)) {
+    return { ok: false, message: `Single sign-on isn't available for ${domain} addresses` };
+  }
+
+  const profile = {
+    firstName: typeof claims.given_name === "string" ? claims.given_name : null,
+    lastName: typeof claims.family_name === "string" ? claims.family_name : null,
+    profileImageUrl: typeof claims.picture === "string" ? claims.picture : null,
+  };
+  const role = roleFromGroups(settings, claims[settings.groupsClaim]);
+
+  const [existing] = await db.select().from(users).where(sql`lower(${users.email}) = ${email}`);
+  if (existing) {
+    if (!(await isAccountActive(existing.id))) {
+      return { ok: false, message: "This account has been deactivated. Please contact an administrator." };
+    }
+    // Fill in what the account doesn't have yet; names people set themselves are kept
+    const [linked] = await db
+      .update(users)
+      .set({
+        firstName: existing.firstName ?? profile.firstName,
+        lastName: existing.lastName ?? profile.lastName,
+        profileImageUrl: existing.profileImageUrl ?? profile.profileImageUrl,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, existing.id))
+      .returning();
+    if (role) await setRole(existing.id, role);
+    return { ok: true, user: linked };
+  }
+
+  if (!settings.jitProvisioning) {
+    return { ok: false, message: `There's no account for ${email}. Ask an administrator for an invite.` };
+  }
+
+  // Accounts created here have no password; their owners always sign in through the provider
+  const [created] = await db.insert(users).values({ email, ...profile }).returning();
+  await setRole(created.id, role ?? "employee");
+  return { ok: true, user: created };
+}
+
+// With group mappings set the provider decides the role: the highest mapped role, or employee
+// when none of the user's groups are mapped. Without mappings roles are left to admins.
+function roleFromGroups(settings: SsoSettings, claim: unknown): Role | null {
+  if (settings.groupRoles.length === 0) return null;
+  const groups = new Set(Array.isArray(claim) ? claim.map(String) : typeof claim === "string" ? [claim] : []);
+  const roles = settings.groupRoles.filter((mapping) => groups.has(mapping.group)).map((mapping) => mapping.role);
+  return roles.includes("admin") ? "admin" : "employee";
+}
+
+async function setRole(userId: string, role: Role): Promise<void> {
+  await db
+    .insert(userRoles)
+    .values({ userId, role })
+    .onConflictDoUpdate({ target: userRoles.userId, set: { role } });
+}
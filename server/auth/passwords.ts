@@ -0,0 +1,115 @@
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { and, desc, eq, gt, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { users, passwordResetTokens, type User } from "@shared/models/auth";
+import { passwordChangedEmail, passwordResetEmail, sendMail } from "../mail";
+import { isAccountActive } from "./jwt";
+import { hashToken, revokeUserSessions } from "./sessions";
+import { getAppUrl } from "../app-url";
+
+const RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || "60", 10);
+// Asking again within this long doesn't send another email, so the form can't be used to flood an inbox
+const RESET_RESEND_INTERVAL_MS = 60 * 1000;
+
+export type PasswordResult = { ok: true } | { ok: false; status: number; message: string };
+
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 10);
+}
+
+async function setPassword(userId: string, password: string): Promise<void> {
+  await db
+    .update(users)
+    .set({ password: await hashPassword(password), updatedAt: new Date() })
+    .where(eq(users.id, userId));
+}
+
+// Email a reset link to the account with this address, if there is an active one. Callers respond
+// the same way either way so the form doesn't reveal who has an account.
+export async function requestPasswordReset(email: string): Promise<void> {
+  // Resolved first so a missing APP_URL fails alike for every email and doesn't reveal which have accounts
+  const appUrl = getAppUrl();
+  const [user] = await db.select().from(users).where(eq(users.email, email));
+  // Accounts created through single sign-on have no password to reset
+  if (!user?.email || !user.password || !(await isAccountActive(user.id))) return;
+
+  const now = new Date();
+  const [latest] = await db
+    .select({ createdAt: passwordResetTokens.createdAt })
+    .from(passwordResetTokens)
+    .where(and(eq(passwordResetTokens.userId, user.id), isNull(passwordResetTokens.usedAt)))
+    .orderBy(desc(passwordResetTokens.createdAt))
+    .limit(1);
+  if (latest && now.getTime() - latest.createdAt.getTime() < RESET_RESEND_INTERVAL_MS) return;
+
+  // Only the newest link works
+  await discardResetTokens(user.id, now);
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(now.getTime() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+  await db.insert(passwordResetTokens).values({ userId: user.id, tokenHash: hashToken(token), expiresAt });
+
+  await sendMail(user.email, passwordResetEmail(user.firstName, {
+    link: `${appUrl}/reset-password?token=${encodeURIComponent(token)}`,
+    expiresAt,
+  }));
+}
+
+async function discardResetTokens(userId: string, now: Date): Promise<void> {
+  await db
+    .update(passwordResetTokens)
+    .set({ usedAt: now })
+    .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+}
+
+// Set a new password from a reset link and sign the account out everywhere
+export async function resetPassword(token: string, password: string): Promise<PasswordResult> {
+  const now = new Date();
+  // Marking the token used in the same statement that finds it means it can only ever be used once
+  const [used] = await db
+    .update(passwordResetTokens)
+    .set({ usedAt: now })
+    .where(
+      and(
+        eq(passwordResetTokens.tokenHash, hashToken(token)),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, now)
+      )
+    )
+    .returning();
+  const [user] = used ? await db.select().from(users).where(eq(users.id, used.userId)) : [];
+  if (!user || !(await isAccountActive(user.id))) {
+    return { ok: false, status: 400, message: "This reset link is invalid or has expired" };
+  }
+
+  await setPassword(user.id, password);
+  await revokeUserSessions(user.id);
+  await notifyPasswordChanged(user, "reset");
+  return { ok: true };
+}
+
+// Change a signed-in user's password; their other sessions are signed out, the current one stays
+export async function changePassword(
+  userId: string,
+  sessionId: string,
+  currentPassword: string,
+  newPassword: string
+): Promise<PasswordResult> {
+  const [user] = await db.select().from(users).where(eq(users.id, userId));
+  if (!user) {
+    return { ok: false, status: 404, message: "User not found" };
+  }
+  if (!user.password || !(await bcrypt.compare(currentPassword, user.password))) {
+    return { ok: false, status: 400, message: "Current password is incorrect" };
+  }
+
+  await setPassword(user.id, newPassword);
+  await revokeUserSessions(user.id, sessionId);
+  await discardResetTokens(user.id, new Date());
+  await notifyPasswordChanged(user, "changed");
+  return { ok: true };
+}
+
+async function notifyPasswordChanged(user: User, how: "reset" | "changed"): Promise<void> {
+  if (user.email) await sendMail(user.email, passwordChangedEmail(user.firstName, how));
+}
@@ -1,11 +1,37 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
 import { db } from "../db";
-import { users, invites, registerSchema, loginSchema, createInviteSchema } from "@shared/models/auth";
+import {
+  users,
+  invites,
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  updateSsoSettingsSchema,
+  createInviteSchema,
+} from "@shared/models/auth";
 import { userRoles } from "@shared/schema";
 import { eq, and, isNull, gt } from "drizzle-orm";
-import { generateToken, isAuthenticated } from "./jwt";
+import { isAuthenticated, signState, verifyState } from "./jwt";
+import { refreshSession, revokeSessionByRefreshToken, revokeUserSessions, startSession } from "./sessions";
+import { changePassword, requestPasswordReset, resetPassword } from "./passwords";
+import {
+  LOGIN_STATE_TTL_SECONDS,
+  beginOidcLogin,
+  completeOidcLogin,
+  describeSsoSettings,
+  getRedirectUri,
+  getSsoSettings,
+  isSsoAvailable,
+  updateSsoSettings,
+  type OidcLoginState,
+} from "./oidc";
+import { inviteEmail, sendMail } from "../mail";
+import { getAppUrl } from "../app-url";
 import { z } from "zod";
 
 async function getUserRole(userId: string) {
@@ -25,6 +51,26 @@ async function setUserRole(userId: string, role: "employee" | "admin") {
   return userRole;
 }
 
+const OIDC_STATE_COOKIE = "hotdesk_oidc";
+const OIDC_COOKIE_PATH = "/api/auth/oidc";
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of req.get("cookie")?.split(";") ?? []) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+function isLocalPath(path: unknown): path is string {
+  return typeof path === "string" && path.startsWith("/") && !path.startsWith("//");
+}
+
+// Single sign-on ends on the login page, which shows what went wrong
+function ssoErrorRedirect(message: string): string {
+  return `/login?sso_error=${encodeURIComponent(message)}`;
+}
+
 export function registerAuthRoutes(app: Express) {
   // Register with invite code
   app.post("/api/auth/register", async (req, res) => {
@@ -86,11 +132,10 @@ export function registerAuthRoutes(app: Express) {
       // Create default employee role
       await setUserRole(newUser.id, "employee");
 
-      // Generate token
-      const token = generateToken({ userId: newUser.id, email: newUser.email! });
+      const tokens = await startSession(newUser, req);
 
       res.status(201).json({
-        token,
+        ...tokens,
         user: {
           id: newUser.id,
           email: newUser.email,
@@ -124,11 +169,19 @@ export function registerAuthRoutes(app: Express) {
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
-      // Generate token
-      const token = generateToken({ userId: user.id, email: user.email! });
+      // Only told after the password checks out, so it doesn't reveal which accounts exist
+      const userRole = await getUserRole(user.id);
+      if (userRole && !userRole.isActive) {
+        return res.status(403).json({
+          message: "This account has been deactivated. Please contact an administrator.",
+          code: "ACCOUNT_DEACTIVATED",
+        });
+      }
+
+      const tokens = await startSession(user, req);
 
       res.json({
-        token,
+        ...tokens,
         user: {
           id: user.id,
           email: user.email,
@@ -166,9 +219,197 @@ export function registerAuthRoutes(app: Express) {
     }
   });
 
-  // Logout (client-side token removal, but we can invalidate here if needed)
-  app.post("/api/auth/logout", (req, res) => {
-    res.json({ message: "Logged out successfully" });
+  // Swap a refresh token for a new access token and refresh token
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      const result = await refreshSession(refreshToken, req);
+      if (!result.ok) {
+        return res.status(401).json({ message: result.message, code: result.code });
+      }
+      res.json(result.tokens);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Refresh error:", error);
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+
+  // Logout: ends the session the refresh token belongs to. Works with an expired access token,
+  // and succeeds for a session that has already ended so clients can always sign out.
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.partial().parse(req.body ?? {});
+      if (refreshToken) await revokeSessionByRefreshToken(refreshToken);
+      res.json({ message: "Logged out successfully" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Logout error:", error);
+      res.status(500).json({ message: "Logout failed" });
+    }
+  });
+
+  // Log out of every device, this one included
+  app.post("/api/auth/logout-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const revoked = await revokeUserSessions(req.user.userId);
+      res.json({ message: "Logged out everywhere", revoked });
+    } catch (error) {
+      console.error("Logout everywhere error:", error);
+      res.status(500).json({ message: "Logout failed" });
+    }
+  });
+
+  // ==================== PASSWORDS ====================
+
+  // Email a password reset link. The answer is the same whether or not the address has an account.
+  app.post("/api/auth/password/forgot", async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      await requestPasswordReset(email);
+      res.json({ message: "If an account uses that email, a reset link is on its way" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Failed to send reset link" });
+    }
+  });
+
+  // Set a new password with a reset link's token; every session is signed out
+  app.post("/api/auth/password/reset", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const result = await resetPassword(token, password);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({ message: "Password reset" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Change the signed-in user's password; their other sessions are signed out
+  app.post("/api/auth/password/change", isAuthenticated, async (req: any, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const result = await changePassword(req.user.userId, req.user.sid, currentPassword, newPassword);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json({ message: "Password changed" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Change password error:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // ==================== SINGLE SIGN-ON ====================
+
+  // Whether the login page offers single sign-on (public)
+  app.get("/api/auth/oidc/config", async (_req, res) => {
+    try {
+      res.json({ enabled: await isSsoAvailable() });
+    } catch (error) {
+      console.error("SSO config error:", error);
+      res.status(500).json({ message: "Failed to get single sign-on status" });
+    }
+  });
+
+  // Send the browser to the identity provider. The PKCE verifier, state and nonce wait in a
+  // short-lived cookie, so only the browser that started sign-in can finish it.
+  app.get("/api/auth/oidc/login", async (req, res) => {
+    try {
+      if (!(await isSsoAvailable())) {
+        return res.redirect(ssoErrorRedirect("Single sign-on is turned off"));
+      }
+
+      const next = isLocalPath(req.query.next) ? req.query.next : "/";
+      const { url, state } = await beginOidcLogin(getRedirectUri(), next);
+      res.cookie(OIDC_STATE_COOKIE, signState(state, LOGIN_STATE_TTL_SECONDS), {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: req.secure,
+        path: OIDC_COOKIE_PATH,
+        maxAge: LOGIN_STATE_TTL_SECONDS * 1000,
+      });
+      res.redirect(url);
+    } catch (error) {
+      console.error("SSO login error:", error);
+      res.redirect(ssoErrorRedirect("Single sign-on is unavailable right now"));
+    }
+  });
+
+  // The identity provider sends the browser back here with a code
+  app.get("/api/auth/oidc/callback", async (req, res) => {
+    const state = verifyState<OidcLoginState>(readCookie(req, OIDC_STATE_COOKIE));
+    res.clearCookie(OIDC_STATE_COOKIE, { path: OIDC_COOKIE_PATH });
+    if (!state) {
+      return res.redirect(ssoErrorRedirect("Sign-in took too long or was started elsewhere. Please try again."));
+    }
+
+    try {
+      const callbackUrl = new URL(getRedirectUri());
+      callbackUrl.search = new URL(req.originalUrl, callbackUrl).search;
+      const result = await completeOidcLogin(callbackUrl, state);
+      if (!result.ok) {
+        return res.redirect(ssoErrorRedirect(result.message));
+      }
+
+      const tokens = await startSession(result.user, req);
+      // Tokens travel in the fragment, which browsers never send to a server or in a Referer header
+      res.redirect(`/login/sso#${new URLSearchParams({ ...tokens, next: state.next })}`);
+    } catch (error) {
+      console.error("SSO callback error:", error);
+      res.redirect(ssoErrorRedirect("Single sign-on failed. Please try again."));
+    }
+  });
+
+  // Single sign-on settings (admin only)
+  app.get("/api/auth/oidc/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      res.json(describeSsoSettings(await getSsoSettings()));
+    } catch (error) {
+      console.error("Get SSO settings error:", error);
+      res.status(500).json({ message: "Failed to get single sign-on settings" });
+    }
+  });
+
+  app.patch("/api/auth/oidc/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const updates = updateSsoSettingsSchema.parse(req.body);
+      const settings = await updateSsoSettings(updates, req.user.userId);
+      res.json(describeSsoSettings(settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update SSO settings error:", error);
+      res.status(500).json({ message: "Failed to update single sign-on settings" });
+    }
   });
 
   // ==================== INVITE MANAGEMENT (Admin only) ====================
@@ -196,7 +437,18 @@ export function registerAuthRoutes(app: Express) {
         })
         .returning();
 
-      res.status(201).json(invite);
+      // Invites for a specific address are delivered by email as well as shown to the admin
+      let emailSent = false;
+      if (invite.email) {
+        const [inviter] = await db.select().from(users).where(eq(users.id, req.user.userId));
+        emailSent = await sendMail(invite.email, inviteEmail({
+          inviterName: [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ") || null,
+          link: `${getAppUrl()}/register?code=${code}`,
+          expiresAt: invite.expiresAt,
+        }));
+      }
+
+      res.status(201).json({ ...invite, emailSent });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -0,0 +1,152 @@
+import crypto from "crypto";
+import type { Request } from "express";
+import { and, eq, gt, isNull, lt, ne, or } from "drizzle-orm";
+import { db } from "../db";
+import { sessions, users, type AuthTokens } from "@shared/models/auth";
+import { generateToken, isAccountActive } from "./jwt";
+
+// A session ends once its refresh token goes unused this long; every refresh extends it
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "30", 10);
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type RefreshResult =
+  | { ok: true; tokens: AuthTokens }
+  | { ok: false; message: string; code: "SESSION_REVOKED" | "ACCOUNT_DEACTIVATED" };
+
+// Only hashes of sign-in and reset tokens are stored, so a leaked table can't be used to sign in
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function newRefreshToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+function refreshExpiry(now: Date): Date {
+  return new Date(now.getTime() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function describeClient(req: Request) {
+  return {
+    userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+    ipAddress: req.ip?.slice(0, 100) ?? null,
+  };
+}
+
+// Sign a user in on this device
+export async function startSession(user: { id: string; email: string | null }, req: Request): Promise<AuthTokens> {
+  const refreshToken = newRefreshToken();
+  const now = new Date();
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      ...describeClient(req),
+      expiresAt: refreshExpiry(now),
+    })
+    .returning();
+  return {
+    token: generateToken({ userId: user.id, email: user.email!, sid: session.id }),
+    refreshToken,
+  };
+}
+
+// Swap a refresh token for a new access token and a new refresh token; the old refresh token stops working
+export async function refreshSession(refreshToken: string, req: Request): Promise<RefreshResult> {
+  const hash = hashToken(refreshToken);
+  const now = new Date();
+  const [session] = await db.select().from(sessions).where(eq(sessions.refreshTokenHash, hash));
+
+  if (!session) {
+    // A token that was already swapped is only ever presented again by someone who copied it
+    const [reused] = await db
+      .update(sessions)
+      .set({ revokedAt: now })
+      .where(and(eq(sessions.previousTokenHash, hash), isNull(sessions.revokedAt)))
+      .returning({ id: sessions.id, userId: sessions.userId });
+    if (reused) {
+      console.warn(`Refresh token reused for session ${reused.id} of user ${reused.userId}; session revoked`);
+    }
+    return { ok: false, message: "Session has ended", code: "SESSION_REVOKED" };
+  }
+  if (session.revokedAt || session.expiresAt < now) {
+    return { ok: false, message: "Session has ended", code: "SESSION_REVOKED" };
+  }
+  if (!(await isAccountActive(session.userId))) {
+    return { ok: false, message: "Account deactivated", code: "ACCOUNT_DEACTIVATED" };
+  }
+  const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, session.userId));
+  if (!user) {
+    return { ok: false, message: "Session has ended", code: "SESSION_REVOKED" };
+  }
+
+  const nextToken = newRefreshToken();
+  // Matching on the old hash means only one of two simultaneous refreshes wins
+  const [rotated] = await db
+    .update(sessions)
+    .set({
+      refreshTokenHash: hashToken(nextToken),
+      previousTokenHash: hash,
+      ...describeClient(req),
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(now),
+    })
+    .where(and(eq(sessions.id, session.id), eq(sessions.refreshTokenHash, hash)))
+    .returning();
+  if (!rotated) {
+    return { ok: false, message: "Session has ended", code: "SESSION_REVOKED" };
+  }
+  return {
+    ok: true,
+    tokens: {
+      token: generateToken({ userId: session.userId, email: user.email!, sid: session.id }),
+      refreshToken: nextToken,
+    },
+  };
+}
+
+// Log out the session a refresh token belongs to; returns whether there was one to end
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<boolean> {
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.refreshTokenHash, hashToken(refreshToken)), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+  return revoked.length > 0;
+}
+
+// Log a user out everywhere, optionally apart from one session; returns how many sessions were ended
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date()),
+        exceptSessionId ? ne(sessions.id, exceptSessionId) : undefined
+      )
+    )
+    .returning({ id: sessions.id });
+  return revoked.length;
+}
+
+// Sessions are kept a day after they're revoked so a reused refresh token is still recognised, then removed
+export async function deleteEndedSessions(now = new Date()): Promise<number> {
+  const revokedBefore = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const deleted = await db
+    .delete(sessions)
+    .where(or(lt(sessions.expiresAt, now), lt(sessions.revokedAt, revokedBefore)))
+    .returning({ id: sessions.id });
+  return deleted.length;
+}
+
+export function startSessionSweeper(): NodeJS.Timeout {
+  return setInterval(() => {
+    deleteEndedSessions().catch((error) => {
+      console.error("Error deleting ended sessions:", error);
+    });
+  }, SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,59 @@
+import crypto from "crypto";
+import { format, subDays } from "date-fns";
+import { storage } from "./storage";
+import { buildIcsCalendar, type IcsOutputEvent } from "./ics";
+import { getSlotEnd, getSlotStart } from "./check-in";
+
+// Past bookings older than this are left out so feeds stay small
+const FEED_HISTORY_DAYS = 90;
+
+export function getCalendarFeedPath(token: string): string {
+  return `/api/calendar/${token}.ics`;
+}
+
+export async function regenerateCalendarToken(userId: string): Promise<string> {
+  const token = crypto.randomBytes(24).toString("base64url");
+  await storage.setCalendarToken(userId, token);
+  return token;
+}
+
+export async function getOrCreateCalendarToken(userId: string): Promise<string> {
+  const prefs = await storage.getUserPreferences(userId);
+  return prefs?.calendarToken ?? regenerateCalendarToken(userId);
+}
+
+// The user's recent and upcoming bookings as an iCalendar file. Cancelled bookings stay in
+// the feed with STATUS:CANCELLED so subscribed calendars drop them instead of keeping a stale copy.
+export async function buildBookingCalendar(userId: string, now = new Date()): Promise<string> {
+  const since = format(subDays(now, FEED_HISTORY_DAYS), "yyyy-MM-dd");
+  const [userBookings, seats, clusters, floors] = await Promise.all([
+    storage.getBookingsByUser(userId),
+    storage.getAllSeats(),
+    storage.getAllClusters(),
+    storage.getAllFloors(),
+  ]);
+  const seatMap = new Map(seats.map(s => [s.id, s]));
+  const clusterLabels = new Map(clusters.map(c => [c.id, c.label || c.id]));
+  const floorNames = new Map(floors.map(f => [f.id, f.name]));
+
+  const events = userBookings
+    .filter(booking => booking.date >= since)
+    .map((booking): IcsOutputEvent => {
+      const seat = seatMap.get(booking.seatId);
+      const cluster = seat?.clusterGroup ? clusterLabels.get(seat.clusterGroup) : undefined;
+      const floor = seat?.floorId ? floorNames.get(seat.floorId) : undefined;
+      return {
+        uid: `booking-${booking.id}@hotdesk`,
+        start: getSlotStart(booking.date, booking.slot),
+        end: getSlotEnd(booking.date, booking.slot),
+        summary: seat ? `Desk ${seat.name}${cluster ? ` (${cluster})` : ""}` : "Desk booking",
+        location: [seat?.name, cluster, floor].filter(Boolean).join(", ") || undefined,
+        description: `${booking.slot} desk booking`,
+        status: booking.cancelledAt ? "CANCELLED" : "CONFIRMED",
+        sequence: booking.cancelledAt ? 1 : 0,
+        lastModified: booking.cancelledAt ?? booking.createdAt ?? undefined,
+      };
+    });
+
+  return buildIcsCalendar("Desk bookings", events, now);
+}
@@ -0,0 +1,77 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { releaseToWaitlist } from "./waitlist";
+import { emitWebhookEvents } from "./webhooks";
+import type { Booking, TimeSlot } from "@shared/schema";
+
+// Local start time of each slot, as HH:mm
+export const SLOT_START_TIMES: Record<TimeSlot, string> = {
+  AM: process.env.SLOT_AM_START || "09:00",
+  PM: process.env.SLOT_PM_START || "13:00",
+};
+
+// Local end time of each slot, as HH:mm; only used to show bookings in calendars
+export const SLOT_END_TIMES: Record<TimeSlot, string> = {
+  AM: process.env.SLOT_AM_END || "13:00",
+  PM: process.env.SLOT_PM_END || "17:30",
+};
+
+// How long after the slot starts (or the booking was made, if later) a booking may stay unchecked
+const NO_SHOW_GRACE_MINUTES = parseInt(process.env.NO_SHOW_GRACE_MINUTES || "60", 10);
+const RELEASE_INTERVAL_MS = 5 * 60 * 1000;
+
+export function getSlotStart(date: string, slot: TimeSlot): Date {
+  return new Date(`${date}T${SLOT_START_TIMES[slot]}:00`);
+}
+
+export function getSlotEnd(date: string, slot: TimeSlot): Date {
+  return new Date(`${date}T${SLOT_END_TIMES[slot]}:00`);
+}
+
+// The slot a walk-up at this moment would book: AM until the PM slot starts
+export function getCurrentSlot(now = new Date()): TimeSlot {
+  return now >= getSlotStart(format(now, "yyyy-MM-dd"), "PM") ? "PM" : "AM";
+}
+
+// The moment an unchecked booking becomes a no-show
+export function getCheckInDeadline(booking: Booking): Date {
+  const slotStart = getSlotStart(booking.date, booking.slot);
+  const createdAt = booking.createdAt ? new Date(booking.createdAt) : slotStart;
+  const from = createdAt > slotStart ? createdAt : slotStart;
+  return new Date(from.getTime() + NO_SHOW_GRACE_MINUTES * 60 * 1000);
+}
+
+// Cancel today's bookings nobody checked in to and hand the seats to the waitlist
+export async function releaseNoShows(now = new Date()): Promise<Booking[]> {
+  const today = format(now, "yyyy-MM-dd");
+  const released: Booking[] = [];
+
+  for (const slot of ["AM", "PM"] as TimeSlot[]) {
+    if (getSlotStart(today, slot) > now) continue;
+
+    const unchecked = await storage.getUncheckedBookings(today, slot);
+    for (const booking of unchecked) {
+      if (getCheckInDeadline(booking) > now) continue;
+      const cancelled = await storage.releaseNoShow(booking.id);
+      if (cancelled) released.push(cancelled);
+    }
+  }
+
+  await releaseToWaitlist(released);
+  void emitWebhookEvents("booking.cancelled", released.map(booking => ({ booking })));
+  return released;
+}
+
+export function startNoShowReleaser(): NodeJS.Timeout {
+  return setInterval(() => {
+    releaseNoShows()
+      .then((released) => {
+        if (released.length > 0) {
+          console.log(`Released ${released.length} no-show booking(s)`);
+        }
+      })
+      .catch((error) => {
+        console.error("Error releasing no-show bookings:", error);
+      });
+  }, RELEASE_INTERVAL_MS);
+}
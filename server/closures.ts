@@ -0,0 +1,54 @@
+import { format, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { groupByUser, notifyUsers } from "./notifications";
+import { emitWebhookEvents } from "./webhooks";
+import type { Closure } from "@shared/schema";
+
+export interface ClosureResult {
+  closure: Closure;
+  cancelledBookings: number;
+  cancelledWaitlistEntries: number;
+  notifiedUsers: number;
+}
+
+function describeClosure(closure: Closure): string {
+  const start = format(parseISO(closure.startDate), "EEE, MMM d");
+  const dates = closure.startDate === closure.endDate
+    ? start
+    : `${start} – ${format(parseISO(closure.endDate), "EEE, MMM d")}`;
+  return closure.slot ? `${dates} (${closure.slot})` : dates;
+}
+
+// Cancel everything booked or queued during a newly declared closure and tell each affected user once.
+// Only today onwards is touched: bookings that already happened stay as they were.
+export async function applyClosure(closure: Closure, today = format(new Date(), "yyyy-MM-dd")): Promise<ClosureResult> {
+  const cancelledBookings = await storage.cancelBookingsForClosure(closure, today);
+  const cancelledEntries = await storage.cancelWaitlistForClosure(closure, today);
+  void emitWebhookEvents("booking.cancelled", cancelledBookings.map(booking => ({ booking })));
+
+  const byUser = groupByUser(cancelledBookings);
+  const waitlistOnly = new Set(cancelledEntries.map(e => e.userId).filter(id => !byUser.has(id)));
+
+  const when = describeClosure(closure);
+  await notifyUsers([
+    ...Array.from(byUser.entries()).map(([userId, userBookings]) => ({
+      userId,
+      title: `Office closed: ${closure.name}`,
+      message: `The office is closed ${when}. ${userBookings.length} of your bookings in that period ${
+        userBookings.length === 1 ? "was" : "were"
+      } cancelled.`,
+    })),
+    ...Array.from(waitlistOnly).map(userId => ({
+      userId,
+      title: `Office closed: ${closure.name}`,
+      message: `The office is closed ${when}. Your waitlist entries for that period were removed.`,
+    })),
+  ]);
+
+  return {
+    closure,
+    cancelledBookings: cancelledBookings.length,
+    cancelledWaitlistEntries: cancelledEntries.length,
+    notifiedUsers: byUser.size + waitlistOnly.size,
+  };
+}
@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import { releaseToWaitlist, offerFreedSlot } from "./waitlist";
+import { emitSeatWebhook, emitWebhookEvents } from "./webhooks";
+import type { DeactivationSummary } from "@shared/schema";
+
+export interface DeactivationOptions {
+  cancelBookings: boolean;
+  releaseSeats: boolean;
+}
+
+// Cancel everything a deactivated user still has coming up: bookings from today on that they haven't
+// checked into, their recurring series and their place on waitlists. Freed slots go to the waitlist.
+async function cancelUpcoming(userId: string, today: string) {
+  const cancelled = await storage.cancelUserBookings(userId, today, "admin");
+
+  const openSeries = (await storage.getBookingSeriesByUser(userId)).filter(s => !s.endedAt);
+  for (const series of openSeries) {
+    await storage.updateBookingSeries(series.id, {
+      endDate: series.endDate && series.endDate < today ? series.endDate : today,
+      endedAt: new Date(),
+    });
+  }
+
+  const activeEntries = (await storage.getWaitlistByUser(userId))
+    .filter(e => e.status === "waiting" || e.status === "offered");
+  for (const entry of activeEntries) {
+    await storage.updateWaitlistEntry(entry.id, { status: "cancelled", resolvedAt: new Date() });
+    if (entry.status === "offered" && entry.offeredSeatId) {
+      await offerFreedSlot({ seatId: entry.offeredSeatId, date: entry.date, slot: entry.slot });
+    }
+  }
+
+  await releaseToWaitlist(cancelled);
+  void emitWebhookEvents("booking.cancelled", cancelled.map(booking => ({ booking })));
+  return { cancelled, endedSeries: openSeries.length, cancelledEntries: activeEntries.length };
+}
+
+// Give up every long-term reservation linked to the user
+async function releaseReservedSeats(userId: string) {
+  const reserved = await storage.getSeatsReservedFor(userId);
+
+  const released: string[] = [];
+  for (const seat of reserved) {
+    const updated = await storage.updateSeat(seat.id, {
+      isLongTermReserved: false,
+      longTermReservedBy: null,
+      longTermReservedUntil: null,
+    });
+    if (updated) {
+      released.push(updated.name);
+      void emitSeatWebhook(seat, updated);
+    }
+  }
+  return released;
+}
+
+// The optional clean-up an admin can ask for when deactivating someone; returns what was done
+export async function clearDeactivatedUser(
+  userId: string,
+  options: DeactivationOptions,
+  today: string
+): Promise<DeactivationSummary> {
+  const summary: DeactivationSummary = {
+    cancelledBookings: 0,
+    endedSeries: 0,
+    cancelledWaitlistEntries: 0,
+    releasedSeats: [],
+  };
+  // Seats are released first so bookings cancelled on them can go to the waitlist
+  if (options.releaseSeats) {
+    summary.releasedSeats = await releaseReservedSeats(userId);
+  }
+  if (options.cancelBookings) {
+    const result = await cancelUpcoming(userId, today);
+    summary.cancelledBookings = result.cancelled.length;
+    summary.endedSeries = result.endedSeries;
+    summary.cancelledWaitlistEntries = result.cancelledEntries;
+  }
+  return summary;
+}
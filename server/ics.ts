@@ -0,0 +1,207 @@
+import { addDays, addYears, differenceInCalendarDays, format, parseISO, subDays } from "date-fns";
+
+export interface IcsEvent {
+  summary: string;
+  startDate: string;
+  endDate: string; // inclusive
+}
+
+export interface IcsParseResult {
+  events: IcsEvent[];
+  // Summaries of recurring events whose rule isn't supported, so were left out
+  unsupportedRecurring: string[];
+}
+
+// Undo RFC 5545 line folding: continuation lines start with a space or tab
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+// DATE (20250101) or DATE-TIME (20250101T090000Z) values, reduced to the calendar date
+function toDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function parseRule(value: string): Map<string, string> {
+  return new Map(value.split(";").map((part) => {
+    const [key, ...rest] = part.split("=");
+    return [key.toUpperCase(), rest.join("=")] as [string, string];
+  }));
+}
+
+// Repeat an event by a yearly rule on the same month and day, as fixed-date holidays do, up to
+// expandUntil. Returns null for any other rule: weekday-based ones like "4th Thursday" aren't supported.
+function expandYearly(event: IcsEvent, rrule: string, exdates: Set<string>, expandUntil: string): IcsEvent[] | null {
+  const rule = parseRule(rrule);
+  const allowed = new Set(["FREQ", "INTERVAL", "COUNT", "UNTIL", "WKST"]);
+  if (rule.get("FREQ") !== "YEARLY" || Array.from(rule.keys()).some((key) => !allowed.has(key))) return null;
+
+  const interval = parseInt(rule.get("INTERVAL") || "1", 10);
+  const count = rule.has("COUNT") ? parseInt(rule.get("COUNT")!, 10) : Infinity;
+  const until = rule.has("UNTIL") ? toDate(rule.get("UNTIL")!) : null;
+  if (!(interval > 0) || Number.isNaN(count)) return null;
+
+  const first = parseISO(event.startDate);
+  const length = differenceInCalendarDays(parseISO(event.endDate), first);
+  const occurrences: IcsEvent[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = addYears(first, i * interval);
+    const startDate = format(start, "yyyy-MM-dd");
+    if ((until && startDate > until) || startDate > expandUntil) break;
+    // February 29 only recurs in leap years; date-fns would move it to the 28th
+    if (start.getDate() !== first.getDate()) continue;
+    if (exdates.has(startDate)) continue;
+    occurrences.push({ summary: event.summary, startDate, endDate: format(addDays(start, length), "yyyy-MM-dd") });
+  }
+  return occurrences;
+}
+
+// Extract all-day style events from an iCalendar file. DTEND is exclusive for
+// all-day events, so a one-day holiday comes back with startDate === endDate.
+// Yearly recurring events are repeated up to expandUntil (YYYY-MM-DD).
+export function parseIcsEvents(ics: string, expandUntil: string): IcsParseResult {
+  const events: IcsEvent[] = [];
+  const unsupportedRecurring: string[] = [];
+  let current: {
+    summary?: string;
+    start?: string;
+    end?: string;
+    endIsDate?: boolean;
+    rrule?: string;
+    exdates: Set<string>;
+  } | null = null;
+
+  for (const line of unfold(ics)) {
+    if (line === "BEGIN:VEVENT") {
+      current = { exdates: new Set() };
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (current?.start) {
+        let end = current.end ?? current.start;
+        if (current.end && current.endIsDate && end > current.start) {
+          end = format(subDays(parseISO(end), 1), "yyyy-MM-dd");
+        }
+        const event = {
+          summary: current.summary || "Holiday",
+          startDate: current.start,
+          endDate: end < current.start ? current.start : end,
+        };
+        if (current.rrule) {
+          const occurrences = expandYearly(event, current.rrule, current.exdates, expandUntil);
+          if (occurrences) events.push(...occurrences);
+          else unsupportedRecurring.push(event.summary);
+        } else {
+          events.push(event);
+        }
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    const [name, ...params] = line.slice(0, separator).split(";");
+    const value = line.slice(separator + 1);
+
+    if (name === "SUMMARY") {
+      current.summary = unescapeText(value);
+    } else if (name === "DTSTART") {
+      current.start = toDate(value) ?? undefined;
+    } else if (name === "DTEND") {
+      current.end = toDate(value) ?? undefined;
+      current.endIsDate = params.includes("VALUE=DATE") || !value.includes("T");
+    } else if (name === "RRULE") {
+      current.rrule = value;
+    } else if (name === "EXDATE") {
+      for (const exdate of value.split(",")) {
+        const date = toDate(exdate);
+        if (date) current.exdates.add(date);
+      }
+    }
+  }
+
+  return { events, unsupportedRecurring };
+}
+
+export interface IcsOutputEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  location?: string;
+  description?: string;
+  status: "CONFIRMED" | "CANCELLED";
+  sequence: number; // bumped when the event changes, so clients replace their copy
+  lastModified?: Date;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/([,;])/g, "\\$1")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function toDateTime(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// RFC 5545 line folding: lines over 75 octets continue on lines starting with a space
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > 75) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+// Serialise timed events, in UTC, as an iCalendar file calendar apps can subscribe to
+export function buildIcsCalendar(name: string, events: IcsOutputEvent[], now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//HotDesk//Desk Bookings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${toDateTime(now)}`,
+      `DTSTART:${toDateTime(event.start)}`,
+      `DTEND:${toDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      `STATUS:${event.status}`,
+      `SEQUENCE:${event.sequence}`,
+      ...(event.lastModified ? [`LAST-MODIFIED:${toDateTime(event.lastModified)}`] : []),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -3,6 +3,14 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { seed } from "./seed";
+import { startSeriesMaterialiser } from "./series";
+import { startWaitlistOfferSweeper } from "./waitlist";
+import { startNoShowReleaser } from "./check-in";
+import { startLayoutPublisher } from "./layout-revisions";
+import { startReminderSender } from "./reminders";
+import { startWebhookDispatcher } from "./webhooks";
+import { startSessionSweeper } from "./auth";
+import { warnIfAppUrlMissing } from "./app-url";
 
 const app = express();
 const httpServer = createServer(app);
@@ -13,6 +21,10 @@ declare module "http" {
   }
 }
 
+// Floor plan images are uploaded as data URLs, so only that route accepts large bodies. It is parsed
+// here first; the general parser below then leaves the already-parsed body alone.
+app.put("/api/layout/:floorId/background", express.json({ limit: "6mb" }));
+
 app.use(
   express.json({
     verify: (req, _res, buf) => {
@@ -34,9 +46,20 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Responses whose bodies never reach the log: auth responses carry access and refresh tokens,
+// webhook responses carry signing secrets, calendar responses carry the feed URL with its token,
+// and floor backgrounds are multi-megabyte images
+const UNLOGGED_RESPONSE_PATHS = [
+  /^\/api\/auth\//,
+  /^\/api\/webhooks(\/|$)/,
+  /^\/api\/calendar\//,
+  /^\/api\/layout\/[^/]+\/background$/,
+];
+
 app.use((req, res, next) => {
   const start = Date.now();
-  const path = req.path;
+  // The calendar feed's token is its only credential, so it is kept out of the logged path as well
+  const path = req.path.replace(/^\/api\/calendar\/[^/]+\.ics$/, "/api/calendar/:token.ics");
   let capturedJsonResponse: Record<string, any> | undefined = undefined;
 
   const originalResJson = res.json;
@@ -49,7 +72,7 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      if (capturedJsonResponse && !UNLOGGED_RESPONSE_PATHS.some(pattern => pattern.test(path))) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -68,6 +91,7 @@ app.use((req, res, next) => {
     console.error("Failed to seed database:", error);
   }
 
+  warnIfAppUrlMissing();
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
@@ -108,4 +132,25 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  // Keep recurring booking series materialised up to the rolling horizon
+  startSeriesMaterialiser();
+
+  // Pass unclaimed waitlist offers on to the next person in line
+  startWaitlistOfferSweeper();
+
+  // Release today's bookings that were not checked in within the grace period
+  startNoShowReleaser();
+
+  // Apply scheduled floor layouts once their effective date arrives
+  startLayoutPublisher();
+
+  // Email day-before reminders for tomorrow's bookings
+  startReminderSender();
+
+  // Retry webhook deliveries whose backoff has elapsed
+  startWebhookDispatcher();
+
+  // Delete sign-in sessions that have expired or were revoked
+  startSessionSweeper();
 })();
@@ -0,0 +1,152 @@
+import { format, parseISO } from "date-fns";
+import {
+  storage,
+  toLayoutSnapshot,
+  LayoutRevisionError,
+  LayoutValidationError,
+  type AppliedLayout,
+  type ApplyLayoutOptions,
+} from "./storage";
+import { groupByUser, notifyUsers } from "./notifications";
+import type { Booking, LayoutDiff, LayoutRevision, LayoutSnapshot } from "@shared/schema";
+
+type SnapshotShape = NonNullable<LayoutSnapshot["shapes"]>[number];
+
+const PUBLISH_INTERVAL_MS = 15 * 60 * 1000;
+
+function changedFields<T extends Record<string, unknown>>(from: T, to: T): string[] {
+  return Object.keys(to).filter(key => (from[key] ?? null) !== (to[key] ?? null));
+}
+
+function shapeName(shape: SnapshotShape): string {
+  return shape.label ? `${shape.kind}: ${shape.label}` : shape.kind;
+}
+
+// What changes when going from one snapshot to another; clusters, seats and shapes are matched by id
+export function diffLayouts(from: LayoutSnapshot, to: LayoutSnapshot): LayoutDiff {
+  const fromClusters = new Map(from.clusters.map(c => [c.id, c]));
+  const toClusters = new Map(to.clusters.map(c => [c.id, c]));
+  const fromSeats = new Map(from.seats.map(s => [s.id, s]));
+  const toSeats = new Map(to.seats.map(s => [s.id, s]));
+  const fromShapeList = from.shapes ?? [];
+  const toShapes = to.shapes ?? [];
+  const fromShapes = new Map(fromShapeList.map(s => [s.id, s]));
+  const toShapeIds = new Set(toShapes.map(s => s.id));
+
+  return {
+    clusters: {
+      added: to.clusters.filter(c => !fromClusters.has(c.id)).map(c => c.label || c.id),
+      removed: from.clusters.filter(c => !toClusters.has(c.id)).map(c => c.label || c.id),
+      changed: to.clusters
+        .filter(c => fromClusters.has(c.id) && changedFields(fromClusters.get(c.id)!, c).length > 0)
+        .map(c => c.label || c.id),
+    },
+    seats: {
+      added: to.seats.filter(s => !fromSeats.has(s.id)).map(s => s.name),
+      removed: from.seats.filter(s => !toSeats.has(s.id)).map(s => s.name),
+      changed: to.seats
+        .filter(s => fromSeats.has(s.id))
+        .map(s => ({ id: s.id, name: s.name, fields: changedFields(fromSeats.get(s.id)!, s) }))
+        .filter(change => change.fields.length > 0),
+    },
+    shapes: {
+      added: toShapes.filter(s => !fromShapes.has(s.id)).map(shapeName),
+      removed: fromShapeList.filter(s => !toShapeIds.has(s.id)).map(shapeName),
+      changed: toShapes
+        .filter(s => fromShapes.has(s.id) && changedFields(fromShapes.get(s.id)!, s).length > 0)
+        .map(shapeName),
+    },
+  };
+}
+
+export async function getLiveSnapshot(floorId: string): Promise<LayoutSnapshot | undefined> {
+  const layout = await storage.getFloorLayout(floorId);
+  return layout ? toLayoutSnapshot(layout.clusters, layout.seats, layout.shapes) : undefined;
+}
+
+// Tell everyone whose upcoming bookings sat on a seat that was taken off the floor
+export async function notifyFlaggedBookings(flagged: Booking[]): Promise<void> {
+  const byUser = groupByUser(flagged);
+  await notifyUsers(
+    Array.from(byUser.entries()).map(([userId, userBookings]) => {
+      const dates = Array.from(new Set(userBookings.map(b => format(parseISO(b.date), "EEE, MMM d"))));
+      return {
+        userId,
+        title: "Your desk was removed from the floor plan",
+        message: `The office layout changed. An admin will move your booking${
+          userBookings.length === 1 ? "" : "s"
+        } on ${dates.join(", ")} to another desk.`,
+      };
+    })
+  );
+}
+
+// Apply a snapshot as the floor's live layout and follow up on bookings it displaced
+export async function publishLayout(
+  floorId: string,
+  snapshot: LayoutSnapshot,
+  options: Omit<ApplyLayoutOptions, "today">
+): Promise<AppliedLayout> {
+  const applied = await storage.applyFloorLayout(floorId, snapshot, {
+    ...options,
+    today: format(new Date(), "yyyy-MM-dd"),
+  });
+  await notifyFlaggedBookings(applied.flaggedBookings);
+  return applied;
+}
+
+// Set aside a scheduled revision that can't go live and tell the admins, who can redo it as a new draft
+async function failScheduledRevision(revision: LayoutRevision, reason: string): Promise<void> {
+  await storage.failLayoutRevision(revision.id, reason);
+  const floor = await storage.getFloor(revision.floorId);
+  const admins = (await storage.getAllUserRoles()).filter(r => r.role === "admin" && r.isActive);
+  await notifyUsers(
+    admins.map(admin => ({
+      userId: admin.userId,
+      title: "Scheduled layout wasn't published",
+      message: `Version ${revision.version} of ${floor?.name ?? "a floor"} couldn't go live: ${reason}. ` +
+        "The live layout is unchanged; see the floor's layout history.",
+    }))
+  );
+}
+
+// Apply scheduled revisions whose effective date has arrived, oldest first. Like publishing now, each
+// needs the live layout to be the one it was drafted against, so later edits are never overwritten.
+export async function publishDueLayouts(now = new Date()): Promise<LayoutRevision[]> {
+  const due = await storage.getDueLayoutRevisions(format(now, "yyyy-MM-dd"));
+  const published: LayoutRevision[] = [];
+  for (const revision of due) {
+    try {
+      const applied = await publishLayout(revision.floorId, revision.snapshot, {
+        userId: revision.publishedBy || revision.createdBy || "system",
+        expectedRevision: revision.baseRevision ?? undefined,
+        revisionId: revision.id,
+      });
+      published.push(applied.revision);
+    } catch (error) {
+      if (error instanceof LayoutRevisionError) {
+        await failScheduledRevision(revision, "the live layout was changed after it was scheduled");
+      } else if (error instanceof LayoutValidationError) {
+        await failScheduledRevision(revision, error.message);
+      } else {
+        // Anything else, such as the database being unreachable, is retried on the next run
+        console.error(`Error publishing layout revision ${revision.id}:`, error);
+      }
+    }
+  }
+  return published;
+}
+
+export function startLayoutPublisher(): NodeJS.Timeout {
+  const run = () => {
+    publishDueLayouts()
+      .then((published) => {
+        if (published.length > 0) {
+          console.log(`Published ${published.length} scheduled layout revision(s)`);
+        }
+      })
+      .catch((error) => console.error("Error publishing scheduled layouts:", error));
+  };
+  run();
+  return setInterval(run, PUBLISH_INTERVAL_MS);
+}
@@ -0,0 +1,353 @@
+import crypto from "crypto";
+import { format } from "date-fns";
+import { storage, toLayoutSnapshot, LayoutValidationError, type SeatAttributes } from "./storage";
+import { diffLayouts, publishLayout } from "./layout-revisions";
+import {
+  LAYOUT_CELL_SIZE,
+  LAYOUT_DOCUMENT_FORMAT,
+  LAYOUT_DOCUMENT_VERSION,
+  type Floor,
+  type FloorLayout,
+  type ImportLayout,
+  type LayoutDiff,
+  type LayoutDocument,
+  type LayoutImportResult,
+  type LayoutSnapshot,
+} from "@shared/schema";
+
+type CurrentLayout = Pick<FloorLayout, "clusters" | "seats" | "shapes">;
+type SnapshotSeat = LayoutSnapshot["seats"][number];
+type SnapshotCluster = LayoutSnapshot["clusters"][number];
+
+// A layout ready to apply to one floor: ids resolved against what the floor already has
+export interface ResolvedLayout {
+  snapshot: LayoutSnapshot;
+  seatAttributes: Record<string, SeatAttributes>;
+}
+
+const NEW_CLUSTER_GAP = 40;
+const MAX_GRID = 10;
+const MAX_CSV_ERRORS = 10;
+
+const SEAT_ATTRIBUTES = [
+  "isBlocked",
+  "isLongTermReserved",
+  "longTermReservedBy",
+  "longTermReservedUntil",
+  "metadata",
+] as const;
+
+function newId(prefix: string): string {
+  return `${prefix}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+function newSeatId(name: string): string {
+  return newId(`seat-${name.toLowerCase()}`);
+}
+
+// A floor's layout as a portable document. Clusters and shapes keep their ids and seats are
+// identified by name, so importing the document back into the same floor updates it in place.
+export function toLayoutDocument(floor: Floor, layout: FloorLayout): LayoutDocument {
+  const snapshot = toLayoutSnapshot(layout.clusters, layout.seats, layout.shapes);
+  const clusterIds = new Set(layout.clusters.map(c => c.id));
+  return {
+    format: LAYOUT_DOCUMENT_FORMAT,
+    version: LAYOUT_DOCUMENT_VERSION,
+    exportedAt: new Date().toISOString(),
+    floor: { name: floor.name, level: floor.level },
+    clusters: snapshot.clusters,
+    seats: layout.seats.map(seat => ({
+      name: seat.name,
+      type: seat.type,
+      hasMonitor: seat.hasMonitor,
+      cluster: seat.clusterGroup && clusterIds.has(seat.clusterGroup) ? seat.clusterGroup : null,
+      positionX: seat.positionX,
+      positionY: seat.positionY,
+      isBlocked: seat.isBlocked,
+      isLongTermReserved: seat.isLongTermReserved,
+      longTermReservedBy: seat.longTermReservedBy,
+      longTermReservedUntil: seat.longTermReservedUntil,
+      metadata: seat.metadata,
+    })),
+    shapes: snapshot.shapes ?? [],
+  };
+}
+
+// Map a document onto a floor as a full replacement of its layout. Clusters and shapes whose id is
+// already on the floor and seats with a matching name keep their ids; everything else gets a new one,
+// so a document exported from another floor or environment never claims ids used elsewhere.
+export function resolveLayoutDocument(doc: LayoutDocument, current: CurrentLayout): ResolvedLayout {
+  const currentClusterIds = new Set(current.clusters.map(c => c.id));
+  const currentShapeIds = new Set(current.shapes.map(s => s.id));
+  const seatIdsByName = new Map(current.seats.map(s => [s.name, s.id]));
+  const clusterIds = new Map(
+    doc.clusters.map(c => [c.id, currentClusterIds.has(c.id) ? c.id : newId("cluster")])
+  );
+
+  const seatAttributes: Record<string, SeatAttributes> = {};
+  const seats = doc.seats.map((seat): SnapshotSeat => {
+    const id = seatIdsByName.get(seat.name) ?? newSeatId(seat.name);
+    seatAttributes[id] = {
+      isBlocked: seat.isBlocked,
+      isLongTermReserved: seat.isLongTermReserved,
+      longTermReservedBy: seat.longTermReservedBy ?? null,
+      longTermReservedUntil: seat.longTermReservedUntil ?? null,
+      metadata: seat.metadata ?? null,
+    };
+    return {
+      id,
+      name: seat.name,
+      type: seat.type,
+      hasMonitor: seat.hasMonitor,
+      positionX: seat.positionX,
+      positionY: seat.positionY,
+      clusterGroup: seat.cluster ? clusterIds.get(seat.cluster) ?? null : null,
+    };
+  });
+
+  return {
+    snapshot: {
+      clusters: doc.clusters.map(c => ({ ...c, id: clusterIds.get(c.id)! })),
+      seats,
+      shapes: doc.shapes.map(s => ({ ...s, id: currentShapeIds.has(s.id) ? s.id : newId("shape") })),
+    },
+    seatAttributes,
+  };
+}
+
+// Rows of a CSV file; quoted fields may contain commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "y", "1"].includes(normalized)) return true;
+  if (["false", "no", "n", "0"].includes(normalized)) return false;
+  return undefined;
+}
+
+// Add or update seats from a CSV with the columns name, type, hasMonitor and cluster. The cluster
+// column takes a cluster id or label on the floor; unknown ones become new two-column clusters.
+// Seats missing from the file are left alone, and every seat keeps its blocking and reservations.
+export function resolveSeatsCsv(csv: string, current: CurrentLayout): ResolvedLayout {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) throw new LayoutValidationError("The CSV file is empty");
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name.toLowerCase());
+  const nameCol = column("name");
+  const typeCol = column("type");
+  const monitorCol = column("hasMonitor");
+  const clusterCol = column("cluster");
+  if (nameCol < 0 || typeCol < 0) {
+    throw new LayoutValidationError("The CSV header needs at least the columns name and type");
+  }
+
+  const snapshot = toLayoutSnapshot(current.clusters, current.seats, current.shapes);
+  const clusters: SnapshotCluster[] = snapshot.clusters.map(c => ({ ...c }));
+  const seats: SnapshotSeat[] = snapshot.seats.map(s => ({ ...s }));
+  const newClusterIds = new Set<string>();
+
+  const findCluster = (value: string) => {
+    const label = value.toLowerCase();
+    return clusters.find(c => c.id === value) ?? clusters.find(c => (c.label ?? "").toLowerCase() === label);
+  };
+
+  // New clusters go in a row underneath everything already on the floor
+  let nextClusterX = 0;
+  const nextClusterY = Math.max(
+    0,
+    ...clusters.map(c => c.positionY + c.gridRows * LAYOUT_CELL_SIZE + NEW_CLUSTER_GAP),
+    ...(snapshot.shapes ?? []).map(s => s.positionY + s.height + NEW_CLUSTER_GAP)
+  );
+  const createCluster = (label: string): SnapshotCluster => {
+    const cluster = {
+      id: newId("cluster"),
+      label: label.slice(0, 50),
+      positionX: nextClusterX,
+      positionY: nextClusterY,
+      rotation: 0,
+      gridCols: 2,
+      gridRows: 1,
+    };
+    nextClusterX += 2 * LAYOUT_CELL_SIZE + NEW_CLUSTER_GAP;
+    clusters.push(cluster);
+    newClusterIds.add(cluster.id);
+    return cluster;
+  };
+
+  // First free cell in a cluster's grid, growing clusters this import created by a row when full
+  const placeInCluster = (cluster: SnapshotCluster, seatId: string) => {
+    const occupied = new Set(
+      seats.filter(s => s.clusterGroup === cluster.id && s.id !== seatId).map(s => `${s.positionX},${s.positionY}`)
+    );
+    for (;;) {
+      for (let row = 0; row < cluster.gridRows; row++) {
+        for (let col = 0; col < cluster.gridCols; col++) {
+          if (!occupied.has(`${col},${row}`)) return { positionX: col, positionY: row };
+        }
+      }
+      if (!newClusterIds.has(cluster.id) || cluster.gridRows >= MAX_GRID) return null;
+      cluster.gridRows++;
+    }
+  };
+
+  const errors: string[] = [];
+  const seenNames = new Set<string>();
+  rows.forEach((cells, i) => {
+    const line = i + 2; // 1-based, after the header
+    const cell = (col: number) => (col >= 0 ? (cells[col] ?? "").trim() : "");
+    const name = cell(nameCol);
+    const type = cell(typeCol);
+    const monitor = cell(monitorCol);
+    const clusterValue = cell(clusterCol);
+
+    if (!name || name.length > 10) {
+      errors.push(`Row ${line}: seat name must be 1-10 characters`);
+      return;
+    }
+    if (seenNames.has(name)) {
+      errors.push(`Row ${line}: seat ${name} appears more than once`);
+      return;
+    }
+    seenNames.add(name);
+    if (type !== "solo" && type !== "team_cluster") {
+      errors.push(`Row ${line}: type must be solo or team_cluster`);
+      return;
+    }
+    const hasMonitor = monitor ? parseBoolean(monitor) : undefined;
+    if (monitor && hasMonitor === undefined) {
+      errors.push(`Row ${line}: hasMonitor must be true or false`);
+      return;
+    }
+
+    let seat = seats.find(s => s.name === name);
+    if (!seat) {
+      // Like the editor, new team desks get a monitor unless the file says otherwise
+      seat = { id: newSeatId(name), name, type, hasMonitor: type === "team_cluster", positionX: 0, positionY: 0, clusterGroup: null };
+      seats.push(seat);
+    }
+    seat.type = type;
+    if (hasMonitor !== undefined) seat.hasMonitor = hasMonitor;
+
+    // A blank cluster keeps the seat where it is
+    if (!clusterValue) return;
+    const cluster = findCluster(clusterValue) ?? createCluster(clusterValue);
+    if (seat.clusterGroup === cluster.id) return;
+    const position = placeInCluster(cluster, seat.id);
+    if (!position) {
+      errors.push(`Row ${line}: cluster ${cluster.label || cluster.id} has no free cell for ${name}`);
+      return;
+    }
+    Object.assign(seat, position, { clusterGroup: cluster.id });
+  });
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_CSV_ERRORS);
+    const more = errors.length > shown.length ? `; and ${errors.length - shown.length} more` : "";
+    throw new LayoutValidationError(shown.join("; ") + more);
+  }
+
+  return { snapshot: { clusters, seats, shapes: snapshot.shapes }, seatAttributes: {} };
+}
+
+// The snapshot diff plus seat settings an import changes, which snapshots don't carry
+function describeImport(current: CurrentLayout, resolved: ResolvedLayout): LayoutDiff {
+  const changes = diffLayouts(
+    toLayoutSnapshot(current.clusters, current.seats, current.shapes),
+    resolved.snapshot
+  );
+  for (const seat of current.seats) {
+    const attributes = resolved.seatAttributes[seat.id];
+    if (!attributes) continue;
+    const fields = SEAT_ATTRIBUTES.filter(
+      key => key in attributes && JSON.stringify(attributes[key] ?? null) !== JSON.stringify(seat[key] ?? null)
+    );
+    if (fields.length === 0) continue;
+    const existing = changes.seats.changed.find(c => c.id === seat.id);
+    if (existing) {
+      existing.fields.push(...fields);
+    } else {
+      changes.seats.changed.push({ id: seat.id, name: seat.name, fields: [...fields] });
+    }
+  }
+  return changes;
+}
+
+// Preview or apply an import. Applying publishes the result like any other layout change, so it
+// is versioned and can be rolled back; a dry run only reports what would be created, updated and removed.
+export async function importLayout(
+  floorId: string,
+  request: ImportLayout,
+  userId: string
+): Promise<LayoutImportResult | undefined> {
+  const current = await storage.getFloorLayout(floorId);
+  if (!current) return undefined;
+
+  const resolved = request.format === "json"
+    ? resolveLayoutDocument(request.document, current)
+    : resolveSeatsCsv(request.csv, current);
+  const changes = describeImport(current, resolved);
+
+  if (request.dryRun) {
+    const keptSeatIds = new Set(resolved.snapshot.seats.map(s => s.id));
+    const removedSeatIds = new Set(current.seats.filter(s => !keptSeatIds.has(s.id)).map(s => s.id));
+    const today = format(new Date(), "yyyy-MM-dd");
+    const affected = removedSeatIds.size === 0
+      ? []
+      : (await storage.getBookingsByFloor(floorId)).filter(
+          b => removedSeatIds.has(b.seatId) && b.date >= today && !b.cancelledAt
+        );
+    return { dryRun: true, changes, flaggedBookings: affected.length };
+  }
+
+  const applied = await publishLayout(floorId, resolved.snapshot, {
+    userId,
+    expectedRevision: current.revision,
+    seatAttributes: resolved.seatAttributes,
+    note: request.format === "json" ? "Imported layout" : "Imported seats from CSV",
+  });
+  return {
+    dryRun: false,
+    changes,
+    flaggedBookings: applied.flaggedBookings.length,
+    revision: applied.revision,
+  };
+}
@@ -0,0 +1,36 @@
+import { createMailTransport, type MailTransport } from "./transport";
+import type { Email } from "./templates";
+
+export type { MailMessage, MailTransport } from "./transport";
+export { createConsoleTransport, createFileTransport, createSmtpTransport } from "./transport";
+export * from "./templates";
+
+// undefined until first use; null when email is off
+let transport: MailTransport | null | undefined;
+
+export function getMailTransport(): MailTransport | null {
+  if (transport === undefined) {
+    transport = createMailTransport();
+    console.log(transport
+      ? `Sending email with the ${transport.name} transport`
+      : "Email is off; set SMTP_HOST or MAIL_TRANSPORT to send it");
+  }
+  return transport;
+}
+
+export function setMailTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+// Send one email; false when email is off or sending failed
+export async function sendMail(to: string, email: Email): Promise<boolean> {
+  const mail = getMailTransport();
+  if (!mail) return false;
+  try {
+    await mail.send({ to, ...email });
+    return true;
+  } catch (error) {
+    console.error(`Error sending email "${email.subject}":`, error);
+    return false;
+  }
+}
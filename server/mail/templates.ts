@@ -0,0 +1,177 @@
+import { format, parseISO } from "date-fns";
+import type { TimeSlot } from "@shared/schema";
+import { getAppUrl } from "../app-url";
+
+export interface Email {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// A booking as it appears in an email
+export interface BookingLine {
+  date: string;
+  slot: TimeSlot;
+  seatName: string;
+  location: string | null; // cluster and floor
+}
+
+interface EmailContent {
+  subject: string;
+  greeting: string | null; // recipient's first name, if known
+  paragraphs: string[];
+  bookings?: BookingLine[];
+  closing?: string[]; // paragraphs after the bookings
+  action?: { label: string; url: string };
+  optional?: boolean; // the recipient can turn this kind of email off; defaults to true
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function describeBooking(booking: BookingLine): string {
+  const when = `${format(parseISO(booking.date), "EEE, MMM d")} (${booking.slot})`;
+  return `${when}: desk ${booking.seatName}${booking.location ? `, ${booking.location}` : ""}`;
+}
+
+function plural(count: number, one: string, many: string): string {
+  return count === 1 ? one : many;
+}
+
+// Same content as plain text and as minimal inline-styled HTML, which mail clients render most reliably
+function render(content: EmailContent): Email {
+  const action = content.action ?? { label: "Open HotDesk", url: getAppUrl() };
+  const greeting = `Hi${content.greeting ? ` ${content.greeting}` : ""},`;
+  const bookingLines = (content.bookings ?? []).map(describeBooking);
+
+  const text = [
+    greeting,
+    ...content.paragraphs,
+    ...(bookingLines.length > 0 ? [bookingLines.map(line => `- ${line}`).join("\n")] : []),
+    ...(content.closing ?? []),
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+  ].join("\n\n");
+
+  const html = [
+    `<div style="font-family: sans-serif; font-size: 14px; line-height: 1.5; color: #111827;">`,
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...content.paragraphs.map(p => `<p>${escapeHtml(p)}</p>`),
+    ...(bookingLines.length > 0
+      ? [`<ul>${bookingLines.map(line => `<li>${escapeHtml(line)}</li>`).join("")}</ul>`]
+      : []),
+    ...(content.closing ?? []).map(p => `<p>${escapeHtml(p)}</p>`),
+    ...(action
+      ? [`<p><a href="${escapeHtml(action.url)}" style="color: #2563eb;">${escapeHtml(action.label)}</a></p>`]
+      : []),
+    ...(content.optional === false
+      ? []
+      : [`<p style="color: #6b7280; font-size: 12px;">You can choose which emails you get under Email notifications in HotDesk.</p>`]),
+    `</div>`,
+  ].join("\n");
+
+  return { subject: content.subject, text, html };
+}
+
+export function bookingConfirmationEmail(firstName: string | null, bookings: BookingLine[]): Email {
+  return render({
+    subject: bookings.length === 1
+      ? `Desk booked: ${describeBooking(bookings[0])}`
+      : `${bookings.length} desk bookings confirmed`,
+    greeting: firstName,
+    paragraphs: [`Your ${plural(bookings.length, "booking is", "bookings are")} confirmed:`],
+    bookings,
+  });
+}
+
+export function bookingCancelledByAdminEmail(firstName: string | null, booking: BookingLine): Email {
+  return render({
+    subject: `Booking cancelled: ${describeBooking(booking)}`,
+    greeting: firstName,
+    paragraphs: ["An administrator cancelled your booking:"],
+    bookings: [booking],
+  });
+}
+
+export function seatUnavailableEmail(
+  firstName: string | null,
+  seatName: string,
+  reason: "blocked" | "reserved",
+  bookings: BookingLine[]
+): Email {
+  const what = reason === "blocked" ? "blocked" : "reserved for long-term use";
+  return render({
+    subject: `Desk ${seatName} is no longer available`,
+    greeting: firstName,
+    paragraphs: [
+      `Desk ${seatName} has been ${what} by an administrator. You have ${bookings.length} upcoming ${plural(
+        bookings.length,
+        "booking",
+        "bookings"
+      )} there:`,
+    ],
+    bookings,
+    closing: ["Please book another desk, or check with your office administrator."],
+  });
+}
+
+export function bookingReminderEmail(firstName: string | null, bookings: BookingLine[]): Email {
+  return render({
+    subject: bookings.length === 1
+      ? `Reminder: desk ${bookings[0].seatName} tomorrow`
+      : `Reminder: your desk bookings tomorrow`,
+    greeting: firstName,
+    paragraphs: [
+      `You have ${plural(bookings.length, "a desk", "desks")} booked tomorrow:`,
+    ],
+    bookings,
+    closing: ["Remember to check in when you arrive. If your plans changed, cancel so someone else can use the desk."],
+  });
+}
+
+export function inviteEmail(invite: { inviterName: string | null; link: string; expiresAt: Date | null }): Email {
+  return render({
+    subject: "You're invited to HotDesk",
+    greeting: null,
+    paragraphs: [
+      `${invite.inviterName ?? "Your office administrator"} invited you to book desks with HotDesk.`,
+      invite.expiresAt
+        ? `Create your account before ${format(invite.expiresAt, "MMM d, yyyy")}, when the invite expires.`
+        : "Create your account using the link below.",
+    ],
+    action: { label: "Create your account", url: invite.link },
+    optional: false,
+  });
+}
+
+export function passwordResetEmail(firstName: string | null, reset: { link: string; expiresAt: Date }): Email {
+  return render({
+    subject: "Reset your HotDesk password",
+    greeting: firstName,
+    paragraphs: [
+      "Someone asked to reset the password for your HotDesk account. Use the link below to choose a new one.",
+      `The link works once and expires at ${format(reset.expiresAt, "HH:mm 'on' MMM d")}.`,
+    ],
+    closing: ["If you didn't ask for this, you can ignore this email; your password stays the same."],
+    action: { label: "Reset your password", url: reset.link },
+    optional: false,
+  });
+}
+
+export function passwordChangedEmail(firstName: string | null, how: "reset" | "changed"): Email {
+  return render({
+    subject: "Your HotDesk password was changed",
+    greeting: firstName,
+    paragraphs: [
+      how === "reset"
+        ? "Your HotDesk password was just reset, and every device signed in to your account was signed out."
+        : "Your HotDesk password was just changed, and your other devices were signed out.",
+      "If this wasn't you, reset your password straight away and tell your office administrator.",
+    ],
+    optional: false,
+  });
+}
@@ -0,0 +1,76 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Anything that can deliver a rendered email; swap in another with setMailTransport
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "HotDesk <no-reply@hotdesk.local>";
+
+export function createSmtpTransport(): MailTransport {
+  const port = parseInt(process.env.SMTP_PORT || "587", 10);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  });
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+}
+
+// Writes each email as an .eml file, for local development and for checking what would be sent
+export function createFileTransport(dir = process.env.MAIL_DIR || "mail-outbox"): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transporter.sendMail({ from: MAIL_FROM, ...message });
+      await fs.mkdir(dir, { recursive: true });
+      const file = `${new Date().toISOString().replace(/[:.]/g, "-")}-${info.messageId.replace(/[^\w.-]/g, "")}.eml`;
+      await fs.writeFile(path.join(dir, file), info.message as Buffer);
+    },
+  };
+}
+
+// Prints whole emails, reset and invite links included, to the server log: only for local development
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+// MAIL_TRANSPORT picks smtp, file, console or none; without it, SMTP is used once SMTP_HOST is set and
+// email is off otherwise. Returns null when email is off.
+export function createMailTransport(): MailTransport | null {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "none");
+  switch (kind) {
+    case "smtp":
+      return createSmtpTransport();
+    case "file":
+      return createFileTransport();
+    case "console":
+      return createConsoleTransport();
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"; expected smtp, file, console or none`);
+  }
+}
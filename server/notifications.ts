@@ -0,0 +1,155 @@
+import { format, parseISO } from "date-fns";
+import { storage, type EmailPreference } from "./storage";
+import {
+  sendMail,
+  bookingCancelledByAdminEmail,
+  bookingConfirmationEmail,
+  seatUnavailableEmail,
+  type BookingLine,
+  type Email,
+} from "./mail";
+import type { Booking, InsertNotification, Notification, Seat } from "@shared/schema";
+
+export type NotificationInput = Pick<InsertNotification, "userId" | "title" | "message">;
+
+export interface EmailInput {
+  userId: string;
+  build: (firstName: string | null) => Email;
+}
+
+// Store in-app notifications; failures are logged so they never undo the change that triggered them
+export async function notifyUsers(inputs: NotificationInput[]): Promise<Notification[]> {
+  try {
+    return await storage.createNotifications(inputs);
+  } catch (error) {
+    console.error("Error creating notifications:", error);
+    return [];
+  }
+}
+
+// Email users who have an address and haven't turned this kind of email off; returns how many were sent
+export async function emailUsers(preference: EmailPreference, inputs: EmailInput[]): Promise<number> {
+  try {
+    const recipients = await storage.getEmailRecipients(inputs.map(i => i.userId), preference);
+    const byUser = new Map(recipients.map(r => [r.userId, r]));
+    let sent = 0;
+    for (const input of inputs) {
+      const recipient = byUser.get(input.userId);
+      if (recipient && (await sendMail(recipient.email, input.build(recipient.firstName)))) sent++;
+    }
+    return sent;
+  } catch (error) {
+    console.error("Error sending emails:", error);
+    return 0;
+  }
+}
+
+export function groupByUser(bookings: Booking[]): Map<string, Booking[]> {
+  const byUser = new Map<string, Booking[]>();
+  for (const booking of bookings) {
+    byUser.set(booking.userId, [...(byUser.get(booking.userId) || []), booking]);
+  }
+  return byUser;
+}
+
+// Bookings with their seat names and locations, ready for an email
+export async function describeBookings(bookings: Booking[]): Promise<Map<string, BookingLine>> {
+  const [seats, clusters, floors] = await Promise.all([
+    storage.getAllSeats(),
+    storage.getAllClusters(),
+    storage.getAllFloors(),
+  ]);
+  const seatMap = new Map(seats.map(s => [s.id, s]));
+  const clusterLabels = new Map(clusters.map(c => [c.id, c.label || c.id]));
+  const floorNames = new Map(floors.map(f => [f.id, f.name]));
+  return new Map(bookings.map(booking => {
+    const seat = seatMap.get(booking.seatId);
+    const location = [
+      seat?.clusterGroup ? clusterLabels.get(seat.clusterGroup) : undefined,
+      seat?.floorId ? floorNames.get(seat.floorId) : undefined,
+    ].filter(Boolean).join(", ");
+    return [booking.id, {
+      date: booking.date,
+      slot: booking.slot,
+      seatName: seat?.name ?? booking.seatId,
+      location: location || null,
+    }];
+  }));
+}
+
+function sortBookings(bookings: Booking[]): Booking[] {
+  return [...bookings].sort((a, b) => a.date.localeCompare(b.date) || a.slot.localeCompare(b.slot));
+}
+
+// Confirm bookings people just made for themselves, one email per person
+export async function sendBookingConfirmations(created: Booking[]): Promise<void> {
+  if (created.length === 0) return;
+  try {
+    const lines = await describeBookings(created);
+    await emailUsers(
+      "emailConfirmations",
+      Array.from(groupByUser(created).entries()).map(([userId, userBookings]) => ({
+        userId,
+        build: (firstName) => bookingConfirmationEmail(firstName, sortBookings(userBookings).map(b => lines.get(b.id)!)),
+      }))
+    );
+  } catch (error) {
+    console.error("Error sending booking confirmations:", error);
+  }
+}
+
+export async function notifyBookingCancelledByAdmin(booking: Booking): Promise<void> {
+  try {
+    const line = (await describeBookings([booking])).get(booking.id)!;
+    await notifyUsers([{
+      userId: booking.userId,
+      title: "Your booking was cancelled",
+      message: `An admin cancelled your booking at desk ${line.seatName} on ${format(
+        parseISO(booking.date),
+        "EEE, MMM d"
+      )} (${booking.slot}).`,
+    }]);
+    await emailUsers("emailBookingChanges", [{
+      userId: booking.userId,
+      build: (firstName) => bookingCancelledByAdminEmail(firstName, line),
+    }]);
+  } catch (error) {
+    console.error("Error notifying about cancelled booking:", error);
+  }
+}
+
+function isReservationHolder(seat: Seat, booking: Booking): boolean {
+  return !!seat.longTermReservedFor && seat.longTermReservedFor === booking.userId;
+}
+
+// Tell everyone with upcoming bookings on a seat that was just blocked or reserved; returns how many people
+export async function notifySeatUnavailable(seat: Seat, reason: "blocked" | "reserved", today: string): Promise<number> {
+  try {
+    const upcoming = (await storage.getUpcomingBookingsBySeat(seat.id, today))
+      .filter(booking => reason === "blocked" || !isReservationHolder(seat, booking));
+    if (upcoming.length === 0) return 0;
+
+    const lines = await describeBookings(upcoming);
+    const byUser = groupByUser(upcoming);
+    await notifyUsers(
+      Array.from(byUser.entries()).map(([userId, userBookings]) => ({
+        userId,
+        title: `Desk ${seat.name} is no longer available`,
+        message: `An admin ${reason} desk ${seat.name}. Please book another desk for your ${
+          userBookings.length === 1 ? "booking" : `${userBookings.length} bookings`
+        } there.`,
+      }))
+    );
+    await emailUsers(
+      "emailBookingChanges",
+      Array.from(byUser.entries()).map(([userId, userBookings]) => ({
+        userId,
+        build: (firstName) => seatUnavailableEmail(firstName, seat.name, reason, userBookings.map(b => lines.get(b.id)!)),
+      }))
+    );
+    return byUser.size;
+  } catch (error) {
+    console.error("Error notifying about unavailable seat:", error);
+    return 0;
+  }
+}
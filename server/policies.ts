@@ -0,0 +1,157 @@
+import { format, parseISO, addDays, startOfISOWeek, endOfISOWeek, isWeekend } from "date-fns";
+import { storage } from "./storage";
+import type { BookingPolicies, BookingViolation, BookingViolationCode, Closure, TimeSlot } from "@shared/schema";
+
+const POLICY_VIOLATION_CODES: BookingViolationCode[] = [
+  "PAST_DATE",
+  "BEYOND_ADVANCE_WINDOW",
+  "WEEKEND",
+  "HOLIDAY",
+  "OFFICE_CLOSED",
+  "WEEKLY_QUOTA_EXCEEDED",
+  "SLOT_SEAT_LIMIT_EXCEEDED",
+];
+
+export interface PolicyRequest {
+  seatId?: string | null;
+  date: string;
+  slot: TimeSlot;
+}
+
+export interface PolicyCheckResult<T extends PolicyRequest> {
+  allowed: T[];
+  violations: BookingViolation[];
+}
+
+export function isPolicyViolation(violation: BookingViolation): boolean {
+  return POLICY_VIOLATION_CODES.includes(violation.code);
+}
+
+// 422 when a configured rule refused the request, 409 when the seat or slot itself was unavailable
+export function getViolationStatus(violations: BookingViolation[]): 409 | 422 {
+  return violations.some(isPolicyViolation) ? 422 : 409;
+}
+
+function toWeekKey(date: string): string {
+  return format(startOfISOWeek(parseISO(date)), "yyyy-MM-dd");
+}
+
+// The closure, if any, that shuts the office for this date and slot
+export function findClosure(closures: Closure[], date: string, slot: TimeSlot): Closure | undefined {
+  return closures.find(c =>
+    c.startDate <= date && c.endDate >= date && (c.slot === null || c.slot === slot)
+  );
+}
+
+// Rules that depend only on the requested date and slot
+function checkDate(
+  policies: BookingPolicies,
+  closures: Closure[],
+  date: string,
+  slot: TimeSlot,
+  now: Date
+): Omit<BookingViolation, "seatId" | "slot"> | null {
+  const today = format(now, "yyyy-MM-dd");
+
+  if (policies.blockPastDates && date < today) {
+    return { code: "PAST_DATE", message: `${date} is in the past`, date };
+  }
+  if (policies.maxDaysInAdvance !== null && date > format(addDays(now, policies.maxDaysInAdvance), "yyyy-MM-dd")) {
+    return {
+      code: "BEYOND_ADVANCE_WINDOW",
+      message: `Bookings can be made at most ${policies.maxDaysInAdvance} days in advance`,
+      date,
+    };
+  }
+  if (policies.excludeWeekends && isWeekend(parseISO(date))) {
+    return { code: "WEEKEND", message: `${date} falls on a weekend`, date };
+  }
+  const closure = findClosure(closures, date, slot);
+  if (closure) {
+    return {
+      code: closure.type === "holiday" ? "HOLIDAY" : "OFFICE_CLOSED",
+      message: `The office is closed on ${date}${closure.slot ? ` ${closure.slot}` : ""} (${closure.name})`,
+      date,
+    };
+  }
+  return null;
+}
+
+// Split requested bookings for a user into those the booking policies allow and the
+// violations for the rest. Quotas count the user's existing active bookings plus the
+// requests allowed so far, so callers should pass requests in the order they prefer.
+export async function checkBookingPolicies<T extends PolicyRequest>(
+  userId: string,
+  requested: T[],
+  now = new Date()
+): Promise<PolicyCheckResult<T>> {
+  const policies = await storage.getBookingPolicies();
+  const allowed: T[] = [];
+  const violations: BookingViolation[] = [];
+  if (requested.length === 0) {
+    return { allowed, violations };
+  }
+
+  const requestedDates = requested.map(r => r.date).sort();
+  const closures = await storage.getClosures({
+    from: requestedDates[0],
+    to: requestedDates[requestedDates.length - 1],
+  });
+
+  const candidates: T[] = [];
+  for (const request of requested) {
+    const violation = checkDate(policies, closures, request.date, request.slot, now);
+    if (violation) {
+      violations.push({ ...violation, seatId: request.seatId ?? undefined, slot: request.slot });
+    } else {
+      candidates.push(request);
+    }
+  }
+
+  const { maxBookingsPerWeek, maxSeatsPerSlot } = policies;
+  if (candidates.length === 0 || (maxBookingsPerWeek === null && maxSeatsPerSlot === null)) {
+    return { allowed: candidates, violations };
+  }
+
+  const dates = candidates.map(c => c.date).sort();
+  const existing = await storage.getActiveBookingsByUserInRange(
+    userId,
+    format(startOfISOWeek(parseISO(dates[0])), "yyyy-MM-dd"),
+    format(endOfISOWeek(parseISO(dates[dates.length - 1])), "yyyy-MM-dd")
+  );
+
+  const perWeek = new Map<string, number>();
+  const perSlot = new Map<string, number>();
+  const count = (date: string, slot: TimeSlot) => {
+    const week = toWeekKey(date);
+    perWeek.set(week, (perWeek.get(week) ?? 0) + 1);
+    perSlot.set(`${date}|${slot}`, (perSlot.get(`${date}|${slot}`) ?? 0) + 1);
+  };
+  existing.forEach(b => count(b.date, b.slot));
+
+  for (const request of candidates) {
+    const base = { seatId: request.seatId ?? undefined, date: request.date, slot: request.slot };
+
+    if (maxBookingsPerWeek !== null && (perWeek.get(toWeekKey(request.date)) ?? 0) >= maxBookingsPerWeek) {
+      violations.push({
+        ...base,
+        code: "WEEKLY_QUOTA_EXCEEDED",
+        message: `Weekly limit of ${maxBookingsPerWeek} booking(s) reached for the week of ${toWeekKey(request.date)}`,
+      });
+      continue;
+    }
+    if (maxSeatsPerSlot !== null && (perSlot.get(`${request.date}|${request.slot}`) ?? 0) >= maxSeatsPerSlot) {
+      violations.push({
+        ...base,
+        code: "SLOT_SEAT_LIMIT_EXCEEDED",
+        message: `At most ${maxSeatsPerSlot} seat(s) per person on ${request.date} ${request.slot}`,
+      });
+      continue;
+    }
+
+    count(request.date, request.slot);
+    allowed.push(request);
+  }
+
+  return { allowed, violations };
+}
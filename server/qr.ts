@@ -0,0 +1,47 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import type { Seat } from "@shared/schema";
+
+const QR_SECRET = process.env.QR_SECRET || process.env.SESSION_SECRET || "hotdesk-qr-secret-key";
+
+// Short HMAC so printed codes stay scannable; it only needs to stop guessing seat links.
+// Codes are keyed by seat id because seat names are only unique within a floor.
+export function signSeatId(seatId: string): string {
+  return crypto
+    .createHmac("sha256", QR_SECRET)
+    .update(`seat:${seatId}`)
+    .digest("base64url")
+    .slice(0, 16);
+}
+
+export function verifySeatSignature(seatId: string, signature: string): boolean {
+  const expected = Buffer.from(signSeatId(seatId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function getSeatPath(seatId: string): string {
+  return `/seat/${encodeURIComponent(seatId)}?sig=${signSeatId(seatId)}`;
+}
+
+export interface SeatQrCode {
+  seatId: string;
+  name: string;
+  floor: string | null;
+  clusterGroup: string | null;
+  url: string;
+  svg: string;
+}
+
+export async function buildSeatQrCode(seat: Seat, baseUrl: string, floor: string | null = null): Promise<SeatQrCode> {
+  const url = `${baseUrl}${getSeatPath(seat.id)}`;
+  const svg = await QRCode.toString(url, { type: "svg", margin: 1, errorCorrectionLevel: "M" });
+  return {
+    seatId: seat.id,
+    name: seat.name,
+    floor,
+    clusterGroup: seat.clusterGroup,
+    url,
+    svg,
+  };
+}
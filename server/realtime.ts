@@ -0,0 +1,61 @@
+import type { Request, Response } from "express";
+import type { RealtimeEvent, RealtimeTopic } from "@shared/schema";
+
+// Comments keep idle connections open through proxies that drop silent ones
+const HEARTBEAT_MS = 25_000;
+// How long a client waits before reconnecting after the stream drops
+const RETRY_MS = 5_000;
+
+const clients = new Set<Response>();
+let heartbeat: NodeJS.Timeout | null = null;
+let pending = new Set<RealtimeTopic>();
+let flushScheduled = false;
+
+function send(res: Response, chunk: string) {
+  try {
+    res.write(chunk);
+  } catch (error) {
+    console.error("Error writing to event stream:", error);
+    clients.delete(res);
+  }
+}
+
+// Keep a Server-Sent Events stream open for one signed-in client
+export function subscribeToChanges(_req: Request, res: Response): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+  clients.add(res);
+
+  if (!heartbeat) {
+    heartbeat = setInterval(() => clients.forEach(client => send(client, ": ping\n\n")), HEARTBEAT_MS);
+  }
+
+  res.on("close", () => {
+    clients.delete(res);
+    if (clients.size === 0 && heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  });
+}
+
+// Tell every connected client that data under these topics changed. Changes made in the same tick,
+// such as each booking of a bulk insert, go out as one event.
+export function publishChange(...topics: RealtimeTopic[]): void {
+  topics.forEach(topic => pending.add(topic));
+  if (flushScheduled) return;
+  flushScheduled = true;
+  setImmediate(() => {
+    const event: RealtimeEvent = { topics: Array.from(pending) };
+    pending = new Set();
+    flushScheduled = false;
+    if (clients.size === 0) return;
+    const chunk = `event: change\ndata: ${JSON.stringify(event)}\n\n`;
+    clients.forEach(client => send(client, chunk));
+  });
+}
@@ -0,0 +1,47 @@
+import { addDays, format } from "date-fns";
+import { storage } from "./storage";
+import { bookingReminderEmail } from "./mail";
+import { describeBookings, emailUsers, groupByUser } from "./notifications";
+
+// Local time of day, as HH:mm, after which reminders go out for the next day's bookings
+const REMINDER_TIME = process.env.BOOKING_REMINDER_TIME || "16:00";
+const REMINDER_INTERVAL_MS = 15 * 60 * 1000;
+
+// Email everyone booked tomorrow once, after the reminder time. Bookings made after it
+// are left alone: the confirmation went out moments ago. Returns how many emails were sent.
+export async function sendBookingReminders(now = new Date()): Promise<number> {
+  const today = format(now, "yyyy-MM-dd");
+  const reminderTime = new Date(`${today}T${REMINDER_TIME}:00`);
+  if (now < reminderTime) return 0;
+
+  const tomorrow = format(addDays(now, 1), "yyyy-MM-dd");
+  const due = (await storage.getBookingsNeedingReminder(tomorrow))
+    .filter(booking => !booking.createdAt || new Date(booking.createdAt) < reminderTime);
+  if (due.length === 0) return 0;
+
+  const lines = await describeBookings(due);
+  const sent = await emailUsers(
+    "emailReminders",
+    Array.from(groupByUser(due).entries()).map(([userId, userBookings]) => ({
+      userId,
+      build: (firstName) => bookingReminderEmail(firstName, userBookings.map(b => lines.get(b.id)!)),
+    }))
+  );
+  // Marked even for people who opted out, so they aren't reconsidered every run
+  await storage.markRemindersSent(due.map(b => b.id));
+  return sent;
+}
+
+export function startReminderSender(): NodeJS.Timeout {
+  return setInterval(() => {
+    sendBookingReminders()
+      .then((sent) => {
+        if (sent > 0) {
+          console.log(`Sent ${sent} booking reminder(s)`);
+        }
+      })
+      .catch((error) => {
+        console.error("Error sending booking reminders:", error);
+      });
+  }, REMINDER_INTERVAL_MS);
+}
@@ -1,19 +1,107 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { registerAuthRoutes, isAuthenticated } from "./auth";
+import { storage, BookingConflictError, LayoutRevisionError, LayoutValidationError } from "./storage";
+import { materialiseSeries, isSeriesOccurrence, toDateString } from "./series";
+import { releaseToWaitlist, claimWaitlistOffer, offerFreedSlot } from "./waitlist";
+import { getCurrentSlot } from "./check-in";
+import { buildSeatQrCode, verifySeatSignature } from "./qr";
+import { checkBookingPolicies, getViolationStatus } from "./policies";
+import { applyClosure } from "./closures";
+import { clearDeactivatedUser } from "./deactivation";
+import { parseIcsEvents } from "./ics";
+import { buildBookingCalendar, getCalendarFeedPath, getOrCreateCalendarToken, regenerateCalendarToken } from "./calendar";
+import { diffLayouts, getLiveSnapshot, notifyFlaggedBookings, publishLayout } from "./layout-revisions";
+import { importLayout, toLayoutDocument } from "./layout-transfer";
+import { notifyBookingCancelledByAdmin, notifySeatUnavailable, notifyUsers, sendBookingConfirmations } from "./notifications";
+import {
+  getAnalyticsSummary,
+  getOccupancyTrend,
+  getWeekdayDemand,
+  getClusterUtilisation,
+  getSeatUtilisation,
+  getMonitorDemand,
+  getLeadTimeDistribution,
+} from "./analytics";
+import { subscribeToChanges } from "./realtime";
+import {
+  emitSeatWebhook,
+  emitWebhookEvent,
+  emitWebhookEvents,
+  generateWebhookSecret,
+  redeliver,
+  sendTestDelivery,
+  WEBHOOK_DELIVERY_LOG_SIZE,
+} from "./webhooks";
+import { registerAuthRoutes, isAuthenticated, revokeUserSessions } from "./auth";
+import { getAppUrl } from "./app-url";
 import { 
   insertBookingSchema, 
   bulkBookingSchema, 
+  bookingFilterSchema,
+  analyticsQuerySchema,
   updateSeatSchema, 
   blockSeatSchema, 
   longTermReservationSchema,
   createSeatSchema,
   updateUserRoleSchema,
+  updateUserStatusSchema,
   createClusterSchema,
-  updateClusterSchema
+  updateClusterSchema,
+  createBookingSeriesSchema,
+  skipSeriesOccurrenceSchema,
+  endBookingSeriesSchema,
+  joinWaitlistSchema,
+  seatScanSchema,
+  updateBookingPoliciesSchema,
+  createClosureSchema,
+  importClosuresSchema,
+  createSiteSchema,
+  updateSiteSchema,
+  createFloorSchema,
+  updateFloorSchema,
+  updateUserPreferencesSchema,
+  saveLayoutSchema,
+  saveLayoutDraftSchema,
+  publishLayoutDraftSchema,
+  reassignBookingSchema,
+  saveFloorBackgroundSchema,
+  importLayoutSchema,
+  createWebhookSchema,
+  updateWebhookSchema,
+  type BookingViolation,
+  type LayoutSnapshot,
+  type InsertSeat,
+  type SiteWithFloors
 } from "@shared/schema";
 import { z } from "zod";
+import { addDays, format, parseISO } from "date-fns";
+
+// Name and email stored alongside bookings made on a user's behalf
+async function getBookingUserDetails(userId: string) {
+  const user = await storage.getUser(userId);
+  return {
+    userName: user?.firstName
+      ? `${user.firstName}${user.lastName ? ` ${user.lastName}` : ""}`
+      : null,
+    userEmail: user?.email || null,
+  };
+}
+
+// "Site · Floor" labels keyed by floor id, for showing where a seat is outside the floor plan
+async function getFloorLabels(): Promise<Map<string, string>> {
+  const [sitesList, floorsList] = await Promise.all([storage.getAllSites(), storage.getAllFloors()]);
+  const siteNames = new Map(sitesList.map(site => [site.id, site.name]));
+  return new Map(floorsList.map(floor => [
+    floor.id,
+    siteNames.has(floor.siteId) ? `${siteNames.get(floor.siteId)} · ${floor.name}` : floor.name,
+  ]));
+}
+
+// A floor addressed through its site's URL; undefined if either is missing or they don't belong together
+async function getSiteFloor(siteId: string, floorId: string) {
+  const floor = await storage.getFloor(floorId);
+  return floor?.siteId === siteId ? floor : undefined;
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -22,6 +110,9 @@ export async function registerRoutes(
   // Register auth routes (email/password with JWT)
   registerAuthRoutes(app);
 
+  // Stream change events so open pages refetch bookings, seats and clusters as they change
+  app.get("/api/events", isAuthenticated, subscribeToChanges);
+
   // Get user role
   app.get("/api/user/role", isAuthenticated, async (req: any, res) => {
     try {
@@ -40,6 +131,316 @@ export async function registerRoutes(
     }
   });
 
+  // Get the current user's preferences
+  app.get("/api/user/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const prefs = await storage.getUserPreferences(userId);
+      res.json(prefs ?? {
+        userId,
+        defaultFloorId: null,
+        emailConfirmations: true,
+        emailBookingChanges: true,
+        emailReminders: true,
+      });
+    } catch (error) {
+      console.error("Error fetching user preferences:", error);
+      res.status(500).json({ message: "Failed to fetch preferences" });
+    }
+  });
+
+  // Update the current user's preferences
+  app.patch("/api/user/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const updates = updateUserPreferencesSchema.parse(req.body);
+
+      if (updates.defaultFloorId && !(await storage.getFloor(updates.defaultFloorId))) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+
+      const prefs = await storage.updateUserPreferences(req.user.userId, updates);
+      res.json(prefs);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid preferences", errors: error.errors });
+      }
+      console.error("Error updating user preferences:", error);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
+  // The current user's calendar subscription URL; the secret token in it is created on first use
+  app.get("/api/calendar/my", isAuthenticated, async (req: any, res) => {
+    try {
+      const token = await getOrCreateCalendarToken(req.user.userId);
+      res.json({ url: `${getAppUrl()}${getCalendarFeedPath(token)}` });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  // Replace the calendar token, so anyone holding the old URL stops receiving bookings
+  app.post("/api/calendar/my/regenerate", isAuthenticated, async (req: any, res) => {
+    try {
+      const token = await regenerateCalendarToken(req.user.userId);
+      res.json({ url: `${getAppUrl()}${getCalendarFeedPath(token)}` });
+    } catch (error) {
+      console.error("Error regenerating calendar feed:", error);
+      res.status(500).json({ message: "Failed to regenerate calendar feed" });
+    }
+  });
+
+  // iCalendar feed of a user's bookings. Calendar apps can't sign in, so the token in the URL is the credential.
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const userId = await storage.getUserIdByCalendarToken(req.params.token);
+      const userRole = userId ? await storage.getUserRole(userId) : undefined;
+      if (!userId || userRole?.isActive === false) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "private, no-cache");
+      res.send(await buildBookingCalendar(userId));
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
+  // ==================== SITES & FLOORS API ====================
+
+  // Get all sites with their floors
+  app.get("/api/sites", isAuthenticated, async (req, res) => {
+    try {
+      const [sitesList, floorsList] = await Promise.all([storage.getAllSites(), storage.getAllFloors()]);
+      const result: SiteWithFloors[] = sitesList.map(site => ({
+        ...site,
+        floors: floorsList.filter(floor => floor.siteId === site.id),
+      }));
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching sites:", error);
+      res.status(500).json({ message: "Failed to fetch sites" });
+    }
+  });
+
+  // Create site (admin only)
+  app.post("/api/sites", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const siteData = createSiteSchema.parse(req.body);
+      const site = await storage.createSite(siteData);
+      res.status(201).json(site);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid site data", errors: error.errors });
+      }
+      console.error("Error creating site:", error);
+      res.status(500).json({ message: "Failed to create site" });
+    }
+  });
+
+  // Update site (admin only)
+  app.patch("/api/sites/:siteId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const updates = updateSiteSchema.parse(req.body);
+      const site = await storage.updateSite(req.params.siteId, updates);
+      if (!site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json(site);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid site data", errors: error.errors });
+      }
+      console.error("Error updating site:", error);
+      res.status(500).json({ message: "Failed to update site" });
+    }
+  });
+
+  // Delete site (admin only); refused while any of its floors still has seats
+  app.delete("/api/sites/:siteId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const site = await storage.getSite(req.params.siteId);
+      if (!site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+
+      const siteFloors = await storage.getFloorsBySite(site.id);
+      const allFloors = await storage.getAllFloors();
+      if (siteFloors.length > 0 && siteFloors.length === allFloors.length) {
+        return res.status(409).json({ message: "At least one floor must remain" });
+      }
+      for (const floor of siteFloors) {
+        if ((await storage.countSeatsOnFloor(floor.id)) > 0) {
+          return res.status(409).json({
+            message: `${floor.name} still has seats, or removed seats that keep booking history, so this site can't be deleted`,
+          });
+        }
+      }
+
+      await storage.deleteSite(site.id);
+      res.json({ message: "Site deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting site:", error);
+      res.status(500).json({ message: "Failed to delete site" });
+    }
+  });
+
+  // Get floors of a site
+  app.get("/api/sites/:siteId/floors", isAuthenticated, async (req, res) => {
+    try {
+      const site = await storage.getSite(req.params.siteId as string);
+      if (!site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json(await storage.getFloorsBySite(site.id));
+    } catch (error) {
+      console.error("Error fetching floors:", error);
+      res.status(500).json({ message: "Failed to fetch floors" });
+    }
+  });
+
+  // Create floor (admin only)
+  app.post("/api/sites/:siteId/floors", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const site = await storage.getSite(req.params.siteId);
+      if (!site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+
+      const floorData = createFloorSchema.parse(req.body);
+      const floor = await storage.createFloor({ ...floorData, siteId: site.id });
+      res.status(201).json(floor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid floor data", errors: error.errors });
+      }
+      console.error("Error creating floor:", error);
+      res.status(500).json({ message: "Failed to create floor" });
+    }
+  });
+
+  // Update floor (admin only)
+  app.patch("/api/sites/:siteId/floors/:floorId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const floor = await getSiteFloor(req.params.siteId, req.params.floorId);
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+
+      const updates = updateFloorSchema.parse(req.body);
+      const updated = await storage.updateFloor(floor.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid floor data", errors: error.errors });
+      }
+      console.error("Error updating floor:", error);
+      res.status(500).json({ message: "Failed to update floor" });
+    }
+  });
+
+  // Delete floor (admin only); refused while it still has seats so bookings are never dropped silently
+  app.delete("/api/sites/:siteId/floors/:floorId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const floor = await getSiteFloor(req.params.siteId, req.params.floorId);
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+
+      if ((await storage.getAllFloors()).length === 1) {
+        return res.status(409).json({ message: "At least one floor must remain" });
+      }
+      // Removed seats count too: they hold the floor's booking history
+      if ((await storage.countSeatsOnFloor(floor.id)) > 0) {
+        return res.status(409).json({
+          message: "This floor still has seats, or removed seats that keep booking history, so it can't be deleted",
+        });
+      }
+
+      await storage.deleteFloor(floor.id);
+      res.json({ message: "Floor deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting floor:", error);
+      res.status(500).json({ message: "Failed to delete floor" });
+    }
+  });
+
+  // Get seats on a floor
+  app.get("/api/sites/:siteId/floors/:floorId/seats", isAuthenticated, async (req, res) => {
+    try {
+      const floor = await getSiteFloor(req.params.siteId as string, req.params.floorId as string);
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+      res.json(await storage.getSeatsByFloor(floor.id));
+    } catch (error) {
+      console.error("Error fetching floor seats:", error);
+      res.status(500).json({ message: "Failed to fetch seats" });
+    }
+  });
+
+  // Get clusters on a floor
+  app.get("/api/sites/:siteId/floors/:floorId/clusters", isAuthenticated, async (req, res) => {
+    try {
+      const floor = await getSiteFloor(req.params.siteId as string, req.params.floorId as string);
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+      res.json(await storage.getClustersByFloor(floor.id));
+    } catch (error) {
+      console.error("Error fetching floor clusters:", error);
+      res.status(500).json({ message: "Failed to fetch clusters" });
+    }
+  });
+
+  // Get active bookings on a floor, optionally for a single date (?date=YYYY-MM-DD)
+  app.get("/api/sites/:siteId/floors/:floorId/bookings", isAuthenticated, async (req, res) => {
+    try {
+      const floor = await getSiteFloor(req.params.siteId as string, req.params.floorId as string);
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+      const date = typeof req.query.date === "string" ? req.query.date : undefined;
+      res.json(await storage.getBookingsByFloor(floor.id, date));
+    } catch (error) {
+      console.error("Error fetching floor bookings:", error);
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
   // ==================== SEATS API ====================
 
   // Get all seats
@@ -53,6 +454,81 @@ export async function registerRoutes(
     }
   });
 
+  // Printable QR codes for every seat (admin only)
+  app.get("/api/seats/qr-codes", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const baseUrl = getAppUrl();
+      const floorId = typeof req.query.floorId === "string" ? req.query.floorId : undefined;
+      const seatsList = floorId ? await storage.getSeatsByFloor(floorId) : await storage.getAllSeats();
+      const floorLabels = await getFloorLabels();
+      const codes = await Promise.all(seatsList.map((seat) =>
+        buildSeatQrCode(seat, baseUrl, seat.floorId ? floorLabels.get(seat.floorId) ?? null : null)
+      ));
+      res.json(codes);
+    } catch (error) {
+      console.error("Error generating seat QR codes:", error);
+      res.status(500).json({ message: "Failed to generate QR codes" });
+    }
+  });
+
+  // Scanned seat QR code: check in to the user's booking there, or report whether it can be booked now
+  app.post("/api/seats/scan", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { seatId, sig } = seatScanSchema.parse(req.body);
+
+      if (!verifySeatSignature(seatId, sig)) {
+        return res.status(403).json({ message: "Invalid seat code" });
+      }
+
+      // Codes printed before floors existed carry the seat name, which lives on the default floor
+      let seat = await storage.getSeat(seatId);
+      if (!seat) {
+        const defaultFloor = await storage.getDefaultFloor();
+        seat = defaultFloor ? await storage.getSeatByName(defaultFloor.id, seatId) : undefined;
+      }
+      if (!seat) {
+        return res.status(404).json({ message: "Seat not found" });
+      }
+      const location = seat.floorId ? (await getFloorLabels()).get(seat.floorId) ?? null : null;
+
+      const now = new Date();
+      const date = toDateString(now);
+      const slot = getCurrentSlot(now);
+      const seatBookings = await storage.getBookingsBySeatAndDate(seat.id, date);
+
+      const myBookings = seatBookings.filter((b) => b.userId === userId);
+      if (myBookings.length > 0) {
+        const booking = myBookings.find((b) => b.slot === slot) ?? myBookings[0];
+        const checkedIn = booking.checkedInAt ? [booking] : await storage.checkInBooking(booking);
+        return res.json({ location, action: "checked_in", seat, date, slot: booking.slot, bookings: checkedIn });
+      }
+
+      if (seat.isBlocked) {
+        return res.json({ location, action: "unavailable", seat, date, slot, reason: "Seat is blocked" });
+      }
+      if (seat.isLongTermReserved) {
+        return res.json({ location, action: "unavailable", seat, date, slot, reason: "Seat is reserved for long-term use" });
+      }
+      if (seatBookings.some((b) => b.slot === slot)) {
+        return res.json({ location, action: "unavailable", seat, date, slot, reason: `Seat is already booked for ${slot}` });
+      }
+
+      res.json({ location, action: "available", seat, date, slot });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error scanning seat:", error);
+      res.status(500).json({ message: "Failed to process seat code" });
+    }
+  });
+
   // Get single seat
   app.get("/api/seats/:id", async (req, res) => {
     try {
@@ -80,10 +556,37 @@ export async function registerRoutes(
       // Validate request body
       const validatedData = updateSeatSchema.parse(req.body);
 
-      const seat = await storage.updateSeat(req.params.id, validatedData);
-      if (!seat) {
+      const existing = await storage.getSeat(req.params.id);
+      if (!existing) {
         return res.status(404).json({ message: "Seat not found" });
       }
+
+      // Seats follow their cluster onto its floor
+      const updates: Partial<InsertSeat> = { ...validatedData };
+      if (validatedData.clusterGroup) {
+        const cluster = await storage.getCluster(validatedData.clusterGroup);
+        if (cluster?.floorId) updates.floorId = cluster.floorId;
+      }
+
+      const floorId = updates.floorId ?? existing.floorId;
+      const name = updates.name ?? existing.name;
+      if (floorId && (name !== existing.name || floorId !== existing.floorId)) {
+        const clash = await storage.getSeatByName(floorId, name);
+        if (clash && clash.id !== existing.id) {
+          return res.status(409).json({ message: "A seat with this name already exists on this floor" });
+        }
+      }
+
+      const seat = await storage.updateSeat(req.params.id, updates);
+      await storage.bumpLayoutRevision(existing.floorId);
+      if (seat?.floorId !== existing.floorId) await storage.bumpLayoutRevision(seat?.floorId ?? null);
+      // Emails go out in the background so a slow mail server doesn't hold up the response
+      if (seat?.isBlocked && !existing.isBlocked) {
+        void notifySeatUnavailable(seat, "blocked", toDateString(new Date()));
+      } else if (seat?.isLongTermReserved && !existing.isLongTermReserved) {
+        void notifySeatUnavailable(seat, "reserved", toDateString(new Date()));
+      }
+      if (seat) void emitSeatWebhook(existing, seat);
       res.json(seat);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -106,11 +609,16 @@ export async function registerRoutes(
 
       // Validate request body
       const { isBlocked } = blockSeatSchema.parse(req.body);
-      
-      const seat = await storage.updateSeat(req.params.id, { isBlocked });
-      if (!seat) {
+
+      const existing = await storage.getSeat(req.params.id);
+      const seat = existing ? await storage.updateSeat(existing.id, { isBlocked }) : undefined;
+      if (!existing || !seat) {
         return res.status(404).json({ message: "Seat not found" });
       }
+      if (isBlocked && !existing.isBlocked) {
+        void notifySeatUnavailable(seat, "blocked", toDateString(new Date()));
+      }
+      void emitSeatWebhook(existing, seat);
       res.json(seat);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -139,12 +647,24 @@ export async function registerRoutes(
         return res.status(409).json({ message: "Seat with this ID already exists" });
       }
       
-      const existingByName = await storage.getSeatByName(seatData.name);
+      // Seats land on the requested floor, else their cluster's floor, else the default floor
+      const cluster = seatData.clusterGroup ? await storage.getCluster(seatData.clusterGroup) : undefined;
+      const floor = seatData.floorId
+        ? await storage.getFloor(seatData.floorId)
+        : cluster?.floorId
+          ? await storage.getFloor(cluster.floorId)
+          : await storage.getDefaultFloor();
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+      
+      const existingByName = await storage.getSeatByName(floor.id, seatData.name);
       if (existingByName) {
-        return res.status(409).json({ message: "Seat with this name already exists" });
+        return res.status(409).json({ message: "A seat with this name already exists on this floor" });
       }
 
-      const seat = await storage.createSeat(seatData);
+      const seat = await storage.createSeat({ ...seatData, floorId: floor.id });
+      await storage.bumpLayoutRevision(floor.id);
       res.status(201).json(seat);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -155,7 +675,7 @@ export async function registerRoutes(
     }
   });
 
-  // Delete seat (admin only)
+  // Remove a seat (admin only); it is archived so its bookings survive, and upcoming ones go to the reassignment queue
   app.delete("/api/seats/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId;
@@ -170,8 +690,10 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Seat not found" });
       }
 
-      await storage.deleteSeat(req.params.id);
-      res.json({ message: "Seat deleted successfully" });
+      const flagged = await storage.archiveSeat(seat.id, format(new Date(), "yyyy-MM-dd"));
+      await storage.bumpLayoutRevision(seat.floorId);
+      await notifyFlaggedBookings(flagged);
+      res.json({ message: "Seat removed", needsReassignment: flagged.length });
     } catch (error) {
       console.error("Error deleting seat:", error);
       res.status(500).json({ message: "Failed to delete seat" });
@@ -190,14 +712,21 @@ export async function registerRoutes(
 
       // Validate request body
       const { isLongTermReserved, longTermReservedBy } = longTermReservationSchema.parse(req.body);
-      
-      const seat = await storage.updateSeat(req.params.id, { 
-        isLongTermReserved, 
-        longTermReservedBy: isLongTermReserved ? longTermReservedBy : null 
-      });
-      if (!seat) {
+
+      const existing = await storage.getSeat(req.params.id);
+      const seat = existing
+        ? await storage.updateSeat(existing.id, {
+            isLongTermReserved,
+            longTermReservedBy: isLongTermReserved ? longTermReservedBy : null,
+          })
+        : undefined;
+      if (!existing || !seat) {
         return res.status(404).json({ message: "Seat not found" });
       }
+      if (isLongTermReserved && !existing.isLongTermReserved) {
+        void notifySeatUnavailable(seat, "reserved", toDateString(new Date()));
+      }
+      void emitSeatWebhook(existing, seat);
       res.json(seat);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -253,7 +782,15 @@ export async function registerRoutes(
         return res.status(409).json({ message: "Cluster with this ID already exists" });
       }
 
-      const cluster = await storage.createCluster(clusterData);
+      const floor = clusterData.floorId
+        ? await storage.getFloor(clusterData.floorId)
+        : await storage.getDefaultFloor();
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+
+      const cluster = await storage.createCluster({ ...clusterData, floorId: floor.id });
+      await storage.bumpLayoutRevision(floor.id);
       res.status(201).json(cluster);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -280,6 +817,7 @@ export async function registerRoutes(
       if (!cluster) {
         return res.status(404).json({ message: "Cluster not found" });
       }
+      await storage.bumpLayoutRevision(cluster.floorId);
       res.json(cluster);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -314,6 +852,7 @@ export async function registerRoutes(
       }
 
       await storage.deleteCluster(req.params.id);
+      await storage.bumpLayoutRevision(cluster.floorId);
       res.json({ message: "Cluster deleted successfully" });
     } catch (error) {
       console.error("Error deleting cluster:", error);
@@ -321,197 +860,1255 @@ export async function registerRoutes(
     }
   });
 
-  // ==================== BOOKINGS API ====================
+  // ==================== LAYOUT API ====================
 
-  // Get all bookings
-  app.get("/api/bookings", isAuthenticated, async (req, res) => {
+  // Download a floor's live layout as a portable JSON document (admin only).
+  // Registered before /api/layout/:floorId so "export" isn't taken for a floor id.
+  app.get("/api/layout/export", isAuthenticated, async (req: any, res) => {
     try {
-      const bookings = await storage.getAllBookings();
-      res.json(bookings);
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const floorId = req.query.floorId as string | undefined;
+      const floor = floorId ? await storage.getFloor(floorId) : await storage.getDefaultFloor();
+      const layout = floor ? await storage.getFloorLayout(floor.id) : undefined;
+      if (!floor || !layout) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+
+      const filename = `layout-${floor.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.json`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.json(toLayoutDocument(floor, layout));
     } catch (error) {
-      console.error("Error fetching bookings:", error);
-      res.status(500).json({ message: "Failed to fetch bookings" });
+      console.error("Error exporting layout:", error);
+      res.status(500).json({ message: "Failed to export layout" });
     }
   });
 
-  // Get user's own bookings
-  app.get("/api/bookings/my", isAuthenticated, async (req: any, res) => {
+  // Replace a floor's layout with a layout document, or add and update seats from a CSV (admin only).
+  // With dryRun the changes are only reported; otherwise they are published as a new revision.
+  app.post("/api/layout/import", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.userId;
-      const bookings = await storage.getBookingsByUser(userId);
-      res.json(bookings);
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const data = importLayoutSchema.parse(req.body);
+      const result = await importLayout(data.floorId, data, req.user.userId);
+      if (!result) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching user bookings:", error);
-      res.status(500).json({ message: "Failed to fetch bookings" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid layout import", errors: error.errors });
+      }
+      if (error instanceof LayoutValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof LayoutRevisionError) {
+        return res.status(409).json({ message: "The layout changed during the import; try again" });
+      }
+      console.error("Error importing layout:", error);
+      res.status(500).json({ message: "Failed to import layout" });
     }
   });
 
-  // Get bookings by date
-  app.get("/api/bookings/date/:date", isAuthenticated, async (req, res) => {
+  // Get a floor's clusters and seats together with the revision to save against
+  app.get("/api/layout/:floorId", isAuthenticated, async (req, res) => {
     try {
-      const date = req.params.date as string;
-      const bookings = await storage.getBookingsByDate(date);
-      res.json(bookings);
+      const layout = await storage.getFloorLayout(req.params.floorId as string);
+      if (!layout) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+      res.json(layout);
     } catch (error) {
-      console.error("Error fetching bookings by date:", error);
-      res.status(500).json({ message: "Failed to fetch bookings" });
+      console.error("Error fetching layout:", error);
+      res.status(500).json({ message: "Failed to fetch layout" });
     }
   });
 
-  // Create single booking
-  app.post("/api/bookings", isAuthenticated, async (req: any, res) => {
+  // Replace a floor's whole layout right away (admin only); stale revisions get 409
+  app.put("/api/layout", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.userId;
-      const userClaims = req.user.claims;
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
 
-      const bookingData = insertBookingSchema.parse({
-        ...req.body,
-        userId,
-        userName: userClaims.first_name 
-          ? `${userClaims.first_name}${userClaims.last_name ? ` ${userClaims.last_name}` : ""}`
-          : null,
-        userEmail: userClaims.email || null,
-      });
+      const { floorId, revision, clusters, seats, shapes } = saveLayoutSchema.parse(req.body);
+      const floor = await storage.getFloor(floorId);
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
 
-      // Check if seat is available
-      const existingBookings = await storage.getBookingsBySeatAndDate(bookingData.seatId, bookingData.date);
+      const applied = await publishLayout(floor.id, { clusters, seats, shapes }, {
+        userId: req.user.userId,
+        expectedRevision: revision,
+      });
+      res.json(applied.layout);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid layout", errors: error.errors });
+      }
+      if (error instanceof LayoutValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof LayoutRevisionError) {
+        return res.status(409).json({ message: error.message, currentRevision: error.currentRevision });
+      }
+      console.error("Error saving layout:", error);
+      res.status(500).json({ message: "Failed to save layout" });
+    }
+  });
+
+  // Get the floor plan image drawn under a floor's layout, or null
+  app.get("/api/layout/:floorId/background", isAuthenticated, async (req, res) => {
+    try {
+      const background = await storage.getFloorBackground(req.params.floorId as string);
+      res.json(background ?? null);
+    } catch (error) {
+      console.error("Error fetching floor background:", error);
+      res.status(500).json({ message: "Failed to fetch floor background" });
+    }
+  });
+
+  // Upload a floor plan image or change where it sits (admin only). Unlike shapes, the background
+  // is not part of layout drafts and changes for everyone straight away.
+  app.put("/api/layout/:floorId/background", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const floor = await storage.getFloor(req.params.floorId);
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+
+      const data = saveFloorBackgroundSchema.parse(req.body);
+      const background = await storage.saveFloorBackground(floor.id, data, req.user.userId);
+      if (!background) {
+        return res.status(404).json({ message: "Upload an image before positioning it" });
+      }
+      res.json(background);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid background", errors: error.errors });
+      }
+      console.error("Error saving floor background:", error);
+      res.status(500).json({ message: "Failed to save floor background" });
+    }
+  });
+
+  // Remove a floor's background image (admin only)
+  app.delete("/api/layout/:floorId/background", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const deleted = await storage.deleteFloorBackground(req.params.floorId);
+      if (!deleted) {
+        return res.status(404).json({ message: "This floor has no background" });
+      }
+      res.json({ message: "Background removed" });
+    } catch (error) {
+      console.error("Error removing floor background:", error);
+      res.status(500).json({ message: "Failed to remove floor background" });
+    }
+  });
+
+  // Get a floor's unpublished draft, or null (admin only)
+  app.get("/api/layout/:floorId/draft", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const draft = await storage.getLayoutDraft(req.params.floorId);
+      res.json(draft ?? null);
+    } catch (error) {
+      console.error("Error fetching layout draft:", error);
+      res.status(500).json({ message: "Failed to fetch layout draft" });
+    }
+  });
+
+  // Save the floor's draft; bookings keep using the live layout until it is published (admin only)
+  app.put("/api/layout/:floorId/draft", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const floor = await storage.getFloor(req.params.floorId);
+      if (!floor) {
+        return res.status(404).json({ message: "Floor not found" });
+      }
+
+      const { revision, note, clusters, seats, shapes } = saveLayoutDraftSchema.parse(req.body);
+      const draft = await storage.saveLayoutDraft(floor.id, {
+        snapshot: { clusters, seats, shapes },
+        baseRevision: revision,
+        note,
+        userId: req.user.userId,
+      });
+      res.json(draft);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid layout", errors: error.errors });
+      }
+      console.error("Error saving layout draft:", error);
+      res.status(500).json({ message: "Failed to save layout draft" });
+    }
+  });
+
+  // Discard the floor's draft (admin only)
+  app.delete("/api/layout/:floorId/draft", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const draft = await storage.getLayoutDraft(req.params.floorId);
+      if (!draft) {
+        return res.status(404).json({ message: "No draft for this floor" });
+      }
+
+      await storage.deleteLayoutRevision(draft.id);
+      res.json({ message: "Draft discarded" });
+    } catch (error) {
+      console.error("Error discarding layout draft:", error);
+      res.status(500).json({ message: "Failed to discard layout draft" });
+    }
+  });
+
+  // Publish the floor's draft now, or schedule it for a later effective date (admin only).
+  // Publishing now needs the live layout to be the one the draft was last saved against.
+  app.post("/api/layout/:floorId/draft/publish", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const { effectiveDate, note } = publishLayoutDraftSchema.parse(req.body);
+      const draft = await storage.getLayoutDraft(req.params.floorId);
+      if (!draft) {
+        return res.status(404).json({ message: "No draft for this floor" });
+      }
+
+      const today = toDateString(new Date());
+      if (effectiveDate && effectiveDate < today) {
+        return res.status(400).json({ message: "Effective date can't be in the past" });
+      }
+      if (effectiveDate && effectiveDate > today) {
+        const scheduled = await storage.scheduleLayoutRevision(draft.id, {
+          effectiveDate,
+          userId: req.user.userId,
+          note,
+        });
+        return res.json({ revision: scheduled, flaggedBookings: 0 });
+      }
+
+      const applied = await publishLayout(draft.floorId, draft.snapshot, {
+        userId: req.user.userId,
+        expectedRevision: draft.baseRevision ?? undefined,
+        revisionId: draft.id,
+        note,
+      });
+      res.json({
+        revision: applied.revision,
+        layout: applied.layout,
+        flaggedBookings: applied.flaggedBookings.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid publish data", errors: error.errors });
+      }
+      if (error instanceof LayoutValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof LayoutRevisionError) {
+        return res.status(409).json({
+          message: "The live layout changed since this draft was saved",
+          currentRevision: error.currentRevision,
+        });
+      }
+      console.error("Error publishing layout draft:", error);
+      res.status(500).json({ message: "Failed to publish layout draft" });
+    }
+  });
+
+  // A floor's drafts, scheduled and published revisions, newest first (admin only)
+  app.get("/api/layout/:floorId/revisions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const revisions = await storage.getLayoutRevisions(req.params.floorId);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching layout revisions:", error);
+      res.status(500).json({ message: "Failed to fetch layout revisions" });
+    }
+  });
+
+  // What a revision changes (admin only). Compared against ?against=live or another revision id;
+  // by default drafts and scheduled revisions are compared with the live layout and published
+  // ones with the revision published before them.
+  app.get("/api/layout/revisions/:id/diff", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const revision = await storage.getLayoutRevision(req.params.id);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const against = typeof req.query.against === "string" ? req.query.against : undefined;
+      let base: LayoutSnapshot | undefined;
+      let baseLabel: string;
+      if (against === "live" || (!against && revision.status !== "published")) {
+        base = await getLiveSnapshot(revision.floorId);
+        baseLabel = "Live layout";
+      } else if (against) {
+        const other = await storage.getLayoutRevision(against);
+        if (!other || other.floorId !== revision.floorId) {
+          return res.status(404).json({ message: "Revision to compare against not found" });
+        }
+        base = other.snapshot;
+        baseLabel = `Version ${other.version}`;
+      } else {
+        const previous = (await storage.getLayoutRevisions(revision.floorId)).find(
+          r => r.status === "published" && r.version < revision.version
+        );
+        const previousRevision = previous ? await storage.getLayoutRevision(previous.id) : undefined;
+        base = previousRevision?.snapshot ?? { clusters: [], seats: [] };
+        baseLabel = previousRevision ? `Version ${previousRevision.version}` : "Empty floor";
+      }
+
+      res.json({
+        from: baseLabel,
+        to: `Version ${revision.version}`,
+        diff: diffLayouts(base ?? { clusters: [], seats: [] }, revision.snapshot),
+      });
+    } catch (error) {
+      console.error("Error diffing layout revision:", error);
+      res.status(500).json({ message: "Failed to compare layout revisions" });
+    }
+  });
+
+  // Make an earlier published revision live again, recorded as a new revision (admin only)
+  app.post("/api/layout/revisions/:id/rollback", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const revision = await storage.getLayoutRevision(req.params.id);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      if (revision.status !== "published") {
+        return res.status(409).json({ message: "Only published revisions can be rolled back to" });
+      }
+
+      const applied = await publishLayout(revision.floorId, revision.snapshot, {
+        userId: req.user.userId,
+        note: `Rollback to version ${revision.version}`,
+      });
+      res.json({
+        revision: applied.revision,
+        layout: applied.layout,
+        flaggedBookings: applied.flaggedBookings.length,
+      });
+    } catch (error) {
+      if (error instanceof LayoutValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error rolling back layout:", error);
+      res.status(500).json({ message: "Failed to roll back layout" });
+    }
+  });
+
+  // Cancel a scheduled revision or discard a failed one (admin only); published history can't be deleted
+  app.delete("/api/layout/revisions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const deleted = await storage.deleteLayoutRevision(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "No draft, scheduled or failed revision with this id" });
+      }
+      res.json({ message: "Revision discarded" });
+    } catch (error) {
+      console.error("Error deleting layout revision:", error);
+      res.status(500).json({ message: "Failed to delete layout revision" });
+    }
+  });
+
+  // ==================== BOOKINGS API ====================
+
+  // Get all bookings
+  app.get("/api/bookings", isAuthenticated, async (req: any, res) => {
+    try {
+      const filter = bookingFilterSchema.parse(req.query);
+      // Cancelled bookings are history only admins need
+      if (filter.includeCancelled) {
+        const userRole = await storage.getUserRole(req.user.userId);
+        if (userRole?.role !== "admin") {
+          return res.status(403).json({ message: "Admin access required" });
+        }
+      }
+
+      const page = await storage.getBookings(filter);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid booking filter", errors: error.errors });
+      }
+      console.error("Error fetching bookings:", error);
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
+  // Get user's own bookings
+  app.get("/api/bookings/my", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const bookings = await storage.getBookingsByUser(userId);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Error fetching user bookings:", error);
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
+  // Get bookings by date
+  app.get("/api/bookings/date/:date", isAuthenticated, async (req, res) => {
+    try {
+      const date = req.params.date as string;
+      const bookings = await storage.getBookingsByDate(date);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Error fetching bookings by date:", error);
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
+  // Create single booking
+  app.post("/api/bookings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      const bookingData = insertBookingSchema.parse({
+        ...req.body,
+        userId,
+        ...(await getBookingUserDetails(userId)),
+      });
+
+      // Check if seat is available
+      const existingBookings = await storage.getBookingsBySeatAndDate(bookingData.seatId, bookingData.date);
       const slotTaken = existingBookings.some(b => b.slot === bookingData.slot);
       
       if (slotTaken) {
-        return res.status(409).json({ message: "Slot already booked" });
+        return res.status(409).json({ message: "Slot already booked", code: "SLOT_TAKEN" });
       }
 
       // Check if seat is blocked or long-term reserved
       const seat = await storage.getSeat(bookingData.seatId);
       if (!seat) {
+        return res.status(404).json({ message: "Seat not found", code: "SEAT_NOT_FOUND" });
+      }
+      if (seat.isBlocked) {
+        return res.status(409).json({ message: "Seat is blocked", code: "SEAT_BLOCKED" });
+      }
+      if (seat.isLongTermReserved) {
+        return res.status(409).json({ message: "Seat is reserved for long-term use", code: "SEAT_RESERVED" });
+      }
+
+      const { violations } = await checkBookingPolicies(userId, [bookingData]);
+      if (violations.length > 0) {
+        return res.status(422).json({
+          message: violations[0].message,
+          code: violations[0].code,
+          violations,
+        });
+      }
+
+      const booking = await storage.createBooking(bookingData);
+      void sendBookingConfirmations([booking]);
+      void emitWebhookEvent("booking.created", { booking });
+      res.status(201).json(booking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid booking data", errors: error.errors });
+      }
+      if (error instanceof BookingConflictError) {
+        return res.status(409).json({ message: "Slot already booked", code: "SLOT_TAKEN", conflicts: error.conflicts });
+      }
+      console.error("Error creating booking:", error);
+      res.status(500).json({ message: "Failed to create booking" });
+    }
+  });
+
+  // Bulk booking
+  app.post("/api/bookings/bulk", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      const parsed = bulkBookingSchema.parse(req.body);
+      const seatIds = Array.from(new Set(parsed.seatIds));
+      const dates = Array.from(new Set(parsed.dates));
+      const slots = Array.from(new Set(parsed.slots));
+
+      const { userName, userEmail } = await getBookingUserDetails(userId);
+
+      // Generate all booking combinations
+      const bookingsToCreate: Array<{
+        seatId: string;
+        userId: string;
+        userName: string | null;
+        userEmail: string | null;
+        date: string;
+        slot: "AM" | "PM";
+      }> = [];
+
+      const violations: BookingViolation[] = [];
+
+      for (const seatId of seatIds) {
+        // Check if seat is available
+        const seat = await storage.getSeat(seatId);
+        if (!seat) {
+          violations.push({ code: "SEAT_NOT_FOUND", message: `Seat ${seatId} not found`, seatId });
+          continue;
+        }
+        if (seat.isBlocked) {
+          violations.push({ code: "SEAT_BLOCKED", message: `Seat ${seat.name} is blocked`, seatId });
+          continue;
+        }
+        if (seat.isLongTermReserved) {
+          violations.push({ code: "SEAT_RESERVED", message: `Seat ${seat.name} is reserved for long-term use`, seatId });
+          continue;
+        }
+
+        for (const date of dates) {
+          const existingBookings = await storage.getBookingsBySeatAndDate(seatId, date);
+          
+          for (const slot of slots) {
+            const slotTaken = existingBookings.some(b => b.slot === slot);
+            if (slotTaken) {
+              violations.push({
+                code: "SLOT_TAKEN",
+                message: `${seat.name} on ${date} ${slot} already booked`,
+                seatId,
+                date,
+                slot,
+              });
+              continue;
+            }
+
+            bookingsToCreate.push({
+              seatId,
+              userId,
+              userName,
+              userEmail,
+              date,
+              slot,
+            });
+          }
+        }
+      }
+
+      // Quotas are filled in date order, so the earliest requested days win
+      bookingsToCreate.sort((a, b) => a.date.localeCompare(b.date) || a.slot.localeCompare(b.slot));
+      const policyCheck = await checkBookingPolicies(userId, bookingsToCreate);
+      violations.push(...policyCheck.violations);
+      const conflicts = violations.map(v => v.message);
+
+      if (policyCheck.allowed.length === 0) {
+        return res.status(getViolationStatus(violations)).json({ 
+          message: "No bookings could be created", 
+          conflicts,
+          violations,
+        });
+      }
+
+      const createdBookings = await storage.createBulkBookings(policyCheck.allowed);
+      void sendBookingConfirmations(createdBookings);
+      void emitWebhookEvents("booking.created", createdBookings.map(booking => ({ booking })));
+
+      res.status(201).json({ 
+        bookings: createdBookings,
+        conflicts: conflicts.length > 0 ? conflicts : undefined,
+        violations: violations.length > 0 ? violations : undefined,
+        created: createdBookings.length,
+        failed: conflicts.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid booking data", errors: error.errors });
+      }
+      if (error instanceof BookingConflictError) {
+        return res.status(409).json({ 
+          message: "Some slots were booked by someone else, no bookings were created", 
+          code: "SLOT_TAKEN",
+          conflicts: error.conflicts 
+        });
+      }
+      console.error("Error creating bulk bookings:", error);
+      res.status(500).json({ message: "Failed to create bookings" });
+    }
+  });
+
+  // Check in to a booking for today
+  app.post("/api/bookings/:id/check-in", isAuthenticated, async (req: any, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking || booking.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (booking.cancelledAt) {
+        return res.status(409).json({
+          message: booking.cancellationReason === "no_show"
+            ? "Booking was released because nobody checked in"
+            : "Booking has been cancelled",
+        });
+      }
+      if (booking.date !== toDateString(new Date())) {
+        return res.status(400).json({ message: "You can only check in on the day of your booking" });
+      }
+      if (booking.checkedInAt) {
+        return res.json([booking]);
+      }
+
+      const checkedIn = await storage.checkInBooking(booking);
+      res.json(checkedIn);
+    } catch (error) {
+      console.error("Error checking in:", error);
+      res.status(500).json({ message: "Failed to check in" });
+    }
+  });
+
+  // No-show rate per user (admin only)
+  app.get("/api/bookings/no-show-stats", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const stats = await storage.getNoShowStats(toDateString(new Date()));
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching no-show stats:", error);
+      res.status(500).json({ message: "Failed to fetch no-show stats" });
+    }
+  });
+
+  // Utilisation reports over a date range, for every floor or one (admin only)
+  const analyticsReports = {
+    summary: getAnalyticsSummary,
+    occupancy: getOccupancyTrend,
+    weekdays: getWeekdayDemand,
+    clusters: getClusterUtilisation,
+    seats: getSeatUtilisation,
+    monitors: getMonitorDemand,
+    "lead-time": getLeadTimeDistribution,
+  };
+  for (const [report, buildReport] of Object.entries(analyticsReports)) {
+    app.get(`/api/analytics/${report}`, isAuthenticated, async (req: any, res) => {
+      try {
+        const userRole = await storage.getUserRole(req.user.userId);
+        if (userRole?.role !== "admin") {
+          return res.status(403).json({ message: "Admin access required" });
+        }
+
+        const query = analyticsQuerySchema.parse(req.query);
+        res.json(await buildReport(query));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid analytics query", errors: error.errors });
+        }
+        console.error(`Error building ${report} analytics:`, error);
+        res.status(500).json({ message: "Failed to build analytics" });
+      }
+    });
+  }
+
+  // Upcoming bookings whose seat a layout publish removed (admin only)
+  app.get("/api/bookings/needs-reassignment", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const flagged = await storage.getBookingsNeedingReassignment(toDateString(new Date()));
+      res.json(flagged);
+    } catch (error) {
+      console.error("Error fetching bookings needing reassignment:", error);
+      res.status(500).json({ message: "Failed to fetch bookings needing reassignment" });
+    }
+  });
+
+  // Move a booking to another seat (admin only)
+  app.post("/api/bookings/:id/reassign", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const { seatId } = reassignBookingSchema.parse(req.body);
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking || booking.cancelledAt) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      const seat = await storage.getSeat(seatId);
+      if (!seat) {
+        return res.status(404).json({ message: "Seat not found", code: "SEAT_NOT_FOUND" });
+      }
+      if (seat.isBlocked) {
+        return res.status(409).json({ message: "Seat is blocked", code: "SEAT_BLOCKED" });
+      }
+      if (seat.isLongTermReserved) {
+        return res.status(409).json({ message: "Seat is reserved for long-term use", code: "SEAT_RESERVED" });
+      }
+
+      const reassigned = await storage.reassignBooking(booking.id, seat.id);
+      await notifyUsers([{
+        userId: booking.userId,
+        title: "Your booking was moved",
+        message: `Your booking on ${format(parseISO(booking.date), "EEE, MMM d")} (${booking.slot}) is now at desk ${seat.name}.`,
+      }]);
+      res.json(reassigned);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reassignment data", errors: error.errors });
+      }
+      if (error instanceof BookingConflictError) {
+        return res.status(409).json({ message: "Slot already booked", code: "SLOT_TAKEN", conflicts: error.conflicts });
+      }
+      console.error("Error reassigning booking:", error);
+      res.status(500).json({ message: "Failed to reassign booking" });
+    }
+  });
+
+  // Cancel booking
+  app.delete("/api/bookings/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const booking = await storage.getBooking(req.params.id);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      // Check if user owns the booking or is admin
+      const userRole = await storage.getUserRole(userId);
+      if (booking.userId !== userId && userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Not authorized to cancel this booking" });
+      }
+
+      const cancelled = await storage.cancelBooking(
+        req.params.id,
+        booking.userId === userId ? "user" : "admin"
+      );
+      if (cancelled) {
+        await releaseToWaitlist([cancelled]);
+        if (cancelled.cancellationReason === "admin") void notifyBookingCancelledByAdmin(cancelled);
+        void emitWebhookEvent("booking.cancelled", { booking: cancelled });
+      }
+      // Cancelling again is a no-op that returns the booking as it was
+      res.json(cancelled ?? booking);
+    } catch (error) {
+      console.error("Error cancelling booking:", error);
+      res.status(500).json({ message: "Failed to cancel booking" });
+    }
+  });
+
+  // ==================== BOOKING SERIES API ====================
+
+  // Get user's own booking series
+  app.get("/api/series/my", isAuthenticated, async (req: any, res) => {
+    try {
+      const series = await storage.getBookingSeriesByUser(req.user.userId);
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching booking series:", error);
+      res.status(500).json({ message: "Failed to fetch booking series" });
+    }
+  });
+
+  // Create recurring booking series
+  app.post("/api/series", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const data = createBookingSeriesSchema.parse(req.body);
+
+      const seat = await storage.getSeat(data.seatId);
+      if (!seat) {
+        return res.status(404).json({ message: "Seat not found" });
+      }
+      if (seat.isBlocked) {
+        return res.status(409).json({ message: "Seat is blocked" });
+      }
+      if (seat.isLongTermReserved) {
+        return res.status(409).json({ message: "Seat is reserved for long-term use" });
+      }
+
+      const series = await storage.createBookingSeries({
+        seatId: data.seatId,
+        userId,
+        ...(await getBookingUserDetails(userId)),
+        weekdays: Array.from(new Set(data.weekdays)).sort(),
+        slots: Array.from(new Set(data.slots)),
+        startDate: data.startDate,
+        endDate: data.endDate ?? null,
+      });
+
+      const result = await materialiseSeries(series);
+      const updated = await storage.getBookingSeries(series.id);
+
+      res.status(201).json({
+        series: updated,
+        created: result.created,
+        conflicts: result.conflicts.length > 0 ? result.conflicts : undefined,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid series data", errors: error.errors });
+      }
+      console.error("Error creating booking series:", error);
+      res.status(500).json({ message: "Failed to create booking series" });
+    }
+  });
+
+  // Skip a single occurrence of a series
+  app.post("/api/series/:id/skip", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const series = await storage.getBookingSeries(req.params.id);
+      if (!series) {
+        return res.status(404).json({ message: "Booking series not found" });
+      }
+
+      const userRole = await storage.getUserRole(userId);
+      if (series.userId !== userId && userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Not authorized to modify this series" });
+      }
+
+      const { date } = skipSeriesOccurrenceSchema.parse(req.body);
+      if (!isSeriesOccurrence(series, date)) {
+        return res.status(400).json({ message: "Date is not an occurrence of this series" });
+      }
+
+      const skippedDates = series.skippedDates.includes(date)
+        ? series.skippedDates
+        : [...series.skippedDates, date].sort();
+      const updated = await storage.updateBookingSeries(series.id, { skippedDates });
+      const cancelled = await storage.cancelSeriesBookings(series.id, { from: date, to: date });
+      await releaseToWaitlist(cancelled);
+      void emitWebhookEvents("booking.cancelled", cancelled.map(booking => ({ booking })));
+
+      res.json({ series: updated, cancelled: cancelled.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error skipping series occurrence:", error);
+      res.status(500).json({ message: "Failed to skip occurrence" });
+    }
+  });
+
+  // End a series early, cancelling its bookings after the new end date
+  app.post("/api/series/:id/end", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const series = await storage.getBookingSeries(req.params.id);
+      if (!series) {
+        return res.status(404).json({ message: "Booking series not found" });
+      }
+
+      const userRole = await storage.getUserRole(userId);
+      if (series.userId !== userId && userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Not authorized to modify this series" });
+      }
+
+      const today = toDateString(new Date());
+      const { endDate = today } = endBookingSeriesSchema.parse(req.body ?? {});
+      if (endDate < today) {
+        return res.status(400).json({ message: "End date cannot be in the past" });
+      }
+
+      // Occurrences after the new end date are released; nothing is left to
+      // materialise once the end date is today or before the series starts
+      const updated = await storage.updateBookingSeries(series.id, {
+        endDate,
+        endedAt: endDate <= today || endDate < series.startDate ? new Date() : null,
+      });
+      const cancelled = await storage.cancelSeriesBookings(series.id, {
+        from: toDateString(addDays(parseISO(endDate), 1)),
+      });
+      await releaseToWaitlist(cancelled);
+      void emitWebhookEvents("booking.cancelled", cancelled.map(booking => ({ booking })));
+
+      res.json({ series: updated, cancelled: cancelled.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error ending booking series:", error);
+      res.status(500).json({ message: "Failed to end booking series" });
+    }
+  });
+
+  // ==================== WAITLIST API ====================
+
+  // Get user's own waitlist entries
+  app.get("/api/waitlist/my", isAuthenticated, async (req: any, res) => {
+    try {
+      const entries = await storage.getWaitlistByUser(req.user.userId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  // Join the waitlist for a seat (or any seat when seatId is omitted)
+  app.post("/api/waitlist", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { seatId, date, slots, autoBook } = joinWaitlistSchema.parse(req.body);
+
+      if (date < toDateString(new Date())) {
+        return res.status(400).json({ message: "Cannot join the waitlist for a past date" });
+      }
+
+      const dayBookings = await storage.getBookingsByDate(date);
+      const seatsList = seatId ? [await storage.getSeat(seatId)] : await storage.getAllSeats();
+      if (seatId && !seatsList[0]) {
         return res.status(404).json({ message: "Seat not found" });
       }
-      if (seat.isBlocked) {
-        return res.status(409).json({ message: "Seat is blocked" });
+
+      // Only queue for slots that are actually unavailable right now
+      const bookableSeats = seatsList.filter((s) => s && !s.isBlocked && !s.isLongTermReserved);
+      const freeSlots = Array.from(new Set(slots)).filter((slot) =>
+        bookableSeats.some((s) => !dayBookings.some((b) => b.seatId === s!.id && b.slot === slot))
+      );
+      if (freeSlots.length > 0) {
+        return res.status(409).json({
+          message: seatId ? "Seat is available, book it directly" : "Seats are still available, book one directly",
+          availableSlots: freeSlots,
+        });
       }
-      if (seat.isLongTermReserved) {
-        return res.status(409).json({ message: "Seat is reserved for long-term use" });
+
+      // Don't queue for a booking the policies would refuse once the seat frees up
+      const { violations } = await checkBookingPolicies(
+        userId,
+        Array.from(new Set(slots)).map((slot) => ({ seatId, date, slot }))
+      );
+      if (violations.length > 0) {
+        return res.status(422).json({
+          message: violations[0].message,
+          code: violations[0].code,
+          violations,
+        });
       }
 
-      const booking = await storage.createBooking(bookingData);
-      res.status(201).json(booking);
+      const existing = await storage.getWaitlistByUser(userId);
+      const alreadyQueued = (slot: string) =>
+        existing.some((e) =>
+          (e.status === "waiting" || e.status === "offered") &&
+          e.date === date &&
+          e.slot === slot &&
+          e.seatId === (seatId ?? null)
+        );
+
+      const details = await getBookingUserDetails(userId);
+      const entries = await storage.createWaitlistEntries(
+        Array.from(new Set(slots))
+          .filter((slot) => !alreadyQueued(slot))
+          .map((slot) => ({
+            userId,
+            ...details,
+            seatId: seatId ?? null,
+            date,
+            slot,
+            autoBook,
+          }))
+      );
+
+      res.status(201).json(entries);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid booking data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid waitlist data", errors: error.errors });
       }
-      console.error("Error creating booking:", error);
-      res.status(500).json({ message: "Failed to create booking" });
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
     }
   });
 
-  // Bulk booking
-  app.post("/api/bookings/bulk", isAuthenticated, async (req: any, res) => {
+  // Claim a seat offered from the waitlist
+  app.post("/api/waitlist/:id/claim", isAuthenticated, async (req: any, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry || entry.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+
+      const result = await claimWaitlistOffer(entry);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.status(201).json({ entry: result.entry, booking: result.booking });
+    } catch (error) {
+      console.error("Error claiming waitlist offer:", error);
+      res.status(500).json({ message: "Failed to claim seat" });
+    }
+  });
+
+  // Leave the waitlist
+  app.delete("/api/waitlist/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry || entry.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      if (entry.status !== "waiting" && entry.status !== "offered") {
+        return res.status(409).json({ message: "Waitlist entry is no longer active" });
+      }
+
+      const updated = await storage.updateWaitlistEntry(entry.id, {
+        status: "cancelled",
+        resolvedAt: new Date(),
+      });
+
+      // A declined offer goes to the next person in line
+      if (entry.status === "offered" && entry.offeredSeatId) {
+        await offerFreedSlot({ seatId: entry.offeredSeatId, date: entry.date, slot: entry.slot });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  // ==================== BOOKING POLICIES API ====================
+
+  // Get current booking policies (everyone, so the booking UI can respect them)
+  app.get("/api/booking-policies", isAuthenticated, async (req, res) => {
+    try {
+      const policies = await storage.getBookingPolicies();
+      res.json(policies);
+    } catch (error) {
+      console.error("Error fetching booking policies:", error);
+      res.status(500).json({ message: "Failed to fetch booking policies" });
+    }
+  });
+
+  // Update booking policies (admin only)
+  app.patch("/api/booking-policies", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId;
-      const userClaims = req.user.claims;
+      const userRole = await storage.getUserRole(userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
 
-      const { seatIds, dates, slots } = bulkBookingSchema.parse(req.body);
+      const updates = updateBookingPoliciesSchema.parse(req.body);
+
+      const policies = await storage.updateBookingPolicies(updates, userId);
+      res.json(policies);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid policy data", errors: error.errors });
+      }
+      console.error("Error updating booking policies:", error);
+      res.status(500).json({ message: "Failed to update booking policies" });
+    }
+  });
 
-      const userName = userClaims.first_name 
-        ? `${userClaims.first_name}${userClaims.last_name ? ` ${userClaims.last_name}` : ""}`
-        : null;
-      const userEmail = userClaims.email || null;
+  // ==================== CLOSURES API ====================
 
-      // Generate all booking combinations
-      const bookingsToCreate: Array<{
-        seatId: string;
-        userId: string;
-        userName: string | null;
-        userEmail: string | null;
-        date: string;
-        slot: "AM" | "PM";
-      }> = [];
+  // List closures, optionally limited to those overlapping a date range
+  app.get("/api/closures", isAuthenticated, async (req, res) => {
+    try {
+      const from = typeof req.query.from === "string" ? req.query.from : undefined;
+      const to = typeof req.query.to === "string" ? req.query.to : undefined;
+      const closures = await storage.getClosures({ from, to });
+      res.json(closures);
+    } catch (error) {
+      console.error("Error fetching closures:", error);
+      res.status(500).json({ message: "Failed to fetch closures" });
+    }
+  });
 
-      const conflicts: string[] = [];
+  // Declare a closure; bookings and waitlist entries in the period are cancelled (admin only)
+  app.post("/api/closures", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const userRole = await storage.getUserRole(userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
 
-      for (const seatId of seatIds) {
-        // Check if seat is available
-        const seat = await storage.getSeat(seatId);
-        if (!seat) {
-          conflicts.push(`Seat ${seatId} not found`);
-          continue;
-        }
-        if (seat.isBlocked) {
-          conflicts.push(`Seat ${seat.name} is blocked`);
-          continue;
-        }
-        if (seat.isLongTermReserved) {
-          conflicts.push(`Seat ${seat.name} is reserved for long-term use`);
-          continue;
-        }
+      const data = createClosureSchema.parse(req.body);
+      const [closure] = await storage.createClosures([
+        { ...data, slot: data.slot ?? null, createdBy: userId },
+      ]);
 
-        for (const date of dates) {
-          const existingBookings = await storage.getBookingsBySeatAndDate(seatId, date);
-          
-          for (const slot of slots) {
-            const slotTaken = existingBookings.some(b => b.slot === slot);
-            if (slotTaken) {
-              conflicts.push(`${seat.name} on ${date} ${slot} already booked`);
-              continue;
-            }
+      const result = await applyClosure(closure);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid closure data", errors: error.errors });
+      }
+      console.error("Error creating closure:", error);
+      res.status(500).json({ message: "Failed to create closure" });
+    }
+  });
 
-            bookingsToCreate.push({
-              seatId,
-              userId,
-              userName,
-              userEmail,
-              date,
-              slot,
-            });
-          }
+  // Import closures from an iCalendar file or URL, e.g. a public holiday calendar (admin only)
+  app.post("/api/closures/import", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const userRole = await storage.getUserRole(userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const data = importClosuresSchema.parse(req.body);
+      let ics = data.ics;
+      if (!ics && data.url) {
+        if (!/^https?:\/\//.test(data.url)) {
+          return res.status(400).json({ message: "Calendar URL must use http or https" });
         }
+        const response = await fetch(data.url, { signal: AbortSignal.timeout(10000) });
+        if (!response.ok) {
+          return res.status(502).json({ message: `Calendar URL returned ${response.status}` });
+        }
+        ics = await response.text();
       }
 
-      if (bookingsToCreate.length === 0) {
-        return res.status(409).json({ 
-          message: "No bookings could be created", 
-          conflicts 
+      // Yearly holidays are repeated through the end of next year. Closures can't be declared in the
+      // past, so holidays that are already over are left out.
+      const today = format(new Date(), "yyyy-MM-dd");
+      const parsed = parseIcsEvents(ics!, `${new Date().getFullYear() + 1}-12-31`);
+      const events = parsed.events.filter(e => e.endDate >= today);
+      if (events.length === 0) {
+        return res.status(400).json({
+          message: parsed.unsupportedRecurring.length > 0
+            ? `No upcoming events found in calendar; ${parsed.unsupportedRecurring.length} recurring event(s) use rules that aren't supported`
+            : "No upcoming events found in calendar",
         });
       }
 
-      const createdBookings = await storage.createBulkBookings(bookingsToCreate);
-      
-      res.status(201).json({ 
-        bookings: createdBookings,
-        conflicts: conflicts.length > 0 ? conflicts : undefined,
-        created: createdBookings.length,
-        failed: conflicts.length,
+      // Re-importing the same calendar must not create duplicates
+      const existing = await storage.getClosures();
+      const key = (c: { name: string; startDate: string; endDate: string }) =>
+        `${c.name}|${c.startDate}|${c.endDate}`;
+      const existingKeys = new Set(existing.filter(c => c.slot === null).map(key));
+      const toCreate = events
+        .map(e => ({ name: e.summary.slice(0, 200), startDate: e.startDate, endDate: e.endDate }))
+        .filter(e => !existingKeys.has(key(e)));
+
+      const created = await storage.createClosures(
+        toCreate.map(e => ({ ...e, type: data.type, slot: null, createdBy: userId }))
+      );
+
+      let cancelledBookings = 0;
+      let cancelledWaitlistEntries = 0;
+      for (const closure of created) {
+        const result = await applyClosure(closure);
+        cancelledBookings += result.cancelledBookings;
+        cancelledWaitlistEntries += result.cancelledWaitlistEntries;
+      }
+
+      res.status(201).json({
+        closures: created,
+        imported: created.length,
+        skipped: events.length - created.length,
+        pastEvents: parsed.events.length - events.length,
+        unsupportedRecurring: parsed.unsupportedRecurring,
+        cancelledBookings,
+        cancelledWaitlistEntries,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid booking data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid import data", errors: error.errors });
       }
-      console.error("Error creating bulk bookings:", error);
-      res.status(500).json({ message: "Failed to create bookings" });
+      console.error("Error importing closures:", error);
+      res.status(500).json({ message: "Failed to import closures" });
     }
   });
 
-  // Cancel booking
-  app.delete("/api/bookings/:id", isAuthenticated, async (req: any, res) => {
+  // Remove a closure; bookings it cancelled stay cancelled (admin only)
+  app.delete("/api/closures/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.userId;
-      const booking = await storage.getBooking(req.params.id);
-      
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
       }
 
-      // Check if user owns the booking or is admin
-      const userRole = await storage.getUserRole(userId);
-      if (booking.userId !== userId && userRole?.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized to cancel this booking" });
+      const deleted = await storage.deleteClosure(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Closure not found" });
       }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting closure:", error);
+      res.status(500).json({ message: "Failed to delete closure" });
+    }
+  });
+
+  // ==================== NOTIFICATIONS API ====================
+
+  // Get current user's recent notifications
+  app.get("/api/notifications/my", isAuthenticated, async (req: any, res) => {
+    try {
+      const notifications = await storage.getNotificationsByUser(req.user.userId);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
 
-      const cancelled = await storage.cancelBooking(req.params.id);
-      res.json(cancelled);
+  // Mark notifications as read (all unread ones when no ids are given)
+  app.post("/api/notifications/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.string()).optional() }).parse(req.body ?? {});
+      await storage.markNotificationsRead(req.user.userId, ids);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error cancelling booking:", error);
-      res.status(500).json({ message: "Failed to cancel booking" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to update notifications" });
     }
   });
 
@@ -601,7 +2198,7 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Cannot deactivate yourself" });
       }
 
-      const { isActive } = z.object({ isActive: z.boolean() }).parse(req.body);
+      const { isActive, cancelBookings, releaseSeats } = updateUserStatusSchema.parse(req.body);
       
       // Check if user role exists, if not create it
       let userRole = await storage.getUserRole(targetUserId);
@@ -609,8 +2206,35 @@ export async function registerRoutes(
         userRole = await storage.setUserRole({ userId: targetUserId, role: "employee" });
       }
       
+      const wasActive = userRole.isActive;
       userRole = await storage.updateUserRole(targetUserId, { isActive });
-      res.json(userRole);
+      if (!userRole) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (isActive) {
+        return res.json(userRole);
+      }
+      await revokeUserSessions(targetUserId);
+
+      // Repeating a deactivation can still clear out what the user holds
+      const deactivation = await clearDeactivatedUser(
+        targetUserId,
+        { cancelBookings, releaseSeats },
+        toDateString(new Date())
+      );
+      if (wasActive) {
+        const user = await storage.getUser(targetUserId);
+        void emitWebhookEvent("user.deactivated", {
+          user: {
+            id: targetUserId,
+            email: user?.email ?? null,
+            firstName: user?.firstName ?? null,
+            lastName: user?.lastName ?? null,
+          },
+          deactivatedBy: adminId,
+        });
+      }
+      res.json({ ...userRole, deactivation });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -620,6 +2244,26 @@ export async function registerRoutes(
     }
   });
 
+  // Sign a user out of every device (admin only)
+  app.post("/api/users/:userId/sessions/revoke", isAuthenticated, async (req: any, res) => {
+    try {
+      const adminRole = await storage.getUserRole(req.user.userId);
+      if (adminRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const revoked = await revokeUserSessions(user.id);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
   // Delete user role (admin only)
   app.delete("/api/users/:userId", isAuthenticated, async (req: any, res) => {
     try {
@@ -645,5 +2289,169 @@ export async function registerRoutes(
     }
   });
 
+  // ==================== WEBHOOKS API ====================
+
+  // List webhooks (admin only)
+  app.get("/api/webhooks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      res.json(await storage.getAllWebhooks());
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  // Register a webhook; its signing secret is generated here (admin only)
+  app.post("/api/webhooks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const userRole = await storage.getUserRole(userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const data = createWebhookSchema.parse(req.body);
+      const webhook = await storage.createWebhook({
+        ...data,
+        events: Array.from(new Set(data.events)),
+        secret: generateWebhookSecret(),
+        createdBy: userId,
+      });
+      res.status(201).json(webhook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid webhook", errors: error.errors });
+      }
+      console.error("Error creating webhook:", error);
+      res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  // Update a webhook's URL, events or active flag (admin only)
+  app.patch("/api/webhooks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const updates = updateWebhookSchema.parse(req.body);
+      const webhook = await storage.updateWebhook(req.params.id, {
+        ...updates,
+        ...(updates.events ? { events: Array.from(new Set(updates.events)) } : {}),
+      });
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(webhook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid webhook", errors: error.errors });
+      }
+      console.error("Error updating webhook:", error);
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  // Issue a new signing secret; the old one stops working immediately (admin only)
+  app.post("/api/webhooks/:id/rotate-secret", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const webhook = await storage.updateWebhook(req.params.id, { secret: generateWebhookSecret() });
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(webhook);
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      res.status(500).json({ message: "Failed to rotate webhook secret" });
+    }
+  });
+
+  // Delete a webhook and its delivery log (admin only)
+  app.delete("/api/webhooks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      if (!(await storage.deleteWebhook(req.params.id))) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json({ message: "Webhook deleted" });
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  // Send a signed ping to the webhook now and return the logged delivery (admin only)
+  app.post("/api/webhooks/:id/test", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const webhook = await storage.getWebhook(req.params.id);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(await sendTestDelivery(webhook));
+    } catch (error) {
+      console.error("Error testing webhook:", error);
+      res.status(500).json({ message: "Failed to test webhook" });
+    }
+  });
+
+  // Recent deliveries to a webhook, newest first (admin only)
+  app.get("/api/webhooks/:id/deliveries", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      res.json(await storage.getWebhookDeliveries(req.params.id, WEBHOOK_DELIVERY_LOG_SIZE));
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Send a delivery that succeeded or failed once more (admin only)
+  app.post("/api/webhooks/deliveries/:id/redeliver", isAuthenticated, async (req: any, res) => {
+    try {
+      const userRole = await storage.getUserRole(req.user.userId);
+      if (userRole?.role !== "admin") {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const delivery = await storage.getWebhookDelivery(req.params.id);
+      const webhook = delivery ? await storage.getWebhook(delivery.webhookId) : undefined;
+      if (!delivery || !webhook) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
+      // Pending deliveries are still being retried on schedule
+      if (delivery.status === "pending") {
+        return res.status(409).json({ message: "Delivery is still being retried" });
+      }
+      res.json(await redeliver(delivery, webhook));
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      res.status(500).json({ message: "Failed to redeliver webhook" });
+    }
+  });
+
   return httpServer;
 }
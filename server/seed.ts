@@ -1,114 +1,98 @@
+import { readFile } from "fs/promises";
 import { db } from "./db";
-import { seats, clusters, userRoles } from "@shared/schema";
+import { seats, clusters, layoutShapes, userRoles, sites, floors, layoutDocumentSchema } from "@shared/schema";
 import { users, invites } from "@shared/models/auth";
-import { sql, eq } from "drizzle-orm";
+import { isNull } from "drizzle-orm";
+import { resolveLayoutDocument, resolveSeatsCsv, type ResolvedLayout } from "./layout-transfer";
+import defaultLayout from "./seed-layout.json";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
 
-// Long-term reserved desks (yellow ones from the floor plan)
-const LONG_TERM_RESERVED = [
-  "S1", "S2", "S3", "S4",  // All solo desks
-  "T5", "T6", "T7", "T8", "T9", "T10", "T11", "T12",  // First team cluster
-  "T13", "T14", "T15", "T16", "T17", "T18", "T19", "T20",  // Second team cluster
-  "T43", "T44", "T45", "T46",  // Part of top cluster
-];
+// The floor layout an empty database starts with, in the same format as layout exports.
+// Set SEED_LAYOUT_FILE to a layout export (.json) or a seats CSV (.csv) to seed something else.
+const SEED_LAYOUT_FILE = process.env.SEED_LAYOUT_FILE;
 
-// Default floor layout clusters with positions
-const DEFAULT_CLUSTERS = [
-  { id: "cluster-1", label: "", positionX: 0, positionY: 0, rotation: 0, gridCols: 4, gridRows: 2, 
-    seats: ["T56", "T55", "T54", "T53", "T49", "T50", "T51", "T52"] },
-  { id: "cluster-2", label: "", positionX: 250, positionY: 0, rotation: 0, gridCols: 2, gridRows: 4,
-    seats: ["T60", "T61", "T59", "T62", "T58", "T63", "T57", "T64"] },
-  { id: "cluster-3", label: "", positionX: 370, positionY: 0, rotation: 0, gridCols: 2, gridRows: 4,
-    seats: ["T68", "T69", "T67", "T70", "T66", "T71", "T65", "T72"] },
-  { id: "cluster-4", label: "", positionX: 490, positionY: 0, rotation: 0, gridCols: 2, gridRows: 4,
-    seats: ["T76", "T77", "T75", "T78", "T74", "T79", "T73", "T80"] },
-  { id: "cluster-5", label: "", positionX: 0, positionY: 150, rotation: 0, gridCols: 4, gridRows: 2,
-    seats: ["T48", "T47", "T46", "T45", "T41", "T42", "T43", "T44"] },
-  { id: "solo", label: "Solo Desks", positionX: 0, positionY: 280, rotation: 0, gridCols: 1, gridRows: 4,
-    seats: ["S4", "S3", "S2", "S1"] },
-  { id: "cluster-6", label: "", positionX: 100, positionY: 280, rotation: 0, gridCols: 2, gridRows: 4,
-    seats: ["T8", "T9", "T7", "T10", "T6", "T11", "T5", "T12"] },
-  { id: "cluster-7", label: "", positionX: 220, positionY: 280, rotation: 0, gridCols: 2, gridRows: 4,
-    seats: ["T16", "T17", "T15", "T18", "T14", "T19", "T13", "T20"] },
-  { id: "cluster-8", label: "", positionX: 380, positionY: 280, rotation: 0, gridCols: 5, gridRows: 2,
-    seats: ["T40", "T39", "T38", "T37", "T36", "T31", "T32", "T33", "T34", "T35"] },
-  { id: "cluster-9", label: "", positionX: 380, positionY: 400, rotation: 0, gridCols: 5, gridRows: 2,
-    seats: ["T30", "T29", "T28", "T27", "T26", "T21", "T22", "T23", "T24", "T25"] },
-];
+const DEFAULT_SITE = { id: "site-default", name: "Main Office" };
+const DEFAULT_FLOOR = { id: "floor-default", siteId: DEFAULT_SITE.id, name: "Ground Floor", level: 0 };
+
+// Databases created before sites and floors existed have clusters and seats without a floor.
+// Make sure there is at least one floor and move any such rows onto it.
+async function ensureDefaultFloor(): Promise<string> {
+  const [existingFloor] = await db.select().from(floors).orderBy(floors.createdAt).limit(1);
+  let floorId = existingFloor?.id;
+
+  if (!floorId) {
+    await db.insert(sites).values(DEFAULT_SITE).onConflictDoNothing();
+    await db.insert(floors).values(DEFAULT_FLOOR).onConflictDoNothing();
+    floorId = DEFAULT_FLOOR.id;
+    console.log(`Created default site "${DEFAULT_SITE.name}" with floor "${DEFAULT_FLOOR.name}"`);
+  }
+
+  const movedClusters = await db
+    .update(clusters)
+    .set({ floorId })
+    .where(isNull(clusters.floorId))
+    .returning({ id: clusters.id });
+  const movedSeats = await db
+    .update(seats)
+    .set({ floorId })
+    .where(isNull(seats.floorId))
+    .returning({ id: seats.id });
+  if (movedClusters.length > 0 || movedSeats.length > 0) {
+    console.log(`Assigned ${movedClusters.length} clusters and ${movedSeats.length} seats to the default floor`);
+  }
+
+  return floorId;
+}
+
+async function loadSeedLayout(): Promise<ResolvedLayout> {
+  const empty = { clusters: [], seats: [], shapes: [] };
+  if (!SEED_LAYOUT_FILE) {
+    return resolveLayoutDocument(layoutDocumentSchema.parse(defaultLayout), empty);
+  }
+  const contents = await readFile(SEED_LAYOUT_FILE, "utf8");
+  return SEED_LAYOUT_FILE.toLowerCase().endsWith(".csv")
+    ? resolveSeatsCsv(contents, empty)
+    : resolveLayoutDocument(layoutDocumentSchema.parse(JSON.parse(contents)), empty);
+}
 
 async function seed() {
   console.log("Seeding database...");
 
   try {
-    // Check if clusters already exist
-    const existingClusters = await db.select().from(clusters);
-    
-    if (existingClusters.length === 0) {
-      // Create all clusters
-      const clusterData = DEFAULT_CLUSTERS.map(c => ({
-        id: c.id,
-        label: c.label || null,
-        positionX: c.positionX,
-        positionY: c.positionY,
-        rotation: c.rotation,
-        gridCols: c.gridCols,
-        gridRows: c.gridRows,
-      }));
-      
-      await db.insert(clusters).values(clusterData);
-      console.log(`Created ${clusterData.length} clusters`);
-    } else {
-      console.log(`Found ${existingClusters.length} existing clusters. Skipping cluster creation.`);
-    }
+    const floorId = await ensureDefaultFloor();
 
-    // Check if seats already exist
+    // Check if a layout already exists
+    const existingClusters = await db.select().from(clusters);
     const existingSeats = await db.select().from(seats);
     
     if (existingSeats.length > 0) {
-      console.log(`Found ${existingSeats.length} existing seats. Skipping seat creation.`);
+      console.log(`Found ${existingSeats.length} existing seats. Skipping layout creation.`);
       return;
     }
 
-    // Create all seats from cluster definitions
-    const allSeats: Array<{
-      id: string;
-      name: string;
-      type: "solo" | "team_cluster";
-      hasMonitor: boolean;
-      isBlocked: boolean;
-      isLongTermReserved: boolean;
-      longTermReservedBy: string | null;
-      positionX: number;
-      positionY: number;
-      clusterGroup: string;
-    }> = [];
-
-    for (const cluster of DEFAULT_CLUSTERS) {
-      cluster.seats.forEach((seatName, idx) => {
-        const isSolo = seatName.startsWith("S");
-        const row = Math.floor(idx / cluster.gridCols);
-        const col = idx % cluster.gridCols;
-        
-        allSeats.push({
-          id: `seat-${seatName.toLowerCase()}`,
-          name: seatName,
-          type: isSolo ? "solo" : "team_cluster",
-          hasMonitor: !isSolo,
-          isBlocked: false,
-          isLongTermReserved: LONG_TERM_RESERVED.includes(seatName),
-          longTermReservedBy: LONG_TERM_RESERVED.includes(seatName) ? "Reserved Employee" : null,
-          positionX: col,
-          positionY: row,
-          clusterGroup: cluster.id,
-        });
-      });
+    if (existingClusters.length > 0) {
+      console.log(`Found ${existingClusters.length} existing clusters. Skipping layout creation.`);
+    } else {
+      const { snapshot, seatAttributes } = await loadSeedLayout();
+      const shapes = snapshot.shapes ?? [];
+      if (snapshot.clusters.length > 0) {
+        await db.insert(clusters).values(snapshot.clusters.map(c => ({ ...c, floorId })));
+      }
+      if (snapshot.seats.length > 0) {
+        await db.insert(seats).values(snapshot.seats.map(s => ({ ...s, ...seatAttributes[s.id], floorId })));
+      }
+      if (shapes.length > 0) {
+        await db.insert(layoutShapes).values(shapes.map(s => ({ ...s, floorId })));
+      }
+      console.log(
+        `Created ${snapshot.clusters.length} clusters and ${snapshot.seats.length} seats` +
+          (SEED_LAYOUT_FILE ? ` from ${SEED_LAYOUT_FILE}` : "")
+      );
+      const reserved = Object.values(seatAttributes).filter(a => a.isLongTermReserved).length;
+      console.log(`Long-term reserved: ${reserved} seats`);
     }
 
-    await db.insert(seats).values(allSeats);
-    console.log(`Created ${allSeats.length} seats`);
-    console.log(`Long-term reserved: ${LONG_TERM_RESERVED.length} seats`);
-
     // Create default admin user if no users exist
     const existingUsers = await db.select().from(users);
     if (existingUsers.length === 0) {
@@ -0,0 +1,141 @@
+import { format, parseISO, addDays, eachDayOfInterval, getDay } from "date-fns";
+import { storage } from "./storage";
+import { checkBookingPolicies } from "./policies";
+import { emitWebhookEvents } from "./webhooks";
+import { notifyUsers } from "./notifications";
+import type { Booking, BookingSeries, InsertBooking, SeriesConflict } from "@shared/schema";
+
+// How far ahead series occurrences are turned into real bookings
+const HORIZON_DAYS = parseInt(process.env.SERIES_HORIZON_DAYS || "28", 10);
+const MATERIALISE_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_STORED_CONFLICTS = 100;
+
+export function toDateString(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+export interface MaterialiseResult {
+  created: number;
+  bookings: Booking[];
+  conflicts: SeriesConflict[];
+}
+
+// Create bookings for every occurrence of a series between its last materialised
+// date and the rolling horizon. Occurrences that cannot be booked are recorded on
+// the series so the owner can see them.
+export async function materialiseSeries(series: BookingSeries, now = new Date()): Promise<MaterialiseResult> {
+  const today = toDateString(now);
+  // Never materialise beyond the advance booking window; later runs pick those days up
+  const { maxDaysInAdvance } = await storage.getBookingPolicies();
+  const horizonDays = maxDaysInAdvance !== null ? Math.min(HORIZON_DAYS, maxDaysInAdvance) : HORIZON_DAYS;
+  const horizon = toDateString(addDays(now, horizonDays));
+
+  let from = series.startDate > today ? series.startDate : today;
+  if (series.materialisedUntil) {
+    const next = toDateString(addDays(parseISO(series.materialisedUntil), 1));
+    if (next > from) from = next;
+  }
+  const to = series.endDate && series.endDate < horizon ? series.endDate : horizon;
+
+  if (series.endedAt || from > to) {
+    return { created: 0, bookings: [], conflicts: [] };
+  }
+
+  const seat = await storage.getSeat(series.seatId);
+  // The seat was removed from the floor plan, so no occurrence can ever be booked again
+  if (!seat) {
+    await storage.updateBookingSeries(series.id, {
+      endDate: today,
+      endedAt: new Date(),
+      conflicts: series.conflicts.filter(c => c.date >= today),
+    });
+    await notifyUsers([{
+      userId: series.userId,
+      title: "Your recurring booking has ended",
+      message: "Its desk was removed from the floor plan. Set up a new recurring booking on another desk to keep going.",
+    }]);
+    return { created: 0, bookings: [], conflicts: [] };
+  }
+
+  const skipped = new Set(series.skippedDates);
+  const conflicts: SeriesConflict[] = [];
+  const bookingsToCreate: InsertBooking[] = [];
+
+  for (const day of eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })) {
+    const date = toDateString(day);
+    if (!series.weekdays.includes(getDay(day)) || skipped.has(date)) continue;
+
+    for (const slot of series.slots) {
+      if (seat.isBlocked) {
+        conflicts.push({ date, slot, reason: `Seat ${seat.name} is blocked` });
+      } else if (seat.isLongTermReserved) {
+        conflicts.push({ date, slot, reason: `Seat ${seat.name} is reserved for long-term use` });
+      } else {
+        bookingsToCreate.push({
+          seatId: series.seatId,
+          userId: series.userId,
+          userName: series.userName,
+          userEmail: series.userEmail,
+          date,
+          slot,
+          seriesId: series.id,
+        });
+      }
+    }
+  }
+
+  const policyCheck = await checkBookingPolicies(series.userId, bookingsToCreate, now);
+  for (const violation of policyCheck.violations) {
+    conflicts.push({ date: violation.date!, slot: violation.slot!, reason: violation.message });
+  }
+
+  const result = await storage.createBookingsSkippingConflicts(policyCheck.allowed);
+  void emitWebhookEvents("booking.created", result.created.map(booking => ({ booking })));
+  for (const taken of result.conflicts) {
+    conflicts.push({
+      date: taken.date,
+      slot: taken.slot,
+      reason: `${seat.name} already booked by someone else`,
+    });
+  }
+
+  // Only upcoming conflicts matter to the owner; past ones are dropped so a long-running series
+  // on a blocked seat doesn't pile them up
+  await storage.updateBookingSeries(series.id, {
+    materialisedUntil: to,
+    conflicts: [...series.conflicts, ...conflicts]
+      .filter(c => c.date >= today)
+      .slice(0, MAX_STORED_CONFLICTS),
+  });
+
+  return { created: result.created.length, bookings: result.created, conflicts };
+}
+
+export async function materialiseAllSeries(now = new Date()): Promise<void> {
+  const openSeries = await storage.getOpenBookingSeries(toDateString(now));
+  for (const series of openSeries) {
+    try {
+      await materialiseSeries(series, now);
+    } catch (error) {
+      console.error(`Error materialising booking series ${series.id}:`, error);
+    }
+  }
+}
+
+// Keep the rolling horizon moving forward while the server is up
+export function startSeriesMaterialiser(): NodeJS.Timeout {
+  const run = () => {
+    materialiseAllSeries().catch((error) => {
+      console.error("Error materialising booking series:", error);
+    });
+  };
+  run();
+  return setInterval(run, MATERIALISE_INTERVAL_MS);
+}
+
+// Whether a date falls on one of the series' occurrences (ignoring skips)
+export function isSeriesOccurrence(series: BookingSeries, date: string): boolean {
+  if (date < series.startDate) return false;
+  if (series.endDate && date > series.endDate) return false;
+  return series.weekdays.includes(getDay(parseISO(date)));
+}
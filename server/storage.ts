@@ -1,10 +1,116 @@
 import { 
-  users, seats, bookings, userRoles, clusters,
+  users, seats, bookings, userRoles, clusters, bookingSeries, waitlistEntries, bookingPolicies,
+  closures, notifications, sites, floors, userPreferences, layoutRevisions, layoutShapes, floorBackgrounds,
+  webhooks, webhookDeliveries,
   type User, type Seat, type InsertSeat, type Booking, type InsertBooking, 
-  type UserRole, type InsertUserRole, type Cluster, type InsertCluster
+  type UserRole, type InsertUserRole, type Cluster, type InsertCluster, type TimeSlot,
+  type BookingSeries, type InsertBookingSeries, type WaitlistEntry, type InsertWaitlistEntry,
+  type CancellationReason, type NoShowStats, type BookingPolicies, type UpdateBookingPolicies,
+  type Closure, type InsertClosure, type Notification, type InsertNotification,
+  type Site, type InsertSite, type Floor, type InsertFloor, type UserPreferences, type UpdateUserPreferences,
+  type FloorLayout, type LayoutSnapshot, type LayoutRevision, type LayoutRevisionSummary,
+  type FlaggedBooking, type LayoutShape, type FloorBackground, type SaveFloorBackground,
+  type BookingFilter, type BookingPage, type AnalyticsQuery, type AnalyticsPeriod,
+  type Webhook, type InsertWebhook, type WebhookEvent,
+  type WebhookDelivery, type InsertWebhookDelivery
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gte, lte, isNull, sql } from "drizzle-orm";
+import { publishChange } from "./realtime";
+import { eq, and, gte, lte, lt, ne, or, inArray, isNull, isNotNull, ilike, desc, asc, sql } from "drizzle-orm";
+
+export interface BookingSlot {
+  seatId: string;
+  date: string;
+  slot: TimeSlot;
+}
+
+// Thrown when an insert collides with an active booking for the same seat, date and slot
+export class BookingConflictError extends Error {
+  constructor(public conflicts: BookingSlot[]) {
+    super("Slot already booked");
+    this.name = "BookingConflictError";
+  }
+}
+
+// Thrown when a layout save was based on a revision that is no longer current
+export class LayoutRevisionError extends Error {
+  constructor(public currentRevision: number) {
+    super("Layout has changed since it was loaded");
+    this.name = "LayoutRevisionError";
+  }
+}
+
+// Thrown when a layout can't be applied as given, e.g. it claims ids used on another floor
+export class LayoutValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LayoutValidationError";
+  }
+}
+
+export interface ApplyLayoutOptions {
+  userId: string;
+  today: string; // bookings from this date on are flagged when their seat is removed
+  expectedRevision?: number; // omitted for rollbacks, which apply regardless
+  revisionId?: string; // the draft or scheduled revision being published, if any
+  note?: string | null;
+  seatAttributes?: Record<string, SeatAttributes>; // by seat id, for imports that carry seat settings
+}
+
+export type EmailPreference = "emailConfirmations" | "emailBookingChanges" | "emailReminders";
+
+export interface EmailRecipient {
+  userId: string;
+  email: string;
+  firstName: string | null;
+}
+
+export type AnalyticsRange = Pick<AnalyticsQuery, "from" | "to" | "floorId">;
+
+// Counts over the bookings for dates in an analytics range; booked excludes cancelled bookings
+export interface BookingTotals {
+  booked: number;
+  cancelled: number;
+  noShows: number;
+  averageLeadDays: number | null;
+}
+
+export interface SeatBookingCounts extends Omit<BookingTotals, "averageLeadDays"> {
+  seatId: string;
+  lastBookedDate: string | null;
+}
+
+// Seat settings kept out of layout snapshots, which an import can still set along with the layout
+export type SeatAttributes = Partial<
+  Pick<Seat, "isBlocked" | "isLongTermReserved" | "longTermReservedBy" | "longTermReservedUntil" | "metadata">
+>;
+
+export interface AppliedLayout {
+  layout: FloorLayout;
+  revision: LayoutRevision;
+  flaggedBookings: Booking[];
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// The editable part of a floor's clusters, seats and shapes, as stored in layout revisions
+export function toLayoutSnapshot(clusterRows: Cluster[], seatRows: Seat[], shapeRows: LayoutShape[]): LayoutSnapshot {
+  return {
+    clusters: clusterRows.map(({ id, label, positionX, positionY, rotation, gridCols, gridRows }) => ({
+      id, label, positionX, positionY, rotation, gridCols, gridRows,
+    })),
+    seats: seatRows.map(({ id, name, type, hasMonitor, positionX, positionY, clusterGroup }) => ({
+      id, name, type, hasMonitor, positionX, positionY, clusterGroup,
+    })),
+    shapes: shapeRows.map(({ id, kind, label, positionX, positionY, width, height, rotation }) => ({
+      id, kind, label, positionX, positionY, width, height, rotation,
+    })),
+  };
+}
+
+function slotKey(slot: BookingSlot): string {
+  return `${slot.seatId}|${slot.date}|${slot.slot}`;
+}
 
 export interface IStorage {
   // User operations
@@ -17,9 +123,48 @@ export interface IStorage {
   setUserRole(data: InsertUserRole): Promise<UserRole>;
   updateUserRole(userId: string, updates: { role?: "employee" | "admin"; isActive?: boolean }): Promise<UserRole | undefined>;
   deleteUserRole(userId: string): Promise<boolean>;
+
+  // Site and floor operations
+  getAllSites(): Promise<Site[]>;
+  getSite(id: string): Promise<Site | undefined>;
+  createSite(site: InsertSite): Promise<Site>;
+  updateSite(id: string, updates: Partial<InsertSite>): Promise<Site | undefined>;
+  deleteSite(id: string): Promise<boolean>;
+  getAllFloors(): Promise<Floor[]>;
+  getFloorsBySite(siteId: string): Promise<Floor[]>;
+  getFloor(id: string): Promise<Floor | undefined>;
+  getDefaultFloor(): Promise<Floor | undefined>;
+  createFloor(floor: InsertFloor): Promise<Floor>;
+  updateFloor(id: string, updates: Partial<InsertFloor>): Promise<Floor | undefined>;
+  deleteFloor(id: string): Promise<boolean>;
+
+  // Layout operations
+  getFloorLayout(floorId: string): Promise<FloorLayout | undefined>;
+  applyFloorLayout(floorId: string, snapshot: LayoutSnapshot, options: ApplyLayoutOptions): Promise<AppliedLayout>;
+  bumpLayoutRevision(floorId: string | null): Promise<void>;
+  getFloorBackground(floorId: string): Promise<FloorBackground | undefined>;
+  saveFloorBackground(floorId: string, background: SaveFloorBackground, userId: string): Promise<FloorBackground | undefined>;
+  deleteFloorBackground(floorId: string): Promise<boolean>;
+
+  // Layout revision operations
+  getLayoutRevisions(floorId: string): Promise<LayoutRevisionSummary[]>;
+  getLayoutRevision(id: string): Promise<LayoutRevision | undefined>;
+  getLayoutDraft(floorId: string): Promise<LayoutRevision | undefined>;
+  saveLayoutDraft(floorId: string, draft: { snapshot: LayoutSnapshot; baseRevision: number; note?: string | null; userId: string }): Promise<LayoutRevision>;
+  scheduleLayoutRevision(id: string, schedule: { effectiveDate: string; userId: string; note?: string | null }): Promise<LayoutRevision | undefined>;
+  failLayoutRevision(id: string, reason: string): Promise<LayoutRevision | undefined>;
+  deleteLayoutRevision(id: string): Promise<boolean>;
+  getDueLayoutRevisions(today: string): Promise<LayoutRevision[]>;
+
+  // User preference operations
+  getUserPreferences(userId: string): Promise<UserPreferences | undefined>;
+  updateUserPreferences(userId: string, updates: UpdateUserPreferences): Promise<UserPreferences>;
+  getUserIdByCalendarToken(token: string): Promise<string | undefined>;
+  setCalendarToken(userId: string, token: string): Promise<UserPreferences>;
   
   // Cluster operations
   getAllClusters(): Promise<Cluster[]>;
+  getClustersByFloor(floorId: string): Promise<Cluster[]>;
   getCluster(id: string): Promise<Cluster | undefined>;
   createCluster(cluster: InsertCluster): Promise<Cluster>;
   updateCluster(id: string, updates: Partial<InsertCluster>): Promise<Cluster | undefined>;
@@ -27,23 +172,92 @@ export interface IStorage {
   
   // Seat operations
   getAllSeats(): Promise<Seat[]>;
+  getSeatsByFloor(floorId: string): Promise<Seat[]>;
   getSeat(id: string): Promise<Seat | undefined>;
-  getSeatByName(name: string): Promise<Seat | undefined>;
+  getSeatByName(floorId: string, name: string): Promise<Seat | undefined>;
+  getSeatsReservedFor(userId: string): Promise<Seat[]>;
   createSeat(seat: InsertSeat): Promise<Seat>;
   updateSeat(id: string, updates: Partial<InsertSeat>): Promise<Seat | undefined>;
-  deleteSeat(id: string): Promise<boolean>;
+  archiveSeat(id: string, today: string): Promise<Booking[]>;
+  countSeatsOnFloor(floorId: string): Promise<number>;
   
   // Booking operations
-  getAllBookings(): Promise<Booking[]>;
+  getBookings(filter: BookingFilter): Promise<BookingPage>;
   getBookingsByUser(userId: string): Promise<Booking[]>;
   getBookingsByDate(date: string): Promise<Booking[]>;
+  getBookingsByFloor(floorId: string, date?: string): Promise<Booking[]>;
   getBookingsBySeatAndDate(seatId: string, date: string): Promise<Booking[]>;
+  getUpcomingBookingsBySeat(seatId: string, fromDate: string): Promise<Booking[]>;
+  getBookingsNeedingReminder(date: string): Promise<Booking[]>;
+  markRemindersSent(ids: string[]): Promise<void>;
+  getActiveBookingsByUserInRange(userId: string, from: string, to: string): Promise<Booking[]>;
   getBooking(id: string): Promise<Booking | undefined>;
   createBooking(booking: InsertBooking): Promise<Booking>;
-  cancelBooking(id: string): Promise<Booking | undefined>;
+  cancelBooking(id: string, reason?: CancellationReason): Promise<Booking | undefined>;
+  releaseNoShow(id: string): Promise<Booking | undefined>;
+  cancelUserBookings(userId: string, fromDate: string, reason: CancellationReason): Promise<Booking[]>;
+  checkInBooking(booking: Booking): Promise<Booking[]>;
+  getUncheckedBookings(date: string, slot: TimeSlot): Promise<Booking[]>;
+  getNoShowStats(today: string): Promise<NoShowStats[]>;
+  getBookingsNeedingReassignment(today: string): Promise<FlaggedBooking[]>;
+  reassignBooking(id: string, seatId: string): Promise<Booking | undefined>;
   
   // Bulk operations
   createBulkBookings(bookings: InsertBooking[]): Promise<Booking[]>;
+  createBookingsSkippingConflicts(bookings: InsertBooking[]): Promise<{ created: Booking[]; conflicts: BookingSlot[] }>;
+
+  // Booking series operations
+  getBookingSeries(id: string): Promise<BookingSeries | undefined>;
+  getBookingSeriesByUser(userId: string): Promise<BookingSeries[]>;
+  getOpenBookingSeries(fromDate: string): Promise<BookingSeries[]>;
+  createBookingSeries(series: InsertBookingSeries): Promise<BookingSeries>;
+  updateBookingSeries(id: string, updates: Partial<InsertBookingSeries>): Promise<BookingSeries | undefined>;
+  cancelSeriesBookings(seriesId: string, range: { from: string; to?: string }): Promise<Booking[]>;
+
+  // Waitlist operations
+  getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  getWaitlistByUser(userId: string): Promise<WaitlistEntry[]>;
+  getWaitingEntriesForSlot(seatId: string, date: string, slot: TimeSlot): Promise<WaitlistEntry[]>;
+  getExpiredWaitlistOffers(now: Date): Promise<WaitlistEntry[]>;
+  createWaitlistEntries(entries: InsertWaitlistEntry[]): Promise<WaitlistEntry[]>;
+  updateWaitlistEntry(id: string, updates: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined>;
+
+  // Booking policy operations
+  getBookingPolicies(): Promise<BookingPolicies>;
+  updateBookingPolicies(updates: UpdateBookingPolicies, updatedBy: string): Promise<BookingPolicies>;
+
+  // Closure operations
+  getClosures(range?: { from?: string; to?: string }): Promise<Closure[]>;
+  createClosures(closures: InsertClosure[]): Promise<Closure[]>;
+  deleteClosure(id: string): Promise<boolean>;
+  cancelBookingsForClosure(closure: Closure, fromDate: string): Promise<Booking[]>;
+  cancelWaitlistForClosure(closure: Closure, fromDate: string): Promise<WaitlistEntry[]>;
+
+  // Notification operations
+  getNotificationsByUser(userId: string): Promise<Notification[]>;
+  createNotifications(notifications: InsertNotification[]): Promise<Notification[]>;
+  markNotificationsRead(userId: string, ids?: string[]): Promise<void>;
+  getEmailRecipients(userIds: string[], preference: EmailPreference): Promise<EmailRecipient[]>;
+
+  // Webhook operations
+  getAllWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  getActiveWebhooksForEvent(event: WebhookEvent): Promise<Webhook[]>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  updateWebhook(id: string, updates: Partial<InsertWebhook>): Promise<Webhook | undefined>;
+  deleteWebhook(id: string): Promise<boolean>;
+  getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<{ delivery: WebhookDelivery; webhook: Webhook }[]>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+
+  // Analytics operations
+  getBookingTotals(range: AnalyticsRange): Promise<BookingTotals>;
+  getBookedCountsByPeriod(range: AnalyticsRange, period: AnalyticsPeriod): Promise<{ period: string; booked: number }[]>;
+  getBookedCountsByWeekday(range: AnalyticsRange): Promise<{ weekday: number; booked: number }[]>;
+  getBookingCountsBySeat(range: AnalyticsRange): Promise<SeatBookingCounts[]>;
+  getBookedCountsByLeadTime(range: AnalyticsRange): Promise<{ leadDays: number; bookings: number }[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -93,11 +307,518 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  // Site and floor operations
+  async getAllSites(): Promise<Site[]> {
+    return db.select().from(sites).orderBy(sites.name);
+  }
+
+  async getSite(id: string): Promise<Site | undefined> {
+    const [site] = await db.select().from(sites).where(eq(sites.id, id));
+    return site;
+  }
+
+  async createSite(site: InsertSite): Promise<Site> {
+    const [created] = await db.insert(sites).values(site).returning();
+    return created;
+  }
+
+  async updateSite(id: string, updates: Partial<InsertSite>): Promise<Site | undefined> {
+    const [updated] = await db.update(sites).set(updates).where(eq(sites.id, id)).returning();
+    return updated;
+  }
+
+  async deleteSite(id: string): Promise<boolean> {
+    await db.delete(sites).where(eq(sites.id, id));
+    return true;
+  }
+
+  async getAllFloors(): Promise<Floor[]> {
+    return db.select().from(floors).orderBy(floors.level, floors.name);
+  }
+
+  async getFloorsBySite(siteId: string): Promise<Floor[]> {
+    return db
+      .select()
+      .from(floors)
+      .where(eq(floors.siteId, siteId))
+      .orderBy(floors.level, floors.name);
+  }
+
+  async getFloor(id: string): Promise<Floor | undefined> {
+    const [floor] = await db.select().from(floors).where(eq(floors.id, id));
+    return floor;
+  }
+
+  // The oldest floor; where seats and clusters land when no floor is given
+  async getDefaultFloor(): Promise<Floor | undefined> {
+    const [floor] = await db.select().from(floors).orderBy(floors.createdAt).limit(1);
+    return floor;
+  }
+
+  async createFloor(floor: InsertFloor): Promise<Floor> {
+    const [created] = await db.insert(floors).values(floor).returning();
+    return created;
+  }
+
+  async updateFloor(id: string, updates: Partial<InsertFloor>): Promise<Floor | undefined> {
+    const [updated] = await db.update(floors).set(updates).where(eq(floors.id, id)).returning();
+    return updated;
+  }
+
+  async deleteFloor(id: string): Promise<boolean> {
+    await db.delete(floors).where(eq(floors.id, id));
+    return true;
+  }
+
+  // Layout operations
+  async getFloorLayout(floorId: string): Promise<FloorLayout | undefined> {
+    const floor = await this.getFloor(floorId);
+    if (!floor) return undefined;
+    const [clusterRows, seatRows, shapeRows] = await Promise.all([
+      this.getClustersByFloor(floorId),
+      this.getSeatsByFloor(floorId),
+      db.select().from(layoutShapes).where(eq(layoutShapes.floorId, floorId)).orderBy(layoutShapes.id),
+    ]);
+    return { floorId, revision: floor.layoutRevision, clusters: clusterRows, seats: seatRows, shapes: shapeRows };
+  }
+
+  // Make a floor's live clusters and seats match a snapshot in one transaction and record it as the
+  // published revision. Removed seats are archived rather than deleted so their bookings survive:
+  // upcoming ones are flagged for reassignment, and a later rollback that restores the seat unflags them.
+  // Seat settings the editor does not manage (blocking, long-term reservations, metadata) are kept.
+  async applyFloorLayout(floorId: string, snapshot: LayoutSnapshot, options: ApplyLayoutOptions): Promise<AppliedLayout> {
+    const seatAttributes = new Map(
+      await Promise.all(
+        Object.entries(options.seatAttributes ?? {}).map(
+          async ([seatId, attributes]) => [seatId, await this.withReservationHolder(attributes)] as const
+        )
+      )
+    );
+    const applied = await db.transaction(async (tx) => {
+      const [floor] = await tx
+        .update(floors)
+        .set({ layoutRevision: sql`${floors.layoutRevision} + 1` })
+        .where(
+          and(
+            eq(floors.id, floorId),
+            options.expectedRevision !== undefined ? eq(floors.layoutRevision, options.expectedRevision) : undefined
+          )
+        )
+        .returning();
+      if (!floor) {
+        const [current] = await tx.select().from(floors).where(eq(floors.id, floorId));
+        throw new LayoutRevisionError(current?.layoutRevision ?? 0);
+      }
+
+      // Ids are global, so ones already used on another floor can't be claimed by this one
+      const clusterIds = snapshot.clusters.map(c => c.id);
+      const seatIds = snapshot.seats.map(s => s.id);
+      const shapes = snapshot.shapes ?? [];
+      const shapeIds = shapes.map(s => s.id);
+      if (clusterIds.length > 0) {
+        const [foreign] = await tx
+          .select({ id: clusters.id })
+          .from(clusters)
+          .where(and(inArray(clusters.id, clusterIds), ne(clusters.floorId, floorId)));
+        if (foreign) throw new LayoutValidationError(`Cluster id ${foreign.id} is already used on another floor`);
+      }
+      if (seatIds.length > 0) {
+        const [foreign] = await tx
+          .select({ id: seats.id })
+          .from(seats)
+          .where(and(inArray(seats.id, seatIds), ne(seats.floorId, floorId)));
+        if (foreign) throw new LayoutValidationError(`Seat id ${foreign.id} is already used on another floor`);
+      }
+      if (shapeIds.length > 0) {
+        const [foreign] = await tx
+          .select({ id: layoutShapes.id })
+          .from(layoutShapes)
+          .where(and(inArray(layoutShapes.id, shapeIds), ne(layoutShapes.floorId, floorId)));
+        if (foreign) throw new LayoutValidationError(`Shape id ${foreign.id} is already used on another floor`);
+      }
+
+      await this.ensureBaselineRevision(tx, floorId);
+
+      const now = new Date();
+      const existingClusters = await tx.select().from(clusters).where(eq(clusters.floorId, floorId));
+      const existingSeats = await tx.select().from(seats).where(eq(seats.floorId, floorId));
+      const keptClusterIds = new Set(clusterIds);
+      const keptSeatIds = new Set(seatIds);
+
+      const removedSeatIds = existingSeats
+        .filter(s => !s.archivedAt && !keptSeatIds.has(s.id))
+        .map(s => s.id);
+      let flaggedBookings: Booking[] = [];
+      if (removedSeatIds.length > 0) {
+        await tx.update(seats).set({ archivedAt: now, updatedAt: now }).where(inArray(seats.id, removedSeatIds));
+        flaggedBookings = await tx
+          .update(bookings)
+          .set({ needsReassignment: true })
+          .where(
+            and(
+              inArray(bookings.seatId, removedSeatIds),
+              gte(bookings.date, options.today),
+              isNull(bookings.cancelledAt)
+            )
+          )
+          .returning();
+      }
+      const removedClusterIds = existingClusters.filter(c => !keptClusterIds.has(c.id)).map(c => c.id);
+      if (removedClusterIds.length > 0) {
+        await tx.delete(clusters).where(inArray(clusters.id, removedClusterIds));
+      }
+
+      const existingClusterIds = new Set(existingClusters.map(c => c.id));
+      for (const cluster of snapshot.clusters) {
+        if (existingClusterIds.has(cluster.id)) {
+          await tx.update(clusters).set({ ...cluster, updatedAt: now }).where(eq(clusters.id, cluster.id));
+        } else {
+          await tx.insert(clusters).values({ ...cluster, floorId });
+        }
+      }
+
+      // Park renamed and restored seats on placeholder names first so swapping two names doesn't trip
+      // the per-floor unique index halfway through
+      const existingById = new Map(existingSeats.map(s => [s.id, s]));
+      const parked = snapshot.seats.filter(s => {
+        const existing = existingById.get(s.id);
+        return existing && (existing.name !== s.name || existing.archivedAt);
+      });
+      for (let i = 0; i < parked.length; i++) {
+        await tx.update(seats).set({ name: `~${i}` }).where(eq(seats.id, parked[i].id));
+      }
+
+      const restoredSeatIds: string[] = [];
+      for (const seat of snapshot.seats) {
+        const existing = existingById.get(seat.id);
+        if (existing) {
+          if (existing.archivedAt) restoredSeatIds.push(seat.id);
+          await tx
+            .update(seats)
+            .set({ ...seat, ...seatAttributes.get(seat.id), archivedAt: null, updatedAt: now })
+            .where(eq(seats.id, seat.id));
+        } else {
+          await tx.insert(seats).values({ ...seat, ...seatAttributes.get(seat.id), floorId });
+        }
+      }
+      if (restoredSeatIds.length > 0) {
+        await tx
+          .update(bookings)
+          .set({ needsReassignment: false })
+          .where(and(inArray(bookings.seatId, restoredSeatIds), eq(bookings.needsReassignment, true)));
+      }
+
+      // Shapes carry nothing else, so they are simply replaced
+      await tx.delete(layoutShapes).where(eq(layoutShapes.floorId, floorId));
+      if (shapes.length > 0) {
+        await tx.insert(layoutShapes).values(shapes.map(shape => ({ ...shape, floorId })));
+      }
+
+      const published = {
+        status: "published" as const,
+        snapshot,
+        baseRevision: floor.layoutRevision,
+        effectiveDate: options.today,
+        publishedBy: options.userId,
+        publishedAt: now,
+        updatedAt: now,
+      };
+      let revision: LayoutRevision | undefined;
+      if (options.revisionId) {
+        [revision] = await tx
+          .update(layoutRevisions)
+          .set({ ...published, ...(options.note !== undefined ? { note: options.note } : {}) })
+          .where(eq(layoutRevisions.id, options.revisionId))
+          .returning();
+      }
+      if (!revision) {
+        [revision] = await tx
+          .insert(layoutRevisions)
+          .values({
+            ...published,
+            floorId,
+            version: await this.nextLayoutVersion(tx, floorId),
+            note: options.note ?? null,
+            createdBy: options.userId,
+          })
+          .returning();
+      }
+
+      const [clusterRows, seatRows, shapeRows] = await Promise.all([
+        tx.select().from(clusters).where(eq(clusters.floorId, floorId)).orderBy(clusters.id),
+        tx
+          .select()
+          .from(seats)
+          .where(and(eq(seats.floorId, floorId), isNull(seats.archivedAt)))
+          .orderBy(seats.name),
+        tx.select().from(layoutShapes).where(eq(layoutShapes.floorId, floorId)).orderBy(layoutShapes.id),
+      ]);
+      return {
+        layout: { floorId, revision: floor.layoutRevision, clusters: clusterRows, seats: seatRows, shapes: shapeRows },
+        revision,
+        flaggedBookings,
+      };
+    });
+    publishChange("layout", "clusters", "seats", "bookings");
+    return applied;
+  }
+
+  private async nextLayoutVersion(tx: Transaction, floorId: string): Promise<number> {
+    const [row] = await tx
+      .select({ max: sql<number>`coalesce(max(${layoutRevisions.version}), 0)::int` })
+      .from(layoutRevisions)
+      .where(eq(layoutRevisions.floorId, floorId));
+    return row.max + 1;
+  }
+
+  // Floors laid out before versioning existed get their current layout recorded as the first
+  // published revision, so the first publish can still be rolled back
+  private async ensureBaselineRevision(tx: Transaction, floorId: string): Promise<void> {
+    const [existing] = await tx
+      .select({ id: layoutRevisions.id })
+      .from(layoutRevisions)
+      .where(and(eq(layoutRevisions.floorId, floorId), eq(layoutRevisions.status, "published")))
+      .limit(1);
+    if (existing) return;
+
+    const [floor] = await tx.select().from(floors).where(eq(floors.id, floorId));
+    const [clusterRows, seatRows, shapeRows] = await Promise.all([
+      tx.select().from(clusters).where(eq(clusters.floorId, floorId)).orderBy(clusters.id),
+      tx
+        .select()
+        .from(seats)
+        .where(and(eq(seats.floorId, floorId), isNull(seats.archivedAt)))
+        .orderBy(seats.name),
+      tx.select().from(layoutShapes).where(eq(layoutShapes.floorId, floorId)).orderBy(layoutShapes.id),
+    ]);
+    await tx.insert(layoutRevisions).values({
+      floorId,
+      version: await this.nextLayoutVersion(tx, floorId),
+      status: "published",
+      snapshot: toLayoutSnapshot(clusterRows, seatRows, shapeRows),
+      baseRevision: floor?.layoutRevision ?? 0,
+      note: "Layout before versioning",
+      publishedAt: floor?.createdAt ?? new Date(),
+    });
+  }
+
+  // Changes made outside the layout editor still invalidate layouts loaded before them
+  async bumpLayoutRevision(floorId: string | null): Promise<void> {
+    if (!floorId) return;
+    await db
+      .update(floors)
+      .set({ layoutRevision: sql`${floors.layoutRevision} + 1` })
+      .where(eq(floors.id, floorId));
+    publishChange("layout");
+  }
+
+  async getFloorBackground(floorId: string): Promise<FloorBackground | undefined> {
+    const [background] = await db.select().from(floorBackgrounds).where(eq(floorBackgrounds.floorId, floorId));
+    return background;
+  }
+
+  // Without imageData only the placement of an existing image changes; returns undefined if there is none
+  async saveFloorBackground(
+    floorId: string,
+    background: SaveFloorBackground,
+    userId: string
+  ): Promise<FloorBackground | undefined> {
+    const placement = {
+      positionX: background.positionX,
+      positionY: background.positionY,
+      scale: background.scale,
+      opacity: background.opacity,
+      updatedBy: userId,
+      updatedAt: new Date(),
+    };
+    if (!background.imageData) {
+      const [updated] = await db
+        .update(floorBackgrounds)
+        .set(placement)
+        .where(eq(floorBackgrounds.floorId, floorId))
+        .returning();
+      if (updated) publishChange("layout");
+      return updated;
+    }
+
+    const image = { imageData: background.imageData, width: background.width!, height: background.height! };
+    const [saved] = await db
+      .insert(floorBackgrounds)
+      .values({ floorId, ...image, ...placement })
+      .onConflictDoUpdate({ target: floorBackgrounds.floorId, set: { ...image, ...placement } })
+      .returning();
+    publishChange("layout");
+    return saved;
+  }
+
+  async deleteFloorBackground(floorId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(floorBackgrounds)
+      .where(eq(floorBackgrounds.floorId, floorId))
+      .returning({ floorId: floorBackgrounds.floorId });
+    if (deleted.length > 0) publishChange("layout");
+    return deleted.length > 0;
+  }
+
+  // Layout revision operations
+  async getLayoutRevisions(floorId: string): Promise<LayoutRevisionSummary[]> {
+    const rows = await db
+      .select()
+      .from(layoutRevisions)
+      .where(eq(layoutRevisions.floorId, floorId))
+      .orderBy(desc(layoutRevisions.version));
+    return rows.map(({ snapshot, ...revision }) => ({
+      ...revision,
+      clusterCount: snapshot.clusters.length,
+      seatCount: snapshot.seats.length,
+    }));
+  }
+
+  async getLayoutRevision(id: string): Promise<LayoutRevision | undefined> {
+    const [revision] = await db.select().from(layoutRevisions).where(eq(layoutRevisions.id, id));
+    return revision;
+  }
+
+  async getLayoutDraft(floorId: string): Promise<LayoutRevision | undefined> {
+    const [draft] = await db
+      .select()
+      .from(layoutRevisions)
+      .where(and(eq(layoutRevisions.floorId, floorId), eq(layoutRevisions.status, "draft")));
+    return draft;
+  }
+
+  // Each floor has at most one draft, which every save overwrites
+  async saveLayoutDraft(
+    floorId: string,
+    draft: { snapshot: LayoutSnapshot; baseRevision: number; note?: string | null; userId: string }
+  ): Promise<LayoutRevision> {
+    return db.transaction(async (tx) => {
+      await this.ensureBaselineRevision(tx, floorId);
+      const [existing] = await tx
+        .select()
+        .from(layoutRevisions)
+        .where(and(eq(layoutRevisions.floorId, floorId), eq(layoutRevisions.status, "draft")));
+      if (existing) {
+        const [updated] = await tx
+          .update(layoutRevisions)
+          .set({
+            snapshot: draft.snapshot,
+            baseRevision: draft.baseRevision,
+            note: draft.note === undefined ? existing.note : draft.note,
+            updatedAt: new Date(),
+          })
+          .where(eq(layoutRevisions.id, existing.id))
+          .returning();
+        return updated;
+      }
+      const [created] = await tx
+        .insert(layoutRevisions)
+        .values({
+          floorId,
+          version: await this.nextLayoutVersion(tx, floorId),
+          status: "draft",
+          snapshot: draft.snapshot,
+          baseRevision: draft.baseRevision,
+          note: draft.note ?? null,
+          createdBy: draft.userId,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async scheduleLayoutRevision(
+    id: string,
+    schedule: { effectiveDate: string; userId: string; note?: string | null }
+  ): Promise<LayoutRevision | undefined> {
+    const [scheduled] = await db
+      .update(layoutRevisions)
+      .set({
+        status: "scheduled",
+        effectiveDate: schedule.effectiveDate,
+        publishedBy: schedule.userId,
+        ...(schedule.note !== undefined ? { note: schedule.note } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(layoutRevisions.id, id), eq(layoutRevisions.status, "draft")))
+      .returning();
+    return scheduled;
+  }
+
+  // A scheduled revision that can't be applied is set aside so the publisher stops retrying it
+  async failLayoutRevision(id: string, reason: string): Promise<LayoutRevision | undefined> {
+    const [failed] = await db
+      .update(layoutRevisions)
+      .set({ status: "failed", failureReason: reason.slice(0, 500), updatedAt: new Date() })
+      .where(and(eq(layoutRevisions.id, id), eq(layoutRevisions.status, "scheduled")))
+      .returning();
+    return failed;
+  }
+
+  // Only drafts, scheduled and failed revisions can be discarded; published history is kept
+  async deleteLayoutRevision(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(layoutRevisions)
+      .where(and(eq(layoutRevisions.id, id), ne(layoutRevisions.status, "published")))
+      .returning({ id: layoutRevisions.id });
+    return deleted.length > 0;
+  }
+
+  async getDueLayoutRevisions(today: string): Promise<LayoutRevision[]> {
+    return db
+      .select()
+      .from(layoutRevisions)
+      .where(and(eq(layoutRevisions.status, "scheduled"), lte(layoutRevisions.effectiveDate, today)))
+      .orderBy(layoutRevisions.effectiveDate, layoutRevisions.version);
+  }
+
+  // User preference operations
+  async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
+    const [prefs] = await db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    return prefs;
+  }
+
+  async updateUserPreferences(userId: string, updates: UpdateUserPreferences): Promise<UserPreferences> {
+    const [prefs] = await db
+      .insert(userPreferences)
+      .values({ userId, ...updates })
+      .onConflictDoUpdate({
+        target: userPreferences.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return prefs;
+  }
+
+  async getUserIdByCalendarToken(token: string): Promise<string | undefined> {
+    const [prefs] = await db
+      .select({ userId: userPreferences.userId })
+      .from(userPreferences)
+      .where(eq(userPreferences.calendarToken, token));
+    return prefs?.userId;
+  }
+
+  async setCalendarToken(userId: string, token: string): Promise<UserPreferences> {
+    const [prefs] = await db
+      .insert(userPreferences)
+      .values({ userId, calendarToken: token })
+      .onConflictDoUpdate({
+        target: userPreferences.userId,
+        set: { calendarToken: token, updatedAt: new Date() },
+      })
+      .returning();
+    return prefs;
+  }
+
   // Cluster operations
   async getAllClusters(): Promise<Cluster[]> {
     return db.select().from(clusters).orderBy(clusters.id);
   }
 
+  async getClustersByFloor(floorId: string): Promise<Cluster[]> {
+    return db.select().from(clusters).where(eq(clusters.floorId, floorId)).orderBy(clusters.id);
+  }
+
   async getCluster(id: string): Promise<Cluster | undefined> {
     const [cluster] = await db.select().from(clusters).where(eq(clusters.id, id));
     return cluster;
@@ -105,6 +826,7 @@ export class DatabaseStorage implements IStorage {
 
   async createCluster(cluster: InsertCluster): Promise<Cluster> {
     const [created] = await db.insert(clusters).values(cluster).returning();
+    publishChange("clusters");
     return created;
   }
 
@@ -114,51 +836,150 @@ export class DatabaseStorage implements IStorage {
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(clusters.id, id))
       .returning();
+    if (updated) publishChange("clusters");
     return updated;
   }
 
   async deleteCluster(id: string): Promise<boolean> {
     await db.delete(clusters).where(eq(clusters.id, id));
+    publishChange("clusters");
     return true;
   }
 
   // Seat operations
+  // Seats archived by a layout publish are kept for their bookings but are otherwise gone
   async getAllSeats(): Promise<Seat[]> {
-    return db.select().from(seats).orderBy(seats.name);
+    return db.select().from(seats).where(isNull(seats.archivedAt)).orderBy(seats.name);
   }
 
   async getSeat(id: string): Promise<Seat | undefined> {
-    const [seat] = await db.select().from(seats).where(eq(seats.id, id));
+    const [seat] = await db.select().from(seats).where(and(eq(seats.id, id), isNull(seats.archivedAt)));
     return seat;
   }
 
-  async getSeatByName(name: string): Promise<Seat | undefined> {
-    const [seat] = await db.select().from(seats).where(eq(seats.name, name));
+  async getSeatsByFloor(floorId: string): Promise<Seat[]> {
+    return db
+      .select()
+      .from(seats)
+      .where(and(eq(seats.floorId, floorId), isNull(seats.archivedAt)))
+      .orderBy(seats.name);
+  }
+
+  async getSeatByName(floorId: string, name: string): Promise<Seat | undefined> {
+    const [seat] = await db
+      .select()
+      .from(seats)
+      .where(and(eq(seats.floorId, floorId), eq(seats.name, name), isNull(seats.archivedAt)));
     return seat;
   }
 
+  async getSeatsReservedFor(userId: string): Promise<Seat[]> {
+    return db
+      .select()
+      .from(seats)
+      .where(
+        and(
+          eq(seats.isLongTermReserved, true),
+          eq(seats.longTermReservedFor, userId),
+          isNull(seats.archivedAt)
+        )
+      )
+      .orderBy(seats.name);
+  }
+
+  // Long-term holders are free text: any of a user's id, email or name may have been entered. The
+  // holder is linked to a user only when exactly one matches, so two people sharing a name never are.
+  private async withReservationHolder<T extends { longTermReservedBy?: string | null }>(
+    values: T
+  ): Promise<T & { longTermReservedFor?: string | null }> {
+    if (values.longTermReservedBy === undefined) return values;
+    const holder = values.longTermReservedBy?.trim().toLowerCase();
+    if (!holder) return { ...values, longTermReservedFor: null };
+    const matches = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(
+        or(
+          eq(sql`lower(${users.id})`, holder),
+          eq(sql`lower(${users.email})`, holder),
+          eq(sql`lower(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})))`, holder)
+        )
+      )
+      .limit(2);
+    return { ...values, longTermReservedFor: matches.length === 1 ? matches[0].id : null };
+  }
+
   async createSeat(seat: InsertSeat): Promise<Seat> {
-    const [created] = await db.insert(seats).values(seat).returning();
+    const [created] = await db.insert(seats).values(await this.withReservationHolder(seat)).returning();
+    publishChange("seats");
     return created;
   }
 
   async updateSeat(id: string, updates: Partial<InsertSeat>): Promise<Seat | undefined> {
     const [updated] = await db
       .update(seats)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...(await this.withReservationHolder(updates)), updatedAt: new Date() })
       .where(eq(seats.id, id))
       .returning();
+    if (updated) publishChange("seats");
     return updated;
   }
 
-  async deleteSeat(id: string): Promise<boolean> {
-    const result = await db.delete(seats).where(eq(seats.id, id));
-    return true;
+  // Take a seat off the floor the same way a layout publish does: the row stays so its booking
+  // history survives, and upcoming bookings on it are flagged for an admin to move
+  async archiveSeat(id: string, today: string): Promise<Booking[]> {
+    const flagged = await db.transaction(async (tx) => {
+      const now = new Date();
+      await tx.update(seats).set({ archivedAt: now, updatedAt: now }).where(eq(seats.id, id));
+      return tx
+        .update(bookings)
+        .set({ needsReassignment: true })
+        .where(and(eq(bookings.seatId, id), gte(bookings.date, today), isNull(bookings.cancelledAt)))
+        .returning();
+    });
+    publishChange("seats");
+    if (flagged.length > 0) publishChange("bookings");
+    return flagged;
+  }
+
+  // Every seat on the floor, archived ones included, since deleting the floor would erase them too
+  async countSeatsOnFloor(floorId: string): Promise<number> {
+    const [row] = await db.select({ total: sql<number>`count(*)::int` }).from(seats).where(eq(seats.floorId, floorId));
+    return row?.total ?? 0;
   }
 
   // Booking operations
-  async getAllBookings(): Promise<Booking[]> {
-    return db.select().from(bookings).orderBy(bookings.date);
+  // One page of the bookings matching the filter, plus how many match in total
+  async getBookings(filter: BookingFilter): Promise<BookingPage> {
+    const pattern = filter.search ? `%${filter.search.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+    const where = and(
+      filter.from ? gte(bookings.date, filter.from) : undefined,
+      filter.to ? lte(bookings.date, filter.to) : undefined,
+      filter.seatId ? eq(bookings.seatId, filter.seatId) : undefined,
+      filter.userId ? eq(bookings.userId, filter.userId) : undefined,
+      filter.floorId ? eq(seats.floorId, filter.floorId) : undefined,
+      filter.slot ? eq(bookings.slot, filter.slot) : undefined,
+      filter.includeCancelled ? undefined : isNull(bookings.cancelledAt),
+      pattern
+        ? or(ilike(bookings.userName, pattern), ilike(bookings.userEmail, pattern), ilike(seats.name, pattern))
+        : undefined
+    );
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({ booking: bookings })
+        .from(bookings)
+        .innerJoin(seats, eq(bookings.seatId, seats.id))
+        .where(where)
+        .orderBy(bookings.date, bookings.slot, bookings.id)
+        .limit(filter.limit)
+        .offset(filter.offset),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(bookings)
+        .innerJoin(seats, eq(bookings.seatId, seats.id))
+        .where(where),
+    ]);
+    return { bookings: rows.map(r => r.booking), total };
   }
 
   async getBookingsByUser(userId: string): Promise<Booking[]> {
@@ -176,6 +997,22 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(bookings.date, date), isNull(bookings.cancelledAt)));
   }
 
+  async getBookingsByFloor(floorId: string, date?: string): Promise<Booking[]> {
+    const rows = await db
+      .select({ booking: bookings })
+      .from(bookings)
+      .innerJoin(seats, eq(bookings.seatId, seats.id))
+      .where(
+        and(
+          eq(seats.floorId, floorId),
+          date ? eq(bookings.date, date) : undefined,
+          isNull(bookings.cancelledAt)
+        )
+      )
+      .orderBy(bookings.date);
+    return rows.map(r => r.booking);
+  }
+
   async getBookingsBySeatAndDate(seatId: string, date: string): Promise<Booking[]> {
     return db
       .select()
@@ -189,29 +1026,639 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async getUpcomingBookingsBySeat(seatId: string, fromDate: string): Promise<Booking[]> {
+    return db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.seatId, seatId),
+          gte(bookings.date, fromDate),
+          isNull(bookings.cancelledAt)
+        )
+      )
+      .orderBy(bookings.date, bookings.slot);
+  }
+
+  async getBookingsNeedingReminder(date: string): Promise<Booking[]> {
+    return db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.date, date),
+          isNull(bookings.cancelledAt),
+          isNull(bookings.reminderSentAt)
+        )
+      )
+      .orderBy(bookings.slot);
+  }
+
+  async markRemindersSent(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(bookings).set({ reminderSentAt: new Date() }).where(inArray(bookings.id, ids));
+  }
+
+  async getActiveBookingsByUserInRange(userId: string, from: string, to: string): Promise<Booking[]> {
+    return db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.userId, userId),
+          gte(bookings.date, from),
+          lte(bookings.date, to),
+          isNull(bookings.cancelledAt)
+        )
+      );
+  }
+
   async getBooking(id: string): Promise<Booking | undefined> {
     const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
     return booking;
   }
 
   async createBooking(booking: InsertBooking): Promise<Booking> {
-    const [created] = await db.insert(bookings).values(booking).returning();
+    const [created] = await this.createBulkBookings([booking]);
     return created;
   }
 
-  async cancelBooking(id: string): Promise<Booking | undefined> {
+  // Undefined when the booking doesn't exist or was already cancelled, which keeps its original reason
+  async cancelBooking(id: string, reason: CancellationReason = "user"): Promise<Booking | undefined> {
     const [cancelled] = await db
       .update(bookings)
-      .set({ cancelledAt: new Date() })
-      .where(eq(bookings.id, id))
+      .set({ cancelledAt: new Date(), cancellationReason: reason })
+      .where(and(eq(bookings.id, id), isNull(bookings.cancelledAt)))
+      .returning();
+    if (cancelled) publishChange("bookings");
+    return cancelled;
+  }
+
+  // Checked in or cancelled since the sweep read it means the booking is no longer a no-show
+  async releaseNoShow(id: string): Promise<Booking | undefined> {
+    const [released] = await db
+      .update(bookings)
+      .set({ cancelledAt: new Date(), cancellationReason: "no_show" })
+      .where(and(eq(bookings.id, id), isNull(bookings.checkedInAt), isNull(bookings.cancelledAt)))
+      .returning();
+    if (released) publishChange("bookings");
+    return released;
+  }
+
+  // Bookings already checked into are left alone: the user was in the office for them
+  async cancelUserBookings(userId: string, fromDate: string, reason: CancellationReason): Promise<Booking[]> {
+    const cancelled = await db
+      .update(bookings)
+      .set({ cancelledAt: new Date(), cancellationReason: reason })
+      .where(
+        and(
+          eq(bookings.userId, userId),
+          gte(bookings.date, fromDate),
+          isNull(bookings.cancelledAt),
+          isNull(bookings.checkedInAt)
+        )
+      )
       .returning();
+    if (cancelled.length > 0) publishChange("bookings");
     return cancelled;
   }
 
+  // Checking in covers the booked slot and any later slot the user holds at the same seat that day
+  async checkInBooking(booking: Booking): Promise<Booking[]> {
+    const checkedIn = await db
+      .update(bookings)
+      .set({ checkedInAt: new Date() })
+      .where(
+        and(
+          eq(bookings.userId, booking.userId),
+          eq(bookings.seatId, booking.seatId),
+          eq(bookings.date, booking.date),
+          booking.slot === "PM" ? eq(bookings.slot, "PM") : undefined,
+          isNull(bookings.cancelledAt),
+          isNull(bookings.checkedInAt)
+        )
+      )
+      .returning();
+    if (checkedIn.length > 0) publishChange("bookings");
+    return checkedIn;
+  }
+
+  async getUncheckedBookings(date: string, slot: TimeSlot): Promise<Booking[]> {
+    return db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.date, date),
+          eq(bookings.slot, slot),
+          isNull(bookings.cancelledAt),
+          isNull(bookings.checkedInAt)
+        )
+      );
+  }
+
+  // Bookings count towards the rate once they are in the past or already resolved by check-in or release
+  async getNoShowStats(today: string): Promise<NoShowStats[]> {
+    const rows = await db
+      .select({
+        userId: bookings.userId,
+        userName: sql<string | null>`max(${bookings.userName})`,
+        userEmail: sql<string | null>`max(${bookings.userEmail})`,
+        totalBookings: sql<number>`count(*)::int`,
+        checkedIn: sql<number>`count(${bookings.checkedInAt})::int`,
+        noShows: sql<number>`count(*) filter (where ${bookings.cancellationReason} = 'no_show')::int`,
+      })
+      .from(bookings)
+      .where(
+        and(
+          or(isNull(bookings.cancelledAt), eq(bookings.cancellationReason, "no_show")),
+          or(
+            lt(bookings.date, today),
+            isNotNull(bookings.checkedInAt),
+            eq(bookings.cancellationReason, "no_show")
+          )
+        )
+      )
+      .groupBy(bookings.userId);
+
+    return rows.map((row) => ({
+      ...row,
+      noShowRate: row.totalBookings > 0 ? row.noShows / row.totalBookings : 0,
+    }));
+  }
+
+  async getBookingsNeedingReassignment(today: string): Promise<FlaggedBooking[]> {
+    const rows = await db
+      .select({ booking: bookings, seatName: seats.name, floorId: seats.floorId })
+      .from(bookings)
+      .innerJoin(seats, eq(bookings.seatId, seats.id))
+      .where(
+        and(
+          eq(bookings.needsReassignment, true),
+          gte(bookings.date, today),
+          isNull(bookings.cancelledAt)
+        )
+      )
+      .orderBy(bookings.date, bookings.slot);
+    return rows.map(({ booking, seatName, floorId }) => ({ ...booking, seatName, floorId }));
+  }
+
+  // Moves a booking to another seat; the partial unique index rejects a seat already taken for that slot
+  async reassignBooking(id: string, seatId: string): Promise<Booking | undefined> {
+    try {
+      const [updated] = await db
+        .update(bookings)
+        .set({ seatId, needsReassignment: false })
+        .where(eq(bookings.id, id))
+        .returning();
+      if (updated) publishChange("bookings");
+      return updated;
+    } catch (error) {
+      // 23505 is Postgres' unique violation: someone holds the target seat for that slot
+      if (error instanceof Error && "code" in error && error.code === "23505") {
+        const booking = await this.getBooking(id);
+        throw new BookingConflictError(booking ? [{ seatId, date: booking.date, slot: booking.slot }] : []);
+      }
+      throw error;
+    }
+  }
+
   // Bulk operations
   async createBulkBookings(bookingsData: InsertBooking[]): Promise<Booking[]> {
     if (bookingsData.length === 0) return [];
-    return db.insert(bookings).values(bookingsData).returning();
+    // The partial unique index on (seat_id, date, slot) arbitrates concurrent inserts:
+    // rows that lose the race are skipped, and any skip rolls back the whole batch.
+    const created = await db.transaction(async (tx) => {
+      const created = await tx
+        .insert(bookings)
+        .values(bookingsData)
+        .onConflictDoNothing()
+        .returning();
+
+      if (created.length < bookingsData.length) {
+        const createdKeys = new Set(created.map(slotKey));
+        const conflicts = bookingsData
+          .filter((b) => !createdKeys.has(slotKey(b)))
+          .map(({ seatId, date, slot }) => ({ seatId, date, slot }));
+        throw new BookingConflictError(conflicts);
+      }
+
+      return created;
+    });
+    publishChange("bookings");
+    return created;
+  }
+
+  // Unlike createBulkBookings, slots already taken are reported instead of aborting the batch
+  async createBookingsSkippingConflicts(bookingsData: InsertBooking[]): Promise<{ created: Booking[]; conflicts: BookingSlot[] }> {
+    if (bookingsData.length === 0) return { created: [], conflicts: [] };
+    const created = await db
+      .insert(bookings)
+      .values(bookingsData)
+      .onConflictDoNothing()
+      .returning();
+    const createdKeys = new Set(created.map(slotKey));
+    const conflicts = bookingsData
+      .filter((b) => !createdKeys.has(slotKey(b)))
+      .map(({ seatId, date, slot }) => ({ seatId, date, slot }));
+    if (created.length > 0) publishChange("bookings");
+    return { created, conflicts };
+  }
+
+  // Booking series operations
+  async getBookingSeries(id: string): Promise<BookingSeries | undefined> {
+    const [series] = await db.select().from(bookingSeries).where(eq(bookingSeries.id, id));
+    return series;
+  }
+
+  async getBookingSeriesByUser(userId: string): Promise<BookingSeries[]> {
+    return db
+      .select()
+      .from(bookingSeries)
+      .where(eq(bookingSeries.userId, userId))
+      .orderBy(desc(bookingSeries.createdAt));
+  }
+
+  async getOpenBookingSeries(fromDate: string): Promise<BookingSeries[]> {
+    return db
+      .select()
+      .from(bookingSeries)
+      .where(
+        and(
+          isNull(bookingSeries.endedAt),
+          or(isNull(bookingSeries.endDate), gte(bookingSeries.endDate, fromDate))
+        )
+      );
+  }
+
+  async createBookingSeries(series: InsertBookingSeries): Promise<BookingSeries> {
+    const [created] = await db.insert(bookingSeries).values(series).returning();
+    return created;
+  }
+
+  async updateBookingSeries(id: string, updates: Partial<InsertBookingSeries>): Promise<BookingSeries | undefined> {
+    const [updated] = await db
+      .update(bookingSeries)
+      .set(updates)
+      .where(eq(bookingSeries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async cancelSeriesBookings(seriesId: string, range: { from: string; to?: string }): Promise<Booking[]> {
+    const cancelled = await db
+      .update(bookings)
+      .set({ cancelledAt: new Date(), cancellationReason: "user" })
+      .where(
+        and(
+          eq(bookings.seriesId, seriesId),
+          isNull(bookings.cancelledAt),
+          gte(bookings.date, range.from),
+          range.to ? lte(bookings.date, range.to) : undefined
+        )
+      )
+      .returning();
+    if (cancelled.length > 0) publishChange("bookings");
+    return cancelled;
+  }
+
+  // Waitlist operations
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry;
+  }
+
+  async getWaitlistByUser(userId: string): Promise<WaitlistEntry[]> {
+    return db
+      .select()
+      .from(waitlistEntries)
+      .where(eq(waitlistEntries.userId, userId))
+      .orderBy(waitlistEntries.date, desc(waitlistEntries.createdAt));
+  }
+
+  // Entries still waiting for this seat, or for any seat, in queue order
+  async getWaitingEntriesForSlot(seatId: string, date: string, slot: TimeSlot): Promise<WaitlistEntry[]> {
+    return db
+      .select()
+      .from(waitlistEntries)
+      .where(
+        and(
+          eq(waitlistEntries.status, "waiting"),
+          eq(waitlistEntries.date, date),
+          eq(waitlistEntries.slot, slot),
+          or(eq(waitlistEntries.seatId, seatId), isNull(waitlistEntries.seatId))
+        )
+      )
+      .orderBy(asc(waitlistEntries.createdAt));
+  }
+
+  async getExpiredWaitlistOffers(now: Date): Promise<WaitlistEntry[]> {
+    return db
+      .select()
+      .from(waitlistEntries)
+      .where(and(eq(waitlistEntries.status, "offered"), lt(waitlistEntries.offerExpiresAt, now)));
+  }
+
+  async createWaitlistEntries(entries: InsertWaitlistEntry[]): Promise<WaitlistEntry[]> {
+    if (entries.length === 0) return [];
+    return db.insert(waitlistEntries).values(entries).returning();
+  }
+
+  async updateWaitlistEntry(id: string, updates: Partial<InsertWaitlistEntry>): Promise<WaitlistEntry | undefined> {
+    const [updated] = await db
+      .update(waitlistEntries)
+      .set(updates)
+      .where(eq(waitlistEntries.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Booking policy operations
+  async getBookingPolicies(): Promise<BookingPolicies> {
+    const [existing] = await db.select().from(bookingPolicies).where(eq(bookingPolicies.id, "default"));
+    if (existing) return existing;
+
+    // First read creates the settings row with the column defaults
+    await db.insert(bookingPolicies).values({ id: "default" }).onConflictDoNothing();
+    const [created] = await db.select().from(bookingPolicies).where(eq(bookingPolicies.id, "default"));
+    return created;
+  }
+
+  async updateBookingPolicies(updates: UpdateBookingPolicies, updatedBy: string): Promise<BookingPolicies> {
+    await this.getBookingPolicies();
+    const [updated] = await db
+      .update(bookingPolicies)
+      .set({ ...updates, updatedBy, updatedAt: new Date() })
+      .where(eq(bookingPolicies.id, "default"))
+      .returning();
+    return updated;
+  }
+
+  // Closure operations
+  async getClosures(range: { from?: string; to?: string } = {}): Promise<Closure[]> {
+    return db
+      .select()
+      .from(closures)
+      .where(
+        and(
+          range.from ? gte(closures.endDate, range.from) : undefined,
+          range.to ? lte(closures.startDate, range.to) : undefined
+        )
+      )
+      .orderBy(asc(closures.startDate));
+  }
+
+  async createClosures(entries: InsertClosure[]): Promise<Closure[]> {
+    if (entries.length === 0) return [];
+    return db.insert(closures).values(entries).returning();
+  }
+
+  async deleteClosure(id: string): Promise<boolean> {
+    const result = await db.delete(closures).where(eq(closures.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async cancelBookingsForClosure(closure: Closure, fromDate: string): Promise<Booking[]> {
+    const cancelled = await db
+      .update(bookings)
+      .set({ cancelledAt: new Date(), cancellationReason: "closure" })
+      .where(
+        and(
+          gte(bookings.date, closure.startDate > fromDate ? closure.startDate : fromDate),
+          lte(bookings.date, closure.endDate),
+          closure.slot ? eq(bookings.slot, closure.slot) : undefined,
+          isNull(bookings.cancelledAt)
+        )
+      )
+      .returning();
+    if (cancelled.length > 0) publishChange("bookings");
+    return cancelled;
+  }
+
+  async cancelWaitlistForClosure(closure: Closure, fromDate: string): Promise<WaitlistEntry[]> {
+    return db
+      .update(waitlistEntries)
+      .set({ status: "cancelled", resolvedAt: new Date() })
+      .where(
+        and(
+          gte(waitlistEntries.date, closure.startDate > fromDate ? closure.startDate : fromDate),
+          lte(waitlistEntries.date, closure.endDate),
+          closure.slot ? eq(waitlistEntries.slot, closure.slot) : undefined,
+          or(eq(waitlistEntries.status, "waiting"), eq(waitlistEntries.status, "offered"))
+        )
+      )
+      .returning();
+  }
+
+  // Notification operations
+  async getNotificationsByUser(userId: string): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(50);
+  }
+
+  async createNotifications(entries: InsertNotification[]): Promise<Notification[]> {
+    if (entries.length === 0) return [];
+    return db.insert(notifications).values(entries).returning();
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          isNull(notifications.readAt),
+          ids ? inArray(notifications.id, ids) : undefined
+        )
+      );
+  }
+
+  // Active users with an email address who have not turned this kind of email off; preferences default to on
+  async getEmailRecipients(userIds: string[], preference: EmailPreference): Promise<EmailRecipient[]> {
+    if (userIds.length === 0) return [];
+    const rows = await db
+      .select({
+        userId: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        enabled: userPreferences[preference],
+      })
+      .from(users)
+      .leftJoin(userPreferences, eq(userPreferences.userId, users.id))
+      .leftJoin(userRoles, eq(userRoles.userId, users.id))
+      .where(
+        and(
+          inArray(users.id, userIds),
+          isNotNull(users.email),
+          or(isNull(userRoles.isActive), eq(userRoles.isActive, true))
+        )
+      );
+    return rows
+      .filter(row => row.email && row.enabled !== false)
+      .map(({ userId, email, firstName }) => ({ userId, email: email!, firstName }));
+  }
+
+  // Webhook operations
+  async getAllWebhooks(): Promise<Webhook[]> {
+    return db.select().from(webhooks).orderBy(webhooks.createdAt);
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async getActiveWebhooksForEvent(event: WebhookEvent): Promise<Webhook[]> {
+    return db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.isActive, true), sql`${webhooks.events} @> ${JSON.stringify([event])}::jsonb`));
+  }
+
+  async createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    const [created] = await db.insert(webhooks).values(webhook).returning();
+    return created;
+  }
+
+  async updateWebhook(id: string, updates: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    const [updated] = await db
+      .update(webhooks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    const result = await db.delete(webhooks).where(eq(webhooks.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  // Pending deliveries to active webhooks whose next attempt is due, oldest first
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<{ delivery: WebhookDelivery; webhook: Webhook }[]> {
+    return db
+      .select({ delivery: webhookDeliveries, webhook: webhooks })
+      .from(webhookDeliveries)
+      .innerJoin(webhooks, eq(webhooks.id, webhookDeliveries.webhookId))
+      .where(
+        and(
+          eq(webhookDeliveries.status, "pending"),
+          lte(webhookDeliveries.nextAttemptAt, now),
+          eq(webhooks.isActive, true)
+        )
+      )
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  async updateWebhookDelivery(
+    id: string,
+    updates: Partial<InsertWebhookDelivery>
+  ): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set(updates)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Analytics operations
+  // Bookings for dates in the range, on one floor if given; queries join seats for the floor
+  private analyticsScope(range: AnalyticsRange) {
+    return and(
+      gte(bookings.date, range.from),
+      lte(bookings.date, range.to),
+      range.floorId ? eq(seats.floorId, range.floorId) : undefined
+    );
+  }
+
+  async getBookingTotals(range: AnalyticsRange): Promise<BookingTotals> {
+    const [totals] = await db
+      .select({
+        booked: sql<number>`count(*) filter (where ${bookings.cancelledAt} is null)::int`,
+        cancelled: sql<number>`count(*) filter (where ${bookings.cancellationReason} in ('user', 'admin'))::int`,
+        noShows: sql<number>`count(*) filter (where ${bookings.cancellationReason} = 'no_show')::int`,
+        averageLeadDays: sql<number | null>`(avg(${bookings.date} - ${bookings.createdAt}::date) filter (where ${bookings.cancelledAt} is null))::float8`,
+      })
+      .from(bookings)
+      .innerJoin(seats, eq(bookings.seatId, seats.id))
+      .where(this.analyticsScope(range));
+    return totals;
+  }
+
+  // Periods start on the first day of the day, ISO week or month, as YYYY-MM-DD
+  async getBookedCountsByPeriod(range: AnalyticsRange, period: AnalyticsPeriod): Promise<{ period: string; booked: number }[]> {
+    const start = sql<string>`to_char(date_trunc(${sql.raw(`'${period}'`)}, ${bookings.date}), 'YYYY-MM-DD')`;
+    return db
+      .select({ period: start, booked: sql<number>`count(*)::int` })
+      .from(bookings)
+      .innerJoin(seats, eq(bookings.seatId, seats.id))
+      .where(and(this.analyticsScope(range), isNull(bookings.cancelledAt)))
+      .groupBy(start)
+      .orderBy(start);
+  }
+
+  async getBookedCountsByWeekday(range: AnalyticsRange): Promise<{ weekday: number; booked: number }[]> {
+    const weekday = sql<number>`extract(dow from ${bookings.date})::int`;
+    return db
+      .select({ weekday, booked: sql<number>`count(*)::int` })
+      .from(bookings)
+      .innerJoin(seats, eq(bookings.seatId, seats.id))
+      .where(and(this.analyticsScope(range), isNull(bookings.cancelledAt)))
+      .groupBy(weekday);
+  }
+
+  // Only seats with at least one booking in the range, cancelled or not, are returned
+  async getBookingCountsBySeat(range: AnalyticsRange): Promise<SeatBookingCounts[]> {
+    return db
+      .select({
+        seatId: bookings.seatId,
+        booked: sql<number>`count(*) filter (where ${bookings.cancelledAt} is null)::int`,
+        cancelled: sql<number>`count(*) filter (where ${bookings.cancellationReason} in ('user', 'admin'))::int`,
+        noShows: sql<number>`count(*) filter (where ${bookings.cancellationReason} = 'no_show')::int`,
+        lastBookedDate: sql<string | null>`(max(${bookings.date}) filter (where ${bookings.cancelledAt} is null))::text`,
+      })
+      .from(bookings)
+      .innerJoin(seats, eq(bookings.seatId, seats.id))
+      .where(this.analyticsScope(range))
+      .groupBy(bookings.seatId);
+  }
+
+  // Days between making a booking and the booked date
+  async getBookedCountsByLeadTime(range: AnalyticsRange): Promise<{ leadDays: number; bookings: number }[]> {
+    const leadDays = sql<number>`greatest(${bookings.date} - ${bookings.createdAt}::date, 0)`;
+    return db
+      .select({ leadDays, bookings: sql<number>`count(*)::int` })
+      .from(bookings)
+      .innerJoin(seats, eq(bookings.seatId, seats.id))
+      .where(and(this.analyticsScope(range), isNull(bookings.cancelledAt), isNotNull(bookings.createdAt)))
+      .groupBy(leadDays)
+      .orderBy(leadDays);
   }
 }
 
@@ -0,0 +1,141 @@
+import { format } from "date-fns";
+import { storage, BookingConflictError, type BookingSlot } from "./storage";
+import { checkBookingPolicies } from "./policies";
+import { emitWebhookEvent } from "./webhooks";
+import type { Booking, WaitlistEntry } from "@shared/schema";
+
+// How long a non-auto-book waitlister has to claim an offered seat
+const CLAIM_MINUTES = parseInt(process.env.WAITLIST_CLAIM_MINUTES || "30", 10);
+const OFFER_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export type ClaimResult =
+  | { ok: true; entry: WaitlistEntry; booking: Booking }
+  | { ok: false; status: number; message: string };
+
+// Hand a freed seat/date/slot to the first person in line, either booking it for
+// them straight away or giving them a time-limited claim.
+export async function offerFreedSlot({ seatId, date, slot }: BookingSlot): Promise<WaitlistEntry | undefined> {
+  if (date < format(new Date(), "yyyy-MM-dd")) return;
+
+  const seat = await storage.getSeat(seatId);
+  if (!seat || seat.isBlocked || seat.isLongTermReserved) return;
+
+  const candidates = await storage.getWaitingEntriesForSlot(seatId, date, slot);
+  if (candidates.length === 0) return;
+
+  const dayBookings = await storage.getBookingsByDate(date);
+  if (dayBookings.some((b) => b.seatId === seatId && b.slot === slot)) return;
+
+  for (const entry of candidates) {
+    // Someone who already got a desk for this slot no longer needs their place in line
+    if (dayBookings.some((b) => b.userId === entry.userId && b.slot === slot)) {
+      await storage.updateWaitlistEntry(entry.id, { status: "cancelled", resolvedAt: new Date() });
+      continue;
+    }
+
+    // Quotas and the advance window apply when the booking is made, not when the user joined the line.
+    // Someone the policies refuse keeps their place and the seat goes to the next person.
+    const { violations } = await checkBookingPolicies(entry.userId, [{ seatId, date, slot }]);
+    if (violations.length > 0) continue;
+
+    if (!entry.autoBook) {
+      return storage.updateWaitlistEntry(entry.id, {
+        status: "offered",
+        offeredSeatId: seatId,
+        offerExpiresAt: new Date(Date.now() + CLAIM_MINUTES * 60 * 1000),
+      });
+    }
+
+    try {
+      const booking = await storage.createBooking({
+        seatId,
+        userId: entry.userId,
+        userName: entry.userName,
+        userEmail: entry.userEmail,
+        date,
+        slot,
+      });
+      void emitWebhookEvent("booking.created", { booking });
+      return storage.updateWaitlistEntry(entry.id, {
+        status: "booked",
+        offeredSeatId: seatId,
+        bookingId: booking.id,
+        resolvedAt: new Date(),
+      });
+    } catch (error) {
+      // Someone booked the seat directly before the waitlist got to it
+      if (error instanceof BookingConflictError) return;
+      throw error;
+    }
+  }
+}
+
+// Offer every cancelled booking to the waitlist, logging any that fail
+export async function releaseToWaitlist(cancelled: Booking[]): Promise<void> {
+  for (const booking of cancelled) {
+    try {
+      await offerFreedSlot(booking);
+    } catch (error) {
+      console.error(`Error offering booking ${booking.id} to waitlist:`, error);
+    }
+  }
+}
+
+export async function claimWaitlistOffer(entry: WaitlistEntry): Promise<ClaimResult> {
+  if (entry.status !== "offered" || !entry.offeredSeatId) {
+    return { ok: false, status: 409, message: "No seat is currently offered for this waitlist entry" };
+  }
+  if (entry.offerExpiresAt && entry.offerExpiresAt < new Date()) {
+    return { ok: false, status: 410, message: "This offer has expired" };
+  }
+  // The offer stays open until it expires, so the user can free up quota and try again
+  const { violations } = await checkBookingPolicies(entry.userId, [
+    { seatId: entry.offeredSeatId, date: entry.date, slot: entry.slot },
+  ]);
+  if (violations.length > 0) {
+    return { ok: false, status: 422, message: violations[0].message };
+  }
+
+  try {
+    const booking = await storage.createBooking({
+      seatId: entry.offeredSeatId,
+      userId: entry.userId,
+      userName: entry.userName,
+      userEmail: entry.userEmail,
+      date: entry.date,
+      slot: entry.slot,
+    });
+    void emitWebhookEvent("booking.created", { booking });
+    const updated = await storage.updateWaitlistEntry(entry.id, {
+      status: "booked",
+      bookingId: booking.id,
+      resolvedAt: new Date(),
+    });
+    return { ok: true, entry: updated!, booking };
+  } catch (error) {
+    if (error instanceof BookingConflictError) {
+      await storage.updateWaitlistEntry(entry.id, { status: "expired", resolvedAt: new Date() });
+      return { ok: false, status: 409, message: "The offered seat has already been taken" };
+    }
+    throw error;
+  }
+}
+
+// Expire unclaimed offers and pass each seat on to the next person in line
+export async function expireWaitlistOffers(now = new Date()): Promise<void> {
+  const expired = await storage.getExpiredWaitlistOffers(now);
+  for (const entry of expired) {
+    await storage.updateWaitlistEntry(entry.id, { status: "expired", resolvedAt: now });
+    if (entry.offeredSeatId) {
+      await offerFreedSlot({ seatId: entry.offeredSeatId, date: entry.date, slot: entry.slot });
+    }
+  }
+}
+
+export function startWaitlistOfferSweeper(): NodeJS.Timeout {
+  return setInterval(() => {
+    expireWaitlistOffers().catch((error) => {
+      console.error("Error expiring waitlist offers:", error);
+    });
+  }, OFFER_SWEEP_INTERVAL_MS);
+}
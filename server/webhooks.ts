@@ -0,0 +1,169 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { Seat, Webhook, WebhookDelivery, WebhookEvent, WebhookPayload } from "@shared/schema";
+
+// Wait before each retry; a delivery that still fails after the last one (six attempts in all) is marked failed
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+const REQUEST_TIMEOUT_MS = 10_000;
+const DISPATCH_INTERVAL_MS = 30_000;
+const DISPATCH_BATCH_SIZE = 50;
+const MAX_ERROR_LENGTH = 500;
+export const WEBHOOK_DELIVERY_LOG_SIZE = 100;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+// Receivers recompute this over "<timestamp>.<raw body>" and reject stale timestamps to stop replays
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function nextAttempt(attempts: number, now: Date): Date | null {
+  const delay = RETRY_DELAYS_MS[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay);
+}
+
+// Manual sends (test pings and redeliveries) report their result without joining the retry schedule
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  webhook: Webhook,
+  retry = true
+): Promise<WebhookDelivery | undefined> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "HotDesk-Webhooks/1.0",
+        "X-HotDesk-Event": delivery.event,
+        "X-HotDesk-Delivery": delivery.id,
+        "X-HotDesk-Timestamp": String(timestamp),
+        "X-HotDesk-Signature": `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    if (!res.ok) {
+      error = `HTTP ${res.status}: ${(await res.text().catch(() => "")).slice(0, MAX_ERROR_LENGTH)}`;
+    }
+  } catch (err) {
+    error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+  }
+
+  const now = new Date();
+  if (!error) {
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: "succeeded",
+      attempts,
+      responseStatus,
+      error: null,
+      nextAttemptAt: null,
+      deliveredAt: now,
+    });
+  }
+  const retryAt = retry ? nextAttempt(attempts, now) : null;
+  return storage.updateWebhookDelivery(delivery.id, {
+    status: retryAt ? "pending" : "failed",
+    attempts,
+    responseStatus,
+    error,
+    nextAttemptAt: retryAt,
+  });
+}
+
+let dispatching = false;
+let dispatchAgain = false;
+
+// Send every delivery that is due. Only one pass runs at a time, so a delivery is never sent twice at once;
+// a request for another pass while one runs starts it as soon as the current one ends.
+export async function dispatchDueDeliveries(now = new Date()): Promise<number> {
+  if (dispatching) {
+    dispatchAgain = true;
+    return 0;
+  }
+  dispatching = true;
+  let attempted = 0;
+  try {
+    let batchWasFull: boolean;
+    do {
+      dispatchAgain = false;
+      const due = await storage.getDueWebhookDeliveries(now, DISPATCH_BATCH_SIZE);
+      for (const { delivery, webhook } of due) {
+        await attemptDelivery(delivery, webhook);
+        attempted++;
+      }
+      batchWasFull = due.length === DISPATCH_BATCH_SIZE;
+      now = new Date();
+    } while (dispatchAgain || batchWasFull);
+  } finally {
+    dispatching = false;
+  }
+  return attempted;
+}
+
+function dispatchSoon() {
+  dispatchDueDeliveries().catch((error) => {
+    console.error("Error dispatching webhooks:", error);
+  });
+}
+
+function buildPayload(event: WebhookEvent | "ping", data: Record<string, unknown>): WebhookPayload {
+  return { id: crypto.randomUUID(), event, createdAt: new Date().toISOString(), data };
+}
+
+// Queue one event per data item for every active webhook subscribed to the event type and start
+// sending. Errors are logged rather than thrown.
+export async function emitWebhookEvents(event: WebhookEvent, items: Record<string, unknown>[]): Promise<void> {
+  if (items.length === 0) return;
+  try {
+    const subscribed = await storage.getActiveWebhooksForEvent(event);
+    if (subscribed.length === 0) return;
+    const payloads = items.map(data => buildPayload(event, data));
+    await storage.createWebhookDeliveries(
+      subscribed.flatMap(webhook =>
+        payloads.map(payload => ({ webhookId: webhook.id, event, payload, nextAttemptAt: new Date() }))
+      )
+    );
+    dispatchSoon();
+  } catch (error) {
+    console.error(`Error queuing ${event} webhooks:`, error);
+  }
+}
+
+export function emitWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+  return emitWebhookEvents(event, [data]);
+}
+
+// A seat change is reported as seat.blocked when it blocks the seat and as seat.updated otherwise
+export function emitSeatWebhook(before: Seat, seat: Seat): Promise<void> {
+  return emitWebhookEvent(seat.isBlocked && !before.isBlocked ? "seat.blocked" : "seat.updated", { seat });
+}
+
+// Send a ping straight away so admins can check an endpoint and its signature handling
+export async function sendTestDelivery(webhook: Webhook): Promise<WebhookDelivery | undefined> {
+  const [delivery] = await storage.createWebhookDeliveries([{
+    webhookId: webhook.id,
+    event: "ping",
+    payload: buildPayload("ping", { webhookId: webhook.id }),
+    nextAttemptAt: null,
+  }]);
+  return attemptDelivery(delivery, webhook, false);
+}
+
+// Send a delivery that succeeded or gave up once more, e.g. after the receiver was fixed
+export async function redeliver(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery | undefined> {
+  return attemptDelivery(delivery, webhook, false);
+}
+
+export function startWebhookDispatcher(): NodeJS.Timeout {
+  return setInterval(dispatchSoon, DISPATCH_INTERVAL_MS);
+}
@@ -1,17 +1,30 @@
 import { sql } from "drizzle-orm";
-import { index, jsonb, pgTable, timestamp, varchar, boolean } from "drizzle-orm/pg-core";
+import { index, pgTable, text, timestamp, varchar, boolean, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// Session storage table for JWT tokens (optional, for token invalidation)
+// Sign-in sessions. Each holds the hash of its current refresh token, which is replaced on every
+// refresh; access tokens name their session so revoking it signs that device out straight away.
 export const sessions = pgTable(
   "sessions",
   {
-    sid: varchar("sid").primaryKey(),
-    sess: jsonb("sess").notNull(),
-    expire: timestamp("expire").notNull(),
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull().unique(),
+    // The token this one replaced; seeing it again means it was stolen, so the session is revoked
+    previousTokenHash: varchar("previous_token_hash", { length: 64 }),
+    userAgent: varchar("user_agent", { length: 500 }),
+    ipAddress: varchar("ip_address", { length: 100 }),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    lastUsedAt: timestamp("last_used_at").notNull().defaultNow(),
+    expiresAt: timestamp("expires_at").notNull(),
+    revokedAt: timestamp("revoked_at"),
   },
-  (table) => [index("IDX_session_expire").on(table.expire)]
+  (table) => [
+    index("IDX_sessions_user_id").on(table.userId),
+    index("IDX_sessions_previous_token_hash").on(table.previousTokenHash),
+    index("IDX_session_expire").on(table.expiresAt),
+  ]
 );
 
 // User storage table with password for email/password auth
@@ -26,6 +39,20 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Single-use password reset links; only a hash of the token in the link is stored
+export const passwordResetTokens = pgTable(
+  "password_reset_tokens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("IDX_password_reset_tokens_user_id").on(table.userId)]
+);
+
 // Invite codes for invite-only registration
 export const invites = pgTable("invites", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -39,6 +66,27 @@ export const invites = pgTable("invites", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A group in the identity provider's groups claim and the role its members get
+export interface SsoGroupRole {
+  group: string;
+  role: "employee" | "admin";
+}
+
+// Single sign-on settings admins control (a single row). The provider connection itself
+// (issuer, client id and secret) comes from the environment.
+export const ssoSettings = pgTable("sso_settings", {
+  id: varchar("id").primaryKey().default("default"),
+  enabled: boolean("enabled").notNull().default(false),
+  allowedDomains: text("allowed_domains").array().notNull().default(sql`'{}'::text[]`), // empty = any domain
+  // Create accounts on first sign-in instead of requiring an invite
+  jitProvisioning: boolean("jit_provisioning").notNull().default(false),
+  groupsClaim: varchar("groups_claim", { length: 100 }).notNull().default("groups"),
+  // When set, every sign-in recomputes the user's role from their groups
+  groupRoles: jsonb("group_roles").$type<SsoGroupRole[]>().notNull().default([]),
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -46,9 +94,11 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
 export const registerSchema = z.object({
   email: z.string().email("Invalid email address"),
-  password: z.string().min(8, "Password must be at least 8 characters"),
+  password: passwordSchema,
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
   inviteCode: z.string().min(1, "Invite code is required"),
@@ -59,6 +109,42 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: passwordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+const emailDomain = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((domain) => domain.replace(/^@/, ""))
+  .pipe(z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Invalid email domain"));
+
+export const updateSsoSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  allowedDomains: z.array(emailDomain).max(50).optional(),
+  jitProvisioning: z.boolean().optional(),
+  groupsClaim: z.string().trim().min(1, "Groups claim is required").max(100).optional(),
+  groupRoles: z
+    .array(z.object({ group: z.string().trim().min(1, "Group is required").max(200), role: z.enum(["employee", "admin"]) }))
+    .max(50)
+    .optional(),
+});
+
 export const createInviteSchema = z.object({
   email: z.string().email().optional(),
   expiresInDays: z.number().min(1).max(365).optional().default(7),
@@ -70,3 +156,16 @@ export type Invite = typeof invites.$inferSelect;
 export type InsertInvite = typeof invites.$inferInsert;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type SsoSettings = typeof ssoSettings.$inferSelect;
+export type UpdateSsoSettings = z.infer<typeof updateSsoSettingsSchema>;
+// What admins see: the stored settings plus whether the environment names a provider
+export type SsoSettingsView = SsoSettings & { configured: boolean; issuer: string | null; redirectUri: string };
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
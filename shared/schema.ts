@@ -1,7 +1,8 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, boolean, date, timestamp, pgEnum, jsonb, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, date, timestamp, pgEnum, jsonb, integer, real, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { format } from "date-fns";
 
 // Import auth models for relations
 import { users } from "./models/auth";
@@ -13,10 +14,61 @@ export * from "./models/auth";
 export const seatTypeEnum = pgEnum("seat_type", ["solo", "team_cluster"]);
 export const timeSlotEnum = pgEnum("time_slot", ["AM", "PM"]);
 export const userRoleEnum = pgEnum("user_role", ["employee", "admin"]);
+export const cancellationReasonEnum = pgEnum("cancellation_reason", ["user", "admin", "no_show", "closure"]);
+export const waitlistStatusEnum = pgEnum("waitlist_status", ["waiting", "offered", "booked", "expired", "cancelled"]);
+export const closureTypeEnum = pgEnum("closure_type", ["holiday", "shutdown"]);
+export const layoutShapeKindEnum = pgEnum("layout_shape_kind", ["wall", "room", "label"]);
+export const layoutRevisionStatusEnum = pgEnum("layout_revision_status", ["draft", "scheduled", "published", "failed"]);
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", ["pending", "succeeded", "failed"]);
+
+// Events other systems can subscribe to with a webhook
+export const WEBHOOK_EVENTS = [
+  "booking.created",
+  "booking.cancelled",
+  "seat.blocked",
+  "seat.updated",
+  "user.deactivated",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sites Table - an office location
+export const sites = pgTable("sites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const sitesRelations = relations(sites, ({ many }) => ({
+  floors: many(floors),
+}));
+
+// Floors Table - a bookable floor plan within a site
+export const floors = pgTable("floors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  siteId: varchar("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  level: integer("level").notNull().default(0),
+  layoutRevision: integer("layout_revision").notNull().default(0), // bumped on every layout change
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const floorsRelations = relations(floors, ({ one, many }) => ({
+  site: one(sites, {
+    fields: [floors.siteId],
+    references: [sites.id],
+  }),
+  clusters: many(clusters),
+  seats: many(seats),
+  shapes: many(layoutShapes),
+  background: one(floorBackgrounds),
+  layoutRevisions: many(layoutRevisions),
+}));
 
 // Clusters Table - stores cluster/group layout configuration
 export const clusters = pgTable("clusters", {
   id: varchar("id").primaryKey(),
+  // Nullable only so existing rows survive db:push; startup assigns them to the default floor
+  floorId: varchar("floor_id").references(() => floors.id, { onDelete: "cascade" }),
   label: varchar("label", { length: 50 }),
   positionX: integer("position_x").notNull().default(0),
   positionY: integer("position_y").notNull().default(0),
@@ -27,10 +79,57 @@ export const clusters = pgTable("clusters", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const clustersRelations = relations(clusters, ({ many }) => ({
+export const clustersRelations = relations(clusters, ({ one, many }) => ({
+  floor: one(floors, {
+    fields: [clusters.floorId],
+    references: [floors.id],
+  }),
   seats: many(seats),
 }));
 
+// Layout Shapes Table - static walls, rooms and labels drawn on a floor; published with the layout
+export const layoutShapes = pgTable("layout_shapes", {
+  id: varchar("id").primaryKey(),
+  floorId: varchar("floor_id").notNull().references(() => floors.id, { onDelete: "cascade" }),
+  kind: layoutShapeKindEnum("kind").notNull(),
+  label: varchar("label", { length: 50 }),
+  positionX: integer("position_x").notNull().default(0),
+  positionY: integer("position_y").notNull().default(0),
+  width: integer("width").notNull().default(100),
+  height: integer("height").notNull().default(100),
+  rotation: integer("rotation").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const layoutShapesRelations = relations(layoutShapes, ({ one }) => ({
+  floor: one(floors, {
+    fields: [layoutShapes.floorId],
+    references: [floors.id],
+  }),
+}));
+
+// Floor Backgrounds Table - an architectural plan image drawn under a floor's layout
+export const floorBackgrounds = pgTable("floor_backgrounds", {
+  floorId: varchar("floor_id").primaryKey().references(() => floors.id, { onDelete: "cascade" }),
+  imageData: text("image_data").notNull(), // data: URL, so it can be served to authenticated clients as JSON
+  width: integer("width").notNull(), // natural size of the image in pixels
+  height: integer("height").notNull(),
+  positionX: integer("position_x").notNull().default(0),
+  positionY: integer("position_y").notNull().default(0),
+  scale: real("scale").notNull().default(1),
+  opacity: real("opacity").notNull().default(0.6),
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const floorBackgroundsRelations = relations(floorBackgrounds, ({ one }) => ({
+  floor: one(floors, {
+    fields: [floorBackgrounds.floorId],
+    references: [floors.id],
+  }),
+}));
+
 // User Roles Table (extends auth users)
 export const userRoles = pgTable("user_roles", {
   userId: varchar("user_id").primaryKey(),
@@ -49,29 +148,67 @@ export const userRolesRelations = relations(userRoles, ({ one }) => ({
 // Seats Table
 export const seats = pgTable("seats", {
   id: varchar("id").primaryKey(),
-  name: varchar("name", { length: 10 }).notNull().unique(),
+  floorId: varchar("floor_id").references(() => floors.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 10 }).notNull(),
   type: seatTypeEnum("type").notNull(),
   hasMonitor: boolean("has_monitor").notNull().default(false),
   isBlocked: boolean("is_blocked").notNull().default(false),
   isLongTermReserved: boolean("is_long_term_reserved").notNull().default(false),
   longTermReservedBy: varchar("long_term_reserved_by"),
+  longTermReservedFor: varchar("long_term_reserved_for"), // id of the user longTermReservedBy names, when it names exactly one
   longTermReservedUntil: date("long_term_reserved_until"),
   metadata: jsonb("metadata").$type<Record<string, string>>(),
   positionX: integer("position_x").notNull().default(0),
   positionY: integer("position_y").notNull().default(0),
   clusterGroup: varchar("cluster_group"),
+  archivedAt: timestamp("archived_at"), // set when a published layout removes the seat; bookings keep pointing at it
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // Seat names only need to be unique among the current seats of their floor
+  uniqueIndex("UQ_seats_floor_name_active")
+    .on(table.floorId, table.name)
+    .where(sql`${table.archivedAt} is null`),
+]);
 
 export const seatsRelations = relations(seats, ({ one, many }) => ({
   bookings: many(bookings),
+  floor: one(floors, {
+    fields: [seats.floorId],
+    references: [floors.id],
+  }),
   cluster: one(clusters, {
     fields: [seats.clusterGroup],
     references: [clusters.id],
   }),
 }));
 
+// Booking Series Table - recurring weekly booking rules
+export const bookingSeries = pgTable("booking_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  seatId: varchar("seat_id").notNull().references(() => seats.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull(),
+  userName: varchar("user_name"),
+  userEmail: varchar("user_email"),
+  weekdays: integer("weekdays").array().notNull(), // 0 = Sunday ... 6 = Saturday
+  slots: timeSlotEnum("slots").array().notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  skippedDates: date("skipped_dates").array().notNull().default(sql`'{}'::date[]`),
+  materialisedUntil: date("materialised_until"),
+  conflicts: jsonb("conflicts").$type<SeriesConflict[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  endedAt: timestamp("ended_at"),
+});
+
+export const bookingSeriesRelations = relations(bookingSeries, ({ one, many }) => ({
+  seat: one(seats, {
+    fields: [bookingSeries.seatId],
+    references: [seats.id],
+  }),
+  bookings: many(bookings),
+}));
+
 // Bookings Table
 export const bookings = pgTable("bookings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -81,15 +218,169 @@ export const bookings = pgTable("bookings", {
   userEmail: varchar("user_email"),
   date: date("date").notNull(),
   slot: timeSlotEnum("slot").notNull(),
+  seriesId: varchar("series_id").references(() => bookingSeries.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
+  checkedInAt: timestamp("checked_in_at"),
   cancelledAt: timestamp("cancelled_at"),
-});
+  cancellationReason: cancellationReasonEnum("cancellation_reason"),
+  needsReassignment: boolean("needs_reassignment").notNull().default(false), // its seat was removed from the layout
+  reminderSentAt: timestamp("reminder_sent_at"), // day-before reminder email
+}, (table) => [
+  // Only one active (non-cancelled) booking per seat, date and slot
+  uniqueIndex("UQ_bookings_seat_date_slot_active")
+    .on(table.seatId, table.date, table.slot)
+    .where(sql`${table.cancelledAt} is null`),
+  // Booking lists are always narrowed by date range or user
+  index("IDX_bookings_date").on(table.date),
+  index("IDX_bookings_user_id").on(table.userId),
+]);
 
 export const bookingsRelations = relations(bookings, ({ one }) => ({
   seat: one(seats, {
     fields: [bookings.seatId],
     references: [seats.id],
   }),
+  series: one(bookingSeries, {
+    fields: [bookings.seriesId],
+    references: [bookingSeries.id],
+  }),
+}));
+
+// Waitlist Table - users queued for a taken seat (or any seat) on a date/slot
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  userName: varchar("user_name"),
+  userEmail: varchar("user_email"),
+  seatId: varchar("seat_id").references(() => seats.id, { onDelete: "cascade" }), // null = any seat
+  date: date("date").notNull(),
+  slot: timeSlotEnum("slot").notNull(),
+  autoBook: boolean("auto_book").notNull().default(true),
+  status: waitlistStatusEnum("status").notNull().default("waiting"),
+  offeredSeatId: varchar("offered_seat_id").references(() => seats.id, { onDelete: "set null" }),
+  offerExpiresAt: timestamp("offer_expires_at"),
+  bookingId: varchar("booking_id").references(() => bookings.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+export const waitlistEntriesRelations = relations(waitlistEntries, ({ one }) => ({
+  seat: one(seats, {
+    fields: [waitlistEntries.seatId],
+    references: [seats.id],
+  }),
+  booking: one(bookings, {
+    fields: [waitlistEntries.bookingId],
+    references: [bookings.id],
+  }),
+}));
+
+// Booking Policies Table - a single row of admin-configurable booking rules
+export const bookingPolicies = pgTable("booking_policies", {
+  id: varchar("id").primaryKey().default("default"),
+  maxDaysInAdvance: integer("max_days_in_advance"), // null = no limit
+  maxBookingsPerWeek: integer("max_bookings_per_week"), // slots per user per Monday-Sunday week
+  maxSeatsPerSlot: integer("max_seats_per_slot"), // seats per user on the same date and slot
+  blockPastDates: boolean("block_past_dates").notNull().default(true),
+  excludeWeekends: boolean("exclude_weekends").notNull().default(false),
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Closures Table - public holidays, office shutdowns and partial-day closures
+export const closures = pgTable("closures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 200 }).notNull(),
+  type: closureTypeEnum("type").notNull().default("shutdown"),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(), // inclusive
+  slot: timeSlotEnum("slot"), // null = closed all day
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Notifications Table - in-app messages shown in the header
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  title: varchar("title", { length: 200 }).notNull(),
+  message: text("message").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  readAt: timestamp("read_at"),
+});
+
+// Layout Revisions Table - drafts, scheduled and published snapshots of a floor's clusters and seats
+export const layoutRevisions = pgTable("layout_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  floorId: varchar("floor_id").notNull().references(() => floors.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  status: layoutRevisionStatusEnum("status").notNull().default("draft"),
+  snapshot: jsonb("snapshot").$type<LayoutSnapshot>().notNull(),
+  baseRevision: integer("base_revision"), // floors.layout_revision the draft was edited against
+  note: varchar("note", { length: 200 }),
+  effectiveDate: date("effective_date"),
+  failureReason: varchar("failure_reason", { length: 500 }), // why a scheduled revision couldn't go live
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  publishedBy: varchar("published_by"),
+  publishedAt: timestamp("published_at"),
+});
+
+export const layoutRevisionsRelations = relations(layoutRevisions, ({ one }) => ({
+  floor: one(floors, {
+    fields: [layoutRevisions.floorId],
+    references: [floors.id],
+  }),
+}));
+
+// User Preferences Table - per-user settings such as the floor shown by default
+export const userPreferences = pgTable("user_preferences", {
+  userId: varchar("user_id").primaryKey(),
+  defaultFloorId: varchar("default_floor_id").references(() => floors.id, { onDelete: "set null" }),
+  calendarToken: varchar("calendar_token", { length: 64 }).unique(), // secret in the user's iCalendar feed URL
+  emailConfirmations: boolean("email_confirmations").notNull().default(true),
+  emailBookingChanges: boolean("email_booking_changes").notNull().default(true), // admin cancellations, blocked or reserved seats
+  emailReminders: boolean("email_reminders").notNull().default(true),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Webhooks Table - admin-registered endpoints that are POSTed signed JSON when subscribed events happen
+export const webhooks = pgTable("webhooks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  url: varchar("url", { length: 2000 }).notNull(),
+  description: varchar("description", { length: 200 }),
+  secret: varchar("secret", { length: 100 }).notNull(), // HMAC-SHA256 key for the signature header
+  events: jsonb("events").$type<WebhookEvent[]>().notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Webhook Deliveries Table - one row per event sent to a webhook, retried with backoff until it succeeds or gives up
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: varchar("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  event: varchar("event", { length: 50 }).$type<WebhookEvent | "ping">().notNull(),
+  payload: jsonb("payload").$type<WebhookPayload>().notNull(),
+  status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // null once it succeeded or gave up
+  responseStatus: integer("response_status"), // of the latest attempt
+  error: text("error"), // of the latest attempt
+  createdAt: timestamp("created_at").defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => [
+  index("IDX_webhook_deliveries_webhook_id").on(table.webhookId, table.createdAt),
+  index("IDX_webhook_deliveries_next_attempt").on(table.nextAttemptAt),
+]);
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  webhook: one(webhooks, {
+    fields: [webhookDeliveries.webhookId],
+    references: [webhooks.id],
+  }),
 }));
 
 // Insert Schemas
@@ -98,10 +389,17 @@ export const insertSeatSchema = createInsertSchema(seats).omit({
   updatedAt: true,
 });
 
+// What a client may send to book a seat; bookings join a series only when the series creates them,
+// and only removing their seat flags them for reassignment
 export const insertBookingSchema = createInsertSchema(bookings).omit({
   id: true,
   createdAt: true,
+  checkedInAt: true,
   cancelledAt: true,
+  cancellationReason: true,
+  reminderSentAt: true,
+  seriesId: true,
+  needsReassignment: true,
 });
 
 export const bulkBookingSchema = z.object({
@@ -110,6 +408,107 @@ export const bulkBookingSchema = z.object({
   slots: z.array(z.enum(["AM", "PM"])).min(1),
 });
 
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format");
+
+export const MAX_BOOKING_PAGE_SIZE = 1000;
+
+// Query parameters of GET /api/bookings; from and to are inclusive
+export const bookingFilterSchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  seatId: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  floorId: z.string().min(1).optional(),
+  slot: z.enum(["AM", "PM"]).optional(),
+  search: z.string().trim().min(1).max(100).optional(), // user name, email or seat name
+  includeCancelled: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+  limit: z.coerce.number().int().min(0).max(MAX_BOOKING_PAGE_SIZE).default(200),
+  offset: z.coerce.number().int().min(0).default(0),
+}).refine((data) => !data.from || !data.to || data.to >= data.from, {
+  message: "End date must not be before start date",
+  path: ["to"],
+});
+
+export const MAX_ANALYTICS_RANGE_DAYS = 731;
+
+// Query parameters shared by the /api/analytics reports; from and to are inclusive
+export const analyticsQuerySchema = z.object({
+  from: isoDate,
+  to: isoDate,
+  floorId: z.string().min(1).optional(),
+  groupBy: z.enum(["day", "week", "month"]).default("week"),
+}).refine((data) => data.to >= data.from, {
+  message: "End date must not be before start date",
+  path: ["to"],
+}).refine((data) => Date.parse(data.to) - Date.parse(data.from) <= MAX_ANALYTICS_RANGE_DAYS * 86_400_000, {
+  message: `Reports cover at most ${MAX_ANALYTICS_RANGE_DAYS} days`,
+  path: ["to"],
+});
+
+export const createBookingSeriesSchema = z.object({
+  seatId: z.string().min(1),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1),
+  slots: z.array(z.enum(["AM", "PM"])).min(1),
+  startDate: isoDate,
+  endDate: isoDate.nullable().optional(),
+}).refine((data) => !data.endDate || data.endDate >= data.startDate, {
+  message: "End date must not be before start date",
+  path: ["endDate"],
+});
+
+export const skipSeriesOccurrenceSchema = z.object({
+  date: isoDate,
+});
+
+export const endBookingSeriesSchema = z.object({
+  endDate: isoDate.optional(),
+});
+
+export const joinWaitlistSchema = z.object({
+  seatId: z.string().min(1).nullable().optional(),
+  date: isoDate,
+  slots: z.array(z.enum(["AM", "PM"])).min(1),
+  autoBook: z.boolean().default(true),
+});
+
+export const seatScanSchema = z.object({
+  seatId: z.string().min(1),
+  sig: z.string().min(1),
+});
+
+const policyLimit = z.number().int().min(0).nullable().optional();
+
+export const updateBookingPoliciesSchema = z.object({
+  maxDaysInAdvance: policyLimit,
+  maxBookingsPerWeek: policyLimit,
+  maxSeatsPerSlot: z.number().int().min(1).nullable().optional(),
+  blockPastDates: z.boolean().optional(),
+  excludeWeekends: z.boolean().optional(),
+});
+
+export const createClosureSchema = z.object({
+  name: z.string().min(1).max(200),
+  type: z.enum(["holiday", "shutdown"]).default("shutdown"),
+  startDate: isoDate,
+  endDate: isoDate,
+  slot: z.enum(["AM", "PM"]).nullable().optional(),
+}).refine((data) => data.endDate >= data.startDate, {
+  message: "End date must not be before start date",
+  path: ["endDate"],
+}).refine((data) => data.startDate >= format(new Date(), "yyyy-MM-dd"), {
+  // Closures cancel bookings, and bookings that already happened must stay as they were
+  message: "Closures can't start in the past",
+  path: ["startDate"],
+});
+
+export const importClosuresSchema = z.object({
+  ics: z.string().min(1).optional(),
+  url: z.string().url().optional(),
+  type: z.enum(["holiday", "shutdown"]).default("holiday"),
+}).refine((data) => data.ics || data.url, {
+  message: "Provide either ICS content or a calendar URL",
+});
+
 export const insertUserRoleSchema = createInsertSchema(userRoles).omit({
   createdAt: true,
 });
@@ -119,6 +518,13 @@ export const updateUserRoleSchema = z.object({
   isActive: z.boolean().optional(),
 });
 
+// Deactivating can also clear out what the user still holds; both are ignored when activating
+export const updateUserStatusSchema = z.object({
+  isActive: z.boolean(),
+  cancelBookings: z.boolean().default(false),
+  releaseSeats: z.boolean().default(false),
+});
+
 // Partial update schemas for admin operations
 export const updateSeatSchema = z.object({
   name: z.string().min(1).max(10).optional(),
@@ -137,6 +543,7 @@ export const updateSeatSchema = z.object({
 // Create seat schema for admin
 export const createSeatSchema = z.object({
   id: z.string().min(1),
+  floorId: z.string().min(1).optional(), // defaults to the cluster's floor, then the default floor
   name: z.string().min(1).max(10),
   type: z.enum(["solo", "team_cluster"]),
   hasMonitor: z.boolean().default(false),
@@ -155,6 +562,9 @@ export const longTermReservationSchema = z.object({
 });
 
 // Cluster schemas
+// Size in pixels of one seat cell in a cluster's grid, as drawn on the floor plan
+export const LAYOUT_CELL_SIZE = 52;
+
 export const insertClusterSchema = createInsertSchema(clusters).omit({
   createdAt: true,
   updatedAt: true,
@@ -171,6 +581,7 @@ export const updateClusterSchema = z.object({
 
 export const createClusterSchema = z.object({
   id: z.string().min(1),
+  floorId: z.string().min(1).optional(), // defaults to the default floor
   label: z.string().max(50).nullable().optional(),
   positionX: z.number().default(0),
   positionY: z.number().default(0),
@@ -179,16 +590,392 @@ export const createClusterSchema = z.object({
   gridRows: z.number().min(1).max(10).default(2),
 });
 
+export const layoutShapeSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(["wall", "room", "label"]),
+  label: z.string().max(50).nullable().optional(),
+  positionX: z.number().int().min(0),
+  positionY: z.number().int().min(0),
+  width: z.number().int().min(1).max(5000),
+  height: z.number().int().min(1).max(5000),
+  rotation: z.number().int().min(0).max(360).default(0),
+});
+
+// Clusters, seats and shapes of a whole floor as edited in the visual editor; the floor comes from the request.
+// Shapes are optional because revisions saved before they existed don't have them.
+const layoutClusterSchema = createClusterSchema.omit({ floorId: true });
+const layoutSeatSchema = createSeatSchema.omit({ floorId: true });
+
+function validateLayoutItems(
+  layout: {
+    clusters: z.infer<typeof layoutClusterSchema>[];
+    seats: z.infer<typeof layoutSeatSchema>[];
+    shapes?: z.infer<typeof layoutShapeSchema>[];
+  },
+  ctx: z.RefinementCtx
+) {
+  const clusterIds = new Set<string>();
+  layout.clusters.forEach((cluster, i) => {
+    if (clusterIds.has(cluster.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate cluster id ${cluster.id}`, path: ["clusters", i, "id"] });
+    }
+    clusterIds.add(cluster.id);
+  });
+
+  const seatIds = new Set<string>();
+  const seatNames = new Set<string>();
+  layout.seats.forEach((seat, i) => {
+    if (seatIds.has(seat.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate seat id ${seat.id}`, path: ["seats", i, "id"] });
+    }
+    if (seatNames.has(seat.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate seat name ${seat.name}`, path: ["seats", i, "name"] });
+    }
+    if (seat.clusterGroup && !clusterIds.has(seat.clusterGroup)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Seat ${seat.name} refers to unknown cluster ${seat.clusterGroup}`, path: ["seats", i, "clusterGroup"] });
+    }
+    seatIds.add(seat.id);
+    seatNames.add(seat.name);
+  });
+
+  const shapeIds = new Set<string>();
+  layout.shapes?.forEach((shape, i) => {
+    if (shapeIds.has(shape.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate shape id ${shape.id}`, path: ["shapes", i, "id"] });
+    }
+    shapeIds.add(shape.id);
+  });
+}
+
+export const layoutSnapshotSchema = z.object({
+  clusters: z.array(layoutClusterSchema),
+  seats: z.array(layoutSeatSchema),
+  shapes: z.array(layoutShapeSchema).optional(),
+}).superRefine(validateLayoutItems);
+
+export const saveLayoutSchema = z.object({
+  floorId: z.string().min(1),
+  revision: z.number().int().min(0),
+  clusters: z.array(layoutClusterSchema),
+  seats: z.array(layoutSeatSchema),
+  shapes: z.array(layoutShapeSchema).optional(),
+}).superRefine(validateLayoutItems);
+
+export const saveLayoutDraftSchema = z.object({
+  revision: z.number().int().min(0),
+  note: z.string().max(200).nullable().optional(),
+  clusters: z.array(layoutClusterSchema),
+  seats: z.array(layoutSeatSchema),
+  shapes: z.array(layoutShapeSchema).optional(),
+}).superRefine(validateLayoutItems);
+
+// Portable layout documents for moving a floor between environments. Seats are identified by name and point
+// at clusters by the cluster's id within the document; bump the version when the shape of the document changes.
+export const LAYOUT_DOCUMENT_FORMAT = "hotdesk-layout";
+export const LAYOUT_DOCUMENT_VERSION = 1;
+
+const layoutDocumentSeatSchema = z.object({
+  name: z.string().min(1).max(10),
+  type: z.enum(["solo", "team_cluster"]),
+  hasMonitor: z.boolean().default(false),
+  cluster: z.string().nullable().optional(),
+  positionX: z.number().int().min(0).default(0),
+  positionY: z.number().int().min(0).default(0),
+  isBlocked: z.boolean().default(false),
+  isLongTermReserved: z.boolean().default(false),
+  longTermReservedBy: z.string().nullable().optional(),
+  longTermReservedUntil: isoDate.nullable().optional(),
+  metadata: z.record(z.string()).nullable().optional(),
+});
+
+export const layoutDocumentSchema = z.object({
+  format: z.literal(LAYOUT_DOCUMENT_FORMAT, {
+    errorMap: () => ({ message: `Not a layout document (expected format "${LAYOUT_DOCUMENT_FORMAT}")` }),
+  }),
+  version: z.literal(LAYOUT_DOCUMENT_VERSION, {
+    errorMap: () => ({ message: `Unsupported layout document version (expected ${LAYOUT_DOCUMENT_VERSION})` }),
+  }),
+  exportedAt: z.string().optional(),
+  floor: z.object({ name: z.string(), level: z.number().int() }).partial().optional(),
+  clusters: z.array(layoutClusterSchema),
+  seats: z.array(layoutDocumentSeatSchema),
+  shapes: z.array(layoutShapeSchema).default([]),
+}).superRefine((doc, ctx) => {
+  const clusterIds = new Set<string>();
+  doc.clusters.forEach((cluster, i) => {
+    if (clusterIds.has(cluster.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate cluster id ${cluster.id}`, path: ["clusters", i, "id"] });
+    }
+    clusterIds.add(cluster.id);
+  });
+
+  const seatNames = new Set<string>();
+  doc.seats.forEach((seat, i) => {
+    if (seatNames.has(seat.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate seat name ${seat.name}`, path: ["seats", i, "name"] });
+    }
+    if (seat.cluster && !clusterIds.has(seat.cluster)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Seat ${seat.name} refers to unknown cluster ${seat.cluster}`, path: ["seats", i, "cluster"] });
+    }
+    seatNames.add(seat.name);
+  });
+
+  const shapeIds = new Set<string>();
+  doc.shapes.forEach((shape, i) => {
+    if (shapeIds.has(shape.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate shape id ${shape.id}`, path: ["shapes", i, "id"] });
+    }
+    shapeIds.add(shape.id);
+  });
+});
+
+// A layout document, or a CSV of seats (name, type, hasMonitor, cluster) to add or update on the floor
+export const importLayoutSchema = z.discriminatedUnion("format", [
+  z.object({
+    format: z.literal("json"),
+    floorId: z.string().min(1),
+    dryRun: z.boolean().default(false),
+    document: layoutDocumentSchema,
+  }),
+  z.object({
+    format: z.literal("csv"),
+    floorId: z.string().min(1),
+    dryRun: z.boolean().default(false),
+    csv: z.string().min(1).max(1_000_000),
+  }),
+]);
+
+// Roughly 4 MB of image once base64 encoded
+export const MAX_BACKGROUND_IMAGE_LENGTH = 5_500_000;
+
+export const saveFloorBackgroundSchema = z.object({
+  // Omitted to only move or rescale the current image
+  imageData: z
+    .string()
+    .max(MAX_BACKGROUND_IMAGE_LENGTH, "Image is too large")
+    .regex(/^data:image\/(png|svg\+xml);base64,[A-Za-z0-9+/=]+$/, "Expected a PNG or SVG image")
+    .optional(),
+  width: z.number().int().min(1).max(20000).optional(),
+  height: z.number().int().min(1).max(20000).optional(),
+  positionX: z.number().int().default(0),
+  positionY: z.number().int().default(0),
+  scale: z.number().min(0.05).max(10).default(1),
+  opacity: z.number().min(0.05).max(1).default(0.6),
+}).refine(bg => !bg.imageData || (bg.width && bg.height), {
+  message: "Image width and height are required with a new image",
+  path: ["width"],
+});
+
+export const publishLayoutDraftSchema = z.object({
+  effectiveDate: isoDate.optional(), // today or omitted = publish now
+  note: z.string().max(200).nullable().optional(),
+});
+
+export const reassignBookingSchema = z.object({
+  seatId: z.string().min(1),
+});
+
+// Site and floor schemas
+export const createSiteSchema = z.object({
+  name: z.string().min(1).max(100),
+});
+
+export const updateSiteSchema = createSiteSchema.partial();
+
+export const createFloorSchema = z.object({
+  name: z.string().min(1).max(100),
+  level: z.number().int().default(0),
+});
+
+export const updateFloorSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  level: z.number().int().optional(),
+});
+
+export const updateUserPreferencesSchema = z.object({
+  defaultFloorId: z.string().min(1).nullable().optional(),
+  emailConfirmations: z.boolean().optional(),
+  emailBookingChanges: z.boolean().optional(),
+  emailReminders: z.boolean().optional(),
+});
+
+// Webhook schemas
+export const createWebhookSchema = z.object({
+  url: z.string().url().max(2000).refine(url => /^https?:\/\//i.test(url), "URL must use http or https"),
+  description: z.string().max(200).nullable().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Choose at least one event"),
+  isActive: z.boolean().optional(),
+});
+
+export const updateWebhookSchema = createWebhookSchema.partial();
+
 // Types
+export type Site = typeof sites.$inferSelect;
+export type InsertSite = typeof sites.$inferInsert;
+export type Floor = typeof floors.$inferSelect;
+export type InsertFloor = typeof floors.$inferInsert;
+export type SiteWithFloors = Site & { floors: Floor[] };
+export type SaveLayout = z.infer<typeof saveLayoutSchema>;
+export type LayoutSnapshot = z.infer<typeof layoutSnapshotSchema>;
+export type LayoutRevision = typeof layoutRevisions.$inferSelect;
+export type InsertLayoutRevision = typeof layoutRevisions.$inferInsert;
+export type LayoutRevisionStatus = LayoutRevision["status"];
+// Revision list entries leave out the snapshot itself
+export type LayoutRevisionSummary = Omit<LayoutRevision, "snapshot"> & { clusterCount: number; seatCount: number };
+export type LayoutDiff = {
+  clusters: { added: string[]; removed: string[]; changed: string[] };
+  seats: {
+    added: string[];
+    removed: string[];
+    changed: { id: string; name: string; fields: string[] }[];
+  };
+  shapes: { added: string[]; removed: string[]; changed: string[] };
+};
+export type LayoutShape = typeof layoutShapes.$inferSelect;
+export type LayoutShapeKind = LayoutShape["kind"];
+export type FloorBackground = typeof floorBackgrounds.$inferSelect;
+export type SaveFloorBackground = z.infer<typeof saveFloorBackgroundSchema>;
+export type LayoutDocument = z.infer<typeof layoutDocumentSchema>;
+export type ImportLayout = z.infer<typeof importLayoutSchema>;
+export type LayoutImportResult = {
+  dryRun: boolean;
+  changes: LayoutDiff;
+  flaggedBookings: number; // upcoming bookings on seats the import removes
+  revision?: LayoutRevision; // the published revision, unless this was a dry run
+};
+export type FlaggedBooking = Booking & { seatName: string; floorId: string | null };
+export type FloorLayout = {
+  floorId: string;
+  revision: number;
+  clusters: Cluster[];
+  seats: Seat[];
+  shapes: LayoutShape[];
+};
+export type UserPreferences = typeof userPreferences.$inferSelect;
+export type UpdateUserPreferences = z.infer<typeof updateUserPreferencesSchema>;
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+export type CreateWebhook = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type WebhookDeliveryStatus = WebhookDelivery["status"];
+// Body of every webhook request; id identifies the event across all webhooks it was sent to
+export type WebhookPayload = {
+  id: string;
+  event: WebhookEvent | "ping";
+  createdAt: string;
+  data: Record<string, unknown>;
+};
+// Subscription address of a user's iCalendar feed of their bookings
+export type CalendarFeed = { url: string };
 export type Seat = typeof seats.$inferSelect;
 export type InsertSeat = z.infer<typeof insertSeatSchema>;
 export type Booking = typeof bookings.$inferSelect;
-export type InsertBooking = z.infer<typeof insertBookingSchema>;
+export type InsertBooking = typeof bookings.$inferInsert;
 export type BulkBooking = z.infer<typeof bulkBookingSchema>;
+export type BookingFilter = z.infer<typeof bookingFilterSchema>;
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+export type AnalyticsPeriod = AnalyticsQuery["groupBy"];
+// Occupancy is booked seat-slots over bookable seat-slots on open days; null when nothing was bookable
+export type Utilisation = { booked: number; capacity: number; occupancy: number | null };
+export type AnalyticsSummary = Utilisation & {
+  bookableSeats: number;
+  cancelled: number; // by the user or an admin; closures are not counted
+  noShows: number;
+  cancellationRate: number | null;
+  noShowRate: number | null;
+  averageLeadDays: number | null;
+  neverUsedSeats: number; // bookable seats without a booking in the range
+};
+export type OccupancyPoint = Utilisation & { period: string }; // first day of the day, week or month
+export type WeekdayDemand = Utilisation & { weekday: number }; // 0 = Sunday ... 6 = Saturday
+export type ClusterUtilisation = Utilisation & { clusterId: string | null; label: string; seats: number };
+export type SeatUtilisation = Utilisation & {
+  seatId: string;
+  name: string;
+  floorId: string | null;
+  clusterId: string | null;
+  hasMonitor: boolean;
+  bookable: boolean; // blocked and long-term reserved seats have no capacity
+  lastBookedDate: string | null;
+  cancelled: number;
+  noShows: number;
+  cancellationRate: number | null;
+  noShowRate: number | null;
+};
+export type MonitorDemand = Utilisation & { hasMonitor: boolean; seats: number };
+export type LeadTimeBucket = { label: string; minDays: number; maxDays: number | null; bookings: number };
+export type BookingPage = {
+  bookings: Booking[]; // ordered by date, then slot
+  total: number; // bookings matching the filter across all pages
+};
+export type BookingSeries = typeof bookingSeries.$inferSelect;
+export type InsertBookingSeries = typeof bookingSeries.$inferInsert;
+export type CreateBookingSeries = z.infer<typeof createBookingSeriesSchema>;
+export type SeriesConflict = {
+  date: string;
+  slot: "AM" | "PM";
+  reason: string;
+};
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = typeof waitlistEntries.$inferInsert;
+export type WaitlistStatus = WaitlistEntry["status"];
+export type BookingPolicies = typeof bookingPolicies.$inferSelect;
+export type UpdateBookingPolicies = z.infer<typeof updateBookingPoliciesSchema>;
+// Rules a booking request can break; policy codes are answered with 422, seat/slot codes with 409
+export type PolicyViolationCode =
+  | "PAST_DATE"
+  | "BEYOND_ADVANCE_WINDOW"
+  | "WEEKEND"
+  | "HOLIDAY"
+  | "OFFICE_CLOSED"
+  | "WEEKLY_QUOTA_EXCEEDED"
+  | "SLOT_SEAT_LIMIT_EXCEEDED";
+export type BookingViolationCode =
+  | PolicyViolationCode
+  | "SEAT_NOT_FOUND"
+  | "SEAT_BLOCKED"
+  | "SEAT_RESERVED"
+  | "SLOT_TAKEN";
+export type BookingViolation = {
+  code: BookingViolationCode;
+  message: string;
+  seatId?: string;
+  date?: string;
+  slot?: "AM" | "PM";
+};
+export type Closure = typeof closures.$inferSelect;
+export type InsertClosure = typeof closures.$inferInsert;
+export type CreateClosure = z.infer<typeof createClosureSchema>;
+export type ClosureType = Closure["type"];
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
 export type UserRole = typeof userRoles.$inferSelect;
 export type InsertUserRole = z.infer<typeof insertUserRoleSchema>;
+export type UpdateUserStatus = z.input<typeof updateUserStatusSchema>;
+export type DeactivationSummary = {
+  cancelledBookings: number;
+  endedSeries: number;
+  cancelledWaitlistEntries: number;
+  releasedSeats: string[];
+};
+export type UserStatusResult = UserRole & { deactivation?: DeactivationSummary };
 export type Cluster = typeof clusters.$inferSelect;
 export type InsertCluster = z.infer<typeof insertClusterSchema>;
+export type CancellationReason = "user" | "admin" | "no_show" | "closure";
+export type NoShowStats = {
+  userId: string;
+  userName: string | null;
+  userEmail: string | null;
+  totalBookings: number;
+  checkedIn: number;
+  noShows: number;
+  noShowRate: number;
+};
 export type TimeSlot = "AM" | "PM";
 export type SeatType = "solo" | "team_cluster";
 export type Role = "employee" | "admin";
+// Groups of cached API data a server-sent change event tells clients to refetch
+export type RealtimeTopic = "bookings" | "seats" | "clusters" | "layout";
+export type RealtimeEvent = { topics: RealtimeTopic[] };